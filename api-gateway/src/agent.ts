@@ -0,0 +1,165 @@
+// api-gateway/src/agent.ts
+
+import type { LLMRouter, LLMUsage } from "./llm.js";
+import { MCPClientError, type FlightServerClient, type MCPSessionRef } from "./mcpClient.js";
+import { logger } from "./observability/logger.js";
+import type { AgentMessage, ChatMessage, ToolCall, ToolDefinition } from "./types.js";
+
+// 모델에 돌려주는 도구 결과 텍스트 최대 길이
+const MAX_TOOL_RESULT_CHARS = 6000;
+
+export interface AgentTool {
+  definition: ToolDefinition;
+  run(args: Record<string, unknown>): Promise<unknown>;
+  // 모델에 돌려줄 결과 텍스트 (기본값: 길이 제한된 JSON)
+  describe?(result: unknown): string;
+}
+
+export interface AgentToolResult {
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: string; message: string };
+}
+
+export interface AgentRun {
+  message: string;
+  toolResults: AgentToolResult[];
+  steps: number;
+  // LLM 호출별 토큰 사용량/지연 시간
+  usage: LLMUsage[];
+}
+
+// 스트리밍 응답에서 진행 상황을 전달하기 위한 콜백
+export interface AgentHooks {
+  onText?: (delta: string) => void;
+  onToolCall?: (call: ToolCall) => void;
+  onToolResult?: (result: AgentToolResult) => void;
+}
+
+export interface AgentDeps {
+  llm: LLMRouter;
+  // 한 턴에서 허용하는 LLM ↔ 도구 왕복 횟수 (chat.agentMaxSteps)
+  maxSteps: number;
+}
+
+export interface McpAgentToolOptions {
+  // MCP 도구별 인자 기본값/보정 (예: search_flights 의 pageSize)
+  prepare?: Record<string, (args: Record<string, unknown>) => Record<string, unknown>>;
+  describe?: Record<string, (result: unknown) => string>;
+  // 도구 호출에 사용할 MCP 세션 (대화 세션별로 유지)
+  session?: MCPSessionRef;
+  // 모델에 직접 노출하지 않을 MCP 도구 (예: 사용자 확인이 필요한 create_order)
+  exclude?: string[];
+  // 게이트웨이가 정하는 인자 (예: 요청한 테넌트): 입력 스키마에 있는 도구에만 채우고 모델에는 숨김, 모델이 보낸 값은 덮어씀
+  scope?: Record<string, unknown>;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TOOL_RESULT_CHARS ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}…(truncated)` : text;
+}
+
+// MCP inputSchema(JSON Schema) 에서 LLM 이 받지 않는 메타 필드와 게이트웨이가 채우는 인자 제거
+function toParameters(schema: Record<string, any>, hidden: string[]): Record<string, any> {
+  const { $schema, definitions, ...parameters } = schema;
+  if (hidden.length === 0) return { type: "object", ...parameters };
+
+  const properties = Object.fromEntries(Object.entries(parameters.properties ?? {}).filter(([name]) => !hidden.includes(name)));
+  const required = (parameters.required as string[] | undefined)?.filter((name) => !hidden.includes(name));
+  return { type: "object", ...parameters, properties, ...(required ? { required } : {}) };
+}
+
+/**
+ * 플라이트 서버의 MCP 도구(tools/list)를 에이전트 도구로 변환
+ * 서버에 도구가 추가되면 게이트웨이 수정 없이 모델이 바로 사용할 수 있음
+ */
+export async function loadMcpAgentTools(flightServer: FlightServerClient, options: McpAgentToolOptions = {}): Promise<AgentTool[]> {
+  const descriptors = await flightServer.listTools();
+
+  return descriptors
+    .filter((descriptor) => !options.exclude?.includes(descriptor.name))
+    .map((descriptor) => {
+      const scope = Object.entries(options.scope ?? {}).filter(([name]) => name in (descriptor.inputSchema.properties ?? {}));
+      return {
+        definition: {
+          name: descriptor.name,
+          description: descriptor.description,
+          parameters: toParameters(descriptor.inputSchema, scope.map(([name]) => name)),
+        },
+        run: (args) =>
+          flightServer.callTool(descriptor.name, { ...(options.prepare?.[descriptor.name]?.(args) ?? args), ...Object.fromEntries(scope) }, options.session),
+        describe: options.describe?.[descriptor.name],
+      };
+    });
+}
+
+/**
+ * 도구 하나 실행 → 기록용 결과와 모델에 돌려줄 텍스트
+ * 도구 실패는 모델이 읽고 대응(다른 날짜 제안 등)할 수 있도록 에러 대신 결과로 전달
+ */
+export async function executeTool(
+  tool: AgentTool | undefined,
+  call: ToolCall,
+  hooks: AgentHooks = {}
+): Promise<{ result: AgentToolResult; content: string; isError: boolean }> {
+  let result: AgentToolResult;
+  let content: string;
+  hooks.onToolCall?.(call);
+
+  try {
+    if (!tool) throw new MCPClientError("UNKNOWN_TOOL", `Unknown tool: ${call.name}`);
+    const output = await tool.run(call.arguments);
+    result = { name: call.name, arguments: call.arguments, result: output };
+    content = truncate(tool.describe ? tool.describe(output) : JSON.stringify(output));
+  } catch (error) {
+    const code = error instanceof MCPClientError ? error.code : "TOOL_ERROR";
+    const message = error instanceof Error ? error.message : String(error);
+    result = { name: call.name, arguments: call.arguments, error: { code, message } };
+    content = JSON.stringify({ error: { code, message } });
+  }
+
+  hooks.onToolResult?.(result);
+  logger.debug({ tool: call.name, error: result.error?.code, content: content.slice(0, 200) }, "도구 결과");
+  return { result, content, isError: !!result.error };
+}
+
+/**
+ * 도구 호출 에이전트 루프
+ * 모델이 도구를 요청하면 실행해서 결과를 돌려주고, 최종 답변(도구 호출 없는 응답)이 나올 때까지 반복
+ * maxSteps 에 도달하면 도구 호출을 막고 한 번 더 호출해서 답변을 마무리
+ */
+export async function runAgent(
+  { llm, maxSteps }: AgentDeps,
+  system: string,
+  messages: ChatMessage[],
+  tools: AgentTool[],
+  hooks: AgentHooks = {}
+): Promise<AgentRun> {
+  const toolsByName = new Map(tools.map((tool) => [tool.definition.name, tool]));
+  const definitions = tools.map((tool) => tool.definition);
+  const conversation: AgentMessage[] = [{ role: "system", content: system }, ...messages.filter((m) => m.role !== "system")];
+  const toolResults: AgentToolResult[] = [];
+  const usage: LLMUsage[] = [];
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const turn = await llm.chatWithTools(conversation, definitions, { task: "agent", onText: hooks.onText });
+    if (turn.usage) usage.push(turn.usage);
+
+    if (turn.toolCalls.length === 0) {
+      return { message: turn.text, toolResults, steps: step, usage };
+    }
+
+    conversation.push({ role: "assistant", content: turn.text, toolCalls: turn.toolCalls });
+
+    for (const call of turn.toolCalls) {
+      const { result, content, isError } = await executeTool(toolsByName.get(call.name), call, hooks);
+      toolResults.push(result);
+      conversation.push({ role: "tool", toolCallId: call.id, name: call.name, content, isError });
+    }
+  }
+
+  logger.warn({ maxSteps }, "에이전트 최대 단계 도달, 도구 없이 답변 생성");
+  const final = await llm.chatWithTools(conversation, definitions, { task: "agent", toolChoice: "none", onText: hooks.onText });
+  if (final.usage) usage.push(final.usage);
+  return { message: final.text, toolResults, steps: maxSteps + 1, usage };
+}
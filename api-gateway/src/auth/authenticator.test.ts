@@ -0,0 +1,105 @@
+// api-gateway/src/auth/authenticator.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { AuthError, createAuthenticator } from "./authenticator.js";
+import { createMemoryApiKeyStore, issueApiKey } from "./keyStore.js";
+import { configureLogger } from "../observability/logger.js";
+import type { UsageLimits } from "../types.js";
+
+configureLogger({ level: "silent" });
+
+const LIMITS: UsageLimits = { requestsPerMinute: 100, searchesPerDay: 1000, llmTokensPerDay: 200000 };
+const SECRET = "test-secret";
+const CONFIG = { adminApiKey: "admin-key", jwtSecret: SECRET, jwtIssuer: "issuer", jwtAudience: undefined, enabled: undefined, failuresPerMinute: 20 };
+
+function base64url(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+// exp 를 지정하지 않으면 1시간 뒤 만료 (exp: undefined 로 빼면 exp 없는 토큰)
+function signJwt(claims: object, { secret = SECRET, alg = "HS256" } = {}): string {
+  const unsigned = `${base64url({ alg, typ: "JWT" })}.${base64url({ exp: Math.floor(Date.now() / 1000) + 3600, ...claims })}`;
+  return `${unsigned}.${createHmac("sha256", secret).update(unsigned).digest("base64url")}`;
+}
+
+function rejectsWith(code: AuthError["code"]) {
+  return (error: unknown) => error instanceof AuthError && error.code === code;
+}
+
+describe("인증", () => {
+  it("관리자 키나 JWT 비밀이 없으면 인증 없이 IP 별 주체", async () => {
+    const auth = createAuthenticator(createMemoryApiKeyStore(), { adminApiKey: "", jwtSecret: "", failuresPerMinute: 20 }, LIMITS);
+    assert.equal(auth.enabled, false);
+    const principal = await auth.authenticate({}, "10.0.0.1");
+    assert.equal(principal.kind, "anonymous");
+    assert.equal(principal.tenant, "ip:10.0.0.1");
+    assert.equal(principal.limits.searchesPerDay, Infinity);
+  });
+
+  it("자격 증명이 없으면 401", async () => {
+    const auth = createAuthenticator(createMemoryApiKeyStore(), CONFIG, LIMITS);
+    await assert.rejects(auth.authenticate({}, "ip"), rejectsWith("UNAUTHORIZED"));
+  });
+
+  it("관리자 키", async () => {
+    const auth = createAuthenticator(createMemoryApiKeyStore(), CONFIG, LIMITS);
+    const principal = await auth.authenticate({ "x-api-key": "admin-key" }, "ip");
+    assert.equal(principal.admin, true);
+  });
+
+  it("발급한 API 키 (X-API-Key, Bearer), 폐기/모르는 키는 401", async () => {
+    const keys = createMemoryApiKeyStore();
+    const auth = createAuthenticator(keys, CONFIG, LIMITS);
+    const limits = { ...LIMITS, searchesPerDay: 5 };
+    const { apiKey, key } = await issueApiKey(keys, { name: "app", tenant: "acme", limits });
+
+    for (const headers of [{ "x-api-key": key }, { authorization: `Bearer ${key}` }]) {
+      const principal = await auth.authenticate(headers, "ip");
+      assert.deepEqual([principal.kind, principal.id, principal.tenant, principal.admin], ["api_key", apiKey.id, "acme", false]);
+      assert.deepEqual(principal.limits, limits);
+    }
+
+    await assert.rejects(auth.authenticate({ "x-api-key": "fsk_unknown" }, "ip"), rejectsWith("UNAUTHORIZED"));
+    await keys.save({ ...apiKey, revokedAt: new Date().toISOString() });
+    await assert.rejects(auth.authenticate({ "x-api-key": key }, "ip"), /폐기된/);
+  });
+
+  it("JWT: sub/tenant/role claim", async () => {
+    const auth = createAuthenticator(createMemoryApiKeyStore(), CONFIG, LIMITS);
+    const user = await auth.authenticate({ authorization: `Bearer ${signJwt({ sub: "u1", tenant: "acme", iss: "issuer" })}` }, "ip");
+    assert.deepEqual([user.kind, user.id, user.tenant, user.admin], ["jwt", "jwt:u1", "acme", false]);
+
+    const admin = await auth.authenticate({ authorization: `Bearer ${signJwt({ sub: "ops", role: "admin", iss: "issuer" })}` }, "ip");
+    assert.deepEqual([admin.tenant, admin.admin], ["ops", true]);
+  });
+
+  it("JWT: 서명/알고리즘/만료/발급자가 맞지 않거나, exp 가 없거나, 관리자 테넌트를 쓰면 401", async () => {
+    const auth = createAuthenticator(createMemoryApiKeyStore(), CONFIG, LIMITS);
+    const now = Math.floor(Date.now() / 1000);
+    const invalid = [
+      signJwt({ sub: "u1", iss: "issuer" }, { secret: "other" }),
+      signJwt({ sub: "u1", iss: "issuer" }, { alg: "none" }),
+      signJwt({ sub: "u1", iss: "issuer", exp: now - 3600 }),
+      signJwt({ sub: "u1", iss: "issuer", exp: undefined }),
+      signJwt({ sub: "u1", tenant: "admin", iss: "issuer" }),
+      signJwt({ sub: "u1", iss: "someone-else" }),
+      signJwt({ iss: "issuer" }),
+    ];
+    for (const token of invalid) {
+      await assert.rejects(auth.authenticate({ authorization: `Bearer ${token}` }, "ip"), rejectsWith("UNAUTHORIZED"));
+    }
+  });
+
+  it("한 IP 에서 인증 실패가 분당 한도를 넘으면 올바른 키도 확인하지 않고 429 (다른 IP 는 그대로)", async () => {
+    const auth = createAuthenticator(createMemoryApiKeyStore(), { ...CONFIG, failuresPerMinute: 3 }, LIMITS);
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await assert.rejects(auth.authenticate({ "x-api-key": `fsk_guess${attempt}` }, "10.0.0.1"), rejectsWith("UNAUTHORIZED"));
+    }
+    await assert.rejects(auth.authenticate({ "x-api-key": "fsk_guess3" }, "10.0.0.1"), rejectsWith("RATE_LIMITED"));
+    await assert.rejects(auth.authenticate({ "x-api-key": "admin-key" }, "10.0.0.1"), (error) => error instanceof AuthError && error.statusCode === 429);
+
+    assert.equal((await auth.authenticate({ "x-api-key": "admin-key" }, "10.0.0.2")).admin, true);
+  });
+});
@@ -0,0 +1,155 @@
+// api-gateway/src/auth/authenticator.ts
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+import { hashApiKey, type ApiKeyStore } from "./keyStore.js";
+import { verifyJwt } from "./jwt.js";
+import { logger } from "../observability/logger.js";
+import type { AuthConfig } from "../config.js";
+import type { Principal, UsageLimits } from "../types.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    principal: Principal;
+  }
+}
+
+/**
+ * 인증/권한/쿼터 실패 (게이트웨이 응답: { error, code })
+ */
+export class AuthError extends Error {
+  constructor(
+    public readonly code: "UNAUTHORIZED" | "FORBIDDEN" | "QUOTA_EXCEEDED" | "RATE_LIMITED",
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+// 관리자 키 주체의 테넌트: API 키/일반 JWT 주체는 이 테넌트를 쓸 수 없음 (관리자가 만든 가격 알림/예약/세션에 접근하지 않도록)
+export const ADMIN_TENANT = "admin";
+
+export interface Authenticator {
+  enabled: boolean;
+  authenticate(headers: IncomingHttpHeaders, ip: string): Promise<Principal>;
+}
+
+// 길이가 달라도 비교 시간이 같도록 해시끼리 비교
+function sameSecret(a: string, b: string): boolean {
+  return timingSafeEqual(createHash("sha256").update(a).digest(), createHash("sha256").update(b).digest());
+}
+
+// X-API-Key 또는 Authorization: Bearer <API 키 | JWT>
+function credentialFrom(headers: IncomingHttpHeaders): string | undefined {
+  const apiKey = headers["x-api-key"];
+  if (typeof apiKey === "string" && apiKey.trim()) return apiKey.trim();
+  const [scheme, token] = (headers.authorization ?? "").split(" ");
+  return scheme?.toLowerCase() === "bearer" && token ? token.trim() : undefined;
+}
+
+/**
+ * IP 별 1분 단위 인증 실패 횟수
+ * 인증 실패는 주체별 요청 한도(@fastify/rate-limit) 보다 먼저 응답되므로 여기서 따로 제한
+ */
+function createFailureCounter(maxPerMinute: number) {
+  const failures = new Map<string, { window: number; count: number }>();
+  const currentWindow = () => Math.floor(Date.now() / 60000);
+
+  return {
+    blocked(ip: string): boolean {
+      const entry = failures.get(ip);
+      return !!entry && entry.window === currentWindow() && entry.count >= maxPerMinute;
+    },
+    record(ip: string): void {
+      const window = currentWindow();
+      const entry = failures.get(ip);
+      if (entry?.window === window) {
+        entry.count++;
+        return;
+      }
+      // 새 구간이 시작되면 지난 기록 정리
+      for (const [stale, record] of failures) {
+        if (record.window !== window) failures.delete(stale);
+      }
+      failures.set(ip, { window, count: 1 });
+    },
+  };
+}
+
+/**
+ * 요청 인증 → Principal
+ * - ADMIN_API_KEY: /admin 경로를 쓸 수 있는 관리자 키
+ * - 발급한 API 키 (fsk_...): 키별 분당 요청 한도, 테넌트별 하루 쿼터
+ * - JWT_SECRET 이 설정되면 HS256 JWT (sub/tenant/role claim)
+ * AUTH_ENABLED 를 지정하지 않으면 ADMIN_API_KEY 나 JWT_SECRET 이 있을 때만 인증을 요구 (로컬 개발은 그대로 동작)
+ * 관리자/JWT 주체와 인증이 꺼졌을 때의 한도는 limits (설정의 기본 한도)
+ * 한 IP 에서 1분 안에 config.failuresPerMinute 번 실패하면 그 1분이 끝날 때까지 429 RATE_LIMITED
+ */
+export function createAuthenticator(keys: ApiKeyStore, config: AuthConfig, limits: UsageLimits): Authenticator {
+  const { adminApiKey: adminKey, jwtSecret } = config;
+  const enabled = config.enabled ?? !!(adminKey || jwtSecret);
+  const failures = createFailureCounter(config.failuresPerMinute);
+
+  if (enabled) {
+    logger.info({ jwt: !!jwtSecret, adminKey: !!adminKey }, "인증: API 키");
+  } else {
+    logger.warn("인증 비활성화 (ADMIN_API_KEY/JWT_SECRET 미설정) - 클라이언트 IP 별 요청 한도만 적용");
+  }
+
+  const verify = async (headers: IncomingHttpHeaders): Promise<Principal> => {
+    const credential = credentialFrom(headers);
+    if (!credential) {
+      throw new AuthError("UNAUTHORIZED", "API 키가 필요합니다 (X-API-Key 또는 Authorization: Bearer)", 401);
+    }
+
+    if (adminKey && sameSecret(credential, adminKey)) {
+      return { kind: "admin", id: "admin", tenant: ADMIN_TENANT, admin: true, limits };
+    }
+
+    if (jwtSecret && credential.split(".").length === 3) {
+      try {
+        const claims = verifyJwt(credential, { secret: jwtSecret, issuer: config.jwtIssuer, audience: config.jwtAudience });
+        if (!claims.sub) throw new Error("JWT 에 sub 가 없습니다");
+        const tenant = claims.tenant ?? claims.sub;
+        if (tenant === ADMIN_TENANT && claims.role !== "admin") throw new Error(`관리자 전용 테넌트(${ADMIN_TENANT})는 사용할 수 없습니다`);
+        return { kind: "jwt", id: `jwt:${claims.sub}`, tenant, admin: claims.role === "admin", limits };
+      } catch (error) {
+        throw new AuthError("UNAUTHORIZED", error instanceof Error ? error.message : "JWT 검증 실패", 401);
+      }
+    }
+
+    const apiKey = await keys.findByHash(hashApiKey(credential));
+    if (!apiKey || apiKey.revokedAt) {
+      throw new AuthError("UNAUTHORIZED", apiKey ? "폐기된 API 키입니다" : "유효하지 않은 API 키입니다", 401);
+    }
+    return { kind: "api_key", id: apiKey.id, tenant: apiKey.tenant, admin: false, limits: apiKey.limits };
+  };
+
+  return {
+    enabled,
+    async authenticate(headers, ip) {
+      if (!enabled) {
+        // 인증이 없으면 IP 별 분당 한도만 (하루 쿼터 없음)
+        return {
+          kind: "anonymous",
+          id: ip,
+          tenant: `ip:${ip}`,
+          admin: false,
+          limits: { ...limits, searchesPerDay: Infinity, llmTokensPerDay: Infinity },
+        };
+      }
+
+      if (failures.blocked(ip)) {
+        throw new AuthError("RATE_LIMITED", "인증 실패가 너무 많습니다. 잠시 후 다시 시도하세요", 429);
+      }
+      try {
+        return await verify(headers);
+      } catch (error) {
+        if (error instanceof AuthError) failures.record(ip);
+        throw error;
+      }
+    },
+  };
+}
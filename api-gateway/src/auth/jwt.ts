@@ -0,0 +1,75 @@
+// api-gateway/src/auth/jwt.ts
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+export interface JwtClaims {
+  sub?: string;
+  // 쿼터를 공유하는 테넌트 (없으면 sub)
+  tenant?: string;
+  // "admin" 이면 /admin 경로 사용 가능
+  role?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+}
+
+export interface JwtOptions {
+  secret: string;
+  issuer?: string;
+  audience?: string;
+}
+
+// 시계 오차 허용 (초)
+const CLOCK_SKEW_SECONDS = 30;
+
+function decodePart<T>(part: string): T {
+  return JSON.parse(Buffer.from(part, "base64url").toString("utf8")) as T;
+}
+
+/**
+ * HS256 JWT 검증 → claims (실패하면 이유를 담은 Error)
+ * 다른 알고리즘(none 포함)과 만료 시각(exp)이 없는 토큰은 받지 않음 (유출되면 영원히 쓸 수 있으므로)
+ */
+export function verifyJwt(token: string, { secret, issuer, audience }: JwtOptions): JwtClaims {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature) {
+    throw new Error("JWT 형식이 아닙니다");
+  }
+
+  let alg: string | undefined;
+  let claims: JwtClaims;
+  try {
+    alg = decodePart<{ alg?: string }>(header).alg;
+    claims = decodePart<JwtClaims>(payload);
+  } catch {
+    throw new Error("JWT 를 해석할 수 없습니다");
+  }
+  if (alg !== "HS256") {
+    throw new Error(`지원하지 않는 JWT 알고리즘입니다: ${alg}`);
+  }
+
+  const expected = createHmac("sha256", secret).update(`${header}.${payload}`).digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Error("JWT 서명이 올바르지 않습니다");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof claims.exp !== "number") {
+    throw new Error("만료 시각(exp)이 없는 JWT 는 사용할 수 없습니다");
+  }
+  if (claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error("만료된 JWT 입니다");
+  }
+  if (claims.nbf !== undefined && claims.nbf - CLOCK_SKEW_SECONDS > now) {
+    throw new Error("아직 사용할 수 없는 JWT 입니다");
+  }
+  if (issuer && claims.iss !== issuer) {
+    throw new Error("JWT 발급자(iss)가 일치하지 않습니다");
+  }
+  if (audience && !(Array.isArray(claims.aud) ? claims.aud : [claims.aud]).includes(audience)) {
+    throw new Error("JWT 대상(aud)이 일치하지 않습니다");
+  }
+  return claims;
+}
@@ -0,0 +1,62 @@
+// api-gateway/src/auth/keyStore.test.ts
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createFileApiKeyStore, issueApiKey } from "./keyStore.js";
+
+const LIMITS = { requestsPerMinute: 100, searchesPerDay: 1000, llmTokensPerDay: 200000 };
+
+const dirs: string[] = [];
+async function tempFile(): Promise<string> {
+  const dir = await mkdtemp(path.join(tmpdir(), "api-keys-"));
+  dirs.push(dir);
+  return path.join(dir, "keys.json");
+}
+
+after(async () => {
+  await Promise.all(dirs.map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+describe("파일 API 키 저장소", () => {
+  it("파일이 없으면 빈 저장소, 저장한 키는 다시 열어도 남아 있음", async () => {
+    const file = await tempFile();
+    const store = createFileApiKeyStore(file);
+    await store.ready();
+    assert.deepEqual(await store.list(), []);
+
+    const { apiKey } = await issueApiKey(store, { name: "app", tenant: "acme", limits: LIMITS });
+    const reopened = createFileApiKeyStore(file);
+    await reopened.ready();
+    assert.deepEqual(await reopened.get(apiKey.id), apiKey);
+  });
+
+  it("파일이 깨져 있으면 ready 가 실패하고 파일은 그대로", async () => {
+    const file = await tempFile();
+    const broken = '[{"id": "k1", "tenant": "acme"},]';
+    await writeFile(file, broken, "utf8");
+
+    const store = createFileApiKeyStore(file);
+    await assert.rejects(store.ready(), /API 키 파일을 해석할 수 없습니다/);
+    await assert.rejects(issueApiKey(store, { name: "app", tenant: "acme", limits: LIMITS }));
+    assert.equal(await readFile(file, "utf8"), broken);
+  });
+
+  it("배열이 아니면 ready 실패", async () => {
+    const file = await tempFile();
+    await writeFile(file, '{"keys": []}', "utf8");
+    await assert.rejects(createFileApiKeyStore(file).ready(), /배열이어야/);
+  });
+
+  it("동시에 발급해도 모든 키가 파일에 남고 임시 파일은 남지 않음", async () => {
+    const file = await tempFile();
+    const store = createFileApiKeyStore(file);
+    const issued = await Promise.all(Array.from({ length: 10 }, (_, i) => issueApiKey(store, { name: `app-${i}`, tenant: "acme", limits: LIMITS })));
+
+    const saved = JSON.parse(await readFile(file, "utf8")) as { id: string }[];
+    assert.deepEqual(saved.map((key) => key.id).sort(), issued.map(({ apiKey }) => apiKey.id).sort());
+    assert.deepEqual(await readdir(path.dirname(file)), ["keys.json"]);
+  });
+});
@@ -0,0 +1,152 @@
+// api-gateway/src/auth/keyStore.ts
+
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { v4 as uuidv4 } from "uuid";
+import { logger } from "../observability/logger.js";
+import type { ApiKeyStoreConfig } from "../config.js";
+import type { ApiKey, UsageLimits } from "../types.js";
+
+/**
+ * API 키 저장소 인터페이스 (인메모리 / 파일)
+ * 원래 키는 저장하지 않고 sha256 해시로만 찾음
+ */
+export interface ApiKeyStore {
+  kind: "memory" | "file";
+  // 저장된 키 로드 (파일을 읽을 수 없으면 예외) - 시작할 때 확인
+  ready(): Promise<void>;
+  list(): Promise<ApiKey[]>;
+  get(id: string): Promise<ApiKey | undefined>;
+  findByHash(keyHash: string): Promise<ApiKey | undefined>;
+  save(key: ApiKey): Promise<void>;
+}
+
+// 발급하는 키 형식: fsk_<base64url 32자>
+const KEY_PREFIX = "fsk_";
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function createMemoryApiKeyStore(): ApiKeyStore {
+  const keys = new Map<string, ApiKey>();
+
+  return {
+    kind: "memory",
+    async ready() {},
+    async list() {
+      return [...keys.values()].map((key) => structuredClone(key));
+    },
+    async get(id) {
+      const key = keys.get(id);
+      return key ? structuredClone(key) : undefined;
+    },
+    async findByHash(keyHash) {
+      const key = [...keys.values()].find((candidate) => candidate.keyHash === keyHash);
+      return key ? structuredClone(key) : undefined;
+    },
+    async save(key) {
+      keys.set(key.id, structuredClone(key));
+    },
+  };
+}
+
+async function readKeyFile(file: string): Promise<ApiKey[]> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (error) {
+    // 파일이 없으면 아직 발급한 키가 없는 것
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  let keys: unknown;
+  try {
+    keys = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`API 키 파일을 해석할 수 없습니다 (${file}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(keys)) {
+    throw new Error(`API 키 파일은 배열이어야 합니다 (${file})`);
+  }
+  return keys as ApiKey[];
+}
+
+/**
+ * 키 전체를 JSON 파일 하나로 저장 (요청마다 조회하므로 메모리에 올려두고 변경 시에만 파일 갱신)
+ * 임시 파일에 쓴 뒤 rename 해서 쓰는 도중 읽어도 깨진 파일이 보이지 않도록 함
+ * 파일을 읽을 수 없으면 빈 저장소로 시작하지 않음 (다음 발급 때 기존 키를 모두 덮어쓰게 되므로)
+ */
+export function createFileApiKeyStore(file: string): ApiKeyStore {
+  const memory = createMemoryApiKeyStore();
+  const ready = (async () => {
+    await mkdir(path.dirname(file), { recursive: true });
+    const keys = await readKeyFile(file);
+    await Promise.all(keys.map((key) => memory.save(key)));
+  })();
+  // 저장은 순서대로 (동시에 저장하면 먼저 만든 스냅샷이 나중에 rename 되어 새 키가 빠질 수 있음)
+  let writes: Promise<void> = Promise.resolve();
+
+  const persist = async () => {
+    const temp = `${file}.${process.pid}.${randomUUID()}.tmp`;
+    await writeFile(temp, JSON.stringify(await memory.list(), null, 2), "utf8");
+    await rename(temp, file);
+  };
+
+  return {
+    kind: "file",
+    ready: () => ready,
+    async list() {
+      await ready;
+      return memory.list();
+    },
+    async get(id) {
+      await ready;
+      return memory.get(id);
+    },
+    async findByHash(keyHash) {
+      await ready;
+      return memory.findByHash(keyHash);
+    },
+    async save(key) {
+      await ready;
+      await memory.save(key);
+      const write = writes.then(persist, persist);
+      writes = write.catch(() => undefined);
+      await write;
+    },
+  };
+}
+
+// apiKeys.store: memory | file (기본값 file: 발급한 키는 재시작 후에도 유효해야 함)
+export function createApiKeyStore(config: ApiKeyStoreConfig): ApiKeyStore {
+  if (config.store === "file") {
+    const file = path.resolve(config.file);
+    logger.info({ store: "file", file }, "API 키 저장소");
+    return createFileApiKeyStore(file);
+  }
+  logger.info({ store: "memory" }, "API 키 저장소");
+  return createMemoryApiKeyStore();
+}
+
+/**
+ * 새 API 키 발급 → 저장된 레코드와 원래 키 (원래 키는 다시 조회할 수 없음)
+ */
+export async function issueApiKey(
+  store: ApiKeyStore,
+  input: { name: string; tenant: string; limits: UsageLimits }
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const apiKey: ApiKey = {
+    id: uuidv4(),
+    name: input.name,
+    tenant: input.tenant,
+    keyHash: hashApiKey(key),
+    prefix: key.slice(0, KEY_PREFIX.length + 4),
+    limits: input.limits,
+    createdAt: new Date().toISOString(),
+  };
+  await store.save(apiKey);
+  return { apiKey, key };
+}
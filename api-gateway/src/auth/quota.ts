@@ -0,0 +1,57 @@
+// api-gateway/src/auth/quota.ts
+
+import type { Principal, TenantUsage } from "../types.js";
+
+export type QuotaKind = "searches" | "llmTokens";
+
+const LIMIT_FIELD = { searches: "searchesPerDay", llmTokens: "llmTokensPerDay" } as const;
+const QUOTA_LABEL: Record<QuotaKind, string> = { searches: "검색", llmTokens: "LLM 토큰" };
+
+export interface QuotaTracker {
+  // 오늘 남은 쿼터가 없으면 이유, 있으면 undefined
+  exceeded(principal: Principal, kinds: QuotaKind[]): string | undefined;
+  record(principal: Principal, usage: Partial<Record<QuotaKind, number>>): void;
+  usage(tenant?: string): TenantUsage[];
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * 테넌트별 하루 사용량 (UTC 날짜 기준, 인메모리 - 재시작하면 0부터)
+ * 같은 테넌트의 키들은 사용량을 공유하고, 한도는 요청한 키(또는 JWT)의 값을 적용
+ */
+export function createQuotaTracker(): QuotaTracker {
+  const usage = new Map<string, TenantUsage>();
+
+  const current = (tenant: string): TenantUsage => {
+    const date = today();
+    const key = `${date}:${tenant}`;
+    let entry = usage.get(key);
+    if (!entry) {
+      // 날짜가 바뀌면 지난 기록 정리
+      for (const [stale, record] of usage) {
+        if (record.date !== date) usage.delete(stale);
+      }
+      entry = { tenant, date, searches: 0, llmTokens: 0 };
+      usage.set(key, entry);
+    }
+    return entry;
+  };
+
+  return {
+    exceeded(principal, kinds) {
+      const entry = current(principal.tenant);
+      const kind = kinds.find((candidate) => entry[candidate] >= principal.limits[LIMIT_FIELD[candidate]]);
+      return kind ? `오늘 ${QUOTA_LABEL[kind]} 한도(${principal.limits[LIMIT_FIELD[kind]]})를 모두 사용했습니다` : undefined;
+    },
+    record(principal, { searches = 0, llmTokens = 0 }) {
+      const entry = current(principal.tenant);
+      entry.searches += searches;
+      entry.llmTokens += llmTokens;
+    },
+    usage(tenant) {
+      const date = today();
+      return [...usage.values()].filter((entry) => entry.date === date && (!tenant || entry.tenant === tenant)).map((entry) => ({ ...entry }));
+    },
+  };
+}
@@ -0,0 +1,71 @@
+// api-gateway/src/chatTurn.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createChatService } from "./chatTurn.js";
+import { createTravelCardService } from "./destinations/cards.js";
+import { loadConfig } from "./config.js";
+import { createLLMRouter, type LLMRouter } from "./llm.js";
+import { configureLogger, logger } from "./observability/logger.js";
+import type { FlightServerClient, MCPSessionRef } from "./mcpClient.js";
+import type { ChatSession } from "./types.js";
+
+configureLogger({ level: "silent" });
+
+const config = loadConfig({ LLM_PROVIDER: "stub" });
+
+// 첫 호출에서 list_price_watches 를 요청하고, 도구 결과를 받으면 답변하는 LLM
+function toolCallingRouter(): LLMRouter {
+  return {
+    ...createLLMRouter(config.llm),
+    async chatWithTools(messages) {
+      return messages.some((message) => message.role === "tool")
+        ? { text: "알림이 없습니다", toolCalls: [] }
+        : { text: "", toolCalls: [{ id: "call-1", name: "list_price_watches", arguments: {} }] };
+    },
+  };
+}
+
+// 도구 호출마다 넘어온 MCP 세션을 기록하는 플라이트 서버 클라이언트 (세션이 있으면 첫 호출에서 id 발급)
+function recordingFlightServer() {
+  const sessions: (MCPSessionRef | undefined)[] = [];
+  const client = {
+    async listTools() {
+      return [{ name: "list_price_watches", description: "List price watches", inputSchema: { type: "object", properties: { tenant: { type: "string" } } } }];
+    },
+    async callTool(_name: string, _args: Record<string, unknown>, session?: MCPSessionRef) {
+      sessions.push(session && { ...session });
+      if (session && !session.id) session.id = "mcp-1";
+      return { watches: [] };
+    },
+  } as unknown as FlightServerClient;
+  return { client, sessions };
+}
+
+function service(flightServer: FlightServerClient) {
+  const llm = toolCallingRouter();
+  return createChatService({ llm, flightServer, cards: createTravelCardService({ llm, config: config.cards }), config: config.chat });
+}
+
+describe("채팅 턴", () => {
+  it("대화 세션이 없으면 MCP 세션 없이 도구 호출 (요청마다 세션을 열지 않음)", async () => {
+    const { client, sessions } = recordingFlightServer();
+    const response = await service(client).runTurn({ messages: [{ role: "user", content: "내 알림 보여줘" }] }, logger);
+
+    assert.equal(response.message, "알림이 없습니다");
+    assert.deepEqual(sessions, [undefined]);
+  });
+
+  it("대화 세션이 있으면 MCP 세션을 이어서 사용하고 세션에 보관", async () => {
+    const { client, sessions } = recordingFlightServer();
+    const now = new Date().toISOString();
+    const session: ChatSession = { id: "s1", createdAt: now, updatedAt: now, messages: [] };
+    const chat = service(client);
+
+    await chat.runTurn({ message: "내 알림 보여줘" }, logger, { session });
+    assert.equal(session.mcpSessionId, "mcp-1");
+    await chat.runTurn({ message: "다시 보여줘" }, logger, { session });
+
+    assert.deepEqual(sessions, [{ id: undefined }, { id: "mcp-1" }]);
+  });
+});
@@ -0,0 +1,294 @@
+// api-gateway/src/chatTurn.ts
+
+import type { FastifyBaseLogger } from "fastify";
+import { summarizeFlightsForLLM, summarizeOfferPricingForLLM, summarizePriceCalendarForLLM } from "./flightSummary.js";
+import { createDialogue } from "./dialogue.js";
+import { loadMcpAgentTools, runAgent, type AgentHooks, type AgentRun } from "./agent.js";
+import { runRuleBasedTurn } from "./ruleBasedTurn.js";
+import { isValidTimeZone } from "./dates.js";
+import { compactHistory } from "./sessions/history.js";
+import { createShownOfferTool, describeShownResults } from "./sessions/references.js";
+import { confirmPendingBooking, createPrepareBookingTool, pendingActionView } from "./sessions/booking.js";
+import type { LLMRouter } from "./llm.js";
+import type { TravelCardService } from "./destinations/cards.js";
+import type { FlightServerClient, MCPSessionRef } from "./mcpClient.js";
+import type { ChatConfig } from "./config.js";
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatSession,
+  ChatStreamEvent,
+  FlightLeg,
+  FlightSearchResult,
+  OfferPricing,
+  PriceCalendar,
+  TravelCard,
+} from "./types.js";
+
+// /chat 에서 보여줄 상위 결과 개수
+const CHAT_RESULT_COUNT = 5;
+
+// 도구 실행 중 사용자에게 보여줄 진행 메시지
+const TOOL_STATUS: Record<string, string> = {
+  update_search_details: "검색 조건을 정리하고 있어요",
+  lookup_locations: "공항 정보를 찾고 있어요",
+  search_flights: "항공편을 검색하고 있어요",
+  search_price_calendar: "날짜별 최저가를 비교하고 있어요",
+  price_flight_offer: "선택한 항공편의 현재 가격을 확인하고 있어요",
+  create_price_watch: "가격 알림을 등록하고 있어요",
+  list_price_watches: "가격 알림 목록을 확인하고 있어요",
+  get_price_history: "가격 변동 기록을 확인하고 있어요",
+  delete_price_watch: "가격 알림을 삭제하고 있어요",
+  prepare_booking: "예약 정보를 확인하고 있어요",
+  get_order: "예약 내역을 확인하고 있어요",
+};
+
+// 검색 쿼터에 집계하는 도구 → 공급자 검색 수 (가격 캘린더는 날짜 조합마다 한 번씩 검색)
+const SEARCH_COST: Record<string, (result: unknown) => number> = {
+  search_flights: () => 1,
+  search_price_calendar: (result) => (result as PriceCalendar).searched ?? 1,
+};
+
+// 사용자 확인 없이 실행하면 안 되는 MCP 도구 (예약은 prepare_booking → 확인 버튼으로만 실행)
+const CONFIRM_REQUIRED_TOOLS = ["validate_order", "create_order", "cancel_order"];
+
+export type ChatEventSink = (event: ChatStreamEvent) => void;
+
+/**
+ * /chat, /chat/stream 공통 요청 검증 → 에러 메시지 (정상이면 undefined)
+ */
+export function validateChatRequest(body: ChatRequest | undefined): string | undefined {
+  if (body?.confirmActionId && !body.sessionId) {
+    return "confirmActionId 는 sessionId 와 함께 보내야 합니다";
+  }
+  if (!body || (!body.confirmActionId && incomingMessages(body).length === 0)) {
+    return "메시지가 필요합니다";
+  }
+  const timezone = body.timezone ?? body.dialogue?.timezone;
+  if (timezone && !isValidTimeZone(timezone)) {
+    return `알 수 없는 시간대입니다: ${timezone}`;
+  }
+  return undefined;
+}
+
+// 이번 요청으로 들어온 메시지 (message 는 사용자 메시지 한 건의 축약형)
+function incomingMessages(body: ChatRequest): ChatMessage[] {
+  const message = body.message?.trim();
+  return message ? [{ role: "user", content: message }] : (body.messages ?? []);
+}
+
+export interface ChatTurnOptions {
+  // 진행 상황, 검색 결과, 답변 토큰, 카드를 준비되는 대로 전달 (SSE 용)
+  emit?: ChatEventSink;
+  // 서버 세션: 기록/슬롯/이전 결과를 여기서 읽고, 턴이 끝나면 갱신 (저장은 호출자가 담당)
+  session?: ChatSession;
+  // 이번 턴에 성공한 검색 도구가 실행한 공급자 검색 수 (테넌트 검색 쿼터 집계용)
+  onSearches?: (count: number) => void;
+  // 인증된 요청의 테넌트: 가격 알림/예약 도구는 이 테넌트의 것만 다룸
+  tenant?: string;
+}
+
+export interface ChatServiceDeps {
+  llm: LLMRouter;
+  flightServer: FlightServerClient;
+  cards: TravelCardService;
+  config: ChatConfig;
+}
+
+export interface ChatService {
+  /**
+   * 채팅 한 턴 처리: 에이전트 루프(슬롯 기록 → 검색 → 요약) 후 여행 카드 생성
+   * 세션이 없으면 요청의 messages/dialogue 를, 있으면 서버에 보관된 기록과 상태를 사용
+   */
+  runTurn(body: ChatRequest, log: FastifyBaseLogger, options?: ChatTurnOptions): Promise<ChatResponse>;
+}
+
+export function createChatService(deps: ChatServiceDeps): ChatService {
+  return {
+    runTurn: (body, log, options = {}) => runChatTurn(deps, body, log, options),
+  };
+}
+
+async function runChatTurn(
+  { llm, flightServer, cards: travelCards, config }: ChatServiceDeps,
+  body: ChatRequest,
+  log: FastifyBaseLogger,
+  { emit, session, onSearches, tenant }: ChatTurnOptions
+): Promise<ChatResponse> {
+  if (body.confirmActionId && session) {
+    return confirmAction(flightServer, body.confirmActionId, session, log, emit, tenant);
+  }
+
+  emit?.({ type: "status", stage: "thinking", message: "요청을 이해하고 있어요" });
+
+  if (session) {
+    session.messages.push(...incomingMessages(body).filter((message) => message.role !== "system"));
+    session.timezone = body.timezone ?? session.timezone;
+    await compactHistory(session, llm, { maxMessages: config.historyMaxMessages, maxChars: config.historyMaxChars });
+  }
+
+  const messages = session ? session.messages : incomingMessages(body);
+  const dialogue = session ? session.dialogue : body.dialogue;
+  const timezone = body.timezone ?? session?.timezone ?? dialogue?.timezone ?? config.defaultTimezone;
+  // MCP 세션은 대화 세션이 있을 때만 (세션 없는 요청마다 세션을 열면 닫을 곳이 없어 플라이트 서버에 쌓임)
+  const mcpSession: MCPSessionRef | undefined = session ? { id: session.mcpSessionId } : undefined;
+
+  const latestUserMessage = [...messages].reverse().find((message) => message.role === "user")?.content ?? "";
+  const conversation = createDialogue(flightServer, dialogue, timezone, latestUserMessage);
+  const mcpTools = await loadMcpAgentTools(flightServer, {
+    prepare: {
+      search_flights: (args) => ({ sort: "best", pageSize: CHAT_RESULT_COUNT, ...args }),
+      // 이번 턴에 검색하지 않았으면 이전에 보여준 결과 기준
+      price_flight_offer: (args) => ({ searchId: session?.lastResults?.searchId, ...args }),
+      validate_order: (args) => ({ searchId: session?.lastResults?.searchId, ...args }),
+    },
+    describe: {
+      search_flights: (result) => summarizeFlightsForLLM(result as FlightSearchResult),
+      search_price_calendar: (result) => summarizePriceCalendarForLLM(result as PriceCalendar),
+      price_flight_offer: (result) => summarizeOfferPricingForLLM(result as OfferPricing),
+    },
+    session: mcpSession,
+    // webhookUrl 은 모델이 정할 수 없음 (대화 내용으로 임의의 주소에 알림을 보내지 않도록 서버 기본 URL 사용)
+    scope: { tenant, webhookUrl: undefined },
+  });
+  // 예약 준비는 확인 대기 상태를 보관할 세션이 있을 때만 제공
+  const validateOrder = mcpTools.find((tool) => tool.definition.name === "validate_order");
+  const tools = [
+    conversation.tool,
+    ...mcpTools.filter((tool) => !CONFIRM_REQUIRED_TOOLS.includes(tool.definition.name)),
+    ...(session?.lastResults ? [createShownOfferTool(session.lastResults)] : []),
+    ...(session && validateOrder ? [createPrepareBookingTool(validateOrder, session)] : []),
+  ];
+
+  const systemPrompt = `
+You are a travel assistant for a mobile chat interface.
+${conversation.context()}
+${session?.summary ? `\nSummary of the earlier conversation:\n${session.summary}\n` : ""}
+${session?.lastResults ? `${describeShownResults(session.lastResults)}\n` : ""}
+- Whenever the user gives or changes flight search details, call update_search_details with only those details.
+- If it reports missing details or issues, ask the user for them in one short question (in the user's language). Never guess.
+- For multi-city or open-jaw trips (e.g. Seoul → Tokyo → Bangkok → Seoul), pass every leg in order as legs instead of origin/destination.
+- When it reports complete, call search_flights with its searchParams.
+- If the user's dates are flexible ("cheapest week in March", "around the 10th", "5-7 nights in June"), call search_price_calendar
+  with a date range or window instead of asking for exact dates, tell the user the cheapest dates, then search_flights on the dates they pick.
+- After a search, summarize the results in under 3 sentences: lead with the option tagged "best", mention the cheapest
+  and fastest options if different, and the flight duration range. If nothing was found, suggest adjusting the date or destination.
+- When the user picks a flight or asks if a price is still valid, call price_flight_offer with its offer id and the searchId, then tell
+  them the confirmed price (say clearly if it changed), whether seats are left, the refund/change rules and the checked baggage.
+- To book, collect every traveler's name as on the passport (Latin letters), date of birth and gender, passport details for international
+  trips, and a contact email and phone, then call prepare_booking. You cannot book yourself: never say a flight is booked. Show the summary
+  and price it returns and ask the user to press the confirm button.
+- If it's not about flights, just respond naturally with helpful travel advice.`;
+
+  const hooks: AgentHooks = emit
+    ? {
+        onText: (text) => emit({ type: "delta", text }),
+        onToolCall: (call) =>
+          emit({ type: "status", stage: "tool", tool: call.name, message: TOOL_STATUS[call.name] ?? `${call.name} 실행 중` }),
+        onToolResult: (result) => {
+          if (result.name === "search_flights" && result.result) {
+            emit({ type: "flights", flights: result.result as FlightSearchResult });
+          }
+        },
+      }
+    : {};
+
+  let run: AgentRun;
+  try {
+    run = await runAgent({ llm, maxSteps: config.agentMaxSteps }, systemPrompt, messages, tools, hooks);
+  } catch (error) {
+    // LLM 이 모두 실패해도 간단한 검색 요청은 규칙 기반 추출로 처리
+    log.warn({ err: error }, "LLM 에이전트 실패, 규칙 기반 처리로 전환");
+    run = await runRuleBasedTurn(tools, hooks);
+  }
+
+  const searches = run.toolResults.reduce((sum, result) => sum + (result.result && SEARCH_COST[result.name] ? SEARCH_COST[result.name](result.result) : 0), 0);
+  if (searches > 0) {
+    onSearches?.(searches);
+  }
+
+  // 마지막으로 성공한 검색 결과를 화면에 표시
+  const search = run.toolResults.filter((result) => result.name === "search_flights" && result.result).pop();
+  const flights = (search?.result as FlightSearchResult | undefined) ?? null;
+  let cards: TravelCard[] = [];
+
+  if (search) {
+    conversation.recordSearch(search.arguments);
+  }
+
+  log.info(
+    {
+      steps: run.steps,
+      tools: run.toolResults.map((result) => result.name),
+      dialogue: conversation.state(),
+      llm: {
+        calls: run.usage.map((usage) => `${usage.provider}/${usage.model}`),
+        inputTokens: run.usage.reduce((sum, usage) => sum + (usage.inputTokens ?? 0), 0),
+        outputTokens: run.usage.reduce((sum, usage) => sum + (usage.outputTokens ?? 0), 0),
+        latencyMs: run.usage.reduce((sum, usage) => sum + usage.latencyMs, 0),
+      },
+    },
+    "에이전트 실행 결과"
+  );
+
+  if (search && flights && flights.items?.length > 0) {
+    emit?.({ type: "status", stage: "cards", message: "여행 정보를 준비하고 있어요" });
+    // 다구간이면 첫 번째 목적지 기준으로 카드 생성
+    const legs = search.arguments.originDestinations as FlightLeg[] | undefined;
+    const destination = String(search.arguments.destination ?? legs?.[0]?.destination);
+    cards = await travelCards.cardsFor(destination, { query: latestUserMessage, timezone }, log);
+    emit?.({ type: "cards", cards });
+  }
+
+  if (session) {
+    session.messages.push({ role: "assistant", content: run.message });
+    session.dialogue = conversation.state();
+    session.lastResults = flights ?? session.lastResults;
+    session.mcpSessionId = mcpSession?.id;
+    session.updatedAt = new Date().toISOString();
+  }
+
+  // 이번 턴에 준비한 예약이 있으면 확인 버튼용으로 전달
+  const prepared = run.toolResults.some((result) => result.name === "prepare_booking" && result.result);
+  const pendingAction = prepared && session?.pendingAction && !session.pendingAction.orderId ? pendingActionView(session.pendingAction) : undefined;
+
+  return {
+    message: run.message,
+    flights,
+    cards,
+    dialogue: conversation.state(),
+    ...(session ? { sessionId: session.id } : {}),
+    ...(pendingAction ? { pendingAction } : {}),
+  };
+}
+
+/**
+ * 확인 버튼(confirmActionId) 처리: 세션에 대기 중인 작업을 LLM 없이 바로 실행하고 정해진 문장으로 답변
+ */
+async function confirmAction(
+  flightServer: FlightServerClient,
+  actionId: string,
+  session: ChatSession,
+  log: FastifyBaseLogger,
+  emit?: ChatEventSink,
+  tenant?: string
+): Promise<ChatResponse> {
+  emit?.({ type: "status", stage: "tool", tool: "create_order", message: "예약을 진행하고 있어요" });
+
+  const mcpSession: MCPSessionRef = { id: session.mcpSessionId };
+  const { message, order } = await confirmPendingBooking(flightServer, session, actionId, mcpSession, tenant);
+  log.info({ actionId, orderId: order?.id, pnr: order?.pnr }, order ? "예약 확인 처리 완료" : "예약 확인 처리 실패");
+  emit?.({ type: "delta", text: message });
+
+  session.messages.push({ role: "assistant", content: message });
+  session.mcpSessionId = mcpSession.id;
+  session.updatedAt = new Date().toISOString();
+
+  return {
+    message,
+    dialogue: session.dialogue,
+    sessionId: session.id,
+    ...(order ? { order } : {}),
+  };
+}
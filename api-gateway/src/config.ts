@@ -0,0 +1,330 @@
+// api-gateway/src/config.ts
+
+import fs from "node:fs";
+import path from "node:path";
+import dotenv from "dotenv";
+import { z } from "zod";
+import { isValidTimeZone } from "./dates.js";
+import type { LLMProviderName, LLMRoute, LLMTask } from "./llm/provider.js";
+
+const PROVIDER_NAMES = ["openai", "anthropic", "local", "stub"] as const satisfies readonly LLMProviderName[];
+const TASKS: LLMTask[] = ["agent", "summary", "cards"];
+
+const positiveInt = z.coerce.number().int().positive();
+const nonNegativeInt = z.coerce.number().int().nonnegative();
+
+// 환경 변수는 대소문자를 섞어 쓸 수 있으므로 선택지는 소문자로 비교
+const choice = <const T extends [string, ...string[]]>(values: T) =>
+  z.preprocess((value) => (typeof value === "string" ? value.trim().toLowerCase() : value), z.enum(values));
+
+// "true" / "false" (설정 파일에서는 boolean)
+const flag = z.preprocess((value) => {
+  const text = typeof value === "string" ? value.trim().toLowerCase() : value;
+  return text === "true" ? true : text === "false" ? false : value;
+}, z.boolean());
+
+// "a,b" → ["a", "b"] (설정 파일에서는 배열)
+const splitList = (value: unknown) =>
+  typeof value === "string" ? value.split(",").map((item) => item.trim()).filter(Boolean) : value;
+
+// "openai:gpt-4o-mini,anthropic,local:llama3.1:8b" → 순서대로 시도할 경로 (모델 이름에는 ':' 가 올 수 있음)
+const routeList = z.preprocess(
+  splitList,
+  z.array(
+    z.string().transform((entry, ctx): LLMRoute => {
+      const separator = entry.indexOf(":");
+      const name = (separator === -1 ? entry : entry.slice(0, separator)).trim().toLowerCase();
+      const model = separator === -1 ? undefined : entry.slice(separator + 1).trim() || undefined;
+      if (!(PROVIDER_NAMES as readonly string[]).includes(name)) {
+        ctx.addIssue({ code: "custom", message: `알 수 없는 LLM 프로바이더입니다: ${name} (사용 가능: ${PROVIDER_NAMES.join(", ")})` });
+        return z.NEVER;
+      }
+      return { provider: name as LLMProviderName, model };
+    })
+  )
+);
+
+// 작업별 기본 출력 길이/temperature (요약은 결정적으로, 카드는 조금 다양하게)
+const taskOptions = (maxTokens: number, temperature: number) =>
+  z
+    .object({
+      maxTokens: positiveInt.default(maxTokens),
+      temperature: z.coerce.number().min(0).max(2).default(temperature),
+    })
+    .default({});
+
+const ConfigSchema = z
+  .object({
+    port: z.coerce.number().int().min(1).max(65535).default(8787),
+    // 있으면 그 origin 만 허용(쿠키 포함), 없으면 모든 origin 허용하되 자격 증명은 헤더(API 키)로만
+    corsOrigins: z.preprocess(splitList, z.array(z.string().min(1))).default([]),
+    flightServer: z
+      .object({
+        url: z
+          .string()
+          .url()
+          .default("http://localhost:8700")
+          .transform((url) => url.replace(/\/$/, "")),
+        // 플라이트 서버와 공유하는 비밀 - 설정되면 모든 요청에 Bearer 토큰으로 전달
+        token: z.string().default(""),
+        // 플라이트 서버 호출 하나(MCP 세션 발급/재시도 포함)를 기다리는 시간 - 가격 캘린더처럼 검색을 여러 번 하는 도구도 들어오도록 넉넉하게
+        timeoutMs: positiveInt.default(60000),
+      })
+      .default({}),
+    llm: z
+      .object({
+        provider: choice([...PROVIDER_NAMES]).default("openai"),
+        // provider 다음에 순서대로 시도할 경로
+        fallbackProviders: routeList.default([]),
+        // 작업별 경로 (지정하면 provider/fallbackProviders 대신 사용)
+        routes: z
+          .object({ agent: routeList.optional(), summary: routeList.optional(), cards: routeList.optional() })
+          .default({}),
+        // 호출 1회(재시도 포함) 제한 시간, 넘으면 다음 프로바이더로 폴백
+        timeoutMs: positiveInt.default(30000),
+        // SDK 자체 재시도 횟수 (429/5xx/연결 오류), 폴백이 있으므로 기본값은 작게
+        maxRetries: nonNegativeInt.default(1),
+        // 헬스 체크의 프로바이더 ping(모델 목록 조회) 결과 재사용 시간
+        healthPingMs: nonNegativeInt.default(60000),
+        openai: z
+          .object({ apiKey: z.string().default(""), model: z.string().min(1).default("gpt-4o-mini") })
+          .default({}),
+        anthropic: z
+          .object({ apiKey: z.string().default(""), model: z.string().min(1).default("claude-3-5-sonnet-20241022") })
+          .default({}),
+        // OpenAI 호환 로컬 엔드포인트 (Ollama: http://localhost:11434/v1, LM Studio, vLLM 등)
+        local: z
+          .object({ baseUrl: z.string().url().optional(), apiKey: z.string().default("local"), model: z.string().min(1).default("llama3.1") })
+          .default({}),
+        tasks: z
+          .object({ agent: taskOptions(1024, 0.2), summary: taskOptions(400, 0), cards: taskOptions(600, 0.3) })
+          .default({}),
+      })
+      .default({}),
+    chat: z
+      .object({
+        // 한 턴에서 허용하는 LLM ↔ 도구 왕복 횟수
+        agentMaxSteps: positiveInt.default(5),
+        // 상대 날짜 해석 기준 시간대 (요청/세션에 없을 때)
+        defaultTimezone: z.string().refine(isValidTimeZone, "알 수 없는 시간대입니다").default("Asia/Seoul"),
+        // 모델 컨텍스트에 넣을 대화 기록 한도 (넘으면 오래된 턴을 요약으로 압축)
+        historyMaxMessages: positiveInt.default(20),
+        historyMaxChars: positiveInt.default(12000),
+      })
+      .default({}),
+    cards: z
+      .object({
+        // 목적지별 카드 캐시 (0 이면 캐시하지 않음 - 동시에 들어온 같은 요청은 여전히 하나로 병합)
+        cacheTtlSeconds: nonNegativeInt.default(86400),
+        cacheMaxEntries: positiveInt.default(200),
+        // 한 번에 보여줄 카드 수 (카테고리당 한 장)
+        maxCards: z.coerce.number().int().min(1).max(7).default(4),
+      })
+      .default({}),
+    sessions: z
+      .object({
+        store: choice(["memory", "file"]).default("memory"),
+        dir: z.string().min(1).default("data/sessions"),
+        ttlHours: z.coerce.number().positive().default(24),
+      })
+      .default({}),
+    apiKeys: z
+      .object({
+        // 기본값 file: 발급한 키는 재시작 후에도 유효해야 함
+        store: choice(["memory", "file"]).default("file"),
+        file: z.string().min(1).default("data/api-keys.json"),
+      })
+      .default({}),
+    auth: z
+      .object({
+        // 비우면 adminApiKey 나 jwtSecret 이 있을 때만 인증을 요구 (로컬 개발은 그대로 동작)
+        enabled: flag.optional(),
+        adminApiKey: z.string().default(""),
+        jwtSecret: z.string().default(""),
+        jwtIssuer: z.string().optional(),
+        jwtAudience: z.string().optional(),
+        // 한 IP 에서 분당 허용하는 인증 실패 수 (넘으면 자격 증명을 확인하지 않고 429 - 키 대입 방지)
+        failuresPerMinute: positiveInt.default(20),
+      })
+      .default({}),
+    // 키를 발급할 때 한도를 지정하지 않으면 사용하는 값 (JWT 주체도 같은 값)
+    limits: z
+      .object({
+        requestsPerMinute: positiveInt.default(100),
+        searchesPerDay: nonNegativeInt.default(1000),
+        llmTokensPerDay: nonNegativeInt.default(200000),
+      })
+      .default({}),
+    health: z
+      .object({
+        checkTimeoutMs: positiveInt.default(3000),
+        cacheMs: nonNegativeInt.default(5000),
+      })
+      .default({}),
+    log: z
+      .object({
+        // 비우면 터미널이면 pretty, 아니면 한 줄 JSON
+        format: choice(["json", "pretty"]).optional(),
+        // 비우면 운영(NODE_ENV=production) info, 개발 debug
+        level: choice(["trace", "debug", "info", "warn", "error", "fatal", "silent"]).optional(),
+      })
+      .default({}),
+  })
+  .superRefine((config, ctx) => {
+    // 경로에 쓰인 프로바이더는 자격 증명/주소가 있어야 함 (첫 LLM 호출에서야 실패하지 않도록)
+    const required: Partial<Record<LLMProviderName, { path: string[]; ok: boolean }>> = {
+      openai: { path: ["llm", "openai", "apiKey"], ok: !!config.llm.openai.apiKey },
+      anthropic: { path: ["llm", "anthropic", "apiKey"], ok: !!config.llm.anthropic.apiKey },
+      local: { path: ["llm", "local", "baseUrl"], ok: !!config.llm.local.baseUrl },
+    };
+    const used = new Set(Object.values(llmRoutes(config.llm)).flatMap((routes) => routes.map((route) => route.provider)));
+    for (const name of used) {
+      const requirement = required[name];
+      if (requirement && !requirement.ok) {
+        ctx.addIssue({ code: "custom", path: requirement.path, message: `LLM 경로에 ${name} 가 있으면 필요합니다` });
+      }
+    }
+  });
+
+export type GatewayConfig = z.infer<typeof ConfigSchema>;
+export type FlightServerClientConfig = GatewayConfig["flightServer"];
+export type LLMConfig = GatewayConfig["llm"];
+export type ChatConfig = GatewayConfig["chat"];
+export type CardsConfig = GatewayConfig["cards"];
+export type SessionConfig = GatewayConfig["sessions"];
+export type ApiKeyStoreConfig = GatewayConfig["apiKeys"];
+export type AuthConfig = GatewayConfig["auth"];
+export type HealthConfig = GatewayConfig["health"];
+
+/**
+ * 작업별 프로바이더/모델 순서
+ * llm.routes.<task> (예: LLM_ROUTE_SUMMARY=openai:gpt-4o-mini,anthropic) 가 있으면 그대로,
+ * 없으면 llm.provider 뒤에 llm.fallbackProviders 를 이어서 사용
+ */
+export function llmRoutes(config: Pick<LLMConfig, "provider" | "fallbackProviders" | "routes">): Record<LLMTask, LLMRoute[]> {
+  return Object.fromEntries(
+    TASKS.map((task) => [task, config.routes[task] ?? [{ provider: config.provider }, ...config.fallbackProviders]])
+  ) as Record<LLMTask, LLMRoute[]>;
+}
+
+// 환경 변수 → 설정 경로 (설정 파일 값보다 우선)
+const ENV_PATHS: Record<string, string> = {
+  PORT: "port",
+  CORS_ORIGINS: "corsOrigins",
+  FLIGHT_SERVER_URL: "flightServer.url",
+  FLIGHT_SERVER_TOKEN: "flightServer.token",
+  FLIGHT_SERVER_TIMEOUT_MS: "flightServer.timeoutMs",
+  LLM_PROVIDER: "llm.provider",
+  LLM_FALLBACK_PROVIDERS: "llm.fallbackProviders",
+  LLM_ROUTE_AGENT: "llm.routes.agent",
+  LLM_ROUTE_SUMMARY: "llm.routes.summary",
+  LLM_ROUTE_CARDS: "llm.routes.cards",
+  LLM_TIMEOUT_MS: "llm.timeoutMs",
+  LLM_MAX_RETRIES: "llm.maxRetries",
+  LLM_HEALTH_PING_MS: "llm.healthPingMs",
+  OPENAI_API_KEY: "llm.openai.apiKey",
+  OPENAI_MODEL: "llm.openai.model",
+  ANTHROPIC_API_KEY: "llm.anthropic.apiKey",
+  ANTHROPIC_MODEL: "llm.anthropic.model",
+  LOCAL_LLM_BASE_URL: "llm.local.baseUrl",
+  LOCAL_LLM_API_KEY: "llm.local.apiKey",
+  LOCAL_LLM_MODEL: "llm.local.model",
+  LLM_AGENT_MAX_TOKENS: "llm.tasks.agent.maxTokens",
+  LLM_AGENT_TEMPERATURE: "llm.tasks.agent.temperature",
+  LLM_SUMMARY_MAX_TOKENS: "llm.tasks.summary.maxTokens",
+  LLM_SUMMARY_TEMPERATURE: "llm.tasks.summary.temperature",
+  LLM_CARDS_MAX_TOKENS: "llm.tasks.cards.maxTokens",
+  LLM_CARDS_TEMPERATURE: "llm.tasks.cards.temperature",
+  AGENT_MAX_STEPS: "chat.agentMaxSteps",
+  DEFAULT_TIMEZONE: "chat.defaultTimezone",
+  SESSION_HISTORY_MAX_MESSAGES: "chat.historyMaxMessages",
+  SESSION_HISTORY_MAX_CHARS: "chat.historyMaxChars",
+  CARDS_CACHE_TTL_SECONDS: "cards.cacheTtlSeconds",
+  CARDS_CACHE_MAX_ENTRIES: "cards.cacheMaxEntries",
+  CARDS_MAX: "cards.maxCards",
+  SESSION_STORE: "sessions.store",
+  SESSION_DIR: "sessions.dir",
+  SESSION_TTL_HOURS: "sessions.ttlHours",
+  API_KEY_STORE: "apiKeys.store",
+  API_KEY_FILE: "apiKeys.file",
+  AUTH_ENABLED: "auth.enabled",
+  ADMIN_API_KEY: "auth.adminApiKey",
+  JWT_SECRET: "auth.jwtSecret",
+  JWT_ISSUER: "auth.jwtIssuer",
+  JWT_AUDIENCE: "auth.jwtAudience",
+  AUTH_FAILURES_PER_MINUTE: "auth.failuresPerMinute",
+  RATE_LIMIT_PER_MINUTE: "limits.requestsPerMinute",
+  SEARCH_QUOTA_PER_DAY: "limits.searchesPerDay",
+  LLM_TOKEN_QUOTA_PER_DAY: "limits.llmTokensPerDay",
+  HEALTH_CHECK_TIMEOUT_MS: "health.checkTimeoutMs",
+  HEALTH_CACHE_MS: "health.cacheMs",
+  LOG_FORMAT: "log.format",
+  LOG_LEVEL: "log.level",
+};
+
+/**
+ * 설정 검증 실패 (문제가 된 항목을 모두 모아서 한 번에 보고)
+ */
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`설정이 올바르지 않습니다:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+type ConfigTree = Record<string, unknown>;
+
+function readConfigFile(file: string): ConfigTree {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new ConfigError([`CONFIG_FILE (${file}): ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigError([`CONFIG_FILE (${file}): JSON 객체여야 합니다`]);
+  }
+  return parsed as ConfigTree;
+}
+
+function setPath(tree: ConfigTree, keys: string[], value: string): void {
+  const [key, ...rest] = keys;
+  if (rest.length === 0) {
+    tree[key] = value;
+    return;
+  }
+  const child = tree[key];
+  const node: ConfigTree = child && typeof child === "object" && !Array.isArray(child) ? { ...(child as ConfigTree) } : {};
+  tree[key] = node;
+  setPath(node, rest, value);
+}
+
+// 에러 메시지에 설정 경로와 대응하는 환경 변수를 함께 표시
+function describeIssue(issue: z.ZodIssue): string {
+  const configPath = issue.path.join(".");
+  const envName = Object.keys(ENV_PATHS).find((name) => ENV_PATHS[name] === configPath);
+  return `${configPath || "(root)"}${envName ? ` (${envName})` : ""}: ${issue.message}`;
+}
+
+/**
+ * 기본값 ← 설정 파일(CONFIG_FILE, JSON) ← 환경 변수(.env 포함) 순서로 합쳐서 검증
+ * 잘못된 값이 있으면 시작하지 않도록 ConfigError (항목별 경로/환경 변수/이유)
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): GatewayConfig {
+  if (env === process.env) dotenv.config();
+
+  const file = env.CONFIG_FILE ? path.resolve(env.CONFIG_FILE) : undefined;
+  const tree: ConfigTree = file ? readConfigFile(file) : {};
+
+  // 빈 문자열은 설정하지 않은 것으로 취급 (.env 의 "KEY=" 줄)
+  for (const [name, configPath] of Object.entries(ENV_PATHS)) {
+    const value = env[name];
+    if (value !== undefined && value !== "") setPath(tree, configPath.split("."), value);
+  }
+
+  const parsed = ConfigSchema.safeParse(tree);
+  if (!parsed.success) {
+    throw new ConfigError(parsed.error.issues.map(describeIssue));
+  }
+  return parsed.data;
+}
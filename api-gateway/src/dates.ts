@@ -0,0 +1,142 @@
+// api-gateway/src/dates.ts
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// 일요일 = 0 (Date.getUTCDay 기준)
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0, 일: 0,
+  monday: 1, mon: 1, 월: 1,
+  tuesday: 2, tue: 2, tues: 2, 화: 2,
+  wednesday: 3, wed: 3, 수: 3,
+  thursday: 4, thu: 4, thur: 4, thurs: 4, 목: 4,
+  friday: 5, fri: 5, 금: 5,
+  saturday: 6, sat: 6, 토: 6,
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 주어진 시간대에서의 오늘 날짜 (YYYY-MM-DD)
+export function todayIn(timeZone: string, now: Date = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(now);
+}
+
+// 주어진 시간대의 UTC 오프셋 (분, 서머타임 반영)
+export function utcOffsetMinutes(timeZone: string, now: Date = new Date()): number {
+  const name = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "longOffset" }).formatToParts(now).find((part) => part.type === "timeZoneName")?.value;
+  const match = name?.match(/GMT([+-])(\d{2}):(\d{2})/);
+  if (!match) return 0;
+  return (match[1] === "-" ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]));
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+function isRealDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// 연도 없는 월/일 → 오늘 이후 가장 가까운 날짜
+function upcomingMonthDay(today: string, month: number, day: number): string | undefined {
+  const year = Number(today.slice(0, 4));
+  for (const candidate of [year, year + 1]) {
+    if (!isRealDate(candidate, month, day)) continue;
+    const date = `${candidate}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+    if (date >= today) return date;
+  }
+  return undefined;
+}
+
+/**
+ * 요일 표현 → 날짜 (주는 월요일 시작)
+ * - "this"/"이번주": 이번 주의 해당 요일 (이미 지났으면 다음 주)
+ * - "next"/"다음주": 다음 주의 해당 요일
+ * - 수식어 없음: 오늘 이후 가장 가까운 해당 요일
+ */
+function resolveWeekday(today: string, weekday: number, modifier: "this" | "next" | undefined): string {
+  const current = weekdayOf(today);
+  if (!modifier) {
+    return addDays(today, ((weekday - current + 7) % 7) || 7);
+  }
+
+  const monday = addDays(today, -((current + 6) % 7));
+  const offset = (weekday + 6) % 7;
+  const thisWeek = addDays(monday, offset);
+  if (modifier === "next") return addDays(thisWeek, 7);
+  return thisWeek >= today ? thisWeek : addDays(thisWeek, 7);
+}
+
+/**
+ * 사용자가 말한 날짜 표현("next Monday", "다음주 월요일", "in 3 days", "12월 5일")을
+ * 주어진 시간대의 오늘을 기준으로 YYYY-MM-DD 로 변환
+ * 해석할 수 없으면 undefined
+ */
+export function resolveDateExpression(expression: string, timeZone: string, now: Date = new Date()): string | undefined {
+  const text = expression.trim().toLowerCase().replace(/\s+/g, " ");
+  const today = todayIn(timeZone, now);
+
+  if (ISO_DATE.test(text)) {
+    const [year, month, day] = text.split("-").map(Number);
+    return isRealDate(year, month, day) ? text : undefined;
+  }
+
+  if (/^(today|오늘)$/.test(text)) return today;
+  if (/^(tomorrow|내일)$/.test(text)) return addDays(today, 1);
+  if (/^(the )?day after tomorrow$|^모레$/.test(text)) return addDays(today, 2);
+  if (/^글피$/.test(text)) return addDays(today, 3);
+
+  const relative =
+    text.match(/^in (\d+) (day|week)s?$/) ?? text.match(/^(\d+) ?(일|주) ?(후|뒤)$/) ?? text.match(/^(\d+) (day|week)s? from now$/);
+  if (relative) {
+    const unit = relative[2] === "week" || relative[2] === "주" ? 7 : 1;
+    return addDays(today, Number(relative[1]) * unit);
+  }
+  if (/^next week$|^다음 ?주$/.test(text)) return resolveWeekday(today, 1, "next");
+
+  const english = text.match(/^(?:(this|next|coming) )?([a-z]+)$/);
+  if (english && english[2] in WEEKDAYS) {
+    const modifier = english[1] === "next" ? "next" : english[1] === "this" ? "this" : undefined;
+    return resolveWeekday(today, WEEKDAYS[english[2]], modifier);
+  }
+
+  const korean = text.match(/^(?:(이번|다음) ?주 ?)?([월화수목금토일])(?:요일)?$/);
+  if (korean) {
+    const modifier = korean[1] === "다음" ? "next" : korean[1] === "이번" ? "this" : undefined;
+    return resolveWeekday(today, WEEKDAYS[korean[2]], modifier);
+  }
+
+  const koreanMonthDay = text.match(/^(?:(\d{4})년 ?)?(\d{1,2})월 ?(\d{1,2})일$/);
+  if (koreanMonthDay) {
+    const [, year, month, day] = koreanMonthDay;
+    if (year) return isRealDate(Number(year), Number(month), Number(day)) ? `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}` : undefined;
+    return upcomingMonthDay(today, Number(month), Number(day));
+  }
+
+  // "dec 5", "december 5th", "5 dec"
+  const monthDay = text.match(/^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?$/) ?? text.match(/^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)$/);
+  if (monthDay) {
+    const [name, day] = /^\d/.test(monthDay[1]) ? [monthDay[2], monthDay[1]] : [monthDay[1], monthDay[2]];
+    const month = MONTHS[name.slice(0, 4)] ?? MONTHS[name.slice(0, 3)];
+    if (month) return upcomingMonthDay(today, month, Number(day));
+  }
+
+  return undefined;
+}
@@ -0,0 +1,96 @@
+// api-gateway/src/destinations/cards.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createTravelCardService, findDestination, retrieveFacts } from "./cards.js";
+import { SOURCES } from "./knowledgeBase.js";
+import { loadConfig } from "../config.js";
+import { createLLMRouter, type LLMRouter } from "../llm.js";
+import { configureLogger, logger } from "../observability/logger.js";
+
+configureLogger({ level: "silent" });
+
+const config = loadConfig({ LLM_PROVIDER: "stub" });
+const REQUEST = { query: "flights to tokyo", timezone: "Asia/Seoul" };
+
+// 스텁 LLM 라우터에서 chat 응답만 바꿔서 호출 수를 셈
+function routerWith(chat?: LLMRouter["chat"]): LLMRouter & { calls: number } {
+  const router = createLLMRouter(config.llm);
+  const counted = {
+    ...router,
+    calls: 0,
+    async chat(...args: Parameters<LLMRouter["chat"]>) {
+      counted.calls++;
+      return chat ? chat(...args) : router.chat(...args);
+    },
+  };
+  return counted;
+}
+
+function service(llm: LLMRouter, overrides: Partial<typeof config.cards> = {}) {
+  return createTravelCardService({ llm, config: { ...config.cards, ...overrides } });
+}
+
+describe("여행 카드", () => {
+  it("스텁 LLM: 검색한 항목으로 카테고리별 카드, 출처는 지식 베이스에서", async () => {
+    const cards = await service(routerWith()).cardsFor("NRT", REQUEST, logger);
+    assert.deepEqual(cards.map((card) => card.category), ["visa", "currency", "power", "timezone"]);
+    assert.ok(cards.every((card) => card.destination === "TYO"));
+    assert.deepEqual(cards[0].sources, [SOURCES.japanVisa]);
+    assert.deepEqual(cards[3].sources, [SOURCES.ianaTz]);
+  });
+
+  it("질문에 나온 주제를 먼저 검색", () => {
+    const record = findDestination("cdg")!;
+    const facts = retrieveFacts(record, { query: "파리 시차랑 맛집 알려줘", timezone: "Asia/Seoul" }, 2);
+    assert.deepEqual([...new Set(facts.map((fact) => fact.category))], ["timezone", "food"]);
+  });
+
+  it("전달하지 않은 항목을 인용하거나 카테고리가 다른 카드는 버림", async () => {
+    const llm = routerWith(async () =>
+      JSON.stringify({
+        cards: [
+          { category: "visa", title: "Visa", summary: "No visa needed.", factIds: ["made-up"] },
+          { category: "currency", title: "Money", summary: "Yen.", factIds: ["tyo-power"] },
+          { category: "power", title: "Plugs", summary: "Bring an adapter.", factIds: ["tyo-power"] },
+        ],
+      })
+    );
+    const cards = await service(llm).cardsFor("TYO", REQUEST, logger);
+    assert.deepEqual(cards.map((card) => [card.category, card.summary]), [["power", "Bring an adapter."]]);
+  });
+
+  it("코드 블록으로 감싼 JSON 도 허용", async () => {
+    const llm = routerWith(async () => '```json\n{"cards":[{"category":"visa","title":"비자","summary":"무비자 90일","factIds":["tyo-visa"]}]}\n```');
+    const cards = await service(llm).cardsFor("TYO", REQUEST, logger);
+    assert.deepEqual(cards.map((card) => card.title), ["비자"]);
+  });
+
+  it("스키마에 맞지 않거나 호출이 실패하면 지식 베이스 원문 카드 (캐시하지 않음)", async () => {
+    for (const chat of [async () => "not json", async () => '{"cards":[{"category":"weather","title":"x","summary":"y","factIds":["tyo-visa"]}]}', async () => Promise.reject(new Error("down"))]) {
+      const llm = routerWith(chat);
+      const cards = service(llm);
+      const first = await cards.cardsFor("TYO", REQUEST, logger);
+      assert.equal(first[0].summary, findDestination("TYO")!.facts.find((fact) => fact.id === "tyo-visa")!.text);
+      await cards.cardsFor("TYO", REQUEST, logger);
+      assert.equal(llm.calls, 2);
+    }
+  });
+
+  it("같은 목적지/언어/시간대는 캐시, 동시에 들어온 요청은 LLM 한 번", async () => {
+    const llm = routerWith();
+    const cards = service(llm);
+    await Promise.all([cards.cardsFor("NRT", REQUEST, logger), cards.cardsFor("HND", REQUEST, logger)]);
+    await cards.cardsFor("TYO", REQUEST, logger);
+    assert.equal(llm.calls, 1);
+
+    await cards.cardsFor("TYO", { ...REQUEST, query: "도쿄 항공권" }, logger);
+    assert.equal(llm.calls, 2);
+  });
+
+  it("지식 베이스에 없는 목적지는 카드 없음", async () => {
+    const llm = routerWith();
+    assert.deepEqual(await service(llm).cardsFor("XYZ", REQUEST, logger), []);
+    assert.equal(llm.calls, 0);
+  });
+});
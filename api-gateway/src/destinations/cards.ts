@@ -0,0 +1,266 @@
+// api-gateway/src/destinations/cards.ts
+
+import type { FastifyBaseLogger } from "fastify";
+import { z } from "zod";
+import { utcOffsetMinutes } from "../dates.js";
+import { counter } from "../observability/metrics.js";
+import type { LLMRouter } from "../llm.js";
+import type { CardsConfig } from "../config.js";
+import type { TravelCard, TravelCardCategory, TravelCardSource } from "../types.js";
+import { DESTINATIONS, SOURCES, type DestinationFact, type DestinationRecord, type SourceId } from "./knowledgeBase.js";
+
+const cardRequests = counter(
+  "travel_card_requests_total",
+  "여행 카드 요청 수 (result: hit | miss | coalesced | bypass, origin: llm | fallback | cache | unknown_destination)"
+);
+
+// 질문에 특정 주제가 없을 때 보여주는 순서
+const CATEGORY_ORDER: TravelCardCategory[] = ["visa", "currency", "power", "timezone", "attractions", "food", "tips"];
+
+// 사용자 메시지에 이런 단어가 있으면 해당 카테고리를 먼저 보여줌
+const CATEGORY_KEYWORDS: Record<TravelCardCategory, RegExp> = {
+  visa: /visa|entry|passport|immigration|비자|입국|여권|무비자/i,
+  currency: /currency|money|cash|exchange|atm|card|환전|화폐|현금|통화|카드 결제/i,
+  power: /power|plug|adapter|voltage|socket|전압|콘센트|어댑터|플러그|돼지코/i,
+  timezone: /time ?zone|time difference|jet ?lag|시차|시간대|현지 시간/i,
+  attractions: /attraction|sight|museum|things to do|관광|명소|볼거리|가볼 ?만한/i,
+  food: /food|eat|restaurant|dish|맛집|음식|먹거리|요리/i,
+  tips: /tip|transport|subway|metro|transit|etiquette|교통|지하철|팁|주의/i,
+};
+
+// LLM 이 돌려줘야 하는 형식 (근거 factIds 는 전달한 항목 중에서만)
+const GeneratedCardsSchema = z.object({
+  cards: z
+    .array(
+      z.object({
+        category: z.enum(CATEGORY_ORDER as [TravelCardCategory, ...TravelCardCategory[]]),
+        title: z.string().trim().min(1).max(80),
+        summary: z.string().trim().min(1).max(400),
+        factIds: z.array(z.string()).min(1),
+      })
+    )
+    .min(1),
+});
+
+export interface TravelCardRequest {
+  // 사용자가 보낸 최근 메시지 (주제 우선순위, 답변 언어 판단용)
+  query: string;
+  // 시차 카드 기준 시간대
+  timezone: string;
+}
+
+export interface TravelCardService {
+  /**
+   * 목적지(공항 또는 도시 코드)의 여행 정보 카드
+   * 지식 베이스에 없는 목적지면 빈 배열 (근거 없는 카드는 만들지 않음)
+   */
+  cardsFor(destination: string, request: TravelCardRequest, log: FastifyBaseLogger): Promise<TravelCard[]>;
+}
+
+export interface TravelCardServiceDeps {
+  llm: LLMRouter;
+  config: CardsConfig;
+}
+
+const BY_CODE = new Map<string, DestinationRecord>();
+for (const record of DESTINATIONS) {
+  BY_CODE.set(record.cityCode, record);
+  for (const airport of record.airports) BY_CODE.set(airport, record);
+}
+
+export function findDestination(code: string): DestinationRecord | undefined {
+  return BY_CODE.get(code.trim().toUpperCase());
+}
+
+// 지식 베이스 항목 + 요청 때 계산한 시차 항목
+type RetrievedFact = Omit<DestinationFact, "category"> & { category: TravelCardCategory };
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${Math.floor(abs / 60)}${abs % 60 ? `:${String(abs % 60).padStart(2, "0")}` : ""}h`;
+}
+
+// 시차는 사용자 시간대와 날짜(서머타임)에 따라 달라지므로 요청 때 계산
+function timezoneFact(record: DestinationRecord, userTimezone: string, now: Date): RetrievedFact {
+  const difference = utcOffsetMinutes(record.timezone, now) - utcOffsetMinutes(userTimezone, now);
+  const relation =
+    difference === 0
+      ? `the same time as ${userTimezone}`
+      : `${formatOffset(difference).slice(1)} ${difference > 0 ? "ahead of" : "behind"} ${userTimezone}`;
+  return {
+    id: `${record.cityCode.toLowerCase()}-timezone`,
+    category: "timezone",
+    title: "Time difference",
+    text: `${record.cityName} uses ${record.timezone} (UTC${formatOffset(utcOffsetMinutes(record.timezone, now))}), currently ${relation}.`,
+    source: "ianaTz",
+  };
+}
+
+/**
+ * 카드 근거로 쓸 항목 검색: 질문에 언급된 주제를 먼저, 나머지는 기본 순서로 maxCards 개 카테고리
+ */
+export function retrieveFacts(record: DestinationRecord, request: TravelCardRequest, maxCards: number, now: Date = new Date()): RetrievedFact[] {
+  const facts: RetrievedFact[] = [...record.facts, timezoneFact(record, request.timezone, now)];
+  const mentioned = CATEGORY_ORDER.filter((category) => CATEGORY_KEYWORDS[category].test(request.query));
+  const categories = [...mentioned, ...CATEGORY_ORDER.filter((category) => !mentioned.includes(category))]
+    .filter((category) => facts.some((fact) => fact.category === category))
+    .slice(0, maxCards);
+  return categories.flatMap((category) => facts.filter((fact) => fact.category === category));
+}
+
+// 한글이 섞여 있으면 한국어로 답변 (지식 베이스 원문은 영어)
+function detectLanguage(query: string): "ko" | "en" {
+  return /[가-힣]/.test(query) ? "ko" : "en";
+}
+
+function sourcesOf(facts: RetrievedFact[]): TravelCardSource[] {
+  const ids = [...new Set(facts.map((fact) => fact.source))];
+  return ids.map((id: SourceId) => ({ title: SOURCES[id].title, url: SOURCES[id].url }));
+}
+
+// LLM 없이 만드는 카드: 카테고리별 항목 원문 그대로
+function fallbackCards(record: DestinationRecord, facts: RetrievedFact[]): TravelCard[] {
+  const categories = [...new Set(facts.map((fact) => fact.category))];
+  return categories.map((category) => {
+    const grouped = facts.filter((fact) => fact.category === category);
+    return {
+      category,
+      title: grouped[0].title,
+      summary: grouped.map((fact) => fact.text).join(" "),
+      destination: record.cityCode,
+      sources: sourcesOf(grouped),
+    };
+  });
+}
+
+function cardsPrompt(language: "ko" | "en"): string {
+  return `You write short travel info cards for a flight search app.
+Use ONLY the facts provided by the user. Do not add facts, numbers, names, prices or links that are not in them.
+Write one card per category present in the facts, combining facts of the same category.
+Each card: a title (max 40 characters) and a 1-2 sentence summary, written in ${language === "ko" ? "Korean" : "English"}.
+Return ONLY JSON in this form:
+{"cards":[{"category":"visa","title":"...","summary":"...","factIds":["<ids of the facts used>"]}]}`;
+}
+
+// 코드 블록으로 감싼 응답도 허용
+function parseJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  return JSON.parse((fenced ? fenced[1] : text).trim());
+}
+
+/**
+ * LLM 응답 검증: 스키마에 맞고, 인용한 항목이 모두 전달한 항목이며 카테고리가 일치하는 카드만 사용
+ * 출처는 모델이 아니라 인용한 항목에서 붙임
+ */
+function toTravelCards(raw: string, record: DestinationRecord, facts: RetrievedFact[]): TravelCard[] {
+  const parsed = GeneratedCardsSchema.parse(parseJson(raw));
+  const byId = new Map(facts.map((fact) => [fact.id, fact]));
+  const seen = new Set<TravelCardCategory>();
+  const cards: TravelCard[] = [];
+
+  for (const card of parsed.cards) {
+    const cited = card.factIds.map((id) => byId.get(id));
+    if (seen.has(card.category) || cited.some((fact) => !fact || fact.category !== card.category)) continue;
+    seen.add(card.category);
+    cards.push({ category: card.category, title: card.title, summary: card.summary, destination: record.cityCode, sources: sourcesOf(cited as RetrievedFact[]) });
+  }
+  if (cards.length === 0) throw new Error("근거가 확인된 카드가 없습니다");
+  return cards;
+}
+
+interface CachedCards {
+  cards: TravelCard[];
+  expiresAt: number;
+}
+
+/**
+ * 목적지 지식 베이스에 근거한 여행 카드 생성
+ * 검색한 항목만 LLM 에 넘겨 문장으로 다듬고, 검증에 실패하면 항목 원문으로 카드를 만듦
+ * 결과는 (목적지, 언어, 시간대, 항목) 기준으로 캐시하고 동시에 들어온 같은 요청은 하나로 병합
+ */
+export function createTravelCardService({ llm, config }: TravelCardServiceDeps): TravelCardService {
+  const ttlMs = config.cacheTtlSeconds * 1000;
+  const cache = new Map<string, CachedCards>();
+  const inFlight = new Map<string, Promise<TravelCard[]>>();
+
+  function cached(key: string): TravelCard[] | undefined {
+    const entry = cache.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      cache.delete(key);
+      return undefined;
+    }
+    // LRU: 조회된 항목을 맨 뒤로
+    cache.delete(key);
+    cache.set(key, entry);
+    return entry.cards;
+  }
+
+  function store(key: string, cards: TravelCard[]): void {
+    cache.delete(key);
+    cache.set(key, { cards, expiresAt: Date.now() + ttlMs });
+    while (cache.size > config.cacheMaxEntries) {
+      cache.delete(cache.keys().next().value!);
+    }
+  }
+
+  async function generate(record: DestinationRecord, facts: RetrievedFact[], language: "ko" | "en", log: FastifyBaseLogger) {
+    const payload = facts.map(({ id, category, title, text }) => ({ id, category, title, text }));
+    try {
+      const response = await llm.chat(
+        [
+          { role: "system", content: cardsPrompt(language) },
+          { role: "user", content: `Destination: ${record.cityName} (${record.cityCode})\nFacts:\n${JSON.stringify(payload, null, 2)}` },
+        ],
+        { task: "cards" }
+      );
+      return { cards: toTravelCards(response, record, facts), origin: "llm" };
+    } catch (error) {
+      log.warn({ err: error, destination: record.cityCode }, "카드 생성 결과를 사용할 수 없어 지식 베이스 원문으로 대체");
+      return { cards: fallbackCards(record, facts), origin: "fallback" };
+    }
+  }
+
+  return {
+    async cardsFor(destination, request, log) {
+      const record = findDestination(destination);
+      if (!record) {
+        cardRequests.inc({ result: "bypass", origin: "unknown_destination" });
+        log.debug({ destination }, "지식 베이스에 없는 목적지, 카드 생략");
+        return [];
+      }
+
+      const facts = retrieveFacts(record, request, config.maxCards);
+      const language = detectLanguage(request.query);
+      const key = [record.cityCode, language, request.timezone, facts.map((fact) => fact.id).join(",")].join("|");
+
+      const hit = ttlMs > 0 ? cached(key) : undefined;
+      if (hit) {
+        cardRequests.inc({ result: "hit", origin: "cache" });
+        return hit;
+      }
+
+      const pending = inFlight.get(key);
+      if (pending) {
+        cardRequests.inc({ result: "coalesced", origin: "cache" });
+        return pending;
+      }
+
+      const load = (async () => {
+        const { cards, origin } = await generate(record, facts, language, log);
+        cardRequests.inc({ result: ttlMs > 0 ? "miss" : "bypass", origin });
+        // 폴백 카드는 캐시하지 않음 (다음 요청에서 다시 생성 시도)
+        if (ttlMs > 0 && origin === "llm") store(key, cards);
+        return cards;
+      })();
+
+      inFlight.set(key, load);
+      try {
+        return await load;
+      } finally {
+        inFlight.delete(key);
+      }
+    },
+  };
+}
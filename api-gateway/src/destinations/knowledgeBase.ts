@@ -0,0 +1,224 @@
+// api-gateway/src/destinations/knowledgeBase.ts
+
+import type { TravelCardCategory } from "../types.js";
+
+// 여행 카드용 번들 목적지 지식 베이스 (주요 도시만 포함)
+// 카드는 여기 있는 내용만 근거로 만들고, 출처는 각 항목이 인용한 공식 자료로 표시
+// 입국 규정은 대한민국 여권 기준이며 바뀔 수 있으므로 reviewedAt 과 함께 갱신
+
+export interface KnowledgeSource {
+  title: string;
+  url: string;
+}
+
+export const SOURCES = {
+  mofaKorea: { title: "외교부 해외안전여행", url: "https://www.0404.go.kr" },
+  iecPlugs: { title: "IEC World Plugs", url: "https://www.iec.ch/world-plugs" },
+  ianaTz: { title: "IANA Time Zone Database", url: "https://www.iana.org/time-zones" },
+  japanVisa: { title: "Ministry of Foreign Affairs of Japan - Visa exemptions", url: "https://www.mofa.go.jp/j_info/visit/visa/short/novisa.html" },
+  japanTravel: { title: "Japan National Tourism Organization", url: "https://www.japan.travel/en/" },
+  thailandTdac: { title: "Thailand Digital Arrival Card", url: "https://tdac.immigration.go.th" },
+  thailandTourism: { title: "Tourism Authority of Thailand", url: "https://www.tourismthailand.org" },
+  singaporeIca: { title: "Immigration & Checkpoints Authority", url: "https://www.ica.gov.sg" },
+  singaporeTourism: { title: "Visit Singapore", url: "https://www.visitsingapore.com" },
+  hongKongImmd: { title: "Hong Kong Immigration Department", url: "https://www.immd.gov.hk" },
+  hongKongTourism: { title: "Discover Hong Kong", url: "https://www.discoverhongkong.com" },
+  taiwanBoca: { title: "Bureau of Consular Affairs, Taiwan", url: "https://www.boca.gov.tw" },
+  taiwanTourism: { title: "Taiwan Tourism Administration", url: "https://eng.taiwan.net.tw" },
+  vietnamEvisa: { title: "Vietnam e-Visa portal", url: "https://evisa.gov.vn" },
+  vietnamTourism: { title: "Vietnam National Authority of Tourism", url: "https://vietnam.travel" },
+  usEsta: { title: "U.S. Customs and Border Protection - ESTA", url: "https://esta.cbp.dhs.gov" },
+  nycTourism: { title: "New York City Tourism + Conventions", url: "https://www.nyctourism.com" },
+  ukEta: { title: "GOV.UK - Electronic travel authorisation", url: "https://www.gov.uk/eta" },
+  visitLondon: { title: "Visit London", url: "https://www.visitlondon.com" },
+  franceVisas: { title: "France-Visas", url: "https://france-visas.gouv.fr" },
+  parisTourism: { title: "Paris je t'aime - Office du Tourisme", url: "https://parisjetaime.com/eng/" },
+} satisfies Record<string, KnowledgeSource>;
+
+export type SourceId = keyof typeof SOURCES;
+
+export interface DestinationFact {
+  // 카드 생성 결과에서 근거로 인용하는 id (지식 베이스 전체에서 유일)
+  id: string;
+  category: Exclude<TravelCardCategory, "timezone">;
+  title: string;
+  text: string;
+  source: SourceId;
+}
+
+export interface DestinationRecord {
+  cityCode: string;
+  cityName: string;
+  countryCode: string;
+  // 검색 목적지가 공항 코드여도 도시를 찾을 수 있도록
+  airports: string[];
+  // 시차 카드는 사용자 시간대 기준으로 요청 때 계산
+  timezone: string;
+  reviewedAt: string;
+  facts: DestinationFact[];
+}
+
+export const DESTINATIONS: DestinationRecord[] = [
+  {
+    cityCode: "TYO",
+    cityName: "Tokyo",
+    countryCode: "JP",
+    airports: ["NRT", "HND"],
+    timezone: "Asia/Tokyo",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "tyo-visa", category: "visa", title: "Visa-free stay", text: "Korean passport holders can visit Japan without a visa for up to 90 days for tourism.", source: "japanVisa" },
+      { id: "tyo-currency", category: "currency", title: "Japanese yen (JPY)", text: "Cards are widely accepted in the city, but small restaurants and shrines may take cash only. Convenience store ATMs (7-Eleven, Lawson) accept foreign cards.", source: "japanTravel" },
+      { id: "tyo-power", category: "power", title: "Type A/B plugs, 100 V", text: "Sockets are Type A/B at 100 V, 50 Hz in Tokyo. Korean Type C/F plugs need an adapter; chargers rated 100-240 V work without a converter.", source: "iecPlugs" },
+      { id: "tyo-sights", category: "attractions", title: "Classic Tokyo", text: "Senso-ji temple in Asakusa, Meiji Jingu shrine next to Harajuku, and the Shibuya scramble crossing.", source: "japanTravel" },
+      { id: "tyo-food", category: "food", title: "Sushi and ramen", text: "Try fresh sushi around the Tsukiji Outer Market and a bowl of ramen in any neighborhood shop; many use ticket machines at the entrance.", source: "japanTravel" },
+      { id: "tyo-transit", category: "tips", title: "IC cards and etiquette", text: "Suica or PASMO IC cards (also in phone wallets) work on trains, buses and at convenience stores. Tipping is not customary.", source: "japanTravel" },
+    ],
+  },
+  {
+    cityCode: "OSA",
+    cityName: "Osaka",
+    countryCode: "JP",
+    airports: ["KIX", "ITM"],
+    timezone: "Asia/Tokyo",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "osa-visa", category: "visa", title: "Visa-free stay", text: "Korean passport holders can visit Japan without a visa for up to 90 days for tourism.", source: "japanVisa" },
+      { id: "osa-currency", category: "currency", title: "Japanese yen (JPY)", text: "Keep some cash for street food stalls and small shops; convenience store ATMs accept foreign cards.", source: "japanTravel" },
+      { id: "osa-power", category: "power", title: "Type A/B plugs, 100 V", text: "Sockets are Type A/B at 100 V, 60 Hz in Osaka. Korean Type C/F plugs need an adapter.", source: "iecPlugs" },
+      { id: "osa-sights", category: "attractions", title: "Castle and canals", text: "Osaka Castle and its park, the neon signs of Dotonbori, and Universal Studios Japan.", source: "japanTravel" },
+      { id: "osa-food", category: "food", title: "Takoyaki and okonomiyaki", text: "Osaka is known for street food: takoyaki and okonomiyaki are everywhere around Dotonbori and Namba.", source: "japanTravel" },
+      { id: "osa-transit", category: "tips", title: "ICOCA card", text: "The ICOCA IC card covers trains, subways and buses in the Kansai area, including the ride from Kansai Airport.", source: "japanTravel" },
+    ],
+  },
+  {
+    cityCode: "BKK",
+    cityName: "Bangkok",
+    countryCode: "TH",
+    airports: ["BKK", "DMK"],
+    timezone: "Asia/Bangkok",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "bkk-visa", category: "visa", title: "Visa-free stay", text: "Korean passport holders can stay in Thailand without a visa for up to 90 days.", source: "mofaKorea" },
+      { id: "bkk-arrival-card", category: "visa", title: "Digital arrival card", text: "Foreign visitors must submit the Thailand Digital Arrival Card (TDAC) online within 3 days before arrival.", source: "thailandTdac" },
+      { id: "bkk-currency", category: "currency", title: "Thai baht (THB)", text: "Malls and hotels take cards; street food, markets and taxis usually need cash.", source: "thailandTourism" },
+      { id: "bkk-power", category: "power", title: "220 V, mixed sockets", text: "Power is 220 V, 50 Hz. Sockets vary (Type A, B, C and O) and often accept Korean Type C plugs; a universal adapter is safest.", source: "iecPlugs" },
+      { id: "bkk-sights", category: "attractions", title: "Temples and markets", text: "The Grand Palace and Wat Phra Kaew, Wat Arun across the river, and the Chatuchak Weekend Market.", source: "thailandTourism" },
+      { id: "bkk-food", category: "food", title: "Street food", text: "Try pad thai, tom yum goong and mango sticky rice; Yaowarat (Chinatown) is busiest for street food in the evening.", source: "thailandTourism" },
+      { id: "bkk-temples", category: "tips", title: "Temple dress code", text: "Cover shoulders and knees to enter the Grand Palace and major temples.", source: "thailandTourism" },
+    ],
+  },
+  {
+    cityCode: "SIN",
+    cityName: "Singapore",
+    countryCode: "SG",
+    airports: ["SIN"],
+    timezone: "Asia/Singapore",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "sin-visa", category: "visa", title: "Visa-free stay", text: "Korean passport holders can visit Singapore without a visa for up to 90 days.", source: "mofaKorea" },
+      { id: "sin-arrival-card", category: "visa", title: "SG Arrival Card", text: "Submit the SG Arrival Card online within 3 days before arrival.", source: "singaporeIca" },
+      { id: "sin-currency", category: "currency", title: "Singapore dollar (SGD)", text: "Cards and contactless payments are accepted almost everywhere, including public transport.", source: "singaporeTourism" },
+      { id: "sin-power", category: "power", title: "Type G plugs, 230 V", text: "Sockets are the three-pin Type G at 230 V, 50 Hz. Korean plugs need an adapter.", source: "iecPlugs" },
+      { id: "sin-sights", category: "attractions", title: "Marina Bay", text: "Gardens by the Bay with its Supertrees, the Marina Bay waterfront, and Sentosa island.", source: "singaporeTourism" },
+      { id: "sin-food", category: "food", title: "Hawker centres", text: "Eat where locals do: hawker centres such as Maxwell and Lau Pa Sat serve chicken rice, laksa and satay.", source: "singaporeTourism" },
+      { id: "sin-rules", category: "tips", title: "Strict public rules", text: "Eating and drinking are not allowed on MRT trains and in stations, and littering is fined.", source: "singaporeTourism" },
+    ],
+  },
+  {
+    cityCode: "HKG",
+    cityName: "Hong Kong",
+    countryCode: "HK",
+    airports: ["HKG"],
+    timezone: "Asia/Hong_Kong",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "hkg-visa", category: "visa", title: "Visa-free stay", text: "Korean passport holders can visit Hong Kong without a visa for up to 90 days.", source: "hongKongImmd" },
+      { id: "hkg-currency", category: "currency", title: "Hong Kong dollar (HKD)", text: "Cards are common in shops and restaurants; the Octopus card pays for transit and convenience stores.", source: "hongKongTourism" },
+      { id: "hkg-power", category: "power", title: "Type G plugs, 220 V", text: "Sockets are the three-pin Type G at 220 V, 50 Hz. Korean plugs need an adapter.", source: "iecPlugs" },
+      { id: "hkg-sights", category: "attractions", title: "Harbour views", text: "Victoria Peak by the Peak Tram, the Star Ferry across Victoria Harbour, and the Temple Street Night Market.", source: "hongKongTourism" },
+      { id: "hkg-food", category: "food", title: "Dim sum and roast meats", text: "Have dim sum at a traditional teahouse, roast goose, and egg tarts from a local bakery.", source: "hongKongTourism" },
+      { id: "hkg-transit", category: "tips", title: "Octopus card", text: "Use an Octopus card (also in phone wallets) on the MTR, buses, trams and ferries.", source: "hongKongTourism" },
+    ],
+  },
+  {
+    cityCode: "TPE",
+    cityName: "Taipei",
+    countryCode: "TW",
+    airports: ["TPE", "TSA"],
+    timezone: "Asia/Taipei",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "tpe-visa", category: "visa", title: "Visa-free stay", text: "Korean passport holders can visit Taiwan without a visa for up to 90 days.", source: "taiwanBoca" },
+      { id: "tpe-currency", category: "currency", title: "New Taiwan dollar (TWD)", text: "Department stores take cards, but night markets and small eateries are mostly cash.", source: "taiwanTourism" },
+      { id: "tpe-power", category: "power", title: "Type A/B plugs, 110 V", text: "Sockets are Type A/B at 110 V, 60 Hz. Korean plugs need an adapter; check that devices support 110 V.", source: "iecPlugs" },
+      { id: "tpe-sights", category: "attractions", title: "Taipei highlights", text: "Taipei 101 observatory, the National Palace Museum, and Chiang Kai-shek Memorial Hall.", source: "taiwanTourism" },
+      { id: "tpe-food", category: "food", title: "Night markets", text: "Shilin and Raohe night markets for snacks; also try beef noodle soup and xiaolongbao.", source: "taiwanTourism" },
+      { id: "tpe-transit", category: "tips", title: "EasyCard", text: "The EasyCard pays for the MRT, buses and convenience stores. Eating and drinking are banned inside MRT paid areas.", source: "taiwanTourism" },
+    ],
+  },
+  {
+    cityCode: "SGN",
+    cityName: "Ho Chi Minh City",
+    countryCode: "VN",
+    airports: ["SGN"],
+    timezone: "Asia/Ho_Chi_Minh",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "sgn-visa", category: "visa", title: "Visa-free stay", text: "Korean passport holders can stay in Vietnam without a visa for up to 45 days; longer trips need an e-visa.", source: "vietnamEvisa" },
+      { id: "sgn-currency", category: "currency", title: "Vietnamese dong (VND)", text: "Cash is common at markets and street stalls; notes have many zeros, so check them before paying.", source: "vietnamTourism" },
+      { id: "sgn-power", category: "power", title: "220 V, Type A/C/F", text: "Power is 220 V, 50 Hz with Type A, C and F sockets; Korean plugs usually fit.", source: "iecPlugs" },
+      { id: "sgn-sights", category: "attractions", title: "City and history", text: "Ben Thanh Market, the War Remnants Museum, and a day trip to the Cu Chi Tunnels.", source: "vietnamTourism" },
+      { id: "sgn-food", category: "food", title: "Pho and banh mi", text: "Try pho, banh mi and com tam (broken rice), a Saigon specialty.", source: "vietnamTourism" },
+      { id: "sgn-transit", category: "tips", title: "Getting around", text: "Ride-hailing apps such as Grab are the easiest way to get around; cross streets at a slow, steady pace.", source: "vietnamTourism" },
+    ],
+  },
+  {
+    cityCode: "NYC",
+    cityName: "New York",
+    countryCode: "US",
+    airports: ["JFK", "EWR", "LGA"],
+    timezone: "America/New_York",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "nyc-visa", category: "visa", title: "ESTA required", text: "Korean passport holders need an approved ESTA (Visa Waiver Program) before boarding; stays are limited to 90 days.", source: "usEsta" },
+      { id: "nyc-currency", category: "currency", title: "US dollar (USD)", text: "Cards and contactless payments are accepted almost everywhere. Sales tax is added at checkout, not included in shelf prices.", source: "nycTourism" },
+      { id: "nyc-power", category: "power", title: "Type A/B plugs, 120 V", text: "Sockets are Type A/B at 120 V, 60 Hz. Korean plugs need an adapter; check that devices support 120 V.", source: "iecPlugs" },
+      { id: "nyc-sights", category: "attractions", title: "Manhattan classics", text: "Central Park, The Metropolitan Museum of Art, and the Statue of Liberty by ferry from Battery Park.", source: "nycTourism" },
+      { id: "nyc-food", category: "food", title: "New York staples", text: "A slice of New York pizza, bagels for breakfast, and a deli sandwich.", source: "nycTourism" },
+      { id: "nyc-tipping", category: "tips", title: "Tipping", text: "Tipping about 18-20% at sit-down restaurants is expected. Tap a contactless card at OMNY readers to ride the subway.", source: "nycTourism" },
+    ],
+  },
+  {
+    cityCode: "LON",
+    cityName: "London",
+    countryCode: "GB",
+    airports: ["LHR", "LGW", "STN", "LTN", "LCY"],
+    timezone: "Europe/London",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "lon-visa", category: "visa", title: "ETA required", text: "Korean passport holders need an Electronic Travel Authorisation (ETA) before travelling to the UK for a short visit.", source: "ukEta" },
+      { id: "lon-currency", category: "currency", title: "Pound sterling (GBP)", text: "Contactless card payments are accepted almost everywhere, including buses, which do not take cash.", source: "visitLondon" },
+      { id: "lon-power", category: "power", title: "Type G plugs, 230 V", text: "Sockets are the three-pin Type G at 230 V, 50 Hz. Korean plugs need an adapter.", source: "iecPlugs" },
+      { id: "lon-sights", category: "attractions", title: "Museums and landmarks", text: "The British Museum (free entry), the Tower of London, and Westminster Abbey by the Houses of Parliament.", source: "visitLondon" },
+      { id: "lon-food", category: "food", title: "Markets and pubs", text: "Browse Borough Market for lunch and try a Sunday roast at a pub.", source: "visitLondon" },
+      { id: "lon-transit", category: "tips", title: "Tube fares", text: "Tap the same contactless card or Oyster card on the Tube and buses; daily fares are capped.", source: "visitLondon" },
+    ],
+  },
+  {
+    cityCode: "PAR",
+    cityName: "Paris",
+    countryCode: "FR",
+    airports: ["CDG", "ORY"],
+    timezone: "Europe/Paris",
+    reviewedAt: "2026-10",
+    facts: [
+      { id: "par-visa", category: "visa", title: "Schengen visa-free stay", text: "Korean passport holders can stay in the Schengen area without a visa for up to 90 days in any 180-day period.", source: "franceVisas" },
+      { id: "par-currency", category: "currency", title: "Euro (EUR)", text: "Cards are widely accepted; service is included in restaurant prices, so tipping is optional.", source: "parisTourism" },
+      { id: "par-power", category: "power", title: "Type C/E plugs, 230 V", text: "Sockets are Type C/E at 230 V, 50 Hz. Slim Korean Type C plugs fit; some thicker plugs need an adapter.", source: "iecPlugs" },
+      { id: "par-sights", category: "attractions", title: "Museums and monuments", text: "The Louvre, the Eiffel Tower, and the Musée d'Orsay; book timed tickets online in advance.", source: "parisTourism" },
+      { id: "par-food", category: "food", title: "Bakeries and bistros", text: "Start the day at a boulangerie and look for a bistro's lunch menu (formule) for good value.", source: "parisTourism" },
+      { id: "par-closures", category: "tips", title: "Museum closing days", text: "Many museums close one day a week: the Louvre on Tuesdays and the Musée d'Orsay on Mondays.", source: "parisTourism" },
+    ],
+  },
+];
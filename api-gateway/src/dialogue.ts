@@ -0,0 +1,356 @@
+// api-gateway/src/dialogue.ts
+
+import { z } from "zod";
+import { resolveDateExpression, todayIn } from "./dates.js";
+import { crossCheckSlots, parseFlightQuery } from "./intentParser.js";
+import { logger } from "./observability/logger.js";
+import type { AgentTool } from "./agent.js";
+import type { FlightServerClient } from "./mcpClient.js";
+import type { DialogueState, FlightLeg, FlightSlots, SlotName } from "./types.js";
+
+const REQUIRED_SLOTS: SlotName[] = ["origin", "destination", "departDate"];
+
+// 비어 있는 슬롯별 추가 질문
+const QUESTIONS: Partial<Record<SlotName, string>> = {
+  origin: "어느 도시(또는 공항)에서 출발하시나요?",
+  destination: "어디로 가시나요?",
+  departDate: "언제 출발하실 예정인가요? (예: 12월 5일, 다음주 월요일)",
+  returnDate: "돌아오는 날짜는 언제인가요? 편도라면 '편도'라고 말씀해 주세요.",
+  legs: "각 구간의 출발지, 도착지, 날짜를 순서대로 알려주세요. (예: 서울→도쿄 12월 1일, 도쿄→방콕 12월 5일)",
+};
+
+// 다구간으로 바뀌면 편도/왕복 슬롯은 의미가 없으므로 비움 (반대도 마찬가지)
+const SINGLE_TRIP_SLOTS = ["origin", "destination", "departDate", "returnDate", "round"] as const;
+
+// LLM 이 잘못된 값을 넣은 필드는 버리고 나머지만 사용
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.optional().catch(undefined);
+const airlineCodes = z.array(z.string().regex(/^[A-Z0-9]{2}$/)).min(1);
+
+const LegSlotSchema = z.object({
+  origin: optional(z.string().trim().min(2)),
+  destination: optional(z.string().trim().min(2)),
+  departDate: optional(z.string().trim().min(1)),
+});
+
+const FlightSlotsSchema = z.object({
+  origin: optional(z.string().trim().min(2)),
+  destination: optional(z.string().trim().min(2)),
+  departDate: optional(z.string().trim().min(1)),
+  returnDate: optional(z.string().trim().min(1)),
+  round: optional(z.boolean()),
+  adults: optional(z.number().int().min(1).max(9)),
+  children: optional(z.number().int().min(0).max(8)),
+  infants: optional(z.number().int().min(0).max(9)),
+  currency: optional(z.string().regex(/^[A-Z]{3}$/)),
+  travelClass: optional(z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"])),
+  nonStop: optional(z.boolean()),
+  includedAirlineCodes: optional(airlineCodes),
+  excludedAirlineCodes: optional(airlineCodes),
+  maxPrice: optional(z.number().positive()),
+  legs: optional(z.array(LegSlotSchema).min(2).max(6)),
+});
+
+const DialogueStateSchema = z.object({
+  status: z.enum(["collecting", "complete"]).catch("collecting"),
+  slots: FlightSlotsSchema.catch({}),
+  awaiting: optional(z.enum(["origin", "destination", "departDate", "returnDate", "legs"])),
+});
+
+export interface DialogueController {
+  // 모델이 슬롯을 기록하는 도구 (update_search_details)
+  tool: AgentTool;
+  // 시스템 프롬프트에 넣을 현재 대화 상태
+  context(): string;
+  // search_flights 가 성공하면 검색에 쓰인 조건으로 상태를 확정
+  recordSearch(params: Record<string, unknown>): void;
+  state(): DialogueState;
+}
+
+// update_search_details 도구 결과
+export interface SearchDetailsUpdate {
+  complete: boolean;
+  slots: FlightSlots;
+  missing: SlotName[];
+  issues: string[];
+  // 사용자 메시지와 달라서 바로잡은 값
+  corrections?: string[];
+  nextQuestion?: string;
+  // 다구간이면 legs 대신 originDestinations (search_flights 입력 형태)
+  searchParams?: Omit<FlightSlots, "legs"> & { round?: boolean; originDestinations?: FlightLeg[] };
+}
+
+interface SlotIssue {
+  slot: SlotName;
+  message: string;
+}
+
+// 클라이언트가 돌려준 dialogue 는 신뢰하지 않고 검증된 필드만 복원
+function restoreDialogue(previous: unknown): Omit<DialogueState, "missing" | "timezone"> {
+  const parsed = DialogueStateSchema.safeParse(previous);
+  return parsed.success ? parsed.data : { status: "collecting", slots: {} };
+}
+
+function definedEntries(slots: FlightSlots): FlightSlots {
+  return Object.fromEntries(Object.entries(slots).filter(([, value]) => value !== undefined)) as FlightSlots;
+}
+
+export function missingSlots(slots: FlightSlots): SlotName[] {
+  if (slots.legs) {
+    return slots.legs.every((leg) => leg.origin && leg.destination && leg.departDate) ? [] : ["legs"];
+  }
+  const missing = REQUIRED_SLOTS.filter((slot) => !slots[slot]);
+  if (slots.round && !slots.returnDate) missing.push("returnDate");
+  return missing;
+}
+
+// "Tokyo", "인천" → IATA 코드 (3글자 코드는 그대로 사용)
+async function resolveLocationSlot(flightServer: FlightServerClient, term: string): Promise<string | undefined> {
+  const code = term.trim().toUpperCase();
+  if (/^[A-Z]{3}$/.test(code)) return code;
+
+  try {
+    const result = await flightServer.lookupLocations({ term, limit: 1 });
+    return result?.locations?.[0]?.iataCode;
+  } catch {
+    return undefined;
+  }
+}
+
+// 구간의 날짜 표현 → YYYY-MM-DD (해석할 수 없거나 지난 날짜면 issue 메시지)
+function resolveDateSlot(expression: string, timezone: string, now: Date): { date?: string; problem?: string } {
+  const date = resolveDateExpression(expression, timezone, now);
+  if (!date) return { problem: `'${expression}' 날짜를 이해하지 못했습니다.` };
+  if (date < todayIn(timezone, now)) return { problem: `${date}는 이미 지난 날짜입니다.` };
+  return { date };
+}
+
+/**
+ * 다구간 구간 목록 해석 (모델은 매번 전체 구간을 보냄)
+ * 지명/날짜는 단일 구간과 같은 방식으로 변환하고, 출발지가 빠진 구간은 이전 구간 도착지에서 이어지는 것으로 봄
+ */
+async function resolveLegs(
+  flightServer: FlightServerClient,
+  legs: NonNullable<FlightSlots["legs"]>,
+  timezone: string,
+  now: Date
+): Promise<{ legs: Partial<FlightLeg>[]; issues: SlotIssue[] }> {
+  const resolved: Partial<FlightLeg>[] = [];
+  const issues: SlotIssue[] = [];
+  const problem = (index: number, message: string) => issues.push({ slot: "legs", message: `${index + 1}번째 구간: ${message}` });
+
+  for (const [index, leg] of legs.entries()) {
+    const result: Partial<FlightLeg> = {};
+    const origin = leg.origin ?? resolved[index - 1]?.destination;
+    for (const [place, term] of [["origin", origin], ["destination", leg.destination]] as const) {
+      if (!term) continue;
+      const code = await resolveLocationSlot(flightServer, term);
+      if (code) result[place] = code;
+      else problem(index, `'${term}'에 해당하는 공항이나 도시를 찾지 못했습니다.`);
+    }
+    if (leg.departDate) {
+      const { date, problem: dateProblem } = resolveDateSlot(leg.departDate, timezone, now);
+      if (date) result.departDate = date;
+      else problem(index, dateProblem!);
+    }
+
+    if (result.origin && result.origin === result.destination) {
+      delete result.destination;
+      problem(index, "출발지와 도착지가 같습니다.");
+    }
+    const previousDate = resolved[index - 1]?.departDate;
+    if (result.departDate && previousDate && result.departDate < previousDate) {
+      delete result.departDate;
+      problem(index, "출발 날짜가 이전 구간보다 빠릅니다.");
+    }
+    resolved.push(result);
+  }
+
+  return { legs: resolved, issues };
+}
+
+/**
+ * 이번 턴에 추출된 슬롯을 기존 슬롯에 병합
+ * 지명은 IATA 코드로, 날짜 표현은 사용자 시간대 기준 YYYY-MM-DD 로 변환하고
+ * 해석할 수 없거나 맞지 않는 값은 비운 뒤 issue 로 돌려줌
+ */
+async function mergeSlots(
+  flightServer: FlightServerClient,
+  previous: FlightSlots,
+  update: FlightSlots,
+  timezone: string,
+  now: Date
+): Promise<{ slots: FlightSlots; issues: SlotIssue[] }> {
+  const changes = definedEntries(update);
+  const slots: FlightSlots = { ...previous, ...changes };
+  const issues: SlotIssue[] = [];
+
+  if (changes.legs) {
+    for (const slot of SINGLE_TRIP_SLOTS) delete slots[slot];
+    const resolved = await resolveLegs(flightServer, changes.legs, timezone, now);
+    slots.legs = resolved.legs;
+    return { slots, issues: resolved.issues };
+  }
+  if (changes.origin || changes.destination) {
+    delete slots.legs;
+  }
+
+  for (const slot of ["origin", "destination"] as const) {
+    const term = changes[slot];
+    if (!term) continue;
+    const code = await resolveLocationSlot(flightServer, term);
+    if (code) {
+      slots[slot] = code;
+    } else {
+      delete slots[slot];
+      issues.push({ slot, message: `'${term}'에 해당하는 공항이나 도시를 찾지 못했습니다.` });
+    }
+  }
+
+  for (const slot of ["departDate", "returnDate"] as const) {
+    const expression = changes[slot];
+    if (!expression) continue;
+    const { date, problem } = resolveDateSlot(expression, timezone, now);
+    if (date) {
+      slots[slot] = date;
+    } else {
+      delete slots[slot];
+      issues.push({ slot, message: problem! });
+    }
+  }
+
+  if (changes.returnDate && slots.returnDate) slots.round = true;
+  if (changes.round === false) delete slots.returnDate;
+
+  if (slots.origin && slots.origin === slots.destination) {
+    delete slots.destination;
+    issues.push({ slot: "destination", message: "출발지와 도착지가 같습니다." });
+  }
+  if (slots.departDate && slots.returnDate && slots.returnDate < slots.departDate) {
+    delete slots.returnDate;
+    issues.push({ slot: "returnDate", message: "돌아오는 날짜가 출발 날짜보다 빠릅니다." });
+  }
+
+  return { slots, issues };
+}
+
+// 완성된 슬롯 → search_flights 인자 (다구간은 originDestinations 로)
+function toSearchParams({ legs, ...slots }: FlightSlots): NonNullable<SearchDetailsUpdate["searchParams"]> {
+  return legs ? { ...slots, originDestinations: legs as FlightLeg[] } : { ...slots, round: !!slots.round };
+}
+
+const UPDATE_TOOL_PARAMETERS = {
+  type: "object",
+  properties: {
+    origin: { type: "string", description: "Departure city/airport name or IATA code, as the user said it" },
+    destination: { type: "string", description: "Arrival city/airport name or IATA code, as the user said it" },
+    departDate: { type: "string", description: 'The user\'s wording (e.g. "next Monday", "12월 5일") or YYYY-MM-DD' },
+    returnDate: { type: "string", description: "Same format as departDate" },
+    round: { type: "boolean", description: "true for a round trip, false for one-way" },
+    adults: { type: "integer", minimum: 1, maximum: 9 },
+    children: { type: "integer", minimum: 0, maximum: 8, description: "Ages 2-11" },
+    infants: { type: "integer", minimum: 0, maximum: 9, description: "Under 2" },
+    currency: { type: "string", description: "ISO 4217 code such as USD, KRW, EUR" },
+    travelClass: { type: "string", enum: ["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"] },
+    nonStop: { type: "boolean", description: "Only if the user asks for direct flights" },
+    includedAirlineCodes: { type: "array", items: { type: "string" }, description: "2-letter IATA airline codes" },
+    excludedAirlineCodes: { type: "array", items: { type: "string" }, description: "2-letter IATA airline codes" },
+    maxPrice: { type: "number", description: "Total budget in the search currency" },
+    legs: {
+      type: "array",
+      description:
+        "Multi-city or open-jaw trips only (e.g. Seoul → Tokyo → Bangkok → Seoul): every flight leg in travel order, always the full list. Use instead of origin/destination/departDate/returnDate.",
+      items: {
+        type: "object",
+        properties: {
+          origin: { type: "string", description: "Leg departure city/airport, as the user said it" },
+          destination: { type: "string", description: "Leg arrival city/airport, as the user said it" },
+          departDate: { type: "string", description: "Same format as departDate" },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * 대화 한 턴의 슬롯 상태 관리자
+ * 모델은 update_search_details 도구로 사용자가 말한 조건을 기록하고,
+ * 도구 결과(비어 있는 슬롯, 문제, 다음 질문)를 보고 추가 질문하거나 search_flights 를 호출
+ * 모델이 넘긴 값은 사용자 최신 메시지(userMessage)에서 규칙으로 찾은 값과 대조해서 보정
+ */
+export function createDialogue(
+  flightServer: FlightServerClient,
+  previous: unknown,
+  timezone: string,
+  userMessage = "",
+  now: Date = new Date()
+): DialogueController {
+  const restored = restoreDialogue(previous);
+  let slots = restored.slots;
+  let awaiting = restored.awaiting;
+  let status: DialogueState["status"] = restored.status === "complete" && missingSlots(slots).length === 0 ? "complete" : "collecting";
+  const parsed = parseFlightQuery(userMessage, timezone, now, awaiting);
+
+  const tool: AgentTool = {
+    definition: {
+      name: "update_search_details",
+      description:
+        "Record flight search details the user stated or changed in their latest message (omit everything else; never guess). Returns the merged details with place names resolved to IATA codes and dates resolved to YYYY-MM-DD, the required details still missing, any problems, and the next question to ask. When complete is true, pass searchParams to search_flights.",
+      parameters: UPDATE_TOOL_PARAMETERS,
+    },
+    async run(args): Promise<SearchDetailsUpdate> {
+      const checked = crossCheckSlots(FlightSlotsSchema.catch({}).parse(args), parsed, timezone, now);
+      const merged = await mergeSlots(flightServer, slots, checked.slots, timezone, now);
+      const missing = missingSlots(merged.slots);
+      const corrections = checked.corrections.map(
+        (correction) => `${correction.slot}: ${JSON.stringify(correction.from)} → ${JSON.stringify(correction.to)} (사용자 메시지 기준)`
+      );
+      if (corrections.length > 0) {
+        logger.info({ corrections }, "검색 조건 보정");
+      }
+
+      slots = merged.slots;
+      status = "collecting";
+      awaiting = merged.issues[0]?.slot ?? missing[0];
+
+      const complete = missing.length === 0 && merged.issues.length === 0;
+      return {
+        complete,
+        slots,
+        missing,
+        issues: merged.issues.map((issue) => issue.message),
+        ...(corrections.length > 0 ? { corrections } : {}),
+        ...(awaiting ? { nextQuestion: QUESTIONS[awaiting] } : {}),
+        ...(complete ? { searchParams: toSearchParams(slots) } : {}),
+      };
+    },
+  };
+
+  return {
+    tool,
+    context() {
+      return [
+        `Today is ${todayIn(timezone, now)} (timezone ${timezone}).`,
+        `Flight search details collected so far: ${JSON.stringify(slots)}`,
+        `Still missing: ${missingSlots(slots).join(", ") || "nothing"}.`,
+        awaiting ? `You last asked the user for: ${awaiting}.` : "",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    },
+    recordSearch({ originDestinations, ...params }) {
+      // 검색 인자는 이미 IATA 코드/YYYY-MM-DD 이므로 변환 없이 반영 (sort, pageSize 등 슬롯이 아닌 값은 제외)
+      slots = { ...slots, ...definedEntries(FlightSlotsSchema.parse(params)) };
+      if (Array.isArray(originDestinations)) {
+        for (const slot of SINGLE_TRIP_SLOTS) delete slots[slot];
+        slots.legs = originDestinations as FlightLeg[];
+      } else {
+        delete slots.legs;
+      }
+      status = "complete";
+      awaiting = undefined;
+    },
+    state() {
+      return { status, slots, missing: missingSlots(slots), ...(awaiting ? { awaiting } : {}), timezone };
+    },
+  };
+}
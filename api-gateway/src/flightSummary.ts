@@ -0,0 +1,144 @@
+// api-gateway/src/flightSummary.ts
+
+import type {
+  BaggageAllowance,
+  FareRule,
+  FlightOffer,
+  FlightSearchResult,
+  OfferPricing,
+  OrderValidation,
+  PriceCalendar,
+  PriceCalendarCell,
+} from "./types.js";
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+function describeOffer(offer: FlightOffer, rank: number): string {
+  const legs = offer.itineraries.map((itinerary) => {
+    const first = itinerary.segments[0];
+    const last = itinerary.segments[itinerary.segments.length - 1];
+    const stops = itinerary.stops === 0 ? "direct" : `${itinerary.stops} stop${itinerary.stops > 1 ? "s" : ""}`;
+    return `${first.departure.iataCode} ${first.departure.at.slice(5, 16).replace("T", " ")} → ${last.arrival.iataCode} ${last.arrival.at
+      .slice(5, 16)
+      .replace("T", " ")} (${formatMinutes(itinerary.durationMinutes)}, ${stops})`;
+  });
+  const carrier = offer.itineraries[0]?.segments[0]?.carrierName ?? offer.validatingCarrier ?? "";
+  const tags = offer.tags?.length ? ` [${offer.tags.join(", ")}]` : "";
+
+  return `${rank}. [offer ${offer.id}] ${offer.price.total} ${offer.price.currency} - ${carrier}${tags}\n   ${legs.join("\n   ")}`;
+}
+
+/**
+ * 랭킹된 검색 결과를 LLM 요약용 짧은 텍스트로 변환 (원본 JSON 전체를 넘기지 않음)
+ */
+export function summarizeFlightsForLLM(flights: FlightSearchResult): string {
+  const total = flights.total ?? flights.items.length;
+  const searchId = flights.searchId ? ` (searchId ${flights.searchId})` : "";
+  const header = `${total} offers found${searchId}, showing top ${flights.items.length} sorted by ${flights.sort ?? "best"}:`;
+  return [header, ...flights.items.map((offer, index) => describeOffer(offer, index + 1))].join("\n");
+}
+
+// 가격 캘린더에서 LLM 에 보여줄 최저가 날짜 조합 수
+const CALENDAR_SUMMARY_COUNT = 5;
+
+function describeCalendarCell(cell: PriceCalendarCell, currency: string): string {
+  const dates = cell.returnDate ? `${cell.departDate} → ${cell.returnDate} (${cell.tripLength} nights)` : cell.departDate;
+  const stops = cell.stops === 0 ? "direct" : `${cell.stops} stop${cell.stops === 1 ? "" : "s"}`;
+  return `${dates}: ${cell.price} ${currency} - ${cell.carrier ?? "?"}, ${stops}`;
+}
+
+/**
+ * 가격 캘린더 → LLM 요약용 텍스트 (전체 행렬 대신 가격 범위와 최저가 조합 몇 개만)
+ */
+export function summarizePriceCalendarForLLM(calendar: PriceCalendar): string {
+  const priced = calendar.cells.filter((cell) => cell.price !== undefined).sort((a, b) => a.price! - b.price!);
+  if (priced.length === 0) {
+    return `No fares found for ${calendar.origin} → ${calendar.destination} on any of the ${calendar.searched} date combinations.`;
+  }
+
+  const failed = calendar.failed > 0 ? ` (${calendar.failed} failed)` : "";
+  const range = `${priced[0].price}-${priced[priced.length - 1].price} ${calendar.currency}`;
+  const header = `${calendar.searched} date combinations searched for ${calendar.origin} → ${calendar.destination}${failed}, prices ${range}. Cheapest:`;
+  const cheapest = priced.slice(0, CALENDAR_SUMMARY_COUNT).map((cell, index) => `${index + 1}. ${describeCalendarCell(cell, calendar.currency)}`);
+  return [header, ...cheapest].join("\n");
+}
+
+function describeFareRule(rule: FareRule, currency: string): string {
+  if (rule.description) return `${rule.category}: ${rule.description}`;
+  if (rule.allowed === false) return `${rule.category} not allowed`;
+  return `${rule.category} allowed${rule.maxPenalty !== undefined ? `, max penalty ${rule.maxPenalty} ${currency}` : ""}`;
+}
+
+function describeBaggage(bags: BaggageAllowance | undefined): string {
+  if (!bags) return "unknown";
+  if (bags.weight !== undefined) return `${bags.weight}${bags.weightUnit ?? "KG"}`;
+  return `${bags.quantity ?? 0} piece${bags.quantity === 1 ? "" : "s"}`;
+}
+
+/**
+ * 가격 확인 결과 → LLM 요약용 텍스트 (확인 가격/변동, 좌석, 운임 규정, 구간별 수하물)
+ */
+export function summarizeOfferPricingForLLM(pricing: OfferPricing): string {
+  const { offer, previousPrice } = pricing;
+  const currency = offer.price.currency;
+  const price =
+    pricing.priceDifference === 0
+      ? `Price confirmed: ${offer.price.total} ${currency}.`
+      : `Price changed since the search: ${previousPrice.total} → ${offer.price.total} ${currency} (${pricing.priceDifference > 0 ? "+" : ""}${pricing.priceDifference}).`;
+  const seats = pricing.seatsAvailable
+    ? `Seats available for ${pricing.seatsRequired} traveler(s)${offer.bookableSeats !== undefined ? ` (${offer.bookableSeats} left)` : ""}.`
+    : `NOT bookable: only ${offer.bookableSeats ?? 0} seat(s) left for ${pricing.seatsRequired} traveler(s).`;
+
+  return [
+    `Offer ${pricing.offerId} (status ${pricing.status}). ${price} ${seats}`,
+    ...(offer.lastTicketingDate ? [`Ticket by ${offer.lastTicketingDate}.`] : []),
+    `Fare rules: ${pricing.fareRules.length > 0 ? pricing.fareRules.map((rule) => describeFareRule(rule, currency)).join("; ") : "not provided"}.`,
+    `Checked bags: ${pricing.baggage.map((segment) => `${segment.route} ${describeBaggage(segment.checkedBags)}`).join(", ")}.`,
+  ].join("\n");
+}
+
+/**
+ * 예약 확인 버튼과 함께 보여줄 한 줄 요약 (여정, 승객, 확인된 총액)
+ */
+export function summarizeBookingForUser({ pricing, travelers }: OrderValidation): string {
+  const { offer } = pricing;
+  const route = offer.itineraries
+    .map((itinerary) => {
+      const first = itinerary.segments[0];
+      const last = itinerary.segments[itinerary.segments.length - 1];
+      return `${first.departure.iataCode} → ${last.arrival.iataCode} ${first.departure.at.slice(0, 16).replace("T", " ")} (${first.flightNumber})`;
+    })
+    .join(" / ");
+  const names = travelers.map((traveler) => `${traveler.lastName}/${traveler.firstName}`).join(", ");
+  const changed = pricing.priceDifference !== 0 ? ` (검색 때 ${pricing.previousPrice.total} ${pricing.previousPrice.currency}에서 변경)` : "";
+  return `${route}, 승객 ${travelers.length}명 (${names}), 총 ${offer.price.total} ${offer.price.currency}${changed}`;
+}
+
+function describeOfferForUser(offer: FlightOffer): string {
+  const carrier = offer.itineraries[0]?.segments[0]?.carrierName ?? offer.validatingCarrier ?? "";
+  const outbound = offer.itineraries[0];
+  const stops = !outbound || outbound.stops === 0 ? "직항" : `경유 ${outbound.stops}회`;
+  return `${carrier} ${offer.price.total} ${offer.price.currency} (${outbound ? formatMinutes(outbound.durationMinutes) : "?"}, ${stops})`;
+}
+
+/**
+ * LLM 없이 사용자에게 보여줄 검색 결과 안내 문장 (규칙 기반 처리용)
+ */
+export function summarizeFlightsForUser(flights: FlightSearchResult): string {
+  if (flights.items.length === 0) {
+    return "조건에 맞는 항공편을 찾지 못했어요. 날짜나 목적지를 바꿔서 다시 검색해 보세요.";
+  }
+
+  const total = flights.total ?? flights.items.length;
+  const best = flights.items.find((offer) => offer.tags?.includes("best")) ?? flights.items[0];
+  const cheapest = flights.items.find((offer) => offer.tags?.includes("cheapest"));
+  const lines = [`항공편 ${total}개를 찾았어요. 추천: ${describeOfferForUser(best)}.`];
+  if (cheapest && cheapest !== best) {
+    lines.push(`가장 저렴한 항공편: ${describeOfferForUser(cheapest)}.`);
+  }
+  return lines.join(" ");
+}
@@ -2,54 +2,152 @@ import Fastify from "fastify";
 import cors from "@fastify/cors";
 import rateLimit from "@fastify/rate-limit";
 import { z } from "zod";
-import dotenv from "dotenv";
-import { chat, validateLLMConfig } from "./llm.js";
-import { searchFlightsViaMCP, lookupLocationsViaMCP } from "./mcpClient.js";
+import type { FastifyBaseLogger, FastifyReply } from "fastify";
+import { v4 as uuidv4 } from "uuid";
+import { ConfigError, loadConfig, type GatewayConfig } from "./config.js";
+import { createLLMRouter, withLLMUsage } from "./llm.js";
+import { createChatService, validateChatRequest, type ChatEventSink } from "./chatTurn.js";
+import { createTravelCardService } from "./destinations/cards.js";
+import { isValidTimeZone } from "./dates.js";
+import { createSessionQueue, createSessionStore } from "./sessions/store.js";
+import { createApiKeyStore, issueApiKey } from "./auth/keyStore.js";
+import { ADMIN_TENANT, AuthError, createAuthenticator } from "./auth/authenticator.js";
+import { createQuotaTracker, type QuotaKind } from "./auth/quota.js";
+import { createFlightServerClient, MCPClientError, statusForMCPError } from "./mcpClient.js";
+import { createHealthMonitor } from "./health.js";
+import { configureLogger, logger } from "./observability/logger.js";
+import { registerObservability, requestIdFromHeaders } from "./observability/http.js";
 import type {
+  ApiKey,
   ChatRequest,
   ChatResponse,
+  ChatSession,
+  ChatStreamEvent,
+  FlightOrder,
   FlightSearchRequest,
-  FlightIntent,
-  TravelCard,
+  OrderRequest,
+  PriceCalendar,
+  PriceCalendarRequest,
+  PriceOfferRequest,
+  PriceWatchRequest,
+  Principal,
 } from "./types.js";
 
-console.log("🔧 API Gateway 시작 중...");
-dotenv.config();
-validateLLMConfig();
-
-async function main() {
-  const fastify = Fastify({
-    logger: {
-      level: process.env.NODE_ENV === "production" ? "info" : "debug",
-      transport: {
-        target: "pino-pretty",
-        options: {
-          translateTime: "HH:MM:ss Z",
-          ignore: "pid,hostname",
-          colorize: true,
-        },
-      },
-    },
+logger.info("API Gateway 시작 중...");
+
+// 잘못된 설정은 항목별로 모두 보고하고 시작하지 않음
+let config: GatewayConfig;
+try {
+  config = loadConfig();
+} catch (err) {
+  logger.fatal(err instanceof ConfigError ? { issues: err.issues } : { err }, "설정 로드 실패");
+  process.exit(1);
+}
+configureLogger(config.log);
+
+async function main(config: GatewayConfig) {
+  const llm = createLLMRouter(config.llm);
+  const flightServer = createFlightServerClient(config.flightServer);
+  const cards = createTravelCardService({ llm, config: config.cards });
+  const chat = createChatService({ llm, flightServer, cards, config: config.chat });
+
+  // 모듈 로그와 요청 로그가 같은 구조화 로거(LOG_FORMAT/LOG_LEVEL)를 사용, 요청 로그는 완료 시 한 줄
+  const fastify = Fastify({ loggerInstance: logger, disableRequestLogging: true, genReqId: requestIdFromHeaders, requestIdLogLabel: "correlationId" });
+  registerObservability(fastify);
+
+  // CORS_ORIGINS 가 있으면 그 origin 만 허용(쿠키 포함), 없으면 모든 origin 허용하되 자격 증명은 헤더(API 키)로만
+  const { corsOrigins } = config;
+  await fastify.register(cors, corsOrigins.length > 0 ? { origin: corsOrigins, credentials: true } : { origin: true });
+
+  // 대화 세션이 삭제/만료되면 연결된 MCP 세션도 플라이트 서버에서 종료
+  const sessionStore = createSessionStore(config.sessions, (session) => {
+    if (session.mcpSessionId) void flightServer.closeSession({ id: session.mcpSessionId });
+  });
+  const sessionQueue = createSessionQueue();
+  const apiKeys = createApiKeyStore(config.apiKeys);
+  // 키 파일이 깨져 있으면 빈 저장소로 시작하지 않고 종료 (다음 발급 때 기존 키를 덮어쓰지 않도록)
+  try {
+    await apiKeys.ready();
+  } catch (err) {
+    logger.fatal({ err }, "API 키 저장소 로드 실패");
+    process.exit(1);
+  }
+  const authenticator = createAuthenticator(apiKeys, config.auth, config.limits);
+  const quotas = createQuotaTracker();
+
+  // 인증/쿼터 실패는 다른 게이트웨이 에러와 같은 { error, code } 형태로 응답
+  fastify.setErrorHandler((error, _request, reply) => {
+    if (error instanceof AuthError) {
+      return reply.code(error.statusCode).send({ error: error.message, code: error.code });
+    }
+    return reply.send(error);
   });
 
-  await fastify.register(cors, {
-    origin: true,
-    credentials: true,
+  // /health*, /metrics 외 모든 경로는 인증 후 request.principal 로 요청 주체 전달 (인증이 꺼져 있으면 anonymous)
+  // 인증에 실패한 요청은 아래 요청 한도에 도달하지 않으므로 authenticator 가 IP 별 실패 횟수로 제한 (AUTH_FAILURES_PER_MINUTE)
+  const PUBLIC_PATHS = new Set(["/health", "/health/live", "/health/ready", "/metrics"]);
+  fastify.decorateRequest("principal", null as unknown as Principal);
+  fastify.addHook("onRequest", async (request) => {
+    if (request.method === "OPTIONS" || PUBLIC_PATHS.has(request.url.split("?")[0])) return;
+    request.principal = await authenticator.authenticate(request.headers, request.ip);
   });
 
+  // 분당 요청 한도: API 키/JWT 주체별 (키마다 다른 한도), 인증이 없으면 IP 별
   await fastify.register(rateLimit, {
-    max: 100,
+    max: (request) => request.principal?.limits.requestsPerMinute ?? config.limits.requestsPerMinute,
+    keyGenerator: (request) => (request.principal ? `${request.principal.kind}:${request.principal.id}` : request.ip),
     timeWindow: "1 minute",
     hook: "onRequest",
   });
 
+  const assertQuota = (principal: Principal, kinds: QuotaKind[]) => {
+    const reason = quotas.exceeded(principal, kinds);
+    if (reason) {
+      throw new AuthError("QUOTA_EXCEEDED", reason, 429);
+    }
+  };
+
+  const requireAdmin = (principal: Principal) => {
+    if (!principal.admin) {
+      throw new AuthError("FORBIDDEN", "관리자 권한이 필요합니다", 403);
+    }
+  };
+
+  // 다른 테넌트가 만든 세션은 없는 것으로 처리
+  const findSession = async (id: string, principal: Principal): Promise<ChatSession | undefined> => {
+    const session = await sessionStore.get(id);
+    return session && (!session.tenant || session.tenant === principal.tenant) ? session : undefined;
+  };
+
+  // 인증된 요청이면 플라이트 서버의 가격 알림/예약을 테넌트별로 구분 (다른 테넌트의 것은 404)
+  const tenantOf = (principal: Principal): string | undefined => (principal.kind !== "anonymous" ? principal.tenant : undefined);
+
+  // 플라이트 서버 없이는 검색/예약을 할 수 없으므로 critical, LLM 은 규칙 기반 응답으로 버틸 수 있으므로 degraded 까지만
+  const health = createHealthMonitor(
+    "api-gateway",
+    [
+      { name: "flightServer", critical: true, check: flightServer.checkHealth },
+      { name: "llm", critical: false, check: llm.checkHealth },
+    ],
+    config.health
+  );
+
+  // liveness: 프로세스가 요청을 받을 수 있는지만 (의존성 장애로 재시작되지 않도록 항상 200)
+  fastify.get("/health/live", async () => health.liveness());
+
+  // readiness: 플라이트 서버를 사용할 수 없으면 503 (degraded 는 200)
+  fastify.get("/health/ready", async (_request, reply) => {
+    const report = await health.readiness();
+    return reply.code(report.status === "down" ? 503 : 200).send(report);
+  });
+
+  // 기존 형식 유지: readiness 결과 + 세션 저장소/경로 설정 (상태와 관계없이 200)
   fastify.get("/health", async () => ({
-    status: "ok",
-    service: "api-gateway",
-    timestamp: new Date().toISOString(),
+    ...(await health.readiness()),
+    sessions: sessionStore.kind,
     providers: {
-      llm: process.env.LLM_PROVIDER,
-      flightServer: process.env.FLIGHT_SERVER_URL || "http://localhost:8700",
+      llm: llm.describeRoutes(),
+      flightServer: flightServer.url,
     },
   }));
 
@@ -59,13 +157,16 @@ async function main() {
     const { term = "Seoul", limit = "5" } = request.query;
 
     try {
-      const result = await lookupLocationsViaMCP({
+      const result = await flightServer.lookupLocations({
         term,
         limit: Number(limit),
       });
 
       return result || { locations: [] };
     } catch (error) {
+      if (error instanceof MCPClientError && error.code === "INVALID_PARAMS") {
+        return reply.code(400).send({ error: "잘못된 요청", code: error.code, details: error.details });
+      }
       request.log.error(error, "위치 검색 실패");
       return reply.code(500).send({ error: "위치 검색 중 오류가 발생했습니다" });
     }
@@ -74,138 +175,308 @@ async function main() {
   fastify.post<{
     Body: FlightSearchRequest;
   }>("/search-flights", async (request, reply) => {
-    const schema = z.object({
+    assertQuota(request.principal, ["searches"]);
+
+    const legSchema = z.object({
       origin: z.string().min(3).max(10),
       destination: z.string().min(3).max(10),
       departDate: z.string().regex(/\d{4}-\d{2}-\d{2}/),
-      returnDate: z.string().regex(/\d{4}-\d{2}-\d{2}/).optional(),
-      round: z.boolean().optional(),
-      adults: z.number().int().min(1).max(9).optional(),
-      currency: z.string().optional(),
-      maxStopovers: z.number().int().min(0).max(2).optional(),
     });
+    const schema = z
+      .object({
+        origin: z.string().min(3).max(10).optional(),
+        destination: z.string().min(3).max(10).optional(),
+        departDate: z.string().regex(/\d{4}-\d{2}-\d{2}/).optional(),
+        returnDate: z.string().regex(/\d{4}-\d{2}-\d{2}/).optional(),
+        // 다구간/오픈조: 구간 순서/날짜 검증은 플라이트 서버에서
+        originDestinations: z.array(legSchema).min(2).max(6).optional(),
+        round: z.boolean().optional(),
+        adults: z.number().int().min(1).max(9).optional(),
+        currency: z.string().optional(),
+        children: z.number().int().min(0).max(8).optional(),
+        infants: z.number().int().min(0).max(9).optional(),
+        travelClass: z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]).optional(),
+        nonStop: z.boolean().optional(),
+        // 플라이트 서버 search_flights 와 같은 범위 (MCP 도구로 검색해도 같은 값이 통과)
+        maxStopovers: z.number().int().min(0).max(3).optional(),
+        includedAirlineCodes: z.array(z.string().length(2)).optional(),
+        excludedAirlineCodes: z.array(z.string().length(2)).optional(),
+        maxPrice: z.number().positive().optional(),
+        maxResults: z.number().int().min(1).max(250).optional(),
+        sort: z.enum(["best", "cheapest", "fastest", "earliest"]).optional(),
+        pageSize: z.number().int().min(1).max(50).optional(),
+        cursor: z.string().optional(),
+        includeRaw: z.boolean().optional(),
+        sessionId: z.string().optional(),
+      })
+      .refine((params) => !!params.originDestinations || !!(params.origin && params.destination && params.departDate), {
+        message: "origin/destination/departDate 또는 originDestinations 가 필요합니다",
+      });
 
     try {
-      const params = schema.parse(request.body);
+      const { sessionId, ...params } = schema.parse(request.body);
 
-      const result = await searchFlightsViaMCP(params);
+      if (sessionId && !(await findSession(sessionId, request.principal))) {
+        return reply.code(404).send({ error: "세션을 찾을 수 없습니다" });
+      }
+
+      const result = await flightServer.searchFlights(params, { sessionId });
+      quotas.record(request.principal, { searches: 1 });
 
       if (!result) {
         return reply.code(404).send({ error: "항공편을 찾을 수 없습니다" });
       }
 
+      // 세션에 연결된 검색이면 이후 대화에서 참조할 수 있도록 결과 보관
+      if (sessionId) {
+        await sessionQueue(sessionId, async () => {
+          const session = await sessionStore.get(sessionId);
+          if (!session) return;
+          session.lastResults = result;
+          session.updatedAt = new Date().toISOString();
+          await sessionStore.save(session);
+        });
+      }
+
       return result;
     } catch (error) {
       if (error instanceof z.ZodError) {
         return reply.code(400).send({ error: "잘못된 요청", details: error.errors });
       }
 
+      if (error instanceof MCPClientError) {
+        request.log.warn({ code: error.code }, "항공편 검색 실패 (MCP)");
+        return reply.code(statusForMCPError(error.code)).send({ error: error.message, code: error.code, details: error.details });
+      }
+
       request.log.error(error, "항공편 검색 실패");
       return reply.code(500).send({ error: "항공편 검색 중 오류가 발생했습니다" });
     }
   });
 
+  // 가격 캘린더/가격 알림/가격 확인: 플라이트 서버 MCP 도구로 전달하고 에러 코드는 HTTP 상태로 변환
+  const sendMCPToolError = (reply: FastifyReply, log: FastifyBaseLogger, error: unknown, action: string) => {
+    if (error instanceof MCPClientError) {
+      log.warn({ code: error.code }, `${action} 실패 (MCP)`);
+      return reply.code(statusForMCPError(error.code)).send({ error: error.message, code: error.code, details: error.details });
+    }
+    log.error(error, `${action} 실패`);
+    return reply.code(500).send({ error: `${action} 중 오류가 발생했습니다` });
+  };
+
   fastify.post<{
-    Body: ChatRequest;
-  }>("/chat", async (request, reply) => {
-    const { messages } = request.body;
+    Body: PriceCalendarRequest;
+  }>("/price-calendar", async (request, reply) => {
+    assertQuota(request.principal, ["searches"]);
+    try {
+      const calendar = await flightServer.callTool<PriceCalendar>("search_price_calendar", { ...request.body });
+      // 날짜 조합마다 공급자 검색을 한 번씩 하므로 조합 수만큼 집계
+      quotas.record(request.principal, { searches: calendar.searched });
+      return calendar;
+    } catch (error) {
+      return sendMCPToolError(reply, request.log, error, "가격 캘린더 검색");
+    }
+  });
 
-    if (!messages || messages.length === 0) {
-      return reply.code(400).send({ error: "메시지가 필요합니다" });
+  fastify.get("/watches", async (request, reply) => {
+    try {
+      return await flightServer.callTool("list_price_watches", { tenant: tenantOf(request.principal) });
+    } catch (error) {
+      return sendMCPToolError(reply, request.log, error, "가격 알림 조회");
     }
+  });
 
+  fastify.post<{
+    Body: PriceWatchRequest;
+  }>("/watches", async (request, reply) => {
     try {
-      const intentPrompt = `
-You are a travel assistant. Analyze the user's message and determine their intent.
-
-If they want to search for flights, extract the following information and return ONLY a JSON object:
-{
-  "intent": "search_flights",
-  "origin": "IATA code",
-  "destination": "IATA code",
-  "departDate": "YYYY-MM-DD",
-  "returnDate": "YYYY-MM-DD" (optional for round trips),
-  "round": true/false,
-  "adults": number (default 1),
-  "currency": "USD/KRW/EUR/etc" (optional)
-}
+      const watch = await flightServer.callTool("create_price_watch", { ...request.body, tenant: tenantOf(request.principal) });
+      return reply.code(201).send(watch);
+    } catch (error) {
+      return sendMCPToolError(reply, request.log, error, "가격 알림 생성");
+    }
+  });
 
-If it's not a flight search, just respond naturally with helpful travel advice.
-Do NOT include any text outside the JSON when intent is search_flights.`;
-
-      const intentResponse = await chat([{ role: "system", content: intentPrompt }, ...messages]);
-
-      request.log.info({ intentResponse }, "LLM 의도 분석 결과");
-
-      let assistantMessage = intentResponse;
-      let flights = null;
-      let cards: TravelCard[] = [];
-
-      try {
-        const parsed = JSON.parse(intentResponse) as FlightIntent;
-
-        if (parsed?.intent === "search_flights") {
-          request.log.info({ parsed }, "항공편 검색 요청 감지");
-
-          flights = await searchFlightsViaMCP({
-            origin: parsed.origin,
-            destination: parsed.destination,
-            departDate: parsed.departDate,
-            returnDate: parsed.returnDate,
-            round: !!parsed.round,
-            adults: parsed.adults || 1,
-            currency: parsed.currency || "USD",
-          });
-
-          if (flights && flights.items?.length > 0) {
-            const summaryPrompt = `
-Summarize these flight search results in a friendly, concise way for a mobile chat interface.
-Keep it under 3 sentences. Mention the cheapest option and flight duration range.
-Be conversational and helpful.`;
-
-            assistantMessage = await chat([
-              { role: "system", content: summaryPrompt },
-              { role: "user", content: JSON.stringify(flights) },
-            ]);
-
-            const cardsPrompt = `
-Create 3 travel info cards for ${parsed.destination}.
-Return ONLY a JSON array with this structure:
-[
-  {"title": "Local Food", "summary": "Must-try dishes and restaurants", "url": "optional"},
-  {"title": "Top Attractions", "summary": "Popular sights and activities", "url": "optional"},
-  {"title": "Travel Tips", "summary": "Useful local information", "url": "optional"}
-]`;
-
-            const cardsResponse = await chat([
-              { role: "system", content: cardsPrompt },
-              { role: "user", content: `Destination: ${parsed.destination}` },
-            ]);
-
-            try {
-              cards = JSON.parse(cardsResponse);
-            } catch {
-              request.log.warn("카드 생성 실패, 기본 카드 사용");
-              cards = [
-                { title: "Explore", summary: `Discover ${parsed.destination}` },
-                { title: "Local Tips", summary: "Check local guides for recommendations" },
-                { title: "Weather", summary: "Check forecast before your trip" },
-              ];
-            }
-          } else {
-            assistantMessage = "죄송합니다, 해당 조건의 항공편을 찾을 수 없습니다. 날짜나 목적지를 조정해보시겠어요?";
-          }
-        }
-      } catch {
-        request.log.debug("일반 대화 모드");
+  fastify.get<{
+    Params: { id: string };
+  }>("/watches/:id/history", async (request, reply) => {
+    try {
+      return await flightServer.callTool("get_price_history", { watchId: request.params.id, tenant: tenantOf(request.principal) });
+    } catch (error) {
+      return sendMCPToolError(reply, request.log, error, "가격 알림 기록 조회");
+    }
+  });
+
+  fastify.delete<{
+    Params: { id: string };
+  }>("/watches/:id", async (request, reply) => {
+    try {
+      await flightServer.callTool("delete_price_watch", { watchId: request.params.id, tenant: tenantOf(request.principal) });
+      return reply.code(204).send();
+    } catch (error) {
+      return sendMCPToolError(reply, request.log, error, "가격 알림 삭제");
+    }
+  });
+
+  // searchId 를 생략하면 세션에서 마지막으로 보여준 검색 결과 기준 (세션이 없으면 null)
+  const resolveSearchId = async (principal: Principal, searchId?: string, sessionId?: string): Promise<string | undefined | null> => {
+    if (searchId || !sessionId) return searchId;
+    const session = await findSession(sessionId, principal);
+    return session ? session.lastResults?.searchId : null;
+  };
+
+  // 가격 확인: searchId 를 생략하면 세션에서 마지막으로 보여준 검색 결과의 항공편
+  fastify.post<{
+    Params: { id: string };
+    Body: PriceOfferRequest | undefined;
+  }>("/offers/:id/price", async (request, reply) => {
+    const searchId = await resolveSearchId(request.principal, request.body?.searchId, request.body?.sessionId);
+    if (searchId === null) {
+      return reply.code(404).send({ error: "세션을 찾을 수 없습니다" });
+    }
+    if (!searchId) {
+      return reply.code(400).send({ error: "searchId 또는 검색 결과가 있는 sessionId 가 필요합니다" });
+    }
+
+    try {
+      return await flightServer.callTool("price_flight_offer", { searchId, offerId: request.params.id });
+    } catch (error) {
+      return sendMCPToolError(reply, request.log, error, "가격 확인");
+    }
+  });
+
+  // 예약: Idempotency-Key 헤더를 플라이트 서버까지 전달해서 재시도/연속 탭에도 한 번만 예약 (키는 테넌트별로 구분)
+  fastify.post<{
+    Body: OrderRequest | undefined;
+  }>("/orders", async (request, reply) => {
+    const { searchId: requestedSearchId, sessionId, ...order } = request.body ?? ({} as Partial<OrderRequest>);
+    const searchId = await resolveSearchId(request.principal, requestedSearchId, sessionId);
+    if (searchId === null) {
+      return reply.code(404).send({ error: "세션을 찾을 수 없습니다" });
+    }
+    if (!searchId) {
+      return reply.code(400).send({ error: "searchId 또는 검색 결과가 있는 sessionId 가 필요합니다" });
+    }
+
+    const idempotencyKey = request.headers["idempotency-key"];
+    try {
+      const result = await flightServer.callTool<FlightOrder>("create_order", {
+        ...order,
+        searchId,
+        ...(typeof idempotencyKey === "string" ? { idempotencyKey } : {}),
+        tenant: tenantOf(request.principal),
+      });
+      request.log.info({ orderId: result.id, pnr: result.pnr }, "예약 생성");
+      return reply.code(201).send(result);
+    } catch (error) {
+      return sendMCPToolError(reply, request.log, error, "예약");
+    }
+  });
+
+  fastify.get<{
+    Params: { id: string };
+  }>("/orders/:id", async (request, reply) => {
+    try {
+      return await flightServer.callTool("get_order", { orderId: request.params.id, tenant: tenantOf(request.principal) });
+    } catch (error) {
+      return sendMCPToolError(reply, request.log, error, "예약 조회");
+    }
+  });
+
+  fastify.delete<{
+    Params: { id: string };
+  }>("/orders/:id", async (request, reply) => {
+    try {
+      return await flightServer.callTool("cancel_order", { orderId: request.params.id, tenant: tenantOf(request.principal) });
+    } catch (error) {
+      return sendMCPToolError(reply, request.log, error, "예약 취소");
+    }
+  });
+
+  fastify.post<{
+    Body: { timezone?: string };
+  }>("/sessions", async (request, reply) => {
+    const timezone = request.body?.timezone;
+    if (timezone && !isValidTimeZone(timezone)) {
+      return reply.code(400).send({ error: `알 수 없는 시간대입니다: ${timezone}` });
+    }
+
+    const now = new Date().toISOString();
+    const { principal } = request;
+    const session: ChatSession = {
+      id: uuidv4(),
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+      ...(timezone ? { timezone } : {}),
+      // 인증된 요청이면 같은 테넌트만 세션을 사용할 수 있음
+      ...(principal.kind !== "anonymous" ? { tenant: principal.tenant } : {}),
+    };
+    await sessionStore.save(session);
+
+    request.log.info({ sessionId: session.id }, "세션 생성");
+    return reply.code(201).send(session);
+  });
+
+  fastify.get<{
+    Params: { id: string };
+  }>("/sessions/:id", async (request, reply) => {
+    const session = await findSession(request.params.id, request.principal);
+    if (!session) {
+      return reply.code(404).send({ error: "세션을 찾을 수 없습니다" });
+    }
+    return session;
+  });
+
+  fastify.delete<{
+    Params: { id: string };
+  }>("/sessions/:id", async (request, reply) => {
+    if (!(await findSession(request.params.id, request.principal)) || !(await sessionStore.delete(request.params.id))) {
+      return reply.code(404).send({ error: "세션을 찾을 수 없습니다" });
+    }
+    return reply.code(204).send();
+  });
+
+  // 세션이 지정되면 같은 세션의 턴을 순서대로 처리하고 결과를 저장
+  // 턴 안의 모든 LLM 호출 토큰과 검색 도구 호출은 요청 주체의 테넌트 쿼터에 집계
+  const runTurn = (body: ChatRequest, log: FastifyBaseLogger, principal: Principal, emit?: ChatEventSink): Promise<ChatResponse> => {
+    const recordTokens = (usage: { inputTokens?: number; outputTokens?: number }) =>
+      quotas.record(principal, { llmTokens: (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0) });
+    const onSearches = (searches: number) => quotas.record(principal, { searches });
+    const tenant = tenantOf(principal);
+    const { sessionId } = body;
+
+    return withLLMUsage(recordTokens, () => {
+      if (!sessionId) {
+        return chat.runTurn(body, log, { emit, onSearches, tenant });
       }
 
-      const response: ChatResponse = {
-        message: assistantMessage,
-        flights,
-        cards,
-      };
+      return sessionQueue(sessionId, async () => {
+        const session = await sessionStore.get(sessionId);
+        if (!session) {
+          throw new Error(`세션이 만료되었습니다: ${sessionId}`);
+        }
+        const response = await chat.runTurn(body, log, { emit, session, onSearches, tenant });
+        await sessionStore.save(session);
+        return response;
+      });
+    });
+  };
 
+  fastify.post<{
+    Body: ChatRequest;
+  }>("/chat", async (request, reply) => {
+    const invalid = validateChatRequest(request.body);
+    if (invalid) {
+      return reply.code(400).send({ error: invalid });
+    }
+    if (request.body.sessionId && !(await findSession(request.body.sessionId, request.principal))) {
+      return reply.code(404).send({ error: "세션을 찾을 수 없습니다" });
+    }
+    assertQuota(request.principal, ["searches", "llmTokens"]);
+
+    try {
+      const response: ChatResponse = await runTurn(request.body, request.log, request.principal);
       return response;
     } catch (error) {
       request.log.error(error, "채팅 처리 실패");
@@ -216,20 +487,125 @@ Return ONLY a JSON array with this structure:
     }
   });
 
-  const PORT = Number(process.env.PORT || 8787);
+  // /chat 과 같은 처리를 SSE(text/event-stream)로 진행 상황과 함께 스트리밍
+  fastify.post<{
+    Body: ChatRequest;
+  }>("/chat/stream", async (request, reply) => {
+    const invalid = validateChatRequest(request.body);
+    if (invalid) {
+      return reply.code(400).send({ error: invalid });
+    }
+    if (request.body.sessionId && !(await findSession(request.body.sessionId, request.principal))) {
+      return reply.code(404).send({ error: "세션을 찾을 수 없습니다" });
+    }
+    assertQuota(request.principal, ["searches", "llmTokens"]);
+
+    // 응답을 직접 쓰므로 CORS 등 이미 설정된 헤더를 함께 전달
+    reply.hijack();
+    for (const [name, value] of Object.entries(reply.getHeaders())) {
+      if (value !== undefined) reply.raw.setHeader(name, value);
+    }
+    reply.raw.writeHead(200, {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    // 클라이언트가 연결을 끊으면 이후 이벤트는 버림 (요청 'close' 는 본문을 다 읽으면 발생하므로 응답 기준)
+    let closed = false;
+    reply.raw.on("close", () => {
+      closed = true;
+    });
+
+    const emit = (event: ChatStreamEvent) => {
+      if (closed) return;
+      reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    try {
+      const response = await runTurn(request.body, request.log, request.principal, emit);
+      emit({ type: "done", response });
+    } catch (error) {
+      request.log.error(error, "스트리밍 채팅 처리 실패");
+      emit({ type: "error", message: "죄송합니다, 요청을 처리하는 중 오류가 발생했습니다." });
+    } finally {
+      reply.raw.end();
+    }
+  });
+
+  // 관리자: API 키 발급/조회/폐기, 테넌트별 오늘 사용량 (ADMIN_API_KEY 또는 role=admin JWT)
+  const keyView = ({ keyHash, ...key }: ApiKey) => key;
+  const limitsSchema = z.object({
+    requestsPerMinute: z.number().int().min(1).max(10000).optional(),
+    searchesPerDay: z.number().int().min(0).optional(),
+    llmTokensPerDay: z.number().int().min(0).optional(),
+  });
+  const issueKeySchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    tenant: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9_.-]{1,64}$/, "테넌트는 영문/숫자/_.- 1~64자여야 합니다")
+      .refine((tenant) => tenant !== ADMIN_TENANT, `${ADMIN_TENANT} 는 관리자 키가 사용하는 테넌트입니다`),
+    limits: limitsSchema.optional(),
+  });
+
+  fastify.post("/admin/keys", async (request, reply) => {
+    requireAdmin(request.principal);
+    const input = issueKeySchema.safeParse(request.body ?? {});
+    if (!input.success) {
+      return reply.code(400).send({ error: "잘못된 요청", details: input.error.errors });
+    }
+
+    const { name, tenant, limits } = input.data;
+    const { apiKey, key } = await issueApiKey(apiKeys, { name, tenant, limits: { ...config.limits, ...limits } });
+    request.log.info({ keyId: apiKey.id, tenant }, "API 키 발급");
+    // 원래 키는 이 응답에서만 확인 가능
+    return reply.code(201).send({ key, apiKey: keyView(apiKey) });
+  });
+
+  fastify.get("/admin/keys", async (request) => {
+    requireAdmin(request.principal);
+    return { keys: (await apiKeys.list()).map(keyView) };
+  });
+
+  fastify.delete<{
+    Params: { id: string };
+  }>("/admin/keys/:id", async (request, reply) => {
+    requireAdmin(request.principal);
+    const apiKey = await apiKeys.get(request.params.id);
+    if (!apiKey) {
+      return reply.code(404).send({ error: "API 키를 찾을 수 없습니다" });
+    }
+
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date().toISOString();
+      await apiKeys.save(apiKey);
+      request.log.info({ keyId: apiKey.id, tenant: apiKey.tenant }, "API 키 폐기");
+    }
+    return keyView(apiKey);
+  });
+
+  fastify.get<{
+    Querystring: { tenant?: string };
+  }>("/admin/usage", async (request) => {
+    requireAdmin(request.principal);
+    return { usage: quotas.usage(request.query.tenant) };
+  });
+
   const HOST = "0.0.0.0";
 
   try {
-    await fastify.listen({ port: PORT, host: HOST });
-    console.log("=".repeat(50));
-    console.log(`🚀 API Gateway 시작됨 - http://localhost:${PORT}`);
-    console.log(`🤖 LLM: ${process.env.LLM_PROVIDER}`);
-    console.log(`🛫 Flight Server: ${process.env.FLIGHT_SERVER_URL || "http://localhost:8700"}`);
-    console.log("=".repeat(50));
+    await fastify.listen({ port: config.port, host: HOST });
+    logger.info(
+      { port: config.port, llm: llm.describeRoutes().agent, flightServer: flightServer.url },
+      `API Gateway 시작됨 - http://localhost:${config.port}`
+    );
   } catch (err) {
-    fastify.log.error(err);
+    fastify.log.fatal({ err }, "API Gateway 시작 실패");
     process.exit(1);
   }
 }
 
-main();
+main(config);
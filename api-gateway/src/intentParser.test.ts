@@ -0,0 +1,75 @@
+// api-gateway/src/intentParser.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { crossCheckSlots, parseFlightQuery } from "./intentParser.js";
+
+// 2030-03-13 (수) 12:00 Asia/Seoul
+const NOW = new Date("2030-03-13T03:00:00Z");
+const TZ = "Asia/Seoul";
+
+describe("parseFlightQuery", () => {
+  it("공항 코드, ISO 날짜, 승객 수", () => {
+    assert.deepEqual(parseFlightQuery("ICN to JFK 2030-03-15 2 adults", TZ, NOW), {
+      slots: { origin: "ICN", destination: "JFK", departDate: "2030-03-15", adults: 2 },
+      literalPlaces: ["origin", "destination"],
+    });
+  });
+
+  it("한국어 도시 이름, 상대 날짜, 성인/아이", () => {
+    assert.deepEqual(parseFlightQuery("서울에서 도쿄 다음주 월요일 성인 2명 아이 1명", TZ, NOW).slots, {
+      origin: "SEL",
+      destination: "TYO",
+      departDate: "2030-03-18",
+      adults: 2,
+      children: 1,
+    });
+  });
+
+  it("왕복 날짜와 통화 (만원 → KRW)", () => {
+    assert.deepEqual(parseFlightQuery("from Busan to Osaka in 3 days, return Mar 20, 50만원", TZ, NOW).slots, {
+      origin: "PUS",
+      destination: "OSA",
+      departDate: "2030-03-16",
+      returnDate: "2030-03-20",
+      currency: "KRW",
+      round: true,
+    });
+  });
+
+  it("편도 표현이면 돌아오는 날짜 없이 round=false", () => {
+    const { slots } = parseFlightQuery("one way to NYC tomorrow USD", TZ, NOW);
+    assert.equal(slots.round, false);
+    assert.equal(slots.departDate, "2030-03-14");
+    assert.equal(slots.returnDate, undefined);
+  });
+
+  it("다구간 여정 (영어/화살표)", () => {
+    assert.deepEqual(parseFlightQuery("Seoul to Tokyo on Dec 1, then Bangkok on Dec 5", TZ, NOW).slots.legs, [
+      { origin: "SEL", destination: "TYO", departDate: "2030-12-01" },
+      { origin: "TYO", destination: "BKK", departDate: "2030-12-05" },
+    ]);
+    assert.equal(parseFlightQuery("서울 → 도쿄 → 방콕 → 서울 12월 1일 12월 5일 12월 9일", TZ, NOW).slots.legs?.length, 3);
+  });
+
+  it("직전에 물어본 슬롯이 있으면 단서 없는 짧은 답을 그 슬롯으로", () => {
+    assert.deepEqual(parseFlightQuery("Tokyo", TZ, NOW, "origin").slots, { origin: "TYO" });
+  });
+});
+
+describe("crossCheckSlots", () => {
+  it("사용자가 입력한 날짜/승객 수/공항 코드와 다르면 바로잡음", () => {
+    const parsed = parseFlightQuery("ICN to NRT 2030-03-15 2 adults", TZ, NOW);
+    const { slots, corrections } = crossCheckSlots({ origin: "ICN", destination: "HND", departDate: "2030-03-16", adults: 1 }, parsed, TZ, NOW);
+    assert.deepEqual(slots, { origin: "ICN", destination: "NRT", departDate: "2030-03-15", adults: 2 });
+    assert.deepEqual(corrections.map((correction) => correction.slot).sort(), ["adults", "departDate", "destination"]);
+  });
+
+  it("도시 이름에서 고른 세부 공항은 존중하고 빠진 값만 채움", () => {
+    const parsed = parseFlightQuery("Seoul to Tokyo tomorrow", TZ, NOW);
+    assert.deepEqual(crossCheckSlots({ origin: "ICN", destination: "NRT" }, parsed, TZ, NOW), {
+      slots: { origin: "ICN", destination: "NRT", departDate: "2030-03-14" },
+      corrections: [],
+    });
+  });
+});
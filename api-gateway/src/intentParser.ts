@@ -0,0 +1,418 @@
+// api-gateway/src/intentParser.ts
+
+import { resolveDateExpression } from "./dates.js";
+import type { FlightLeg, FlightSlots, SlotName } from "./types.js";
+
+// LLM 없이도 해석할 수 있는 주요 도시/공항 이름 → IATA 코드 (플라이트 서버 번들 데이터셋 기준)
+const KNOWN_PLACES: Record<string, string> = {
+  seoul: "SEL", 서울: "SEL",
+  incheon: "ICN", 인천: "ICN",
+  gimpo: "GMP", kimpo: "GMP", 김포: "GMP",
+  busan: "PUS", pusan: "PUS", 부산: "PUS",
+  jeju: "CJU", cheju: "CJU", 제주: "CJU",
+  tokyo: "TYO", 도쿄: "TYO", 동경: "TYO",
+  narita: "NRT", 나리타: "NRT",
+  haneda: "HND", 하네다: "HND",
+  osaka: "OSA", 오사카: "OSA",
+  fukuoka: "FUK", 후쿠오카: "FUK",
+  sapporo: "CTS", 삿포로: "CTS",
+  okinawa: "OKA", 오키나와: "OKA",
+  beijing: "BJS", 베이징: "BJS", 북경: "BJS",
+  shanghai: "SHA", 상하이: "SHA",
+  "hong kong": "HKG", hongkong: "HKG", 홍콩: "HKG",
+  taipei: "TPE", 타이베이: "TPE", 대만: "TPE",
+  bangkok: "BKK", 방콕: "BKK",
+  singapore: "SIN", 싱가포르: "SIN", 싱가폴: "SIN",
+  "ho chi minh": "SGN", saigon: "SGN", 호치민: "SGN",
+  hanoi: "HAN", 하노이: "HAN",
+  "da nang": "DAD", danang: "DAD", 다낭: "DAD",
+  manila: "MNL", 마닐라: "MNL",
+  cebu: "CEB",
+  "kuala lumpur": "KUL", 쿠알라룸푸르: "KUL",
+  bali: "DPS", 발리: "DPS",
+  jakarta: "CGK", 자카르타: "CGK",
+  "new york": "NYC", 뉴욕: "NYC",
+  "los angeles": "LAX", 로스앤젤레스: "LAX", 엘에이: "LAX",
+  "san francisco": "SFO", 샌프란시스코: "SFO",
+  seattle: "SEA", 시애틀: "SEA",
+  chicago: "CHI", 시카고: "CHI",
+  washington: "WAS", 워싱턴: "WAS",
+  hawaii: "HNL", honolulu: "HNL", 하와이: "HNL", 호놀룰루: "HNL",
+  guam: "GUM", 괌: "GUM",
+  toronto: "YTO", 토론토: "YTO",
+  vancouver: "YVR", 밴쿠버: "YVR",
+  london: "LON", 런던: "LON",
+  paris: "PAR", 파리: "PAR",
+  frankfurt: "FRA", 프랑크푸르트: "FRA",
+  munich: "MUC", 뮌헨: "MUC",
+  amsterdam: "AMS", 암스테르담: "AMS",
+  rome: "ROM", 로마: "ROM",
+  barcelona: "BCN", 바르셀로나: "BCN",
+  madrid: "MAD", 마드리드: "MAD",
+  istanbul: "IST", 이스탄불: "IST",
+  dubai: "DXB", 두바이: "DXB",
+  doha: "DOH", 도하: "DOH",
+  sydney: "SYD", 시드니: "SYD",
+  melbourne: "MEL", 멜버른: "MEL",
+  auckland: "AKL", 오클랜드: "AKL",
+};
+
+const CURRENCY_CODES = ["USD", "KRW", "EUR", "JPY", "GBP", "CNY", "HKD", "SGD", "THB", "AUD", "CAD", "TWD", "VND"];
+
+// 통화 기호/단어 → 통화 코드 (코드가 직접 적혀 있으면 그쪽이 우선)
+const CURRENCY_WORDS: Array<[RegExp, string]> = [
+  [/\$|\bdollars?\b|달러/i, "USD"],
+  [/₩|\bwon\b|원화|\d\s*(?:만|천|백)?\s*원/i, "KRW"],
+  [/€|\beuros?\b|유로/i, "EUR"],
+  [/¥|\byen\b|엔화|\d\s*(?:만|천)?\s*엔/i, "JPY"],
+  [/£|\bpounds?\b|파운드/i, "GBP"],
+];
+
+// 대문자 3글자지만 공항 코드가 아닌 단어
+const NOT_AIRPORTS = new Set([...CURRENCY_CODES, "AND", "THE", "FOR", "ONE", "TWO", "WAY", "ANY", "PAX", "MAX", "NON", "AIR"]);
+
+const KOREAN_NUMBERS: Record<string, number> = { 한: 1, 두: 2, 세: 3, 네: 4, 다섯: 5, 여섯: 6, 일곱: 7, 여덟: 8, 아홉: 9 };
+
+const MONTH_NAME =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const WEEKDAY_NAME = "(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)";
+
+// 문장 속 날짜 표현 후보 (찾은 부분 문자열은 resolveDateExpression 으로 해석)
+const DATE_PATTERNS = [
+  /\d{4}-\d{2}-\d{2}/g,
+  /(?:\d{4}년\s?)?\d{1,2}월\s?\d{1,2}일/g,
+  new RegExp(`\\b${MONTH_NAME}\\.?\\s\\d{1,2}(?:st|nd|rd|th)?\\b`, "gi"),
+  new RegExp(`\\b\\d{1,2}(?:st|nd|rd|th)?\\s${MONTH_NAME}\\b`, "gi"),
+  /\b(?:the )?day after tomorrow\b|\btoday\b|\btomorrow\b|오늘|내일|모레|글피/gi,
+  /\bin \d+ (?:days?|weeks?)\b|\b\d+ (?:days?|weeks?) from now\b|\d+\s?(?:일|주)\s?(?:후|뒤)/gi,
+  new RegExp(`\\b(?:(?:this|next|coming)\\s)?${WEEKDAY_NAME}\\b|\\bnext week\\b`, "gi"),
+  /(?:(?:이번|다음)\s?주\s?)?[월화수목금토일]요일|다음\s?주/g,
+];
+
+type PlaceRole = "origin" | "destination";
+
+interface Mention {
+  start: number;
+  end: number;
+  value: string;
+}
+
+interface PlaceMention extends Mention {
+  // 사용자가 코드를 직접 입력했는지 (도시 이름에서 변환한 코드보다 신뢰도가 높음)
+  literal: boolean;
+  role?: PlaceRole;
+}
+
+export interface ParsedFlightQuery {
+  slots: FlightSlots;
+  // 공항 코드를 직접 입력해서 LLM 값보다 우선하는 지명 슬롯
+  literalPlaces: PlaceRole[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const PLACE_NAMES = Object.keys(KNOWN_PLACES).sort((a, b) => b.length - a.length);
+const LATIN_PLACES = new RegExp(`\\b(?:${PLACE_NAMES.filter((name) => /^[a-z ]+$/.test(name)).map(escapeRegExp).join("|")})\\b`, "gi");
+// 한글 지명 뒤에는 조사가 붙으므로 앞쪽 경계만 확인
+const KOREAN_PLACES = new RegExp(`(?<![가-힣])(?:${PLACE_NAMES.filter((name) => /^[가-힣]+$/.test(name)).join("|")})`, "g");
+
+// 겹치는 후보는 먼저 시작하고 더 긴 쪽만 남김
+function withoutOverlaps<T extends Mention>(mentions: T[]): T[] {
+  const sorted = [...mentions].sort((a, b) => a.start - b.start || b.end - a.end);
+  const result: T[] = [];
+  for (const mention of sorted) {
+    if (result.length === 0 || mention.start >= result[result.length - 1].end) result.push(mention);
+  }
+  return result;
+}
+
+export function knownPlaceCode(name: string): string | undefined {
+  return KNOWN_PLACES[name.trim().toLowerCase()];
+}
+
+// 지명 앞뒤의 단서로 출발/도착 구분 ("from X", "to Y", "X에서", "Y로/까지/행")
+function roleOf(text: string, mention: PlaceMention): PlaceRole | undefined {
+  const before = text.slice(0, mention.start);
+  const after = text.slice(mention.end);
+  if (/\b(?:from|leaving|departing)\s+$/i.test(before) || /^\s*(?:에서|출발|발(?![가-힣]))/.test(after)) return "origin";
+  if (/(?:\bto|\bfor|\binto|→|->)\s*$/i.test(before) || /^\s*(?:으로|로|까지|행|가는|도착|에\s*가|에\s*갈)/.test(after)) {
+    return "destination";
+  }
+  return undefined;
+}
+
+// 문장 속 공항 코드와 주요 도시 이름 (등장 순서대로)
+function placeMentions(text: string): PlaceMention[] {
+  const codes = [...text.matchAll(/\b[A-Z]{3}\b/g)]
+    .filter((match) => !NOT_AIRPORTS.has(match[0]))
+    .map((match) => ({ start: match.index, end: match.index + 3, value: match[0], literal: true }));
+  const names = [...text.matchAll(LATIN_PLACES), ...text.matchAll(KOREAN_PLACES)].map((match) => ({
+    start: match.index,
+    end: match.index + match[0].length,
+    value: KNOWN_PLACES[match[0].toLowerCase()],
+    literal: false,
+  }));
+
+  return withoutOverlaps([...codes, ...names]).map((mention) => ({ ...mention, role: roleOf(text, mention) }));
+}
+
+function findPlaces(text: string, awaiting?: SlotName): Pick<FlightSlots, "origin" | "destination"> & { literal: PlaceRole[] } {
+  const mentions = placeMentions(text);
+  let origin = mentions.find((mention) => mention.role === "origin");
+  let destination = mentions.find((mention) => mention.role === "destination");
+  const unassigned = mentions.filter((mention) => !mention.role);
+
+  // 단서가 없으면 "ICN JFK", "ICN-JFK" 처럼 먼저 나온 쪽을 출발지로 봄
+  if (!origin && !destination && unassigned.length >= 2) {
+    [origin, destination] = unassigned;
+  } else if (origin && !destination && unassigned.length === 1) {
+    destination = unassigned[0];
+  } else if (!origin && destination && unassigned.length === 1) {
+    origin = unassigned[0];
+  } else if (!origin && !destination && unassigned.length === 1) {
+    // 직전에 출발지/도착지를 물었다면 지명 하나만 있는 답("도쿄")을 그 답으로 봄
+    if (awaiting === "origin") origin = unassigned[0];
+    if (awaiting === "destination") destination = unassigned[0];
+  }
+
+  return {
+    ...(origin ? { origin: origin.value } : {}),
+    ...(destination ? { destination: destination.value } : {}),
+    literal: [origin?.literal ? "origin" : undefined, destination?.literal ? "destination" : undefined].filter(
+      (role): role is PlaceRole => !!role
+    ),
+  };
+}
+
+// 문장 속 날짜 표현 → YYYY-MM-DD (등장 순서대로, 돌아오는 날짜 단서 여부 포함)
+function dateMentions(text: string, timezone: string, now: Date): { date: string; isReturn: boolean }[] {
+  const mentions = withoutOverlaps(
+    DATE_PATTERNS.flatMap((pattern) =>
+      [...text.matchAll(pattern)].map((match) => ({ start: match.index, end: match.index + match[0].length, value: match[0] }))
+    )
+  );
+  return mentions.flatMap((mention) => {
+    const date = resolveDateExpression(mention.value, timezone, now);
+    if (!date) return [];
+    // "returning Dec 12", "돌아오는 날 12월 12일"
+    const isReturn = /\b(?:return(?:ing)?|back)\b[^,.]{0,12}$|(?:돌아오는|복귀|귀국)[^,.]{0,8}$/i.test(text.slice(0, mention.start));
+    return [{ date, isReturn }];
+  });
+}
+
+function findDates(text: string, timezone: string, now: Date, awaiting?: SlotName): Pick<FlightSlots, "departDate" | "returnDate"> {
+  const dates = dateMentions(text, timezone, now);
+
+  // 돌아오는 날짜를 물었는데 날짜 하나만 답했으면 그 날짜가 returnDate
+  if (awaiting === "returnDate" && dates.length === 1) {
+    return { returnDate: dates[0].date };
+  }
+
+  const returnDate = dates.find((entry) => entry.isReturn)?.date;
+  const [departDate, second] = dates.filter((entry) => !entry.isReturn).map((entry) => entry.date);
+  return {
+    ...(departDate ? { departDate } : {}),
+    ...(returnDate ?? second ? { returnDate: returnDate ?? second } : {}),
+  };
+}
+
+// 구간을 나누는 표현 (쉼표, "then", "그 다음" 등)
+const LEG_SEPARATORS = /[,;\n]|\band then\b|\bthen\b|그\s?다음(?:에)?|그리고|거쳐서?|찍고/i;
+// 지명 사이에 있으면 경로가 아니라 선택지 ("ICN or GMP", "도쿄 말고 오사카")
+const PLACE_ALTERNATIVES = /\bor\b|\bnot\b|\binstead\b|또는|아니면|말고|대신/i;
+
+/**
+ * 다구간/오픈조 여정 추출
+ * - "Seoul → Tokyo → Bangkok → Seoul", "서울 도쿄 방콕 서울": 한 구절의 지명을 순서대로 이어서 구간 생성
+ * - "ICN-NRT 12/1, KIX-ICN 12/5", "서울에서 도쿄, 도쿄에서 방콕": 구절마다 구간 생성
+ * - "..., then Bangkok on Dec 5": 지명 하나만 있는 구절은 이전 도착지에서 이어지는 구간
+ * 날짜는 구절 안에서 순서대로 배정하고, 지명 없이 날짜만 있는 구절은 날짜가 빈 구간에 순서대로 채움
+ * 구간이 2개 미만이거나 단순 왕복(A→B, B→A)이면 undefined
+ */
+function findLegs(text: string, timezone: string, now: Date): Partial<FlightLeg>[] | undefined {
+  const legs: Partial<FlightLeg>[] = [];
+  const spareDates: string[] = [];
+
+  for (const clause of text.split(LEG_SEPARATORS)) {
+    const mentions = placeMentions(clause);
+    const dates = dateMentions(clause, timezone, now).map((entry) => entry.date);
+    if (mentions.slice(1).some((mention, index) => PLACE_ALTERNATIVES.test(clause.slice(mentions[index].end, mention.start)))) {
+      return undefined;
+    }
+
+    // "Tokyo from Seoul" 처럼 단서가 순서와 반대인 두 지명은 출발/도착 순으로 정렬
+    const places =
+      mentions.length === 2 && (mentions[1].role === "origin" || mentions[0].role === "destination")
+        ? [mentions[1], mentions[0]]
+        : mentions;
+
+    if (places.length >= 2) {
+      places.slice(1).forEach((place, index) => {
+        legs.push({ origin: places[index].value, destination: place.value, ...(dates[index] ? { departDate: dates[index] } : {}) });
+      });
+    } else if (places.length === 1 && legs.length > 0) {
+      legs.push({ origin: legs[legs.length - 1].destination, destination: places[0].value, ...(dates[0] ? { departDate: dates[0] } : {}) });
+    } else if (places.length === 0) {
+      spareDates.push(...dates);
+    }
+  }
+
+  for (const leg of legs) {
+    if (!leg.departDate && spareDates.length > 0) leg.departDate = spareDates.shift();
+  }
+
+  if (legs.length < 2) return undefined;
+  if (legs.length === 2 && legs[0].origin === legs[1].destination && legs[0].destination === legs[1].origin) return undefined;
+  return legs;
+}
+
+function countOf(value: string): number {
+  return KOREAN_NUMBERS[value] ?? Number(value);
+}
+
+function findPassengers(text: string): Pick<FlightSlots, "adults" | "children" | "infants"> {
+  const count = (patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      if (match) return countOf(match[1]);
+    }
+    return undefined;
+  };
+  const number = "(\\d+|한|두|세|네|다섯|여섯|일곱|여덟|아홉)";
+
+  const adults = count([
+    /\b(\d+)\s*(?:adults?|people|persons|passengers|pax|travell?ers)\b/i,
+    new RegExp(`(?:성인|어른)\\s*${number}\\s*명?`),
+    // "아이 2명" 처럼 앞에 다른 승객 구분이 붙은 경우는 제외
+    new RegExp(`(?<![가-힣]|(?:아이|어린이|소아|유아)\\s*)${number}\\s*명`),
+  ]);
+  const children = count([/\b(\d+)\s*(?:children|child|kids?)\b/i, new RegExp(`(?:아이|어린이|소아)\\s*${number}\\s*명?`)]);
+  const infants = count([/\b(\d+)\s*(?:infants?|bab(?:y|ies))\b/i, new RegExp(`유아\\s*${number}\\s*명?`)]);
+
+  return {
+    ...(adults && adults >= 1 && adults <= 9 ? { adults } : {}),
+    ...(children !== undefined && children <= 8 ? { children } : {}),
+    ...(infants !== undefined && infants <= 9 ? { infants } : {}),
+  };
+}
+
+function findCurrency(text: string): string | undefined {
+  const code = text.match(new RegExp(`\\b(?:${CURRENCY_CODES.join("|")})\\b`, "i"));
+  if (code) return code[0].toUpperCase();
+  return CURRENCY_WORDS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+function findTripType(text: string): boolean | undefined {
+  if (/\bone[\s-]?way\b|편도/i.test(text)) return false;
+  if (/\bround[\s-]?trip\b|\breturn (?:flight|ticket)s?\b|왕복/i.test(text)) return true;
+  return undefined;
+}
+
+/**
+ * 규칙 기반 항공권 검색 조건 추출 (영어/한국어)
+ * IATA 코드와 주요 도시 이름, 날짜 표현, 승객 수, 통화, 왕복/편도, 다구간 여정을 LLM 없이 찾아냄
+ * 확실한 값만 돌려주므로 LLM 장애 시 대체 경로와 LLM 추출 결과 교차 검증에 함께 사용
+ * awaiting: 직전에 물어본 슬롯 (단서 없는 짧은 답을 해석할 때 사용)
+ */
+export function parseFlightQuery(text: string, timezone: string, now: Date = new Date(), awaiting?: SlotName): ParsedFlightQuery {
+  const currency = findCurrency(text);
+  const legs = findLegs(text, timezone, now);
+  if (legs) {
+    return { slots: { legs, ...findPassengers(text), ...(currency ? { currency } : {}) }, literalPlaces: [] };
+  }
+
+  const { literal, ...places } = findPlaces(text, awaiting);
+  const dates = findDates(text, timezone, now, awaiting);
+  const round = findTripType(text);
+
+  const slots: FlightSlots = {
+    ...places,
+    ...dates,
+    ...findPassengers(text),
+    ...(currency ? { currency } : {}),
+    ...(round !== undefined ? { round } : dates.returnDate ? { round: true } : {}),
+  };
+  if (slots.round === false) delete slots.returnDate;
+
+  return { slots, literalPlaces: literal };
+}
+
+export interface SlotCorrection {
+  slot: SlotName;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * LLM 이 기록하려는 슬롯을 사용자 메시지에서 직접 찾은 값과 대조
+ * - LLM 이 빠뜨린 값은 채우고
+ * - 날짜(해석 결과), 승객 수, 통화, 직접 입력한 공항 코드가 다르면 사용자 메시지 쪽으로 바로잡음
+ * - 도시 이름은 LLM 이 같은 이름 목록에 있는 다른 도시를 넣은 경우에만 바로잡음 (NRT ↔ TYO 같은 세부 선택은 존중)
+ * - 메시지가 다구간 여정이면 구간 목록(legs)을 같은 기준으로 대조
+ */
+export function crossCheckSlots(
+  update: FlightSlots,
+  parsed: ParsedFlightQuery,
+  timezone: string,
+  now: Date = new Date()
+): { slots: FlightSlots; corrections: SlotCorrection[] } {
+  const slots: FlightSlots = { ...update };
+  const corrections: SlotCorrection[] = [];
+  const set = (slot: SlotName, value: unknown) => {
+    if (slots[slot] !== undefined) corrections.push({ slot, from: slots[slot], to: value });
+    (slots as Record<string, unknown>)[slot] = value;
+  };
+
+  for (const slot of ["origin", "destination"] as const) {
+    const expected = parsed.slots[slot];
+    const given = slots[slot];
+    if (!expected) continue;
+    if (!given) {
+      set(slot, expected);
+      continue;
+    }
+    const givenIsCode = /^[A-Za-z]{3}$/.test(given.trim());
+    const givenCode = givenIsCode ? given.trim().toUpperCase() : knownPlaceCode(given);
+    const mismatch = parsed.literalPlaces.includes(slot)
+      ? givenCode !== expected
+      : !givenIsCode && givenCode !== undefined && givenCode !== expected;
+    if (mismatch) set(slot, expected);
+  }
+
+  for (const slot of ["departDate", "returnDate"] as const) {
+    const expected = parsed.slots[slot];
+    const given = slots[slot];
+    if (!expected) continue;
+    if (!given || resolveDateExpression(given, timezone, now) !== expected) set(slot, expected);
+  }
+
+  // 다구간: LLM 이 구간을 빠뜨렸거나 수가 다르면 메시지의 구간으로, 같으면 빈 값과 다른 날짜만 바로잡음
+  const expectedLegs = parsed.slots.legs;
+  if (expectedLegs) {
+    const given = slots.legs;
+    if (!given || given.length !== expectedLegs.length) {
+      corrections.push({ slot: "legs", from: given ?? { origin: slots.origin, destination: slots.destination }, to: expectedLegs });
+      slots.legs = expectedLegs;
+    } else {
+      const legs = given.map((leg, index) => {
+        const expected = expectedLegs[index];
+        const dateMatches = !expected.departDate || (!!leg.departDate && resolveDateExpression(leg.departDate, timezone, now) === expected.departDate);
+        return {
+          origin: leg.origin ?? expected.origin,
+          destination: leg.destination ?? expected.destination,
+          departDate: dateMatches ? leg.departDate : expected.departDate,
+        };
+      });
+      if (JSON.stringify(legs) !== JSON.stringify(given)) set("legs", legs);
+    }
+  }
+
+  for (const slot of ["adults", "children", "infants", "currency", "round"] as const) {
+    const expected = parsed.slots[slot];
+    if (expected !== undefined && slots[slot] !== expected) set(slot, expected);
+  }
+
+  return { slots, corrections };
+}
@@ -1,71 +1,240 @@
-import dotenv from "dotenv";
-dotenv.config();
-
+import { AsyncLocalStorage } from "node:async_hooks";
 import OpenAI from "openai";
 import Anthropic from "@anthropic-ai/sdk";
-import type { ChatMessage } from "./types.js";
-import type { ContentBlock, TextBlock } from "@anthropic-ai/sdk/resources/messages";
+import { createOpenAIProvider } from "./llm/openai.js";
+import { createAnthropicProvider } from "./llm/anthropic.js";
+import { createStubProvider } from "./llm/stub.js";
+import { logger } from "./observability/logger.js";
+import { counter, histogram } from "./observability/metrics.js";
+import { withSpan } from "./observability/tracing.js";
+import type { HealthCheckResult } from "./health.js";
+import { llmRoutes, type LLMConfig } from "./config.js";
+import type { LLMProvider, LLMProviderName, LLMTask, LLMTurn, LLMUsage } from "./llm/provider.js";
+import type { AgentMessage, ChatMessage, HealthStatus, ToolDefinition } from "./types.js";
 
-type LLMProvider = "openai" | "anthropic";
+export type { LLMTask, LLMTurn, LLMUsage } from "./llm/provider.js";
 
-const PROVIDER = (process.env.LLM_PROVIDER || "openai").toLowerCase() as LLMProvider;
+const PROVIDER_NAMES: LLMProviderName[] = ["openai", "anthropic", "local", "stub"];
+const TASKS: LLMTask[] = ["agent", "summary", "cards"];
 
-const openai = process.env.OPENAI_API_KEY ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY }) : undefined;
-const anthropic = process.env.ANTHROPIC_API_KEY ? new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY }) : undefined;
+const llmRequests = counter("llm_requests_total", "LLM 호출 수 (task, provider, model, outcome: ok | error)");
+const llmDuration = histogram("llm_request_duration_seconds", "LLM 호출 시간, SDK 재시도 포함 (task, provider)");
+const llmTokens = counter("llm_tokens_total", "LLM 토큰 사용량 (provider, model, type: input | output)");
 
-export async function chat(messages: ChatMessage[]): Promise<string> {
-  const systemMessage = messages.find((m) => m.role === "system");
-  const conversationMessages = messages.filter((m) => m.role !== "system");
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
 
-  console.log(`🤖 LLM 호출 (${PROVIDER})`, new Date().toISOString);
+// 요청 단위 LLM 사용량 수신자 (카드/요약 생성처럼 깊은 곳의 호출까지 테넌트 토큰 쿼터에 집계)
+const usageListeners = new AsyncLocalStorage<(usage: LLMUsage) => void>();
 
-  try {
-    if (PROVIDER === "anthropic" && anthropic) {
-      const response = await anthropic.messages.create({
-        model: process.env.ANTHROPIC_MODEL || "claude-3-5-sonnet-20241022",
-        max_tokens: 800,
-        system: systemMessage?.content,
-        messages: conversationMessages.map((m) => ({
-          role: m.role === "assistant" ? "assistant" : "user",
-          content: m.content,
-        })),
-      });
+/**
+ * fn 안에서 일어나는 모든 LLM 호출의 사용량을 onUsage 로 전달
+ */
+export function withLLMUsage<T>(onUsage: (usage: LLMUsage) => void, fn: () => Promise<T>): Promise<T> {
+  return usageListeners.run(onUsage, fn);
+}
 
-      function isTextBlock(block: ContentBlock): block is TextBlock {
-        return block.type === "text";
-      }
+export interface ChatOptions {
+  task?: LLMTask;
+}
 
-      const text = response.content.filter(isTextBlock).map((c) => c.text).join("");
-      console.log(`✅ Claude 응답 받음 (${text.length}자)`);
-      return text;
-    } else if (openai) {
-      const response = await openai.chat.completions.create({
-        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
-        messages: messages.map((m) => ({ role: m.role, content: m.content })),
-        temperature: 0.2,
-        max_tokens: 800,
-      });
-
-      const text = response.choices[0]?.message?.content || "";
-      console.log(`✅ GPT 응답 받음 (${text.length}자)`, new Date().toISOString());
-      return text;
-    } else {
-      throw new Error(`LLM 프로바이더가 설정되지 않았습니다. (현재: ${PROVIDER})`);
-    }
-  } catch (error) {
-    console.error("❌ LLM 호출 실패:", error);
-    throw error;
-  }
+export interface ChatWithToolsOptions extends ChatOptions {
+  toolChoice?: "auto" | "none";
+  // 지정하면 스트리밍 API 로 호출하고 텍스트 조각을 도착하는 대로 전달
+  onText?: (delta: string) => void;
 }
 
-export function validateLLMConfig(): void {
-  console.log(`✅ LLM 프로바이더: ${PROVIDER}, apikey: ${process.env[`${PROVIDER.toUpperCase()}_API_KEY`] ? "설정됨" : "없음"}`);
+export interface LLMRouter {
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  /**
+   * 도구 정의와 함께 LLM 호출 (OpenAI function calling / Anthropic tool use)
+   * 모델이 도구를 요청하면 toolCalls 에 담아 반환하고, 실행과 결과 전달은 호출자(에이전트 루프)가 담당
+   */
+  chatWithTools(messages: AgentMessage[], tools: ToolDefinition[], options?: ChatWithToolsOptions): Promise<LLMTurn>;
+  // 작업별 "프로바이더/모델" 순서 (/health, 시작 로그용)
+  describeRoutes(): Record<LLMTask, string[]>;
+  /**
+   * 경로에 쓰이는 프로바이더 점검 (readiness)
+   * ping 실패면 프로바이더 down, ping 은 되지만 마지막 실제 호출이 실패했으면 degraded
+   * 어떤 작업이든 쓸 수 있는 프로바이더가 하나도 없으면 down, 일부만 문제면 (폴백이 있으므로) degraded
+   */
+  checkHealth(signal: AbortSignal): Promise<HealthCheckResult>;
+}
+
+// 자격 증명/주소가 설정된 프로바이더만 생성 (경로에 쓰인 프로바이더가 빠져 있으면 설정 검증에서 이미 실패)
+function createProviders(config: LLMConfig): Partial<Record<LLMProviderName, LLMProvider>> {
+  const { maxRetries } = config;
+  return {
+    ...(config.openai.apiKey
+      ? { openai: createOpenAIProvider("openai", new OpenAI({ apiKey: config.openai.apiKey, maxRetries }), config.openai.model) }
+      : {}),
+    ...(config.anthropic.apiKey
+      ? { anthropic: createAnthropicProvider(new Anthropic({ apiKey: config.anthropic.apiKey, maxRetries }), config.anthropic.model) }
+      : {}),
+    ...(config.local.baseUrl
+      ? {
+          local: createOpenAIProvider(
+            "local",
+            new OpenAI({ baseURL: config.local.baseUrl, apiKey: config.local.apiKey, maxRetries }),
+            config.local.model
+          ),
+        }
+      : {}),
+    stub: createStubProvider(),
+  };
+}
+
+/**
+ * 설정(llm)의 작업별 경로로 호출하는 LLM 라우터
+ */
+export function createLLMRouter(config: LLMConfig): LLMRouter {
+  const providers = createProviders(config);
+  const routes = llmRoutes(config);
+  // 프로바이더별 마지막 실제 호출 결과 (헬스 체크에서 최근 실패 표시)
+  const lastCalls: Partial<Record<LLMProviderName, { at: string; error?: string }>> = {};
+  const pings = new Map<LLMProviderName, { at: number; latencyMs: number; error?: string }>();
+
+  /**
+   * 작업에 설정된 경로를 순서대로 시도
+   * 오류/시간 초과면 다음 프로바이더로 넘어가지만, 이미 텍스트를 스트리밍했으면 중복 출력을 막기 위해 폴백하지 않음
+   */
+  async function route(messages: AgentMessage[], tools: ToolDefinition[], options: ChatWithToolsOptions): Promise<LLMTurn> {
+    const { task = "agent", toolChoice = "auto", onText } = options;
+    const candidates = routes[task];
+    let lastError: unknown;
+
+    for (const [index, candidate] of candidates.entries()) {
+      const provider = providers[candidate.provider];
+      if (!provider) continue;
+
+      const model = candidate.model || provider.defaultModel;
+      const started = Date.now();
+      const stopTimer = llmDuration.startTimer({ task, provider: provider.name });
+      let streamed = false;
 
-  if (PROVIDER === "anthropic" && !anthropic) {
-    throw new Error("ANTHROPIC_API_KEY가 설정되지 않았습니다.");
+      try {
+        // 프로바이더 호출 하나 = span 하나 (폴백하면 같은 trace 에 span 이 하나 더 생김)
+        const attributes = { "llm.task": task, "llm.provider": provider.name, "llm.model": model, "llm.tools": tools.length, "llm.streaming": !!onText };
+        const result = await withSpan(`llm ${task}`, attributes, async (span) => {
+          const completion = await provider.complete({
+            task,
+            model,
+            messages,
+            tools,
+            toolChoice,
+            ...config.tasks[task],
+            signal: AbortSignal.timeout(config.timeoutMs),
+            onText: onText
+              ? (delta) => {
+                  streamed = true;
+                  onText(delta);
+                }
+              : undefined,
+          });
+          span.setAttributes({
+            "llm.input_tokens": completion.inputTokens,
+            "llm.output_tokens": completion.outputTokens,
+            "llm.tool_calls": completion.toolCalls.length,
+          });
+          return completion;
+        });
+
+        const usage: LLMUsage = {
+          task,
+          provider: provider.name,
+          model,
+          inputTokens: result.inputTokens,
+          outputTokens: result.outputTokens,
+          latencyMs: Date.now() - started,
+        };
+        usageListeners.getStore()?.(usage);
+        lastCalls[provider.name] = { at: new Date().toISOString() };
+        llmRequests.inc({ task, provider: provider.name, model, outcome: "ok" });
+        llmTokens.inc({ provider: provider.name, model, type: "input" }, usage.inputTokens ?? 0);
+        llmTokens.inc({ provider: provider.name, model, type: "output" }, usage.outputTokens ?? 0);
+        return { text: result.text, toolCalls: result.toolCalls, usage };
+      } catch (error) {
+        lastError = error;
+        lastCalls[provider.name] = { at: new Date().toISOString(), error: errorMessage(error) };
+        llmRequests.inc({ task, provider: provider.name, model, outcome: "error" });
+        const next = candidates.slice(index + 1).find((rest) => providers[rest.provider]);
+        if (streamed || !next) break;
+        logger.warn({ err: error, task, provider: provider.name, durationMs: Date.now() - started, next: next.provider }, "LLM 호출 실패, 다음 프로바이더로 전환");
+      } finally {
+        stopTimer();
+      }
+    }
+
+    logger.error({ err: lastError, task }, "LLM 호출 실패");
+    throw lastError ?? new Error(`사용 가능한 LLM 프로바이더가 없습니다. (작업: ${task})`);
   }
-  if (PROVIDER === "openai" && !openai) {
-    throw new Error("OPENAI_API_KEY가 설정되지 않았습니다.");
+
+  function describeRoutes(): Record<LLMTask, string[]> {
+    return Object.fromEntries(
+      TASKS.map((task) => [
+        task,
+        routes[task].map((candidate) => `${candidate.provider}/${candidate.model || providers[candidate.provider]?.defaultModel || "?"}`),
+      ])
+    ) as Record<LLMTask, string[]>;
   }
-  console.log(`✅ LLM 설정 완료: ${PROVIDER}`);
+
+  async function pingProvider(provider: LLMProvider, signal: AbortSignal): Promise<{ latencyMs: number; error?: string }> {
+    const cached = pings.get(provider.name);
+    if (cached && Date.now() - cached.at < config.healthPingMs) return cached;
+
+    const started = Date.now();
+    let error: string | undefined;
+    try {
+      await provider.ping(signal);
+    } catch (pingError) {
+      error = errorMessage(pingError);
+    }
+    const result = { at: Date.now(), latencyMs: Date.now() - started, ...(error ? { error } : {}) };
+    pings.set(provider.name, result);
+    return result;
+  }
+
+  logger.info({ provider: config.provider, available: PROVIDER_NAMES.filter((name) => providers[name]) }, "LLM 프로바이더");
+  logger.info({ routes: describeRoutes() }, "LLM 경로");
+
+  return {
+    async chat(messages, options = {}) {
+      const turn = await route(messages, [], options);
+      return turn.text;
+    },
+    chatWithTools(messages, tools, options = {}) {
+      return route(messages, tools, options);
+    },
+    describeRoutes,
+    async checkHealth(signal) {
+      const names = [...new Set(TASKS.flatMap((task) => routes[task].map((candidate) => candidate.provider)))];
+      const statuses: Partial<Record<LLMProviderName, HealthStatus>> = {};
+      const details: Record<string, unknown> = {};
+      const errors: string[] = [];
+
+      await Promise.all(
+        names.map(async (name) => {
+          const provider = providers[name];
+          if (!provider) {
+            statuses[name] = "down";
+            errors.push(`${name}: 설정되지 않음`);
+            return;
+          }
+          const ping = await pingProvider(provider, signal);
+          const lastCall = lastCalls[name];
+          statuses[name] = ping.error ? "down" : lastCall?.error ? "degraded" : "ok";
+          if (ping.error) errors.push(`${name}: ${ping.error}`);
+          else if (lastCall?.error) errors.push(`${name}: ${lastCall.error}`);
+          details[name] = { status: statuses[name], pingLatencyMs: ping.latencyMs, ...(lastCall ? { lastCall } : {}) };
+        })
+      );
+
+      const unavailable = TASKS.filter((task) => !routes[task].some((candidate) => statuses[candidate.provider] !== "down"));
+      const status: HealthStatus = unavailable.length > 0 ? "down" : names.every((name) => statuses[name] === "ok") ? "ok" : "degraded";
+      return {
+        status,
+        details: { routes: describeRoutes(), providers: details, ...(unavailable.length > 0 ? { unavailableTasks: unavailable } : {}) },
+        ...(errors.length > 0 ? { error: errors.join("; ") } : {}),
+      };
+    },
+  };
 }
@@ -0,0 +1,101 @@
+// api-gateway/src/llm/anthropic.ts
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { Message, MessageParam, TextBlock, ToolResultBlockParam } from "@anthropic-ai/sdk/resources/messages";
+import type { AgentMessage } from "../types.js";
+import type { LLMProvider } from "./provider.js";
+
+function toAnthropicMessages(messages: AgentMessage[]): MessageParam[] {
+  const result: MessageParam[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") continue;
+
+    if (message.role === "tool") {
+      // 연속된 도구 결과는 하나의 user 메시지로 묶어야 함
+      const block: ToolResultBlockParam = {
+        type: "tool_result",
+        tool_use_id: message.toolCallId,
+        content: message.content,
+        ...(message.isError ? { is_error: true } : {}),
+      };
+      const last = result[result.length - 1];
+      if (last?.role === "user" && Array.isArray(last.content) && last.content.every((b) => b.type === "tool_result")) {
+        last.content.push(block);
+      } else {
+        result.push({ role: "user", content: [block] });
+      }
+    } else if (message.role === "assistant" && "toolCalls" in message) {
+      result.push({
+        role: "assistant",
+        content: [
+          ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+          ...message.toolCalls.map((call) => ({ type: "tool_use" as const, id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+    } else {
+      result.push({ role: message.role === "assistant" ? "assistant" : "user", content: message.content });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Anthropic Messages API (tool use) 프로바이더
+ */
+export function createAnthropicProvider(client: Anthropic, defaultModel: string): LLMProvider {
+  return {
+    name: "anthropic",
+    defaultModel,
+    async complete({ model, messages, tools, toolChoice, maxTokens, temperature, signal, onText }) {
+      const systemMessage = messages.find((m) => m.role === "system");
+      const params = {
+        model,
+        max_tokens: maxTokens,
+        temperature,
+        // Anthropic 은 tool_choice "none" 이 없으므로 (이전 도구 블록 때문에 tools 는 유지) 지시문으로 대신함
+        system:
+          toolChoice === "none"
+            ? `${systemMessage?.content ?? ""}\n\nDo not call any more tools. Answer the user with the information you already have.`
+            : systemMessage?.content,
+        messages: toAnthropicMessages(messages),
+        ...(tools.length > 0
+          ? {
+              tools: tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: { ...tool.parameters, type: "object" as const },
+              })),
+            }
+          : {}),
+      };
+
+      let response: Message;
+      if (onText) {
+        const stream = client.messages.stream(params, { signal });
+        stream.on("text", onText);
+        response = await stream.finalMessage();
+      } else {
+        response = await client.messages.create(params, { signal });
+      }
+
+      return {
+        text: response.content
+          .filter((block): block is TextBlock => block.type === "text")
+          .map((block) => block.text)
+          .join(""),
+        toolCalls: response.content.flatMap((block) =>
+          block.type === "tool_use" && toolChoice === "auto"
+            ? [{ id: block.id, name: block.name, arguments: (block.input ?? {}) as Record<string, unknown> }]
+            : []
+        ),
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      };
+    },
+    async ping(signal) {
+      await client.models.list({ limit: 1 }, { signal, maxRetries: 0 });
+    },
+  };
+}
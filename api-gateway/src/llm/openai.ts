@@ -0,0 +1,104 @@
+// api-gateway/src/llm/openai.ts
+
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { AgentMessage } from "../types.js";
+import type { LLMProvider } from "./provider.js";
+
+function toOpenAIMessages(messages: AgentMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((message): ChatCompletionMessageParam => {
+    if (message.role === "tool") {
+      return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+    }
+    if (message.role === "assistant" && "toolCalls" in message) {
+      return {
+        role: "assistant",
+        content: message.content || null,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+// 모델이 만든 arguments JSON 이 깨져 있으면 빈 객체 (도구 쪽 검증에서 에러로 돌려줌)
+function parseArguments(json: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(json || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * OpenAI Chat Completions (function calling) 프로바이더
+ * baseURL 을 지정하면 OpenAI 호환 로컬 엔드포인트(Ollama, LM Studio, vLLM 등)에도 사용
+ */
+export function createOpenAIProvider(name: "openai" | "local", client: OpenAI, defaultModel: string): LLMProvider {
+  return {
+    name,
+    defaultModel,
+    async complete({ model, messages, tools, toolChoice, maxTokens, temperature, signal, onText }) {
+      const params = {
+        model,
+        messages: toOpenAIMessages(messages),
+        temperature,
+        max_tokens: maxTokens,
+        ...(tools.length > 0
+          ? {
+              tools: tools.map((tool) => ({
+                type: "function" as const,
+                function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+              })),
+              tool_choice: toolChoice,
+            }
+          : {}),
+      };
+
+      let text = "";
+      let rawCalls: Array<{ id: string; name: string; arguments: string }> = [];
+      let usage: OpenAI.CompletionUsage | undefined;
+
+      if (onText) {
+        // 스트리밍에서는 도구 호출이 index 별 조각(이름, arguments JSON)으로 나뉘어 도착하고, 사용량은 마지막 청크에 옴
+        const stream = await client.chat.completions.create({ ...params, stream: true, stream_options: { include_usage: true } }, { signal });
+        for await (const chunk of stream) {
+          usage = chunk.usage ?? usage;
+          const delta = chunk.choices[0]?.delta;
+          if (delta?.content) {
+            text += delta.content;
+            onText(delta.content);
+          }
+          for (const call of delta?.tool_calls ?? []) {
+            const entry = (rawCalls[call.index] ??= { id: "", name: "", arguments: "" });
+            if (call.id) entry.id = call.id;
+            if (call.function?.name) entry.name += call.function.name;
+            if (call.function?.arguments) entry.arguments += call.function.arguments;
+          }
+        }
+      } else {
+        const response = await client.chat.completions.create(params, { signal });
+        const message = response.choices[0]?.message;
+        text = message?.content || "";
+        rawCalls = (message?.tool_calls ?? []).map((call) => ({ id: call.id, name: call.function.name, arguments: call.function.arguments }));
+        usage = response.usage;
+      }
+
+      return {
+        text,
+        toolCalls: rawCalls.filter(Boolean).map((call) => ({ id: call.id, name: call.name, arguments: parseArguments(call.arguments) })),
+        inputTokens: usage?.prompt_tokens,
+        outputTokens: usage?.completion_tokens,
+      };
+    },
+    async ping(signal) {
+      // 첫 페이지만 요청 (로컬 서버는 /v1/models 로 실행 여부 확인)
+      await client.models.list({ signal, maxRetries: 0 });
+    },
+  };
+}
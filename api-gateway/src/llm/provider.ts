@@ -0,0 +1,52 @@
+// api-gateway/src/llm/provider.ts
+
+import type { AgentMessage, ToolCall, ToolDefinition } from "../types.js";
+
+export type LLMProviderName = "openai" | "anthropic" | "local" | "stub";
+
+// 작업 종류별로 모델/토큰/temperature 를 따로 설정
+export type LLMTask = "agent" | "summary" | "cards";
+
+// 작업별로 순서대로 시도할 프로바이더/모델
+export interface LLMRoute {
+  provider: LLMProviderName;
+  // 비어 있으면 프로바이더 기본 모델
+  model?: string;
+}
+
+export interface LLMRequest {
+  task: LLMTask;
+  model: string;
+  messages: AgentMessage[];
+  tools: ToolDefinition[];
+  toolChoice: "auto" | "none";
+  maxTokens: number;
+  temperature: number;
+  signal: AbortSignal;
+  // 지정하면 스트리밍 API 로 호출하고 텍스트 조각을 도착하는 대로 전달
+  onText?: (delta: string) => void;
+}
+
+export interface LLMUsage {
+  task: LLMTask;
+  provider: LLMProviderName;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  latencyMs: number;
+}
+
+export interface LLMTurn {
+  // 도구 호출과 함께 온 텍스트 (없으면 빈 문자열)
+  text: string;
+  toolCalls: ToolCall[];
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  defaultModel: string;
+  complete(request: LLMRequest): Promise<{ text: string; toolCalls: ToolCall[]; inputTokens?: number; outputTokens?: number }>;
+  // 헬스 체크용 가벼운 호출 (모델 목록 조회, 토큰 소모 없음) - 인증/연결 실패면 예외
+  ping(signal: AbortSignal): Promise<void>;
+}
@@ -0,0 +1,76 @@
+// api-gateway/src/llm/stub.ts
+
+import type { AgentMessage } from "../types.js";
+import type { LLMProvider, LLMRequest } from "./provider.js";
+
+// 토큰 수 대략치 (영문 기준 4글자 ≒ 1토큰)
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function lastUserContent(messages: AgentMessage[]): string {
+  return [...messages].reverse().find((message) => message.role === "user")?.content ?? "";
+}
+
+// 전달받은 지식 베이스 항목을 카테고리별로 한 장씩, 원문 그대로 카드로 돌려줌
+function cardsFor(messages: AgentMessage[]): string {
+  const facts = lastUserContent(messages).match(/Facts:\s*([\s\S]+)$/)?.[1];
+  const parsed: { id: string; category: string; title: string; text: string }[] = facts ? JSON.parse(facts) : [];
+  const categories = [...new Set(parsed.map((fact) => fact.category))];
+  return JSON.stringify({
+    cards: categories.map((category) => {
+      const grouped = parsed.filter((fact) => fact.category === category);
+      return { category, title: grouped[0].title, summary: grouped.map((fact) => fact.text).join(" "), factIds: grouped.map((fact) => fact.id) };
+    }),
+  });
+}
+
+function summaryFor(messages: AgentMessage[]): string {
+  const transcript = lastUserContent(messages);
+  return transcript
+    .split("\n")
+    .filter((line) => line.startsWith("user: "))
+    .slice(-5)
+    .map((line) => `- ${line.slice("user: ".length).slice(0, 200)}`)
+    .join("\n");
+}
+
+// 도구 결과를 받은 직후면 결과의 첫 줄을, 아니면 설정 안내를 답변으로 사용
+function answerFor(messages: AgentMessage[]): string {
+  const last = messages[messages.length - 1];
+  if (last?.role === "tool") {
+    return last.content.split("\n")[0].slice(0, 300);
+  }
+  return `(오프라인 모드) "${lastUserContent(messages).slice(0, 100)}" 요청을 받았습니다. 실제 답변을 받으려면 LLM 프로바이더를 설정해 주세요.`;
+}
+
+function respond({ task, messages }: LLMRequest): string {
+  if (task === "cards") return cardsFor(messages);
+  if (task === "summary") return summaryFor(messages);
+  return answerFor(messages);
+}
+
+/**
+ * 외부 호출 없이 결정적인 응답을 돌려주는 스텁 프로바이더
+ * API 키 없는 로컬 개발, 데모, 다른 프로바이더가 모두 실패했을 때의 마지막 폴백으로 사용
+ * 도구는 호출하지 않음
+ */
+export function createStubProvider(): LLMProvider {
+  return {
+    name: "stub",
+    defaultModel: "stub",
+    async complete(request) {
+      const text = respond(request);
+      if (request.onText) {
+        for (const piece of text.match(/\S+\s*/g) ?? []) request.onText(piece);
+      }
+      return {
+        text,
+        toolCalls: [],
+        inputTokens: estimateTokens(request.messages.map((message) => message.content).join("")),
+        outputTokens: estimateTokens(text),
+      };
+    },
+    async ping() {},
+  };
+}
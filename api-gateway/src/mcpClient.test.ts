@@ -0,0 +1,41 @@
+// api-gateway/src/mcpClient.test.ts
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createFlightServerClient, MCPClientError, statusForMCPError } from "./mcpClient.js";
+import { configureLogger } from "./observability/logger.js";
+
+configureLogger({ level: "silent" });
+
+// 요청을 받고 응답하지 않는 플라이트 서버
+let server: Server;
+let url: string;
+
+before(async () => {
+  server = createServer(() => {});
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function isTimeout(error: unknown): boolean {
+  return error instanceof MCPClientError && error.code === "FLIGHT_SERVER_TIMEOUT";
+}
+
+describe("플라이트 서버 클라이언트", () => {
+  it("응답이 없으면 timeoutMs 후 FLIGHT_SERVER_TIMEOUT (게이트웨이 504)", async () => {
+    const client = createFlightServerClient({ url, token: "", timeoutMs: 100 });
+
+    await assert.rejects(client.callTool("list_price_watches", {}, { id: undefined }), isTimeout);
+    await assert.rejects(client.listTools(), isTimeout);
+    await assert.rejects(client.searchFlights({ origin: "ICN", destination: "NRT", departDate: "2030-03-15" }), isTimeout);
+    await assert.rejects(client.lookupLocations({ term: "Seoul" }), isTimeout);
+    assert.equal(statusForMCPError("FLIGHT_SERVER_TIMEOUT"), 504);
+  });
+});
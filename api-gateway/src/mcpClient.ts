@@ -1,15 +1,18 @@
-import { time } from "console";
 import { v4 as uuidv4 } from "uuid";
+import { currentTrace, traceHeaders } from "./observability/context.js";
+import { logger } from "./observability/logger.js";
+import { counter, histogram } from "./observability/metrics.js";
+import { withSpan } from "./observability/tracing.js";
+import type { HealthCheckResult } from "./health.js";
+import type { FlightServerClientConfig } from "./config.js";
+import type { FlightSearchRequest, FlightSearchResult, HealthReport, LocationSearchResult } from "./types.js";
 
-export interface FlightSearchParams {
-  origin: string;
-  destination: string;
-  departDate: string;
-  returnDate?: string;
-  adults?: number;
-  currency?: string;
-  maxStopovers?: number;
-  round?: boolean;
+export type FlightSearchParams = FlightSearchRequest;
+
+export interface MCPError {
+  code: string;
+  message: string;
+  details?: unknown;
 }
 
 export interface MCPResponse<T = any> {
@@ -19,131 +22,396 @@ export interface MCPResponse<T = any> {
   action: "result" | "update";
   result: T;
   metadata?: Record<string, any>;
-  error?: { code: string; message: string };
+  error?: MCPError;
+}
+
+/**
+ * 플라이트 서버가 돌려준 에러 카탈로그 코드(INVALID_PARAMS, NO_RESULTS, UPSTREAM_RATE_LIMITED 등)를 보존하는 에러
+ */
+export class MCPClientError extends Error {
+  constructor(public readonly code: string, message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "MCPClientError";
+  }
+}
+
+// 게이트웨이 응답에 사용할 HTTP 상태 코드
+export function statusForMCPError(code: string): number {
+  switch (code) {
+    case "INVALID_PARAMS":
+      return 400;
+    case "NO_RESULTS":
+    case "NOT_FOUND":
+      return 404;
+    case "OFFER_UNAVAILABLE":
+    case "PRICE_CHANGED":
+    case "IDEMPOTENCY_CONFLICT":
+      return 409;
+    case "CURSOR_EXPIRED":
+    case "OFFER_EXPIRED":
+      return 410;
+    case "UPSTREAM_REJECTED":
+      return 422;
+    case "UPSTREAM_RATE_LIMITED":
+    case "UPSTREAM_UNAVAILABLE":
+      return 503;
+    case "FLIGHT_SERVER_TIMEOUT":
+      return 504;
+    default:
+      return 502;
+  }
+}
+
+// 플라이트 서버 에러 응답에서 { code, message } 추출 (MCP envelope, REST 공통)
+async function readMCPError(response: Response): Promise<MCPClientError> {
+  const text = await response.text();
+  try {
+    const body = JSON.parse(text) as { error?: MCPError };
+    if (body?.error && typeof body.error === "object" && typeof body.error.code === "string") {
+      return new MCPClientError(body.error.code, body.error.message, body.error.details);
+    }
+  } catch {}
+  return new MCPClientError("MCP_HTTP_ERROR", `MCP 서버 호출 실패 (${response.status}): ${text}`);
+}
+
+const mcpRequests = counter("mcp_client_requests_total", "플라이트 서버 호출 수 (operation, outcome: ok 또는 에러 카탈로그 코드)");
+const mcpDuration = histogram("mcp_client_request_duration_seconds", "플라이트 서버 호출 시간 (operation)");
+
+// 플라이트 서버 호출 하나 = span 하나 + 호출 수/시간 메트릭 (operation: 도구 이름 또는 JSON-RPC 메서드)
+function traced<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+  const stopTimer = mcpDuration.startTimer({ operation });
+  return withSpan(`mcp ${operation}`, { "mcp.operation": operation }, async () => {
+    try {
+      const result = await fn();
+      mcpRequests.inc({ operation, outcome: "ok" });
+      return result;
+    } catch (error) {
+      mcpRequests.inc({ operation, outcome: error instanceof MCPClientError ? error.code : "ERROR" });
+      throw error;
+    } finally {
+      stopTimer();
+    }
+  });
+}
+
+export interface MCPToolDescriptor {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: Record<string, any>;
+}
+
+interface JsonRpcResponse<T> {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: T;
+  error?: { code: number; message: string; data?: any };
+}
+
+interface ToolCallResult {
+  content?: Array<{ type: string; text?: string }>;
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
 }
 
-const FLIGHT_SERVER_URL = process.env.FLIGHT_SERVER_URL || "http://localhost:8700";
-
-// export async function searchFlightsViaMCP(params: any): Promise<any> {
-//   try {
-//     console.log("🔍 항공편 검색:", params);
-//     const response = await fetch(`${FLIGHT_SERVER_URL}/api/search-flights`, {
-//       method: "POST",
-//       headers: { "Content-Type": "application/json" },
-//       body: JSON.stringify(params),
-//     });
-
-//     if (!response.ok) {
-//       let errorMessage = `HTTP ${response.status}`;
-//       try {
-//         const errorBody = await response.json();
-//         if (errorBody && typeof errorBody === "object" && "message" in errorBody && typeof (errorBody as any).message === "string") {
-//           errorMessage = (errorBody as any).message;
-//         }
-//       } catch {}
-//       throw new Error(errorMessage);
-//     }
-
-//     const rawData = await response.json();
-//     if (!rawData || typeof rawData !== "object") {
-//       throw new Error("서버에서 예상하지 못한 응답이 왔습니다.");
-//     }
-
-//     return rawData;
-//   } catch (error: unknown) {
-//     if (error instanceof Error) {
-//       console.error("❌ 항공편 검색 실패:", error.message);
-//       throw error;
-//     } else {
-//       console.error("❌ 항공편 검색 실패:", error);
-//       throw new Error("알 수 없는 오류가 발생했습니다.");
-//     }
-//   }
-// }
+// 도구 목록은 자주 바뀌지 않으므로 잠시 캐시
+const TOOL_LIST_TTL_MS = 5 * 60 * 1000;
 
+// 게이트웨이 세션에 연결된 MCP 세션 (initialize 로 발급받은 Mcp-Session-Id, 필요할 때 채워짐)
+export interface MCPSessionRef {
+  id?: string;
+}
+
+const MCP_SESSION_HEADER = "mcp-session-id";
+
+export interface FlightServerClient {
+  url: string;
+  /**
+   * MCP 프로토콜에 맞춰 MCP Flight Server /mcp 엔드포인트 호출
+   */
+  searchFlights(params: FlightSearchParams, options?: { sessionId?: string }): Promise<FlightSearchResult>;
+  lookupLocations(params: { term: string; limit?: number }): Promise<LocationSearchResult>;
+  /**
+   * 플라이트 서버가 제공하는 MCP 도구 목록 (tools/list)
+   */
+  listTools(): Promise<MCPToolDescriptor[]>;
+  /**
+   * MCP 도구 호출 (tools/call) → structuredContent (T: 도구의 outputSchema 에 맞는 결과 타입)
+   * 도구 실행 실패(isError)는 에러 카탈로그 코드를 담은 MCPClientError 로 변환
+   */
+  callTool<T = unknown>(name: string, args: Record<string, unknown>, session?: MCPSessionRef): Promise<T>;
+  /**
+   * MCP 세션 종료 (DELETE /mcp): 게이트웨이 세션이 삭제/만료될 때 호출
+   * 이미 없는 세션(404)이나 연결 실패는 로그만 남김 (플라이트 서버도 idle 세션을 정리하므로)
+   */
+  closeSession(session: MCPSessionRef): Promise<void>;
+  /**
+   * 플라이트 서버 readiness (/health/ready) 를 그대로 반영 (플라이트 서버가 degraded 면 degraded)
+   * 응답이 없거나 헬스 리포트 형식이 아니면 예외 → down
+   */
+  checkHealth(signal: AbortSignal): Promise<HealthCheckResult>;
+}
 
 /**
- * MCP 프로토콜에 맞춰 MCP Flight Server /mcp 엔드포인트 호출
+ * 설정(flightServer)의 주소/공유 비밀로 플라이트 서버를 호출하는 클라이언트
  */
-export async function searchFlightsViaMCP(params: FlightSearchParams): Promise<MCPResponse["result"]> {
-  console.log("searchFlightsViaMCP, 🔍 MCP 항공편 검색 요청:", params, new Date().toISOString());
-
-  const body = {
-    messageId: uuidv4(),
-    sessionId: uuidv4(),
-    service: "flight_search",
-    action: "invoke",
-    payload: {
-      origin: params.origin,
-      destination: params.destination,
-      departDate: params.departDate,
-      returnDate: params.returnDate,
-      adults: params.adults ?? 1,
-      currency: params.currency ?? "USD",
-      maxStopovers: params.maxStopovers ?? 0,
-    },
-  };
+export function createFlightServerClient({ url, token, timeoutMs }: FlightServerClientConfig): FlightServerClient {
+  let toolList: { tools: MCPToolDescriptor[]; fetchedAt: number } | null = null;
 
-  const response = await fetch(`${FLIGHT_SERVER_URL}/mcp`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(body),
-  });
+  // 플라이트 서버가 응답하지 않으면 timeoutMs 후 중단 (응답 본문 읽기 포함) → FLIGHT_SERVER_TIMEOUT (게이트웨이 504)
+  async function withTimeout<T>(fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const signal = AbortSignal.timeout(timeoutMs);
+    try {
+      return await fn(signal);
+    } catch (error) {
+      if (signal.aborted) {
+        throw new MCPClientError("FLIGHT_SERVER_TIMEOUT", `플라이트 서버가 ${timeoutMs}ms 안에 응답하지 않았습니다`);
+      }
+      throw error;
+    }
+  }
 
-  if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(`MCP 서버 호출 실패 (${response.status}): ${errorBody}`);
+  // 공유 비밀이 설정되면 모든 요청에 Bearer 토큰으로 전달
+  // 현재 요청의 X-Request-Id/traceparent 도 함께 보내서 플라이트 서버 로그를 같은 요청으로 연결
+  function flightServerHeaders(): Record<string, string> {
+    return { ...(token ? { Authorization: `Bearer ${token}` } : {}), ...traceHeaders() };
   }
 
+  async function postFlightSearch(params: FlightSearchParams, options: { sessionId?: string }, signal: AbortSignal): Promise<FlightSearchResult> {
+    logger.debug({ params }, "MCP 항공편 검색 요청");
+
+    const body = {
+      // 게이트웨이 요청의 correlationId 를 messageId 로 써서 envelope 만 봐도 어느 요청의 검색인지 알 수 있게 함
+      messageId: currentTrace()?.correlationId ?? uuidv4(),
+      // 게이트웨이 세션이 있으면 같은 id 를 사용해서 요청을 대화에 연결
+      sessionId: options.sessionId ?? uuidv4(),
+      service: "flight_search",
+      action: "invoke",
+      payload: {
+        origin: params.origin,
+        destination: params.destination,
+        departDate: params.departDate,
+        returnDate: params.returnDate,
+        originDestinations: params.originDestinations,
+        adults: params.adults ?? 1,
+        currency: params.currency ?? "USD",
+        children: params.children,
+        infants: params.infants,
+        travelClass: params.travelClass,
+        nonStop: params.nonStop,
+        maxStopovers: params.maxStopovers,
+        includedAirlineCodes: params.includedAirlineCodes,
+        excludedAirlineCodes: params.excludedAirlineCodes,
+        maxPrice: params.maxPrice,
+        maxResults: params.maxResults,
+        sort: params.sort,
+        pageSize: params.pageSize,
+        cursor: params.cursor,
+        includeRaw: params.includeRaw,
+      },
+    };
+
+    const response = await fetch(`${url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...flightServerHeaders() },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await readMCPError(response);
+    }
 
-  const dataRaw = await response.json();
-  if (typeof dataRaw !== "object" || dataRaw === null) {
-    throw new Error("잘못된 MCP 응답");
+    const dataRaw = await response.json();
+    if (typeof dataRaw !== "object" || dataRaw === null) {
+      throw new Error("잘못된 MCP 응답");
+    }
+
+    const data = dataRaw as MCPResponse<FlightSearchResult>;
+
+    if (data.error) {
+      throw new MCPClientError(data.error.code, `MCP 서버 에러: ${data.error.message}`, data.error.details);
+    }
+
+    return data.result;
   }
 
-  const data = dataRaw as MCPResponse;
+  async function fetchLocations(params: { term: string; limit?: number }, signal: AbortSignal): Promise<LocationSearchResult> {
+    try {
+      logger.debug({ term: params.term }, "위치 검색");
+      const locationsUrl = new URL(`${url}/api/locations`);
+      locationsUrl.searchParams.set("term", params.term);
+      locationsUrl.searchParams.set("limit", String(params.limit || 5));
 
-  if (data.error) {
-    throw new Error(`MCP 서버 에러: ${data.error.message}`);
+      const response = await fetch(locationsUrl.toString(), { headers: flightServerHeaders(), signal });
+
+      if (!response.ok) {
+        throw await readMCPError(response);
+      }
+
+      const rawData = await response.json();
+      if (!rawData || typeof rawData !== "object") {
+        throw new Error("서버에서 예상하지 못한 응답이 왔습니다.");
+      }
+
+      return rawData as LocationSearchResult;
+    } catch (error: unknown) {
+      logger.error({ err: error, term: params.term }, "위치 검색 실패");
+      throw error instanceof Error ? error : new Error("알 수 없는 오류가 발생했습니다.");
+    }
   }
 
-  return data.result;
-}
+  function postMcp(message: Record<string, unknown>, signal: AbortSignal, mcpSessionId?: string): Promise<Response> {
+    return fetch(`${url}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        ...flightServerHeaders(),
+        ...(mcpSessionId ? { [MCP_SESSION_HEADER]: mcpSessionId } : {}),
+      },
+      body: JSON.stringify(message),
+      signal,
+    });
+  }
 
+  /**
+   * MCP initialize → 플라이트 서버가 발급한 세션 id
+   */
+  async function openMCPSession(signal: AbortSignal): Promise<string> {
+    const response = await postMcp(
+      {
+        jsonrpc: "2.0",
+        id: uuidv4(),
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-06-18",
+          capabilities: {},
+          clientInfo: { name: "api-gateway", version: "0.1.0" },
+        },
+      },
+      signal
+    );
 
-export async function lookupLocationsViaMCP(params: { term: string; limit?: number }): Promise<any> {
-  try {
-    console.log("📍 위치 검색:", params.term);
-    const url = new URL(`${FLIGHT_SERVER_URL}/api/locations`);
-    url.searchParams.set("term", params.term);
-    url.searchParams.set("limit", String(params.limit || 5));
+    const mcpSessionId = response.headers.get(MCP_SESSION_HEADER);
+    if (!response.ok || !mcpSessionId) {
+      throw response.ok ? new MCPClientError("MCP_SESSION_ERROR", "MCP 세션을 발급받지 못했습니다") : await readMCPError(response);
+    }
+
+    await postMcp({ jsonrpc: "2.0", method: "notifications/initialized" }, signal, mcpSessionId);
+    logger.info({ mcpSessionId }, "MCP 세션 생성");
+    return mcpSessionId;
+  }
 
-    const response = await fetch(url.toString());
+  // MCP Streamable HTTP(JSON-RPC 2.0) 요청 한 건
+  // session 을 넘기면 Mcp-Session-Id 를 붙이고, 서버가 세션을 모르면(재시작 등) 새로 발급받아 한 번 재시도
+  async function callJsonRpc<T>(method: string, params: Record<string, unknown>, signal: AbortSignal, session?: MCPSessionRef): Promise<T> {
+    if (session && !session.id) {
+      session.id = await openMCPSession(signal);
+    }
+
+    const message = { jsonrpc: "2.0", id: uuidv4(), method, params };
+    let response = await postMcp(message, signal, session?.id);
+
+    if (response.status === 404 && session) {
+      await response.body?.cancel();
+      session.id = await openMCPSession(signal);
+      response = await postMcp(message, signal, session.id);
+    }
 
     if (!response.ok) {
-      let errorMessage = `HTTP ${response.status}`;
-      try {
-        const errorBody = await response.json();
-        if (errorBody && typeof errorBody === "object" && "message" in errorBody && typeof (errorBody as any).message === "string") {
-          errorMessage = (errorBody as any).message;
-        }
-      } catch {}
-      throw new Error(errorMessage);
+      throw await readMCPError(response);
     }
 
-    const rawData = await response.json();
-    if (!rawData || typeof rawData !== "object") {
-      throw new Error("서버에서 예상하지 못한 응답이 왔습니다.");
+    const data = (await response.json()) as JsonRpcResponse<T>;
+    if (data.error) {
+      // INVALID_PARAMS 는 data 에 에러 카탈로그 payload 가 담겨 옴
+      const payload = data.error.data as MCPError | undefined;
+      throw new MCPClientError(payload?.code ?? "MCP_RPC_ERROR", data.error.message, payload?.details);
     }
+    return data.result as T;
+  }
 
-    return rawData;
-  } catch (error: unknown) {
-    if (error instanceof Error) {
-      console.error("❌ 위치 검색 실패:", error.message);
-      throw error;
-    } else {
-      console.error("❌ 위치 검색 실패:", error);
-      throw new Error("알 수 없는 오류가 발생했습니다.");
+  async function closeMCPSession(session: MCPSessionRef): Promise<void> {
+    const mcpSessionId = session.id;
+    if (!mcpSessionId) return;
+    session.id = undefined;
+
+    try {
+      const response = await fetch(`${url}/mcp`, {
+        method: "DELETE",
+        headers: { ...flightServerHeaders(), [MCP_SESSION_HEADER]: mcpSessionId },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      await response.body?.cancel();
+      if (!response.ok && response.status !== 404) {
+        logger.warn({ mcpSessionId, status: response.status }, "MCP 세션 종료 실패");
+        return;
+      }
+      logger.info({ mcpSessionId }, "MCP 세션 종료");
+    } catch (err) {
+      logger.warn({ err, mcpSessionId }, "MCP 세션 종료 실패");
+    }
+  }
+
+  async function callTool<T>(name: string, args: Record<string, unknown>, signal: AbortSignal, session?: MCPSessionRef): Promise<T> {
+    logger.debug({ tool: name, args, mcpSessionId: session?.id }, "MCP 도구 호출");
+    const result = await callJsonRpc<ToolCallResult>("tools/call", { name, arguments: args }, signal, session);
+    const text = result.content?.find((item) => item.type === "text")?.text;
+
+    if (result.isError) {
+      try {
+        const { error } = JSON.parse(text ?? "") as { error: MCPError };
+        throw new MCPClientError(error.code, error.message, error.details);
+      } catch (err) {
+        if (err instanceof MCPClientError) throw err;
+        throw new MCPClientError("MCP_TOOL_ERROR", text ?? `${name} 도구 실행 실패`);
+      }
     }
+
+    return (result.structuredContent ?? (text ? JSON.parse(text) : {})) as T;
   }
-}
\ No newline at end of file
+
+  return {
+    url,
+    searchFlights(params, options = {}) {
+      return traced("flight_search", () => withTimeout((signal) => postFlightSearch(params, options, signal)));
+    },
+    lookupLocations(params) {
+      return traced("locations", () => withTimeout((signal) => fetchLocations(params, signal)));
+    },
+    async listTools() {
+      if (toolList && Date.now() - toolList.fetchedAt < TOOL_LIST_TTL_MS) {
+        return toolList.tools;
+      }
+
+      const { tools } = await traced("tools/list", () => withTimeout((signal) => callJsonRpc<{ tools: MCPToolDescriptor[] }>("tools/list", {}, signal)));
+      logger.info({ tools: tools.map((tool) => tool.name) }, "MCP 도구 목록");
+      toolList = { tools, fetchedAt: Date.now() };
+      return tools;
+    },
+    callTool<T>(name: string, args: Record<string, unknown>, session?: MCPSessionRef) {
+      return traced(name, () => withTimeout((signal) => callTool<T>(name, args, signal, session)));
+    },
+    closeSession(session) {
+      return closeMCPSession(session);
+    },
+    async checkHealth(signal) {
+      const response = await fetch(`${url}/health/ready`, { headers: flightServerHeaders(), signal }).catch((error) => {
+        // undici 는 "fetch failed" 만 남기고 원인(ECONNREFUSED 등)은 cause 에 담음
+        const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+        throw new Error(`플라이트 서버에 연결할 수 없습니다: ${cause?.code ?? cause?.message ?? (error as Error).message}`);
+      });
+      const report = (await response.json().catch(() => null)) as HealthReport | null;
+      if (!report?.status) {
+        throw new Error(`플라이트 서버 헬스 체크 실패 (${response.status})`);
+      }
+      const failing = report.dependencies.filter((dependency) => dependency.status !== "ok");
+      return {
+        status: report.status,
+        details: { url, dependencies: report.dependencies.map(({ name, status, latencyMs }) => ({ name, status, latencyMs })) },
+        ...(failing.length > 0 ? { error: failing.map((dependency) => `${dependency.name}: ${dependency.lastError ?? dependency.status}`).join("; ") } : {}),
+      };
+    },
+  };
+}
@@ -0,0 +1,143 @@
+// api-gateway/src/observability/logger.ts
+// api-gateway 와 mcp-flight-server 가 같은 파일을 가짐: 헤더 경로와 SERVICE 외에는 그대로 유지 (mcp-flight-server/src/observability/shared.test.ts 가 확인)
+
+import { format } from "node:util";
+import type { FastifyBaseLogger, FastifyLogFn } from "fastify";
+import { currentTrace } from "./context.js";
+
+const SERVICE = "api-gateway";
+
+type Level = "trace" | "debug" | "info" | "warn" | "error" | "fatal";
+
+const LEVELS: Record<string, number> = { trace: 10, debug: 20, info: 30, warn: 40, error: 50, fatal: 60, silent: Infinity };
+const LEVEL_COLORS: Record<Level, string> = { trace: "90", debug: "36", info: "32", warn: "33", error: "31", fatal: "35" };
+
+// 값 대신 [REDACTED] 를 남기는 키 (헤더, API 키/JWT/서비스 토큰, 승객 여권 정보)
+const REDACTED_KEY = /^(authorization|cookie|set-cookie|x-api-key|api[-_]?key|(access|refresh|id|service)?[-_]?token|.*secret|.*password|passport)$/i;
+const MAX_DEPTH = 6;
+
+// configureLogger 전의 기본값: 터미널이면 pretty, 아니면 한 줄 JSON / 운영 info, 개발 debug
+let outputFormat = process.stdout.isTTY ? "pretty" : "json";
+const DEFAULT_LEVEL = process.env.NODE_ENV === "production" ? "info" : "debug";
+
+let destination: NodeJS.WriteStream = process.stdout;
+
+// stdio 전송에서는 stdout 이 MCP 프로토콜 전용이므로 로그를 stderr 로 보냄 (플라이트 서버 stdio 진입점)
+export function logToStderr(): void {
+  destination = process.stderr;
+}
+
+function serializeError(error: Error, depth: number): Record<string, unknown> {
+  const { code, statusCode, details } = error as Error & { code?: unknown; statusCode?: unknown; details?: unknown };
+  return {
+    type: error.name,
+    message: error.message,
+    ...(code !== undefined ? { code } : {}),
+    ...(statusCode !== undefined ? { statusCode } : {}),
+    ...(details !== undefined ? { details: serialize(details, depth + 1) } : {}),
+    stack: error.stack,
+  };
+}
+
+// Fastify 가 넘기는 req/res 는 필요한 필드만, 나머지는 민감한 키를 가린 복사본
+function serializeField(key: string, value: unknown, depth: number): unknown {
+  if (REDACTED_KEY.test(key)) return "[REDACTED]";
+  const raw = value as { raw?: unknown; method?: string; url?: string; id?: string; statusCode?: number } | null;
+  if (key === "req" && raw?.raw) return { method: raw.method, url: raw.url, id: raw.id };
+  if (key === "res" && raw?.raw) return { statusCode: raw.statusCode };
+  return serialize(value, depth);
+}
+
+function serialize(value: unknown, depth: number): unknown {
+  if (value instanceof Error) return serializeError(value, depth);
+  if (value instanceof URL || value instanceof URLSearchParams) return value.toString();
+  if (typeof value === "bigint") return value.toString();
+  if (!value || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? "[Array]" : "[Object]";
+  if (Array.isArray(value)) return value.map((item) => serialize(item, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, serializeField(key, field, depth + 1)]));
+}
+
+function prettyLine(level: Level, record: Record<string, unknown>): string {
+  // 터미널에서는 trace/span id 를 생략하고 correlationId 앞부분만 표시
+  const { time, level: _level, service: _service, msg, correlationId, traceId: _traceId, spanId: _spanId, err, ...fields } = record;
+  const color = destination.isTTY ? (text: string) => `\x1b[${LEVEL_COLORS[level]}m${text}\x1b[0m` : (text: string) => text;
+  const id = typeof correlationId === "string" ? ` [${correlationId.slice(0, 8)}]` : "";
+  const extra = Object.entries(fields)
+    .map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join(" ");
+  const stack = err && typeof err === "object" && "stack" in err ? `\n${(err as { stack?: string }).stack}` : "";
+  return `${String(time).slice(11, 23)} ${color(level.toUpperCase().padEnd(5))}${id} ${msg}${extra ? ` ${extra}` : ""}${stack}`;
+}
+
+function write(level: Level, bindings: Record<string, unknown>, args: unknown[]): void {
+  const [first, ...rest] = args;
+  let fields: Record<string, unknown> = {};
+  let message = "";
+
+  // pino 와 같은 호출 형태: (msg, ...args) | (err, msg?) | (fields, msg?, ...args)
+  if (typeof first === "string") {
+    message = format(first, ...rest);
+  } else {
+    if (first instanceof Error) fields = { err: first };
+    else if (first && typeof first === "object") fields = first as Record<string, unknown>;
+    const [msg, ...formatArgs] = rest;
+    message = typeof msg === "string" ? format(msg, ...formatArgs) : first instanceof Error ? first.message : "";
+  }
+
+  const trace = currentTrace();
+  const record = {
+    time: new Date().toISOString(),
+    level,
+    service: SERVICE,
+    msg: message,
+    ...(trace ? { correlationId: trace.correlationId, traceId: trace.traceId, spanId: trace.spanId } : {}),
+    ...bindings,
+    ...(serialize(fields, 0) as Record<string, unknown>),
+  };
+  destination.write(`${outputFormat === "pretty" ? prettyLine(level, record) : JSON.stringify(record)}\n`);
+}
+
+function createLogger(bindings: Record<string, unknown>, initialLevel: string): FastifyBaseLogger {
+  let threshold = LEVELS[initialLevel] ?? LEVELS.info;
+  const method = (level: Level): FastifyLogFn =>
+    ((...args: unknown[]) => {
+      if (LEVELS[level] >= threshold) write(level, bindings, args);
+    }) as FastifyLogFn;
+
+  const logger: FastifyBaseLogger = {
+    get level() {
+      return Object.keys(LEVELS).find((name) => LEVELS[name] === threshold) ?? "info";
+    },
+    set level(level: string) {
+      threshold = LEVELS[level] ?? threshold;
+    },
+    trace: method("trace"),
+    debug: method("debug"),
+    info: method("info"),
+    warn: method("warn"),
+    error: method("error"),
+    fatal: method("fatal"),
+    silent: (() => {}) as FastifyLogFn,
+    msgPrefix: "",
+    child(childBindings, options) {
+      return createLogger({ ...bindings, ...(serialize(childBindings, 0) as Record<string, unknown>) }, options?.level || logger.level);
+    },
+  };
+  return logger;
+}
+
+/**
+ * 서비스 공용 구조화 로거 (Fastify loggerInstance 로도 사용)
+ * 한 줄에 하나의 JSON 레코드: time, level, service, msg + 현재 요청의 correlationId/traceId/spanId + 필드
+ */
+export const logger = createLogger({}, DEFAULT_LEVEL);
+
+/**
+ * 설정(log.format, log.level)을 반영 - 시작할 때 설정을 읽은 직후 호출
+ * 값이 없으면 기본값 유지
+ */
+export function configureLogger(config: { format?: "json" | "pretty"; level?: string }): void {
+  if (config.format) outputFormat = config.format;
+  if (config.level) logger.level = config.level;
+}
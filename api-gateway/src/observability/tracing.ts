@@ -0,0 +1,53 @@
+// api-gateway/src/observability/tracing.ts
+// api-gateway 와 mcp-flight-server 가 같은 파일을 가짐: 헤더 경로와 SERVICE 외에는 그대로 유지 (mcp-flight-server/src/observability/shared.test.ts 가 확인)
+
+import { randomUUID } from "node:crypto";
+import { currentTrace, newSpanId, newTraceId, runWithTrace } from "./context.js";
+import { logger } from "./logger.js";
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+export interface Span {
+  setAttributes(attributes: SpanAttributes): void;
+}
+
+/**
+ * OpenTelemetry 스타일 span: fn 실행을 현재 trace 의 자식 span 으로 기록
+ * 끝나면 이름/시간/상태/속성을 로그 한 줄로 남김 (성공 debug, 실패 warn)
+ * span 안에서 남기는 로그와 하위 span 은 이 span 의 id 를 가짐
+ */
+export async function withSpan<T>(name: string, attributes: SpanAttributes, fn: (span: Span) => Promise<T>): Promise<T> {
+  const parent = currentTrace();
+  const trace = {
+    correlationId: parent?.correlationId ?? randomUUID(),
+    traceId: parent?.traceId ?? newTraceId(),
+    spanId: newSpanId(),
+    ...(parent ? { parentSpanId: parent.spanId } : {}),
+  };
+  const recorded: SpanAttributes = { ...attributes };
+  const span: Span = {
+    setAttributes(more) {
+      Object.assign(recorded, more);
+    },
+  };
+
+  const started = performance.now();
+  const end = (status: "ok" | "error") => ({
+    name,
+    traceId: trace.traceId,
+    spanId: trace.spanId,
+    parentSpanId: trace.parentSpanId,
+    status,
+    durationMs: Math.round(performance.now() - started),
+    attributes: recorded,
+  });
+
+  try {
+    const result = await runWithTrace(trace, () => fn(span));
+    logger.debug({ span: end("ok") }, `span ${name}`);
+    return result;
+  } catch (error) {
+    logger.warn({ span: end("error"), err: error }, `span ${name} 실패`);
+    throw error;
+  }
+}
@@ -0,0 +1,51 @@
+// api-gateway/src/ruleBasedTurn.ts
+
+import { executeTool, type AgentHooks, type AgentRun, type AgentTool, type AgentToolResult } from "./agent.js";
+import { summarizeFlightsForUser } from "./flightSummary.js";
+import type { SearchDetailsUpdate } from "./dialogue.js";
+import type { FlightSearchResult } from "./types.js";
+
+const EXAMPLE_QUERY = '"ICN to JFK 2025-03-15 2 adults", "서울에서 도쿄 다음주 월요일 성인 2명"';
+
+/**
+ * LLM 없이 처리하는 한 턴 (LLM 호출이 모두 실패했을 때의 대체 경로)
+ * update_search_details 를 빈 인자로 호출하면 사용자 메시지에서 규칙으로 찾은 조건이 채워지고,
+ * 조건이 다 모이면 search_flights 를 직접 호출해서 결과를 정해진 문장으로 안내
+ */
+export async function runRuleBasedTurn(tools: AgentTool[], hooks: AgentHooks = {}): Promise<AgentRun> {
+  const toolsByName = new Map(tools.map((tool) => [tool.definition.name, tool]));
+  const toolResults: AgentToolResult[] = [];
+  const call = async (name: string, args: Record<string, unknown>) => {
+    const { result } = await executeTool(toolsByName.get(name), { id: `rule-${toolResults.length + 1}`, name, arguments: args }, hooks);
+    toolResults.push(result);
+    return result;
+  };
+  const finish = (message: string): AgentRun => {
+    hooks.onText?.(message);
+    return { message, toolResults, steps: toolResults.length, usage: [] };
+  };
+
+  const update = await call("update_search_details", {});
+  const details = update.result as SearchDetailsUpdate | undefined;
+
+  if (!details) {
+    return finish("죄송합니다, 지금은 요청을 처리할 수 없어요. 잠시 후 다시 시도해 주세요.");
+  }
+  if (!details.complete || !details.searchParams) {
+    if (Object.keys(details.slots).length === 0) {
+      return finish(`지금은 간단한 항공편 검색만 도와드릴 수 있어요. 예: ${EXAMPLE_QUERY}`);
+    }
+    return finish([...details.issues, details.nextQuestion].filter(Boolean).join(" "));
+  }
+
+  const search = await call("search_flights", details.searchParams);
+  if (search.error) {
+    return finish(`항공편 검색에 실패했어요 (${search.error.message}). 날짜나 목적지를 바꿔서 다시 시도해 주세요.`);
+  }
+
+  const { origin, destination, departDate, returnDate, originDestinations } = details.searchParams;
+  const route = originDestinations
+    ? originDestinations.map((leg) => `${leg.origin} → ${leg.destination} ${leg.departDate}`).join(", ")
+    : `${origin} → ${destination} ${departDate}${returnDate ? ` ~ ${returnDate}` : ""}`;
+  return finish(`${route}: ${summarizeFlightsForUser(search.result as FlightSearchResult)}`);
+}
@@ -0,0 +1,119 @@
+// api-gateway/src/sessions/booking.ts
+
+import { v4 as uuidv4 } from "uuid";
+import { summarizeBookingForUser, summarizeOfferPricingForLLM } from "../flightSummary.js";
+import { MCPClientError, type FlightServerClient, type MCPSessionRef } from "../mcpClient.js";
+import type { AgentTool } from "../agent.js";
+import type { BookingContact, ChatSession, FlightOrder, OrderValidation, PendingActionView, PendingBooking, TravelerInput } from "../types.js";
+
+// 확인 버튼을 누르기까지 기다리는 시간 (가격 확인 결과가 오래되지 않도록 짧게)
+const PENDING_ACTION_TTL_MS = 15 * 60 * 1000;
+
+// 다시 확인해도 성공할 수 없는 실패 → 확인 요청을 버리고 새로 준비
+const FINAL_BOOKING_ERRORS = new Set(["PRICE_CHANGED", "OFFER_UNAVAILABLE", "OFFER_EXPIRED", "NOT_FOUND", "INVALID_PARAMS", "IDEMPOTENCY_CONFLICT"]);
+
+export function pendingActionView({ id, type, summary, expectedTotal, currency, expiresAt }: PendingBooking): PendingActionView {
+  return { id, type, summary, expectedTotal, currency, expiresAt };
+}
+
+/**
+ * validate_order 를 감싼 prepare_booking 도구
+ * 모델은 예약을 직접 만들 수 없고, 검증된 예약을 세션에 확인 대기 상태로 올려두기만 함
+ * 실제 예약은 사용자가 확인 버튼을 눌러 confirmActionId 를 보냈을 때 confirmPendingBooking 에서 실행
+ */
+export function createPrepareBookingTool(validateOrder: AgentTool, session: ChatSession): AgentTool {
+  return {
+    definition: {
+      ...validateOrder.definition,
+      name: "prepare_booking",
+      description:
+        "Prepare a booking for the user to confirm. Re-prices the offer and validates the travelers (names as on the passport, date of birth, gender, passport for international trips) and contact. Does NOT book: on success the user gets a confirm button, and the booking is made only when they press it. searchId defaults to the last shown search.",
+    },
+    async run(args) {
+      const validation = (await validateOrder.run(args)) as OrderValidation;
+      const { pricing } = validation;
+      if (pricing.status === "unavailable") {
+        return { validation };
+      }
+
+      const now = Date.now();
+      const action: PendingBooking = {
+        id: uuidv4(),
+        type: "book_flight",
+        searchId: pricing.searchId,
+        offerId: pricing.offerId,
+        travelers: args.travelers as TravelerInput[],
+        contact: args.contact as BookingContact,
+        expectedTotal: Number(pricing.offer.price.total),
+        currency: pricing.offer.price.currency,
+        summary: summarizeBookingForUser(validation),
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + PENDING_ACTION_TTL_MS).toISOString(),
+      };
+      session.pendingAction = action;
+      return { validation, pendingAction: pendingActionView(action) };
+    },
+    describe(result) {
+      const { validation, pendingAction } = result as { validation: OrderValidation; pendingAction?: PendingActionView };
+      const pricing = summarizeOfferPricingForLLM(validation.pricing);
+      return pendingAction
+        ? `${pricing}\nBooking prepared and NOT yet made: ${pendingAction.summary}. The user must press the confirm button to book.`
+        : `${pricing}\nBooking not prepared because the offer cannot be booked.`;
+    },
+  };
+}
+
+export interface ConfirmedBooking {
+  message: string;
+  order?: FlightOrder;
+}
+
+/**
+ * 사용자가 확인한 예약 실행 (LLM 을 거치지 않음)
+ * 확인 요청 id 를 idempotency key 로 쓰므로 버튼을 여러 번 눌러도 예약은 한 번만 생성
+ * tenant 를 지정하면 그 테넌트의 예약으로 만듦 (조회/취소도 같은 테넌트만)
+ */
+export async function confirmPendingBooking(
+  flightServer: FlightServerClient,
+  session: ChatSession,
+  actionId: string,
+  mcpSession: MCPSessionRef,
+  tenant?: string
+): Promise<ConfirmedBooking> {
+  const action = session.pendingAction;
+  if (!action || action.id !== actionId) {
+    return { message: "확인할 예약 요청을 찾을 수 없어요. 예약할 항공편을 다시 알려 주세요." };
+  }
+  if (!action.orderId && Date.parse(action.expiresAt) < Date.now()) {
+    delete session.pendingAction;
+    return { message: "예약 확인 시간이 지났어요. 가격을 다시 확인한 뒤 예약해 드릴게요." };
+  }
+
+  try {
+    const order = await flightServer.callTool<FlightOrder>(
+      "create_order",
+      {
+        searchId: action.searchId,
+        offerId: action.offerId,
+        travelers: action.travelers,
+        contact: action.contact,
+        expectedTotal: action.expectedTotal,
+        idempotencyKey: action.id,
+        tenant,
+      },
+      mcpSession
+    );
+    action.orderId = order.id;
+
+    return {
+      message: `예약이 완료되었어요. 예약 번호(PNR)는 ${order.pnr}이고, 총 ${order.offer.price.total} ${order.offer.price.currency}입니다.`,
+      order,
+    };
+  } catch (error) {
+    if (!(error instanceof MCPClientError)) throw error;
+    if (FINAL_BOOKING_ERRORS.has(error.code)) {
+      delete session.pendingAction;
+    }
+    return { message: `예약하지 못했어요: ${error.message}` };
+  }
+}
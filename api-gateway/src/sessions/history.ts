@@ -0,0 +1,73 @@
+// api-gateway/src/sessions/history.ts
+
+import type { LLMRouter } from "../llm.js";
+import { logger } from "../observability/logger.js";
+import type { ChatMessage, ChatSession } from "../types.js";
+
+// 모델 컨텍스트에 넣을 대화 기록 한도 (chat.historyMaxMessages, chat.historyMaxChars)
+export interface HistoryLimits {
+  maxMessages: number;
+  maxChars: number;
+}
+
+// 압축 후에도 원문 그대로 유지할 최근 메시지 수
+const KEEP_RECENT_MESSAGES = 6;
+
+function totalChars(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + message.content.length, 0);
+}
+
+// 남길 최근 메시지의 시작 위치 (항상 user 메시지에서 시작하고, 글자 수 한도도 지킴)
+function recentStart(messages: ChatMessage[], maxChars: number): number {
+  let start = Math.max(0, messages.length - KEEP_RECENT_MESSAGES);
+  const nextUser = (from: number) => {
+    let index = from;
+    while (index < messages.length - 1 && messages[index].role !== "user") index++;
+    return index;
+  };
+
+  start = nextUser(start);
+  while (start < messages.length - 1 && totalChars(messages.slice(start)) > maxChars) {
+    start = nextUser(start + 1);
+  }
+  return start;
+}
+
+async function summarize(llm: LLMRouter, previous: string | undefined, messages: ChatMessage[]): Promise<string> {
+  const transcript = messages.map((message) => `${message.role}: ${message.content}`).join("\n");
+  const summaryPrompt = `
+Summarize this travel assistant conversation for your own future reference in at most 5 short bullet points.
+Keep concrete details: places, dates, passengers, preferences, budgets and which flights the user liked or rejected.
+If an earlier summary is given, merge it in.`;
+
+  return llm.chat(
+    [
+      { role: "system", content: summaryPrompt },
+      { role: "user", content: `${previous ? `Earlier summary:\n${previous}\n\n` : ""}Conversation:\n${transcript}` },
+    ],
+    { task: "summary" }
+  );
+}
+
+/**
+ * 세션 대화 기록이 한도를 넘으면 오래된 턴을 LLM 요약(session.summary)으로 합치고 잘라냄
+ * 요약에 실패하면 잘라내기만 함
+ */
+export async function compactHistory(session: ChatSession, llm: LLMRouter, { maxMessages, maxChars }: HistoryLimits): Promise<void> {
+  const { messages } = session;
+  if (messages.length <= maxMessages && totalChars(messages) <= maxChars) {
+    return;
+  }
+
+  const start = recentStart(messages, maxChars);
+  if (start === 0) return;
+
+  const older = messages.slice(0, start);
+  try {
+    session.summary = await summarize(llm, session.summary, older);
+    logger.info({ sessionId: session.id, messages: older.length }, "대화 요약");
+  } catch (error) {
+    logger.error({ err: error, sessionId: session.id }, "대화 요약 실패, 오래된 기록만 잘라냄");
+  }
+  session.messages = messages.slice(start);
+}
@@ -0,0 +1,40 @@
+// api-gateway/src/sessions/references.ts
+
+import { summarizeFlightsForLLM } from "../flightSummary.js";
+import { MCPClientError } from "../mcpClient.js";
+import type { AgentTool } from "../agent.js";
+import type { FlightSearchResult } from "../types.js";
+
+/**
+ * 이전에 보여준 검색 결과를 시스템 프롬프트용 번호 목록으로 변환
+ * 사용자가 보는 순서와 같은 번호라서 "두 번째 항공편" 같은 참조를 해석할 수 있음
+ */
+export function describeShownResults(results: FlightSearchResult): string {
+  return `Flights already shown to the user, numbered as they see them ("the second flight" = #2):
+${summarizeFlightsForLLM(results)}
+Use get_shown_offer to read the full details of one of them.`;
+}
+
+// 이전에 보여준 결과 중 하나의 전체 정보 (구간, 시각, 수하물, 운임)
+export function createShownOfferTool(results: FlightSearchResult): AgentTool {
+  return {
+    definition: {
+      name: "get_shown_offer",
+      description:
+        "Get full details (segments, local times, baggage, fare brand, price) of a flight offer previously shown to the user, by its position in that list (1 = first).",
+      parameters: {
+        type: "object",
+        properties: { position: { type: "integer", minimum: 1, description: "Position in the shown list (1 = first)" } },
+        required: ["position"],
+      },
+    },
+    async run(args) {
+      const position = Number(args.position);
+      const offer = Number.isInteger(position) ? results.items[position - 1] : undefined;
+      if (!offer) {
+        throw new MCPClientError("INVALID_PARAMS", `position must be between 1 and ${results.items.length}`);
+      }
+      return { position, offer };
+    },
+  };
+}
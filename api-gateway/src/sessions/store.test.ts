@@ -0,0 +1,55 @@
+// api-gateway/src/sessions/store.test.ts
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { createFileSessionStore, createMemorySessionStore, type SessionRemovedHook } from "./store.js";
+import type { ChatSession } from "../types.js";
+
+const HOUR = 60 * 60 * 1000;
+
+function session(id: string, updatedAt = new Date().toISOString()): ChatSession {
+  return { id, createdAt: updatedAt, updatedAt, messages: [], mcpSessionId: `mcp-${id}` };
+}
+
+function recorder(): { removed: string[]; hook: SessionRemovedHook } {
+  const removed: string[] = [];
+  return { removed, hook: (removedSession, reason) => removed.push(`${removedSession.mcpSessionId}:${reason}`) };
+}
+
+const dirs: string[] = [];
+after(async () => {
+  await Promise.all(dirs.map((dir) => rm(dir, { recursive: true, force: true })));
+});
+
+describe("세션 저장소", () => {
+  it("메모리: 삭제/만료/상한 초과로 빠진 세션을 알림", async () => {
+    const { removed, hook } = recorder();
+    const store = createMemorySessionStore(HOUR, 2, hook);
+
+    await store.save(session("session-a"));
+    await store.save(session("session-b"));
+    await store.save(session("session-c"));
+    assert.equal(await store.delete("session-b"), true);
+    assert.equal(await store.delete("session-b"), false);
+
+    await store.save(session("session-d", new Date(Date.now() - 2 * HOUR).toISOString()));
+    assert.equal(await store.get("session-d"), undefined);
+    assert.deepEqual(removed, ["mcp-session-a:evicted", "mcp-session-b:deleted", "mcp-session-d:expired"]);
+  });
+
+  it("파일: 삭제/만료된 세션을 알림", async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), "sessions-"));
+    dirs.push(dir);
+    const { removed, hook } = recorder();
+    const store = createFileSessionStore(dir, HOUR, hook);
+
+    await store.save(session("session-a"));
+    await store.save(session("session-b", new Date(Date.now() - 2 * HOUR).toISOString()));
+    assert.equal(await store.delete("session-a"), true);
+    assert.equal(await store.get("session-b"), undefined);
+    assert.deepEqual(removed, ["mcp-session-a:deleted", "mcp-session-b:expired"]);
+  });
+});
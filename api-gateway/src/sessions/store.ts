@@ -0,0 +1,145 @@
+// api-gateway/src/sessions/store.ts
+
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { ChatSession } from "../types.js";
+import { logger } from "../observability/logger.js";
+import type { SessionConfig } from "../config.js";
+
+/**
+ * 대화 세션 저장소 인터페이스 (인메모리 / 파일)
+ * 만료(sessions.ttlHours)된 세션은 조회 시 없는 것으로 처리
+ */
+export interface SessionStore {
+  kind: "memory" | "file";
+  get(id: string): Promise<ChatSession | undefined>;
+  save(session: ChatSession): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+// 세션이 삭제/만료/상한 초과로 저장소에서 빠질 때 호출 (연결된 MCP 세션 정리 등)
+export type SessionRemovedHook = (session: ChatSession, reason: "deleted" | "expired" | "evicted") => void;
+
+// 파일 이름으로 쓰이므로 경로 문자가 섞인 id 는 거부
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+function isExpired(session: ChatSession, ttlMs: number): boolean {
+  return Date.now() - Date.parse(session.updatedAt) > ttlMs;
+}
+
+export function createMemorySessionStore(ttlMs: number, maxSessions: number = 1000, onRemoved?: SessionRemovedHook): SessionStore {
+  const sessions = new Map<string, ChatSession>();
+
+  return {
+    kind: "memory",
+    async get(id) {
+      const session = sessions.get(id);
+      if (!session) return undefined;
+      if (isExpired(session, ttlMs)) {
+        sessions.delete(id);
+        onRemoved?.(session, "expired");
+        return undefined;
+      }
+      return structuredClone(session);
+    },
+    async save(session) {
+      // 최근에 갱신된 세션을 맨 뒤로 (오래된 세션부터 정리)
+      sessions.delete(session.id);
+      sessions.set(session.id, structuredClone(session));
+      while (sessions.size > maxSessions) {
+        const oldest = sessions.values().next().value!;
+        sessions.delete(oldest.id);
+        onRemoved?.(oldest, "evicted");
+      }
+    },
+    async delete(id) {
+      const session = sessions.get(id);
+      if (!session) return false;
+      sessions.delete(id);
+      onRemoved?.(session, "deleted");
+      return true;
+    },
+  };
+}
+
+/**
+ * 세션 하나를 JSON 파일 하나로 저장 (재시작 후에도 유지)
+ * 임시 파일에 쓴 뒤 rename 해서 쓰는 도중 읽어도 깨진 파일이 보이지 않도록 함
+ */
+export function createFileSessionStore(directory: string, ttlMs: number, onRemoved?: SessionRemovedHook): SessionStore {
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+  const ready = mkdir(directory, { recursive: true });
+
+  const read = async (id: string): Promise<ChatSession | undefined> => {
+    try {
+      return JSON.parse(await readFile(fileFor(id), "utf8")) as ChatSession;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    kind: "file",
+    async get(id) {
+      if (!SESSION_ID_PATTERN.test(id)) return undefined;
+      await ready;
+      const session = await read(id);
+      if (session && isExpired(session, ttlMs)) {
+        await rm(fileFor(id), { force: true });
+        onRemoved?.(session, "expired");
+        return undefined;
+      }
+      return session;
+    },
+    async save(session) {
+      if (!SESSION_ID_PATTERN.test(session.id)) {
+        throw new Error(`잘못된 세션 id: ${session.id}`);
+      }
+      await ready;
+      const temp = `${fileFor(session.id)}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(session), "utf8");
+      await rename(temp, fileFor(session.id));
+    },
+    async delete(id) {
+      if (!SESSION_ID_PATTERN.test(id)) return false;
+      await ready;
+      const session = await read(id);
+      try {
+        await rm(fileFor(id));
+      } catch {
+        return false;
+      }
+      if (session) onRemoved?.(session, "deleted");
+      return true;
+    },
+  };
+}
+
+// sessions.store: memory | file (기본값 memory)
+export function createSessionStore({ store, dir, ttlHours }: SessionConfig, onRemoved?: SessionRemovedHook): SessionStore {
+  const ttlMs = ttlHours * 60 * 60 * 1000;
+  if (store === "file") {
+    const directory = path.resolve(dir);
+    logger.info({ store: "file", directory }, "세션 저장소");
+    return createFileSessionStore(directory, ttlMs, onRemoved);
+  }
+  logger.info({ store: "memory" }, "세션 저장소");
+  return createMemorySessionStore(ttlMs, undefined, onRemoved);
+}
+
+/**
+ * 같은 세션의 요청이 동시에 들어오면 순서대로 처리 (읽고-수정-저장 사이의 덮어쓰기 방지, 프로세스 내)
+ */
+export function createSessionQueue() {
+  const tails = new Map<string, Promise<unknown>>();
+
+  return function runExclusive<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const result = (tails.get(id) ?? Promise.resolve()).then(task);
+    const tail = result.catch(() => undefined);
+    tails.set(id, tail);
+    tail.then(() => {
+      if (tails.get(id) === tail) tails.delete(id);
+    });
+    return result;
+  };
+}
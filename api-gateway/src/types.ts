@@ -5,43 +5,482 @@ export interface ChatMessage {
   content: string;
 }
 
+// LLM 도구 호출 (OpenAI function calling / Anthropic tool use 공통 형태)
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema (type: "object")
+  parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// 에이전트 루프에서 주고받는 메시지 (일반 대화 + 도구 호출/결과)
+export type AgentMessage =
+  | ChatMessage
+  | { role: "assistant"; content: string; toolCalls: ToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string; isError?: boolean };
+
 export interface ChatRequest {
-  messages: ChatMessage[];
+  // 세션 없이 호출할 때는 전체 대화, 세션이 있으면 이번 턴에 추가할 메시지
+  messages?: ChatMessage[];
+  // 세션 사용 시 이번 턴의 사용자 메시지 (messages 대신)
+  message?: string;
+  // POST /sessions 로 만든 세션 (대화 기록, 슬롯 상태, 이전 검색 결과를 서버에서 보관)
+  sessionId?: string;
+  // 이전 응답의 dialogue 를 그대로 돌려주면 이어서 슬롯을 채움
+  dialogue?: DialogueState;
+  // 상대 날짜("next Monday") 해석 기준 시간대 (IANA, 기본값 chat.defaultTimezone)
+  timezone?: string;
+  // 이전 응답의 pendingAction.id: 사용자가 확인 버튼을 누르면 LLM 을 거치지 않고 해당 작업(예약)을 실행
+  confirmActionId?: string;
+}
+
+// 여행 정보 카드 종류 (목적지 지식 베이스의 항목 분류와 같음)
+export type TravelCardCategory = "visa" | "currency" | "power" | "timezone" | "attractions" | "food" | "tips";
+
+// 카드 내용의 근거 (지식 베이스 항목이 인용한 출처)
+export interface TravelCardSource {
+  title: string;
+  url?: string;
 }
 
 export interface TravelCard {
+  category: TravelCardCategory;
   title: string;
   summary: string;
-  url?: string;
+  // 목적지 도시 코드 (다구간이면 첫 번째 목적지)
+  destination: string;
+  sources: TravelCardSource[];
+}
+
+// 항공편 모델 (mcp-flight-server/src/types.ts 와 같은 정의)
+export type CabinClass = "ECONOMY" | "PREMIUM_ECONOMY" | "BUSINESS" | "FIRST";
+
+export interface FlightEndpoint {
+  iataCode: string;
+  terminal?: string;
+  // 현지 시각 (YYYY-MM-DDTHH:mm:ss, 오프셋 없음)
+  at: string;
+  timezone?: string;
+  utcOffset?: string;
+  atUtc?: string;
+}
+
+export interface BaggageAllowance {
+  quantity?: number;
+  weight?: number;
+  weightUnit?: string;
+}
+
+export interface FlightSegment {
+  id: string;
+  carrierCode: string;
+  carrierName?: string;
+  flightNumber: string;
+  operatingCarrierCode?: string;
+  aircraft?: string;
+  departure: FlightEndpoint;
+  arrival: FlightEndpoint;
+  duration: string;
+  durationMinutes: number;
+  cabin?: CabinClass;
+  bookingClass?: string;
+  fareBasis?: string;
+  fareBrand?: string;
+  checkedBags?: BaggageAllowance;
+}
+
+export interface FlightItinerary {
+  duration: string;
+  durationMinutes: number;
+  stops: number;
+  segments: FlightSegment[];
+}
+
+export interface FlightOffer {
+  id: string;
+  provider: string;
+  price: { total: string; base?: string; currency: string };
+  validatingCarrier?: string;
+  bookableSeats?: number;
+  lastTicketingDate?: string;
+  cabin?: CabinClass;
+  fareBrand?: string;
+  checkedBags?: BaggageAllowance;
+  itineraries: FlightItinerary[];
+  tags?: OfferTag[];
+  score?: number;
+  raw?: unknown;
+}
+
+export type OfferTag = "cheapest" | "fastest" | "best";
+
+export type SortMode = "best" | "cheapest" | "fastest" | "earliest";
+
+export interface FlightSearchResult {
+  currency: string;
+  items: FlightOffer[];
+  searchId?: string;
+  sort?: SortMode;
+  total?: number;
+  nextCursor?: string;
 }
 
 export interface ChatResponse {
   message: string;
-  flights?: {
-    currency: string;
-    items: any[];
-  };
+  flights?: FlightSearchResult | null;
   cards?: TravelCard[];
+  dialogue?: DialogueState;
+  sessionId?: string;
+  // 사용자 확인이 필요한 작업 (확인 버튼 → confirmActionId 로 다시 요청)
+  pendingAction?: PendingActionView;
+  // confirmActionId 로 실행한 예약 결과
+  order?: FlightOrder;
 }
 
-export interface FlightSearchRequest {
+// 게이트웨이가 보관하는 대화 세션
+export interface ChatSession {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  // 세션을 만든 테넌트 (인증된 요청일 때만, 다른 테넌트는 사용할 수 없음)
+  tenant?: string;
+  // 최근 대화 (오래된 턴은 summary 로 압축)
+  messages: ChatMessage[];
+  summary?: string;
+  dialogue?: DialogueState;
+  timezone?: string;
+  // 마지막으로 보여준 검색 결과 ("두 번째 항공편" 같은 참조용)
+  lastResults?: FlightSearchResult;
+  // 플라이트 서버 MCP 세션 (Mcp-Session-Id)
+  mcpSessionId?: string;
+  // 사용자 확인을 기다리는 예약 (한 번에 하나)
+  pendingAction?: PendingBooking;
+}
+
+/**
+ * POST /chat/stream 의 SSE 이벤트 (event: <type>, data: <JSON>)
+ * status → flights(검색 결과 도착 즉시) → delta(답변 토큰) → cards → done 순서로 전송
+ */
+export type ChatStreamEvent =
+  | { type: "status"; stage: "thinking" | "tool" | "cards"; message: string; tool?: string }
+  | { type: "flights"; flights: FlightSearchResult }
+  | { type: "delta"; text: string }
+  | { type: "cards"; cards: TravelCard[] }
+  // 최종 응답 전체 (/chat 응답과 같은 형태)
+  | { type: "done"; response: ChatResponse }
+  | { type: "error"; message: string };
+
+// 플라이트 서버 lookup_locations 결과 (공항/도시 검색)
+export interface Location {
+  type: "AIRPORT" | "CITY";
+  iataCode: string;
+  name: string;
+  cityCode: string;
+  cityName: string;
+  countryCode: string;
+  timezone?: string;
+  score: number;
+}
+
+export interface LocationSearchResult {
+  term: string;
+  source: "offline" | "amadeus";
+  locations: Location[];
+}
+
+// 다구간(multi-city)/오픈조 여정의 한 구간
+export interface FlightLeg {
   origin: string;
   destination: string;
   departDate: string;
+}
+
+export interface FlightSearchRequest {
+  // 다구간 검색이면 생략하고 originDestinations 사용
+  origin?: string;
+  destination?: string;
+  departDate?: string;
   returnDate?: string;
+  originDestinations?: FlightLeg[];
   round?: boolean;
   adults?: number;
   currency?: string;
+  children?: number;
+  infants?: number;
+  travelClass?: CabinClass;
+  nonStop?: boolean;
   maxStopovers?: number;
+  includedAirlineCodes?: string[];
+  excludedAirlineCodes?: string[];
+  maxPrice?: number;
+  maxResults?: number;
+  sort?: SortMode;
+  pageSize?: number;
+  cursor?: string;
+  includeRaw?: boolean;
+}
+
+// 가격 알림 생성 요청 (검증은 플라이트 서버 create_price_watch 도구에서)
+export interface PriceWatchRequest {
+  search: FlightSearchRequest;
+  targetPrice: number;
+  intervalMinutes?: number;
+  webhookUrl?: string;
+}
+
+export interface PriceCalendarRequest
+  extends Omit<FlightSearchRequest, "departDate" | "returnDate" | "round" | "maxResults" | "sort" | "pageSize" | "cursor" | "includeRaw"> {
+  departDate?: string;
+  departWindowDays?: number;
+  departFrom?: string;
+  departTo?: string;
+  returnDate?: string;
+  returnWindowDays?: number;
+  tripLengthMin?: number;
+  tripLengthMax?: number;
+}
+
+export interface PriceCalendarCell {
+  departDate: string;
+  returnDate?: string;
+  tripLength?: number;
+  price?: number;
+  offerId?: string;
+  carrier?: string;
+  stops?: number;
+  durationMinutes?: number;
+  error?: string;
 }
 
+export interface PriceCalendar {
+  origin: string;
+  destination: string;
+  currency: string;
+  departDates: string[];
+  returnDates?: string[];
+  cells: PriceCalendarCell[];
+  cheapest?: PriceCalendarCell;
+  searched: number;
+  failed: number;
+}
+
+// 가격 확인 요청: searchId 가 없으면 세션의 마지막 검색 결과 기준
+export interface PriceOfferRequest {
+  searchId?: string;
+  sessionId?: string;
+}
+
+export interface FareRule {
+  category: string;
+  allowed?: boolean;
+  maxPenalty?: string;
+  description?: string;
+}
+
+export interface SegmentBaggage {
+  segmentId: string;
+  route: string;
+  checkedBags?: BaggageAllowance;
+}
+
+export interface OfferPricing {
+  searchId: string;
+  offerId: string;
+  status: "confirmed" | "price_changed" | "unavailable";
+  offer: FlightOffer;
+  previousPrice: FlightOffer["price"];
+  priceDifference: number;
+  seatsRequired: number;
+  seatsAvailable: boolean;
+  fareRules: FareRule[];
+  baggage: SegmentBaggage[];
+  pricedAt: string;
+}
+
+// 예약 모델 (mcp-flight-server/src/types.ts 와 같은 정의)
+export type TravelerType = "ADULT" | "CHILD" | "HELD_INFANT";
+
+export interface TravelerDocument {
+  number: string;
+  expiryDate: string;
+  issuanceCountry: string;
+  nationality: string;
+}
+
+export interface TravelerInput {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  gender: "MALE" | "FEMALE";
+  passport?: TravelerDocument;
+}
+
+export interface Traveler extends TravelerInput {
+  id: string;
+  travelerType: TravelerType;
+}
+
+export interface BookingContact {
+  email: string;
+  phone: { countryCallingCode: string; number: string };
+}
+
+// POST /orders 본문 (Idempotency-Key 는 헤더로)
+export interface OrderRequest {
+  searchId?: string;
+  // searchId 대신 세션에서 마지막으로 보여준 검색 결과 사용
+  sessionId?: string;
+  offerId: string;
+  travelers: TravelerInput[];
+  contact: BookingContact;
+  expectedTotal?: number;
+}
+
+export interface OrderValidation {
+  pricing: OfferPricing;
+  travelers: Traveler[];
+}
+
+export interface FlightOrder {
+  id: string;
+  status: "confirmed" | "cancelled";
+  provider: string;
+  providerOrderId: string;
+  pnr: string;
+  searchId: string;
+  offerId: string;
+  offer: FlightOffer;
+  travelers: Traveler[];
+  contact: BookingContact;
+  idempotencyKey?: string;
+  createdAt: string;
+  updatedAt: string;
+  cancelledAt?: string;
+}
+
+// /chat 에서 사용자 확인을 기다리는 예약 (id 는 create_order 의 idempotency key 로도 사용)
+export interface PendingBooking {
+  id: string;
+  type: "book_flight";
+  searchId: string;
+  offerId: string;
+  travelers: TravelerInput[];
+  contact: BookingContact;
+  // 사용자에게 보여준 확인 가격 - 예약 시 이 금액과 다르면 PRICE_CHANGED
+  expectedTotal: number;
+  currency: string;
+  summary: string;
+  createdAt: string;
+  expiresAt: string;
+  // 확인 후 생성된 예약 (같은 확인을 다시 보내면 같은 예약 반환)
+  orderId?: string;
+}
+
+// 클라이언트에 보내는 확인 요청 (승객 개인정보 제외)
+export type PendingActionView = Pick<PendingBooking, "id" | "type" | "summary" | "expectedTotal" | "currency" | "expiresAt">;
+
 export interface FlightIntent {
   intent: "search_flights";
   origin: string;
   destination: string;
   departDate: string;
   returnDate?: string;
+  // 다구간/오픈조 여정 (있으면 origin/destination/departDate/returnDate 대신 사용)
+  legs?: FlightLeg[];
   round?: boolean;
   adults?: number;
   currency?: string;
+  children?: number;
+  infants?: number;
+  travelClass?: CabinClass;
+  nonStop?: boolean;
+  includedAirlineCodes?: string[];
+  excludedAirlineCodes?: string[];
+  maxPrice?: number;
+}
+
+// 대화로 채워가는 검색 조건 (FlightIntent 의 일부, 다구간 구간도 하나씩 채워짐)
+export type FlightSlots = Partial<Omit<FlightIntent, "intent" | "legs">> & { legs?: Partial<FlightLeg>[] };
+
+export type SlotName = keyof FlightSlots;
+
+export interface DialogueState {
+  // collecting: 필수 슬롯이 비어 있어 추가 질문 중, complete: 검색까지 완료
+  status: "collecting" | "complete";
+  slots: FlightSlots;
+  missing: SlotName[];
+  // 마지막으로 질문한 슬롯
+  awaiting?: SlotName;
+  timezone: string;
+}
+
+// 인증/쿼터
+export interface UsageLimits {
+  // 분당 요청 수 (API 키/JWT 주체별)
+  requestsPerMinute: number;
+  // 하루 검색 수 (/search-flights, /price-calendar, /chat 의 검색 도구, 테넌트별 UTC 기준)
+  searchesPerDay: number;
+  // 하루 LLM 토큰 수 (입력 + 출력, 테넌트별 UTC 기준)
+  llmTokensPerDay: number;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  tenant: string;
+  // sha256(키) - 원래 키는 발급 응답에서 한 번만 보여줌
+  keyHash: string;
+  // 목록에서 키를 구분하기 위한 앞부분 (예: fsk_Ab12)
+  prefix: string;
+  limits: UsageLimits;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+// 요청을 보낸 주체 (인증이 꺼져 있으면 anonymous)
+export interface Principal {
+  kind: "api_key" | "jwt" | "admin" | "anonymous";
+  id: string;
+  tenant: string;
+  admin: boolean;
+  limits: UsageLimits;
+}
+
+export interface TenantUsage {
+  tenant: string;
+  // UTC 날짜 (YYYY-MM-DD)
+  date: string;
+  searches: number;
+  llmTokens: number;
+}
+
+// ok: 정상, degraded: 제한적으로 동작 (폴백/circuit open 등), down: 사용 불가
+export type HealthStatus = "ok" | "degraded" | "down";
+
+// 의존성(공급자, 플라이트 서버, LLM 등) 하나의 마지막 점검 결과
+export interface DependencyHealth {
+  name: string;
+  status: HealthStatus;
+  // true 면 down 일 때 서비스 전체가 down (readiness 503)
+  critical: boolean;
+  latencyMs: number;
+  checkedAt: string;
+  details?: Record<string, unknown>;
+  // 마지막 실패 (지금은 정상이어도 유지)
+  lastError?: string;
+  lastErrorAt?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  service: string;
+  timestamp: string;
+  uptimeSeconds: number;
+  dependencies: DependencyHealth[];
 }
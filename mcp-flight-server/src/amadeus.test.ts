@@ -0,0 +1,29 @@
+// mcp-flight-server/src/amadeus.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { toAmadeusError } from "./amadeus.js";
+import { configureLogger } from "./observability/logger.js";
+
+configureLogger({ level: "silent" });
+
+async function codeFor(status: number, operation: string): Promise<string> {
+  return (await toAmadeusError(new Response(JSON.stringify({ error_description: "test" }), { status }), operation)).code;
+}
+
+describe("Amadeus 에러 분류", () => {
+  it("토큰 발급의 429/5xx 는 일시적 장애, 나머지 4xx 는 인증 실패", async () => {
+    assert.equal(await codeFor(429, "OAuth"), "UPSTREAM_RATE_LIMITED");
+    assert.equal(await codeFor(500, "OAuth"), "UPSTREAM_UNAVAILABLE");
+    assert.equal(await codeFor(503, "OAuth"), "UPSTREAM_UNAVAILABLE");
+    assert.equal(await codeFor(400, "OAuth"), "UPSTREAM_AUTH");
+    assert.equal(await codeFor(401, "OAuth"), "UPSTREAM_AUTH");
+  });
+
+  it("데이터 호출: 401/403 인증, 429 한도, 5xx 장애, 나머지 4xx 거부", async () => {
+    assert.equal(await codeFor(403, "Flight Offers Search"), "UPSTREAM_AUTH");
+    assert.equal(await codeFor(429, "Flight Offers Search"), "UPSTREAM_RATE_LIMITED");
+    assert.equal(await codeFor(502, "Flight Offers Search"), "UPSTREAM_UNAVAILABLE");
+    assert.equal(await codeFor(400, "Flight Offers Search"), "UPSTREAM_REJECTED");
+  });
+});
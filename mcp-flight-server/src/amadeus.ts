@@ -0,0 +1,203 @@
+// mcp-flight-server/src/amadeus.ts
+
+import { FlightServerError, type ErrorCode } from "./errors.js";
+import { createCircuitBreaker, resilientFetch, type CircuitBreaker, type RetryOptions } from "./resilience.js";
+import { logger } from "./observability/logger.js";
+import { counter, gauge, histogram } from "./observability/metrics.js";
+import { withSpan, type Span } from "./observability/tracing.js";
+import type { AmadeusConfig } from "./config.js";
+
+const amadeusRequests = counter("amadeus_requests_total", "Amadeus API 호출 수 (operation, outcome: ok 또는 에러 카탈로그 코드)");
+const amadeusDuration = histogram("amadeus_request_duration_seconds", "Amadeus API 호출 시간, 재시도 포함 (operation)");
+
+// Amadeus 호출 하나(재시도, 토큰 갱신 포함) = span 하나 + 호출 수/시간 메트릭
+function tracedAmadeusCall<T>(operation: string, url: URL, method: string, call: (span: Span) => Promise<T>): Promise<T> {
+  const stopTimer = amadeusDuration.startTimer({ operation });
+  return withSpan(`amadeus ${operation}`, { "http.method": method, "url.path": url.pathname }, async (span) => {
+    try {
+      const res = await call(span);
+      amadeusRequests.inc({ operation, outcome: "ok" });
+      return res;
+    } catch (error) {
+      amadeusRequests.inc({ operation, outcome: error instanceof FlightServerError ? error.code : "INTERNAL_ERROR" });
+      throw error;
+    } finally {
+      stopTimer();
+    }
+  });
+}
+
+export interface AmadeusClient {
+  baseUrl: string;
+  // Amadeus 호출 전체(OAuth 포함)가 공유하는 circuit breaker
+  circuit: CircuitBreaker;
+  getAccessToken(): Promise<string>;
+  get(url: URL, operation: string): Promise<Response>;
+  // 쿼리 파라미터로 표현되지 않는 조회(다구간 검색, 가격 확인)의 POST 요청 - 조회 요청이므로 재시도해도 안전
+  post(url: URL, body: unknown, operation: string): Promise<Response>;
+  // 예약 생성/취소처럼 상태를 바꾸는 요청 - 응답을 받지 못해도 처리됐을 수 있어서 재시도하지 않음
+  write(url: URL, method: "POST" | "DELETE", body: unknown, operation: string): Promise<Response>;
+}
+
+/**
+ * OAuth 토큰 관리 + 인증/타임아웃/재시도/circuit breaker 가 적용된 Amadeus 호출
+ * 토큰과 circuit 상태를 가지므로 프로세스에서 하나만 생성
+ */
+export function createAmadeusClient(config: AmadeusConfig): AmadeusClient {
+  const retryOptions: RetryOptions = { retries: config.maxRetries, baseDelayMs: config.retryBaseMs, maxDelayMs: config.retryMaxMs };
+  const circuit = createCircuitBreaker("amadeus", config.circuitThreshold, config.circuitResetMs);
+  gauge("circuit_breaker_open", "circuit breaker 가 열려 있으면 1 (half_open 포함)", () => [
+    [{ name: "amadeus" }, circuit.snapshot().state === "closed" ? 0 : 1],
+  ]);
+
+  let accessToken: string | null = null;
+  let tokenExpiresAt: number = 0;
+  // 동시에 만료된 토큰을 갱신하려는 요청들이 하나의 OAuth 호출을 공유 (single-flight)
+  let tokenRequest: Promise<string> | null = null;
+
+  async function requestAccessToken(): Promise<string> {
+    const tokenUrl = new URL(`${config.baseUrl}/v1/security/oauth2/token`);
+    return tracedAmadeusCall("OAuth", tokenUrl, "POST", () => fetchAccessToken(tokenUrl));
+  }
+
+  async function fetchAccessToken(tokenUrl: URL): Promise<string> {
+    const params = new URLSearchParams();
+    params.append("grant_type", "client_credentials");
+    params.append("client_id", config.clientId);
+    params.append("client_secret", config.clientSecret);
+
+    const res = await resilientFetch(
+      tokenUrl.toString(),
+      {
+        method: "POST",
+        body: params,
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      },
+      { operation: "Amadeus OAuth", timeoutMs: config.timeoutMs, retry: retryOptions, breaker: circuit }
+    );
+
+    if (!res.ok) {
+      throw await toAmadeusError(res, "OAuth");
+    }
+
+    const json = (await res.json()) as { access_token: string; expires_in: number };
+    accessToken = json.access_token;
+    tokenExpiresAt = Date.now() + (json.expires_in - 60) * 1000;
+    return accessToken;
+  }
+
+  async function getAccessToken(): Promise<string> {
+    if (accessToken && Date.now() < tokenExpiresAt) {
+      return accessToken;
+    }
+
+    if (!tokenRequest) {
+      tokenRequest = requestAccessToken().finally(() => {
+        tokenRequest = null;
+      });
+    }
+    return tokenRequest;
+  }
+
+  // 서버가 토큰을 거부한 경우(만료 전 폐기 등) 캐시된 토큰 폐기
+  function invalidateAccessToken(token: string): void {
+    if (accessToken === token) {
+      accessToken = null;
+      tokenExpiresAt = 0;
+    }
+  }
+
+  // 401 이면 토큰을 새로 받아 한 번 더 시도
+  async function amadeusRequest(
+    url: URL,
+    operation: string,
+    init: { method?: string; body?: string; headers?: Record<string, string> } = {},
+    retry: RetryOptions = retryOptions
+  ): Promise<Response> {
+    return tracedAmadeusCall(operation, url, init.method ?? "GET", async (span) => {
+      for (let attempt = 0; ; attempt++) {
+        const token = await getAccessToken();
+        const res = await resilientFetch(
+          url.toString(),
+          { ...init, headers: { ...init.headers, Authorization: `Bearer ${token}` } },
+          { operation: `Amadeus ${operation}`, timeoutMs: config.timeoutMs, retry, breaker: circuit }
+        );
+        span.setAttributes({ "http.status_code": res.status, "amadeus.token_refreshed": attempt > 0 });
+
+        if (res.status === 401 && attempt === 0) {
+          await res.body?.cancel();
+          invalidateAccessToken(token);
+          continue;
+        }
+        if (!res.ok) {
+          throw await toAmadeusError(res, operation);
+        }
+        return res;
+      }
+    });
+  }
+
+  return {
+    baseUrl: config.baseUrl,
+    circuit,
+    getAccessToken,
+    get(url, operation) {
+      return amadeusRequest(url, operation);
+    },
+    post(url, body, operation) {
+      return amadeusRequest(url, operation, {
+        method: "POST",
+        body: JSON.stringify(body),
+        headers: { "Content-Type": "application/json", "X-HTTP-Method-Override": "GET" },
+      });
+    },
+    // 401 토큰 갱신 후 재요청은 처리 전 거절이므로 허용
+    write(url, method, body, operation) {
+      return amadeusRequest(
+        url,
+        operation,
+        {
+          method,
+          ...(body !== undefined ? { body: JSON.stringify(body), headers: { "Content-Type": "application/json" } } : {}),
+        },
+        { ...retryOptions, retries: 0 }
+      );
+    },
+  };
+}
+
+interface AmadeusErrorBody {
+  errors?: { status?: number; code?: number; title?: string; detail?: string }[];
+  error_description?: string;
+}
+
+// 429/5xx 는 토큰 발급이라도 일시적인 장애로 분류 (자격 증명 문제로 보고 알리지 않도록)
+function classifyStatus(status: number, operation: string): ErrorCode {
+  if (status === 429) return "UPSTREAM_RATE_LIMITED";
+  if (status >= 500) return "UPSTREAM_UNAVAILABLE";
+  // 토큰 발급의 4xx (400 invalid_client 등)는 자격 증명 문제
+  if (status === 401 || status === 403 || operation === "OAuth") return "UPSTREAM_AUTH";
+  return "UPSTREAM_REJECTED";
+}
+
+/**
+ * Amadeus 실패 응답 → 에러 카탈로그 코드
+ * 원본 응답 본문은 서버 로그에만 남기고, 클라이언트에는 정리된 메시지만 전달
+ */
+export async function toAmadeusError(res: Response, operation: string): Promise<FlightServerError> {
+  const rawBody = await res.text();
+  logger.warn({ operation, upstreamStatus: res.status, body: rawBody.slice(0, 2000) }, `Amadeus ${operation} 호출 실패`);
+
+  let detail = "";
+  try {
+    const body = JSON.parse(rawBody) as AmadeusErrorBody;
+    const first = body.errors?.[0];
+    detail = first ? [first.title, first.detail].filter(Boolean).join(" - ") : body.error_description ?? "";
+  } catch {
+    // JSON 이 아닌 응답 (게이트웨이 HTML 등)은 상세 메시지 없이 처리
+  }
+
+  const code = classifyStatus(res.status, operation);
+  const message = `Amadeus ${operation} 실패 (${res.status})${code === "UPSTREAM_REJECTED" && detail ? `: ${detail}` : ""}`;
+  return new FlightServerError(code, message, { upstreamStatus: res.status });
+}
@@ -0,0 +1,33 @@
+// mcp-flight-server/src/auth.ts
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import { FlightServerError } from "./errors.js";
+
+export interface ServiceAuth {
+  enabled: boolean;
+  // Authorization: Bearer <auth.token> 확인 (인증이 꺼져 있으면 통과)
+  assert(authorization: string | undefined): void;
+}
+
+// 길이가 달라도 비교 시간이 같도록 해시끼리 비교
+function sameSecret(a: string, b: string): boolean {
+  return timingSafeEqual(createHash("sha256").update(a).digest(), createHash("sha256").update(b).digest());
+}
+
+/**
+ * 게이트웨이와 공유하는 비밀로 /mcp 와 REST 경로 보호
+ * 비밀을 설정하지 않으면 인증 없이 호출 가능 (로컬 개발용)
+ */
+export function createServiceAuth(sharedToken: string): ServiceAuth {
+  return {
+    enabled: sharedToken.length > 0,
+    assert(authorization) {
+      if (!sharedToken) return;
+
+      const [scheme, token] = (authorization ?? "").split(" ");
+      if (scheme?.toLowerCase() !== "bearer" || !token || !sameSecret(token, sharedToken)) {
+        throw new FlightServerError("UNAUTHORIZED", "인증되지 않은 요청입니다");
+      }
+    },
+  };
+}
@@ -0,0 +1,252 @@
+// mcp-flight-server/src/config.ts
+
+import fs from "node:fs";
+import path from "node:path";
+import dotenv from "dotenv";
+import { z } from "zod";
+
+const positiveInt = z.coerce.number().int().positive();
+const nonNegativeInt = z.coerce.number().int().nonnegative();
+
+// 환경 변수는 대소문자를 섞어 쓸 수 있으므로 선택지는 소문자로 비교
+const choice = <const T extends [string, ...string[]]>(values: T) =>
+  z.preprocess((value) => (typeof value === "string" ? value.trim().toLowerCase() : value), z.enum(values));
+
+// "webhook,log" → ["webhook", "log"] (설정 파일에서는 배열)
+const list = <const T extends [string, ...string[]]>(values: T) =>
+  z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",").map((item) => item.trim().toLowerCase()).filter(Boolean) : value),
+    z.array(z.enum(values))
+  );
+
+const ConfigSchema = z
+  .object({
+    port: z.coerce.number().int().min(1).max(65535).default(8700),
+    provider: z
+      .object({
+        // 비우면 Amadeus 자격 증명이 있을 때 amadeus, 없으면 mock
+        name: choice(["amadeus", "mock"]).optional(),
+        // mock 공급자 시드 (같은 시드 + 노선 + 날짜 → 같은 결과)
+        mockSeed: z.string().min(1).default("mock"),
+      })
+      .default({}),
+    amadeus: z
+      .object({
+        // 로컬 stub 서버로 테스트할 수 있도록 base URL 재정의 가능
+        baseUrl: z
+          .string()
+          .url()
+          .default("https://test.api.amadeus.com")
+          .transform((url) => url.replace(/\/$/, "")),
+        clientId: z.string().default(""),
+        clientSecret: z.string().default(""),
+        timeoutMs: positiveInt.default(10000),
+        maxRetries: nonNegativeInt.default(2),
+        retryBaseMs: positiveInt.default(500),
+        retryMaxMs: positiveInt.default(8000),
+        circuitThreshold: positiveInt.default(5),
+        circuitResetMs: positiveInt.default(30000),
+      })
+      .default({}),
+    locations: z
+      .object({
+        // 비우면 Amadeus 자격 증명이 있을 때 amadeus (실패하면 번들 데이터셋으로 폴백)
+        provider: choice(["amadeus", "offline"]).optional(),
+      })
+      .default({}),
+    search: z
+      .object({
+        // 0 이면 캐시하지 않음 (동시에 들어온 같은 검색은 여전히 하나로 병합)
+        cacheTtlSeconds: nonNegativeInt.default(300),
+        cacheMaxEntries: positiveInt.default(500),
+        // 페이지네이션/가격 확인용 결과 스냅샷 보관 시간
+        resultTtlSeconds: positiveInt.default(900),
+      })
+      .default({}),
+    priceCalendar: z
+      .object({
+        // 날짜 조합 검색을 동시에 몇 개까지 보낼지 (공급자 호출 한도 보호)
+        concurrency: positiveInt.default(4),
+        // 한 번의 캘린더 요청에서 허용하는 날짜 조합 수
+        maxSearches: positiveInt.default(62),
+      })
+      .default({}),
+    watches: z
+      .object({
+        // 기본값 file: 알림은 재시작 후에도 유지되어야 함
+        store: choice(["memory", "file"]).default("file"),
+        dir: z.string().min(1).default("data/watches"),
+        intervalMinutes: positiveInt.default(60),
+        // 예약된 검사가 있는지 확인하는 주기
+        tickSeconds: positiveInt.default(60),
+        notifiers: list(["webhook", "log"]).default(["webhook", "log"]),
+        webhookUrl: z.string().url().optional(),
+        webhookTimeoutMs: positiveInt.default(5000),
+      })
+      .default({}),
+    orders: z
+      .object({
+        // 기본값 file: 예약은 재시작 후에도 조회/취소할 수 있어야 함
+        store: choice(["memory", "file"]).default("file"),
+        dir: z.string().min(1).default("data/orders"),
+      })
+      .default({}),
+    mcp: z
+      .object({
+        // 마지막 요청 후 이 시간이 지난 MCP 세션은 삭제 (클라이언트가 DELETE /mcp 를 보내지 않은 경우)
+        sessionIdleMinutes: positiveInt.default(30),
+        // 보관하는 세션 수 상한 (넘으면 가장 오래 쓰지 않은 세션부터 삭제)
+        maxSessions: positiveInt.default(1000),
+      })
+      .default({}),
+    auth: z
+      .object({
+        // 게이트웨이와 공유하는 비밀 (비우면 인증 없이 호출 가능 - 로컬 개발용)
+        token: z.string().default(""),
+      })
+      .default({}),
+    health: z
+      .object({
+        checkTimeoutMs: positiveInt.default(3000),
+        cacheMs: nonNegativeInt.default(5000),
+      })
+      .default({}),
+    log: z
+      .object({
+        // 비우면 터미널이면 pretty, 아니면 한 줄 JSON
+        format: choice(["json", "pretty"]).optional(),
+        // 비우면 운영(NODE_ENV=production) info, 개발 debug
+        level: choice(["trace", "debug", "info", "warn", "error", "fatal", "silent"]).optional(),
+      })
+      .default({}),
+  })
+  .superRefine((config, ctx) => {
+    const amadeusConfigured = !!config.amadeus.clientId && !!config.amadeus.clientSecret;
+    if (config.provider.name === "amadeus" && !amadeusConfigured) {
+      ctx.addIssue({ code: "custom", path: ["amadeus", "clientId"], message: "provider.name 이 amadeus 이면 clientId 와 clientSecret 이 필요합니다" });
+    }
+    if (config.locations.provider === "amadeus" && !amadeusConfigured) {
+      ctx.addIssue({ code: "custom", path: ["amadeus", "clientId"], message: "locations.provider 가 amadeus 이면 clientId 와 clientSecret 이 필요합니다" });
+    }
+    if (config.amadeus.retryBaseMs > config.amadeus.retryMaxMs) {
+      ctx.addIssue({ code: "custom", path: ["amadeus", "retryBaseMs"], message: "retryMaxMs 보다 클 수 없습니다" });
+    }
+  });
+
+export type FlightServerConfig = z.infer<typeof ConfigSchema>;
+export type AmadeusConfig = FlightServerConfig["amadeus"];
+export type SearchConfig = FlightServerConfig["search"];
+export type PriceCalendarConfig = FlightServerConfig["priceCalendar"];
+export type WatchConfig = FlightServerConfig["watches"];
+export type OrderConfig = FlightServerConfig["orders"];
+export type HealthConfig = FlightServerConfig["health"];
+export type McpConfig = FlightServerConfig["mcp"];
+
+// 환경 변수 → 설정 경로 (설정 파일 값보다 우선)
+const ENV_PATHS: Record<string, string> = {
+  PORT: "port",
+  FLIGHT_PROVIDER: "provider.name",
+  MOCK_PROVIDER_SEED: "provider.mockSeed",
+  AMADEUS_BASE_URL: "amadeus.baseUrl",
+  AMADEUS_CLIENT_ID: "amadeus.clientId",
+  AMADEUS_CLIENT_SECRET: "amadeus.clientSecret",
+  AMADEUS_TIMEOUT_MS: "amadeus.timeoutMs",
+  AMADEUS_MAX_RETRIES: "amadeus.maxRetries",
+  AMADEUS_RETRY_BASE_MS: "amadeus.retryBaseMs",
+  AMADEUS_RETRY_MAX_MS: "amadeus.retryMaxMs",
+  AMADEUS_CIRCUIT_THRESHOLD: "amadeus.circuitThreshold",
+  AMADEUS_CIRCUIT_RESET_MS: "amadeus.circuitResetMs",
+  LOCATION_PROVIDER: "locations.provider",
+  SEARCH_CACHE_TTL_SECONDS: "search.cacheTtlSeconds",
+  SEARCH_CACHE_MAX_ENTRIES: "search.cacheMaxEntries",
+  RESULT_PAGE_TTL_SECONDS: "search.resultTtlSeconds",
+  PRICE_CALENDAR_CONCURRENCY: "priceCalendar.concurrency",
+  PRICE_CALENDAR_MAX_SEARCHES: "priceCalendar.maxSearches",
+  WATCH_STORE: "watches.store",
+  WATCH_DIR: "watches.dir",
+  WATCH_INTERVAL_MINUTES: "watches.intervalMinutes",
+  WATCH_TICK_SECONDS: "watches.tickSeconds",
+  WATCH_NOTIFIERS: "watches.notifiers",
+  WATCH_WEBHOOK_URL: "watches.webhookUrl",
+  WATCH_WEBHOOK_TIMEOUT_MS: "watches.webhookTimeoutMs",
+  ORDER_STORE: "orders.store",
+  ORDER_DIR: "orders.dir",
+  MCP_SESSION_IDLE_MINUTES: "mcp.sessionIdleMinutes",
+  MCP_MAX_SESSIONS: "mcp.maxSessions",
+  FLIGHT_SERVER_TOKEN: "auth.token",
+  HEALTH_CHECK_TIMEOUT_MS: "health.checkTimeoutMs",
+  HEALTH_CACHE_MS: "health.cacheMs",
+  LOG_FORMAT: "log.format",
+  LOG_LEVEL: "log.level",
+};
+
+/**
+ * 설정 검증 실패 (문제가 된 항목을 모두 모아서 한 번에 보고)
+ */
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`설정이 올바르지 않습니다:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+type ConfigTree = Record<string, unknown>;
+
+function readConfigFile(file: string): ConfigTree {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new ConfigError([`CONFIG_FILE (${file}): ${error instanceof Error ? error.message : String(error)}`]);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigError([`CONFIG_FILE (${file}): JSON 객체여야 합니다`]);
+  }
+  return parsed as ConfigTree;
+}
+
+function setPath(tree: ConfigTree, keys: string[], value: string): void {
+  const [key, ...rest] = keys;
+  if (rest.length === 0) {
+    tree[key] = value;
+    return;
+  }
+  const child = tree[key];
+  const node: ConfigTree = child && typeof child === "object" && !Array.isArray(child) ? { ...(child as ConfigTree) } : {};
+  tree[key] = node;
+  setPath(node, rest, value);
+}
+
+// 에러 메시지에 설정 경로와 대응하는 환경 변수를 함께 표시
+function describeIssue(issue: z.ZodIssue): string {
+  const configPath = issue.path.join(".");
+  const envName = Object.keys(ENV_PATHS).find((name) => ENV_PATHS[name] === configPath);
+  return `${configPath || "(root)"}${envName ? ` (${envName})` : ""}: ${issue.message}`;
+}
+
+/**
+ * 기본값 ← 설정 파일(CONFIG_FILE, JSON) ← 환경 변수(.env 포함) 순서로 합쳐서 검증
+ * 잘못된 값이 있으면 시작하지 않도록 ConfigError (항목별 경로/환경 변수/이유)
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): FlightServerConfig {
+  if (env === process.env) dotenv.config();
+
+  const file = env.CONFIG_FILE ? path.resolve(env.CONFIG_FILE) : undefined;
+  const tree: ConfigTree = file ? readConfigFile(file) : {};
+
+  // 빈 문자열은 설정하지 않은 것으로 취급 (.env 의 "KEY=" 줄)
+  for (const [name, configPath] of Object.entries(ENV_PATHS)) {
+    const value = env[name];
+    if (value !== undefined && value !== "") setPath(tree, configPath.split("."), value);
+  }
+
+  const parsed = ConfigSchema.safeParse(tree);
+  if (!parsed.success) {
+    throw new ConfigError(parsed.error.issues.map(describeIssue));
+  }
+  return parsed.data;
+}
+
+export function isAmadeusConfigured(config: AmadeusConfig): boolean {
+  return !!config.clientId && !!config.clientSecret;
+}
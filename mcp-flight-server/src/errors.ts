@@ -0,0 +1,62 @@
+// mcp-flight-server/src/errors.ts
+
+import type { ZodError } from "zod";
+
+/**
+ * 플라이트 서버 에러 코드 카탈로그
+ * MCPResponse.error.code, REST 에러 응답, MCP 도구 에러 결과에 공통으로 사용
+ */
+export const ERROR_CATALOGUE = {
+  INVALID_REQUEST: { status: 400, description: "요청 형식(envelope, JSON-RPC 메시지)이 올바르지 않음" },
+  INVALID_PARAMS: { status: 400, description: "검색 파라미터가 스키마 또는 의미 검증을 통과하지 못함" },
+  UNSUPPORTED_SERVICE: { status: 400, description: "지원하지 않는 MCP service/action" },
+  UNAUTHORIZED: { status: 401, description: "게이트웨이 공유 비밀(FLIGHT_SERVER_TOKEN)이 없거나 일치하지 않음" },
+  NO_RESULTS: { status: 404, description: "조건에 맞는 결과가 없음" },
+  NOT_FOUND: { status: 404, description: "요청한 리소스(가격 알림 등)가 없음" },
+  OFFER_UNAVAILABLE: { status: 409, description: "남은 좌석이 승객 수보다 적어 예약할 수 없음" },
+  PRICE_CHANGED: { status: 409, description: "확인한 가격이 요청한 금액과 달라 예약하지 않음 - 새 가격으로 다시 요청 필요" },
+  IDEMPOTENCY_CONFLICT: { status: 409, description: "같은 idempotency key 로 다른 예약을 요청함" },
+  CURSOR_EXPIRED: { status: 410, description: "페이지네이션 cursor 의 검색 결과가 만료됨 - 다시 검색 필요" },
+  OFFER_EXPIRED: { status: 410, description: "가격을 확인할 항공편의 검색 결과가 만료됨 - 다시 검색 필요" },
+  UPSTREAM_AUTH: { status: 502, description: "공급자(Amadeus) 인증 실패 - 자격증명 확인 필요" },
+  UPSTREAM_RATE_LIMITED: { status: 503, description: "공급자 호출 한도 초과 - 잠시 후 재시도" },
+  UPSTREAM_UNAVAILABLE: { status: 503, description: "공급자 서버 오류 또는 응답 없음" },
+  UPSTREAM_REJECTED: { status: 422, description: "공급자가 요청을 거부함 (지원하지 않는 노선/날짜 등)" },
+  INVALID_UPSTREAM_RESPONSE: { status: 502, description: "공급자 응답이 결과 스키마와 맞지 않음" },
+  INTERNAL_ERROR: { status: 500, description: "처리되지 않은 서버 내부 오류" },
+} as const;
+
+export type ErrorCode = keyof typeof ERROR_CATALOGUE;
+
+export interface ErrorPayload {
+  code: ErrorCode;
+  message: string;
+  details?: unknown;
+}
+
+export class FlightServerError extends Error {
+  constructor(public readonly code: ErrorCode, message: string, public readonly details?: unknown) {
+    super(message);
+    this.name = "FlightServerError";
+  }
+
+  get statusCode(): number {
+    return ERROR_CATALOGUE[this.code].status;
+  }
+
+  toPayload(): ErrorPayload {
+    return { code: this.code, message: this.message, ...(this.details !== undefined ? { details: this.details } : {}) };
+  }
+}
+
+export function toFlightServerError(err: unknown): FlightServerError {
+  if (err instanceof FlightServerError) return err;
+  return new FlightServerError("INTERNAL_ERROR", err instanceof Error ? err.message : String(err));
+}
+
+// Zod 검증 실패 → "path: message" 목록을 담은 에러
+export function fromZodError(error: ZodError, code: ErrorCode = "INVALID_PARAMS"): FlightServerError {
+  const issues = error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }));
+  const summary = issues.map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join("; ");
+  return new FlightServerError(code, summary, issues);
+}
@@ -0,0 +1,53 @@
+// mcp-flight-server/src/filters.ts
+
+import type { FlightOffer, SearchFilterKey, SearchFlightParams } from "./types.js";
+
+export const DEFAULT_MAX_RESULTS = 50;
+
+function maxStopsFor(params: SearchFlightParams): number | undefined {
+  if (params.nonStop) return 0;
+  return params.maxStopovers;
+}
+
+function carriersOf(offer: FlightOffer): string[] {
+  return offer.itineraries.flatMap((itinerary) => itinerary.segments.map((segment) => segment.carrierCode));
+}
+
+/**
+ * 공급자가 직접 적용하지 못한 검색 조건을 결과에 후처리로 적용
+ * nativeFilters 에 포함된 조건은 공급자가 이미 처리했으므로 건너뜀 (maxResults 는 랭킹 후 limitOffers 로)
+ */
+export function applyOfferFilters(
+  offers: FlightOffer[],
+  params: SearchFlightParams,
+  nativeFilters: readonly SearchFilterKey[] = []
+): FlightOffer[] {
+  const needs = (key: SearchFilterKey) => !nativeFilters.includes(key);
+  const maxStops = maxStopsFor(params);
+  const included = params.includedAirlineCodes;
+  const excluded = params.excludedAirlineCodes;
+
+  return offers.filter((offer) => {
+    if (maxStops !== undefined && (needs("nonStop") || needs("maxStopovers"))) {
+      if (offer.itineraries.some((itinerary) => itinerary.stops > maxStops)) return false;
+    }
+    if (params.travelClass && needs("travelClass") && offer.cabin && offer.cabin !== params.travelClass) {
+      return false;
+    }
+    if (included && needs("includedAirlineCodes") && !carriersOf(offer).every((code) => included.includes(code))) {
+      return false;
+    }
+    if (excluded && needs("excludedAirlineCodes") && carriersOf(offer).some((code) => excluded.includes(code))) {
+      return false;
+    }
+    if (params.maxPrice !== undefined && needs("maxPrice") && Number(offer.price.total) > params.maxPrice) {
+      return false;
+    }
+    return true;
+  });
+}
+
+// 랭킹한 결과에서 maxResults 개만 보관 (랭킹 전에 자르면 공급자 순서의 앞부분만 남아 최저가를 놓칠 수 있음)
+export function limitOffers(ranked: FlightOffer[], params: SearchFlightParams): FlightOffer[] {
+  return ranked.slice(0, params.maxResults ?? DEFAULT_MAX_RESULTS);
+}
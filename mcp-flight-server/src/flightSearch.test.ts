@@ -0,0 +1,105 @@
+// mcp-flight-server/src/flightSearch.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createFlightSearchService } from "./flightSearch.js";
+import { createMockFlightProvider } from "./providers/mockProvider.js";
+import type { FlightProvider } from "./providers/index.js";
+import { FlightServerError } from "./errors.js";
+import { configureLogger } from "./observability/logger.js";
+import type { SearchFlightParams } from "./types.js";
+
+configureLogger({ level: "silent" });
+
+const CONFIG = { cacheTtlSeconds: 300, cacheMaxEntries: 10, resultTtlSeconds: 900 };
+const ROUTE: SearchFlightParams = { origin: "ICN", destination: "NRT", departDate: "2030-03-15" };
+
+// 공급자 호출 수를 세는 mock 공급자
+function countingProvider(): FlightProvider & { calls: number } {
+  const mock = createMockFlightProvider();
+  const provider = {
+    ...mock,
+    calls: 0,
+    async searchFlights(params: SearchFlightParams) {
+      provider.calls++;
+      return mock.searchFlights(params);
+    },
+  };
+  return provider;
+}
+
+describe("항공편 검색 서비스", () => {
+  it("cursor 로 정렬된 결과를 끝까지 이어서 읽음 (공급자 재호출 없음)", async () => {
+    const provider = countingProvider();
+    const service = createFlightSearchService(provider, CONFIG);
+
+    const first = await service.search({ ...ROUTE, sort: "cheapest", pageSize: 5 });
+    assert.equal(first.result.items.length, 5);
+    assert.ok(first.result.nextCursor);
+    const total = first.result.total!;
+
+    const seen = [...first.result.items];
+    let cursor: string | undefined = first.result.nextCursor;
+    while (cursor) {
+      const page = await service.search({ ...ROUTE, cursor, pageSize: 5 });
+      assert.equal(page.cache, "page");
+      assert.equal(page.result.sort, "cheapest");
+      seen.push(...page.result.items);
+      cursor = page.result.nextCursor;
+    }
+
+    assert.equal(seen.length, total);
+    assert.equal(new Set(seen.map((item) => item.id)).size, total);
+    const prices = seen.map((item) => Number(item.price.total));
+    assert.deepEqual(prices, [...prices].sort((a, b) => a - b));
+    assert.equal(provider.calls, 1);
+  });
+
+  it("잘못된 cursor 는 INVALID_PARAMS", async () => {
+    const service = createFlightSearchService(createMockFlightProvider(), CONFIG);
+    await assert.rejects(service.search({ ...ROUTE, cursor: "not-a-cursor" }), (error: unknown) => {
+      return error instanceof FlightServerError && error.code === "INVALID_PARAMS";
+    });
+  });
+
+  it("같은 검색이 동시에 들어오면 공급자는 한 번만 호출하고, 이후에는 캐시 사용", async () => {
+    const provider = countingProvider();
+    const service = createFlightSearchService(provider, CONFIG);
+
+    const [a, b] = await Promise.all([service.search(ROUTE), service.search({ ...ROUTE, sort: "fastest" })]);
+    assert.deepEqual([a.cache, b.cache].sort(), ["coalesced", "miss"]);
+    assert.equal(provider.calls, 1);
+
+    const again = await service.search({ ...ROUTE, pageSize: 3 });
+    assert.equal(again.cache, "hit");
+    assert.equal(provider.calls, 1);
+  });
+
+  it("후처리 필터로 결과가 모두 빠지면 NO_RESULTS", async () => {
+    const service = createFlightSearchService(createMockFlightProvider(), CONFIG);
+    await assert.rejects(service.search({ ...ROUTE, maxPrice: 1 }), (error: unknown) => {
+      return error instanceof FlightServerError && error.code === "NO_RESULTS";
+    });
+  });
+
+  it("maxResults 는 랭킹 후에 적용 (공급자 순서의 마지막에 있는 최저가도 남음)", async () => {
+    const mock = createMockFlightProvider();
+    const { items } = await mock.searchFlights(ROUTE);
+    const cheapestPrice = Math.min(...items.map((offer) => Number(offer.price.total)));
+    // 비싼 순서로 돌려주는 공급자: 최저가가 맨 뒤
+    const provider: FlightProvider = {
+      ...mock,
+      async searchFlights(params) {
+        const result = await mock.searchFlights(params);
+        return { ...result, items: [...result.items].sort((a, b) => Number(b.price.total) - Number(a.price.total)) };
+      },
+    };
+    assert.ok(items.length > 2);
+
+    const service = createFlightSearchService(provider, CONFIG);
+    const { result } = await service.search({ ...ROUTE, maxResults: 2, sort: "cheapest" });
+    assert.equal(result.items.length, 2);
+    assert.equal(Number(result.items[0].price.total), cheapestPrice);
+    assert.ok(result.items[0].tags?.includes("cheapest"));
+  });
+});
@@ -0,0 +1,89 @@
+// mcp-flight-server/src/flightSearch.ts
+
+import { FlightServerError } from "./errors.js";
+import { applyOfferFilters, limitOffers } from "./filters.js";
+import { rankOffers } from "./ranking.js";
+import { createResultStore, type ResultStore } from "./resultStore.js";
+import { createMemoryCacheStore, createSearchCache, searchCacheKey, type CacheStatus, type SearchCache } from "./searchCache.js";
+import { counter } from "./observability/metrics.js";
+import type { SearchConfig } from "./config.js";
+import type { FlightProvider } from "./providers/index.js";
+import type { FlightOffer, FlightSearchResult, SearchFlightParams } from "./types.js";
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+const cacheLookups = counter("search_cache_lookups_total", "항공편 검색 캐시 조회 수 (provider, result: hit | miss | coalesced | bypass)");
+
+export interface FlightSearchOutcome {
+  result: FlightSearchResult;
+  // 공급자 결과 캐시 상태 (cursor 로 다음 페이지를 읽은 경우 "page")
+  cache: CacheStatus | "page";
+  cachedAt?: string;
+}
+
+export interface FlightSearchService {
+  search(params: SearchFlightParams): Promise<FlightSearchOutcome>;
+  // 최저가 항공편 하나만 필요할 때 (가격 캘린더 등) - 페이지 스냅샷을 저장하지 않음
+  cheapest(params: SearchFlightParams): Promise<{ offer: FlightOffer; currency: string; cache: CacheStatus }>;
+  // 검색 결과 스냅샷에서 항공편 하나와 당시 검색 조건 (가격 확인용)
+  findOffer: ResultStore["findOffer"];
+}
+
+// 에러/로그용 여정 표기: "ICN → NRT (2025-03-15)", 다구간은 구간별로 나열
+function describeRoute(params: SearchFlightParams): string {
+  const legs = params.originDestinations ?? [params];
+  return legs.map((leg) => `${leg.origin} → ${leg.destination} (${leg.departDate})`).join(", ");
+}
+
+export interface FlightSearchOptions {
+  // 지정하지 않으면 config 의 TTL/최대 개수로 메모리 캐시 생성
+  cache?: SearchCache<FlightSearchResult>;
+}
+
+/**
+ * 공급자 검색(캐시/요청 병합) → 후처리 필터 → 랭킹/태그 → maxResults 개로 자르기 → 결과 스냅샷 저장 → 첫 페이지 반환
+ * cursor 가 있으면 공급자를 다시 호출하지 않고 저장된 결과의 다음 페이지를 반환
+ */
+export function createFlightSearchService(
+  flightProvider: FlightProvider,
+  config: SearchConfig,
+  { cache = createSearchCache(createMemoryCacheStore<FlightSearchResult>(config.cacheMaxEntries), config.cacheTtlSeconds * 1000) }: FlightSearchOptions = {}
+): FlightSearchService {
+  const results = createResultStore(config.resultTtlSeconds * 1000);
+
+  // 공급자 검색(캐시/요청 병합) + 후처리 필터, 남은 결과가 없으면 NO_RESULTS
+  const load = async (params: SearchFlightParams) => {
+    const lookup = await cache.getOrLoad(searchCacheKey(flightProvider.name, params), () => flightProvider.searchFlights(params));
+    cacheLookups.inc({ provider: flightProvider.name, result: lookup.status });
+    const filtered = applyOfferFilters(lookup.value.items, params, flightProvider.nativeFilters);
+
+    if (filtered.length === 0) {
+      throw new FlightServerError("NO_RESULTS", `${describeRoute(params)} 조건의 항공편이 없습니다`);
+    }
+    return { lookup, filtered };
+  };
+
+  return {
+    async search(params) {
+      const pageSize = params.pageSize ?? DEFAULT_PAGE_SIZE;
+
+      if (params.cursor) {
+        return { result: results.readCursor(params.cursor, pageSize), cache: "page" };
+      }
+
+      const { lookup, filtered } = await load(params);
+      const sort = params.sort ?? "best";
+      const searchId = results.save({ currency: lookup.value.currency, items: limitOffers(rankOffers(filtered, sort), params), sort }, params);
+      return {
+        result: results.readPage(searchId, 0, pageSize),
+        cache: lookup.status,
+        cachedAt: new Date(lookup.storedAt).toISOString(),
+      };
+    },
+    async cheapest(params) {
+      const { lookup, filtered } = await load(params);
+      return { offer: rankOffers(filtered, "cheapest")[0], currency: lookup.value.currency, cache: lookup.status };
+    },
+    findOffer: results.findOffer,
+  };
+}
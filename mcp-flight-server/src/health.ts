@@ -0,0 +1,122 @@
+// mcp-flight-server/src/health.ts
+// api-gateway 와 mcp-flight-server 가 같은 파일을 가짐: 헤더 경로와 SERVICE 외에는 그대로 유지 (mcp-flight-server/src/observability/shared.test.ts 가 확인)
+
+import { logger } from "./observability/logger.js";
+import { gauge } from "./observability/metrics.js";
+import type { HealthConfig } from "./config.js";
+import type { DependencyHealth, HealthReport, HealthStatus } from "./types.js";
+
+export interface HealthCheckResult {
+  status: HealthStatus;
+  details?: Record<string, unknown>;
+  // status 가 ok 가 아닌 이유 (lastError 로 기록)
+  error?: string;
+}
+
+export interface HealthCheck {
+  name: string;
+  critical: boolean;
+  // 예외를 던지면 down, signal 은 checkTimeoutMs 후 abort
+  check(signal: AbortSignal): Promise<HealthCheckResult>;
+}
+
+export interface HealthMonitor {
+  // 프로세스가 살아 있는지만 (의존성 호출 없음)
+  liveness(): { status: "ok"; service: string; timestamp: string; uptimeSeconds: number };
+  // 의존성 점검 결과 (cacheMs 동안 재사용)
+  readiness(): Promise<HealthReport>;
+}
+
+const STATUS_VALUES: Record<HealthStatus, number> = { ok: 1, degraded: 0.5, down: 0 };
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => reject(new Error(`${ms}ms 안에 응답이 없습니다.`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// critical 의존성이 down 이면 down, 그 밖에 하나라도 정상이 아니면 degraded
+function overallStatus(dependencies: DependencyHealth[]): HealthStatus {
+  if (dependencies.some((dependency) => dependency.critical && dependency.status === "down")) return "down";
+  return dependencies.every((dependency) => dependency.status === "ok") ? "ok" : "degraded";
+}
+
+/**
+ * 의존성 점검을 병렬로 실행하고 의존성별 상태/지연 시간/마지막 에러를 보관
+ * 점검 하나가 checkTimeoutMs 를 넘으면 down, 로드밸런서가 자주 호출해도 의존성에 요청이 몰리지 않도록 결과는 cacheMs 동안 재사용
+ * 상태 변화는 로그로 남기고 health_dependency_status 게이지로 노출 (1 ok, 0.5 degraded, 0 down)
+ */
+export function createHealthMonitor(service: string, checks: HealthCheck[], { checkTimeoutMs, cacheMs }: HealthConfig): HealthMonitor {
+  const latest = new Map<string, DependencyHealth>();
+  let cached: { report: HealthReport; at: number } | null = null;
+  // 동시에 들어온 readiness 요청은 진행 중인 점검 하나를 공유
+  let running: Promise<HealthReport> | null = null;
+
+  gauge("health_dependency_status", "의존성 상태 (dependency): 1 ok, 0.5 degraded, 0 down", () =>
+    [...latest.values()].map((dependency) => [{ dependency: dependency.name }, STATUS_VALUES[dependency.status]])
+  );
+
+  async function runCheck(check: HealthCheck): Promise<DependencyHealth> {
+    const previous = latest.get(check.name);
+    const started = performance.now();
+    let result: HealthCheckResult;
+    try {
+      result = await withTimeout(check.check(AbortSignal.timeout(checkTimeoutMs)), checkTimeoutMs);
+    } catch (error) {
+      result = { status: "down", error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const checkedAt = new Date().toISOString();
+    const dependency: DependencyHealth = {
+      name: check.name,
+      status: result.status,
+      critical: check.critical,
+      latencyMs: Math.round(performance.now() - started),
+      checkedAt,
+      ...(result.details ? { details: result.details } : {}),
+      ...(result.error
+        ? { lastError: result.error, lastErrorAt: checkedAt }
+        : previous?.lastError
+          ? { lastError: previous.lastError, lastErrorAt: previous.lastErrorAt }
+          : {}),
+    };
+
+    if (dependency.status !== (previous?.status ?? "ok")) {
+      const level = dependency.status === "ok" ? "info" : "warn";
+      logger[level]({ dependency: check.name, from: previous?.status, to: dependency.status, error: result.error }, "의존성 상태 변경");
+    }
+    latest.set(check.name, dependency);
+    return dependency;
+  }
+
+  async function check(): Promise<HealthReport> {
+    const dependencies = await Promise.all(checks.map(runCheck));
+    return {
+      status: overallStatus(dependencies),
+      service,
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+      dependencies,
+    };
+  }
+
+  return {
+    liveness() {
+      return { status: "ok", service, timestamp: new Date().toISOString(), uptimeSeconds: Math.round(process.uptime()) };
+    },
+    readiness() {
+      if (cached && Date.now() - cached.at < cacheMs) return Promise.resolve(cached.report);
+      running ??= check()
+        .then((report) => {
+          cached = { report, at: Date.now() };
+          return report;
+        })
+        .finally(() => {
+          running = null;
+        });
+      return running;
+    },
+  };
+}
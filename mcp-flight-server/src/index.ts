@@ -2,154 +2,208 @@
 
 import Fastify from "fastify";
 import cors from "@fastify/cors";
-import dotenv from "dotenv";
-import type { SearchFlightParams, FlightSearchResult } from "./types.js";
-
-dotenv.config();
-
-const AMADEUS_CLIENT_ID = process.env.AMADEUS_CLIENT_ID || "";
-const AMADEUS_CLIENT_SECRET = process.env.AMADEUS_CLIENT_SECRET || "";
-const PORT = process.env.PORT ? Number(process.env.PORT) : 8787;
-
-if (!AMADEUS_CLIENT_ID || !AMADEUS_CLIENT_SECRET) {
-  console.error("❌ [ERROR] AMADEUS_CLIENT_ID 또는 AMADEUS_CLIENT_SECRET이 설정되지 않았습니다.");
+import { ConfigError, isAmadeusConfigured, loadConfig, type FlightServerConfig } from "./config.js";
+import { createFlightServices } from "./services.js";
+import { registerMcpHttpRoutes } from "./mcp/httpTransport.js";
+import { createMcpServer } from "./mcp/server.js";
+import { createMcpTools, invokeTool } from "./mcp/tools.js";
+import { FlightServerError, fromZodError, toFlightServerError } from "./errors.js";
+import { WatchIdParamsSchema } from "./schema.js";
+import { createServiceAuth } from "./auth.js";
+import { createHealthMonitor } from "./health.js";
+import { configureLogger, logger } from "./observability/logger.js";
+import { registerObservability, requestIdFromHeaders } from "./observability/http.js";
+
+// 잘못된 설정은 항목별로 모두 보고하고 시작하지 않음
+let config: FlightServerConfig;
+try {
+  config = loadConfig();
+} catch (err) {
+  logger.fatal(err instanceof ConfigError ? { issues: err.issues } : { err }, "설정 로드 실패");
   process.exit(1);
 }
+configureLogger(config.log);
 
-let accessToken: string | null = null;
-let tokenExpiresAt: number = 0;
+const services = createFlightServices(config);
+const { amadeus, flightProvider, watches } = services;
+logger.info({ provider: flightProvider.name }, "항공편 공급자");
 
-async function getAccessToken(): Promise<string> {
-  const now = Date.now();
-  if (accessToken && now < tokenExpiresAt) {
-    return accessToken;
+// 요청 로그는 registerObservability 의 완료 로그 한 줄로 대신함
+const app = Fastify({ loggerInstance: logger, disableRequestLogging: true, genReqId: requestIdFromHeaders, requestIdLogLabel: "correlationId" });
+
+registerObservability(app);
+app.register(cors, { origin: true });
+
+// FLIGHT_SERVER_TOKEN 이 설정되면 /health*, /metrics 외 모든 경로(/mcp, /api/*)에 게이트웨이 공유 비밀 필요
+const PUBLIC_PATHS = new Set(["/health", "/health/live", "/health/ready", "/metrics"]);
+const serviceAuth = createServiceAuth(config.auth.token);
+app.addHook("onRequest", async (request) => {
+  if (request.method === "OPTIONS" || PUBLIC_PATHS.has(request.url.split("?")[0])) return;
+  serviceAuth.assert(request.headers.authorization);
+});
+if (serviceAuth.enabled) logger.info("서비스 인증: 공유 비밀");
+else logger.warn("서비스 인증 비활성화 (FLIGHT_SERVER_TOKEN 미설정)");
+
+const tools = createMcpTools(services);
+const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+// 검증/에러 카탈로그가 적용된 REST 에러 응답 ({ error: { code, message, details } })
+app.setErrorHandler((err, request, reply) => {
+  const error =
+    err instanceof FlightServerError
+      ? err
+      : err.statusCode === 400
+        ? new FlightServerError("INVALID_REQUEST", err.message)
+        : toFlightServerError(err);
+  if (error.code === "INTERNAL_ERROR") {
+    request.log.error({ err }, "처리되지 않은 오류");
   }
+  reply.status(error.statusCode).send({ error: error.toPayload() });
+});
 
-  const tokenUrl = "https://test.api.amadeus.com/v1/security/oauth2/token";
-  const params = new URLSearchParams();
-  params.append("grant_type", "client_credentials");
-  params.append("client_id", AMADEUS_CLIENT_ID);
-  params.append("client_secret", AMADEUS_CLIENT_SECRET);
+// MCP 서버 기본 경로 (JSON-RPC 2.0 Streamable HTTP + 레거시 envelope 호환)
+registerMcpHttpRoutes(app, createMcpServer(tools), config.mcp);
 
-  const res = await fetch(tokenUrl, {
-    method: "POST",
-    body: params,
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-  });
+// 기존 Express 스타일 `/api/search-flights` 경로 복원
+app.post("/api/search-flights", async (request) => {
+  request.log.debug({ params: request.body }, "항공편 검색 요청");
 
-  if (!res.ok) {
-    const errBody = await res.text();
-    throw new Error(`Amadeus OAuth 에러: ${res.status} ${errBody}`);
-  }
+  const { result } = await invokeTool(toolsByName.get("search_flights")!, request.body);
+  return result;
+});
 
-  const json = (await res.json()) as { access_token: string; expires_in: number };
-  accessToken = json.access_token;
-  tokenExpiresAt = now + (json.expires_in - 60) * 1000;
-  return accessToken;
-}
+// 유연한 날짜 검색: 날짜 조합별 최저가 캘린더
+app.post("/api/price-calendar", async (request) => {
+  request.log.debug({ params: request.body }, "가격 캘린더 요청");
 
-async function searchFlightsAmadeus(params: SearchFlightParams): Promise<FlightSearchResult> {
-  console.log("🔍 Amadeus 항공편 검색 요청:", params, new Date().toISOString());
+  const { result } = await invokeTool(toolsByName.get("search_price_calendar")!, request.body);
+  return result;
+});
 
-  const token = await getAccessToken();
+// 가격 확인: 검색 결과(searchId)의 항공편 하나를 공급자에게 다시 확인
+app.post<{
+  Params: { offerId: string };
+  Body: { searchId?: string } | undefined;
+}>("/api/offers/:offerId/price", async (request) => {
+  request.log.debug({ offerId: request.params.offerId, searchId: request.body?.searchId }, "가격 확인 요청");
 
-  const url = new URL("https://test.api.amadeus.com/v2/shopping/flight-offers");
-  url.searchParams.set("originLocationCode", params.origin);
-  url.searchParams.set("destinationLocationCode", params.destination);
-  url.searchParams.set("departureDate", params.departDate);
-  if (params.returnDate) {
-    url.searchParams.set("returnDate", params.returnDate);
-  }
-  url.searchParams.set("adults", String(params.adults ?? 1));
-  url.searchParams.set("currencyCode", params.currency ?? "USD");
-  url.searchParams.set("max", "20");
+  const { result } = await invokeTool(toolsByName.get("price_flight_offer")!, { ...request.body, offerId: request.params.offerId });
+  return result;
+});
 
-  console.log("🔍 Amadeus API parameters: ", url.searchParams);
+app.get<{
+  Querystring: { term?: string; limit?: string; types?: string };
+}>("/api/locations", async (request) => {
+  request.log.debug({ query: request.query }, "위치 검색 요청");
 
-  const res = await fetch(url.toString(), {
-    headers: { Authorization: `Bearer ${token}` },
+  const { term, limit, types } = request.query;
+  const { result } = await invokeTool(toolsByName.get("lookup_locations")!, {
+    term,
+    limit,
+    types: types ? types.split(",").map((t) => t.trim().toUpperCase()) : undefined,
   });
+  return result;
+});
 
-  if (!res.ok) {
-    const errBody = await res.text();
-    console.log("🔴 Amadeus API 호출 실패:", new Date().toISOString());
-    throw new Error(`Amadeus Flight API 에러: ${res.status} ${errBody}`);
-  }
+// 가격 알림 (MCP 도구와 같은 검증을 거침), ?tenant= 를 지정하면 그 테넌트의 watch 만 (다른 테넌트의 watch 는 404)
+app.get<{
+  Querystring: { tenant?: string };
+}>("/api/watches", async (request) => {
+  const { result } = await invokeTool(toolsByName.get("list_price_watches")!, { tenant: request.query.tenant });
+  return result;
+});
 
-  const json = (await res.json()) as { data?: any[] };
-  const items = json.data ?? [];
+app.post("/api/watches", async (request, reply) => {
+  request.log.debug({ params: request.body }, "가격 알림 생성 요청");
 
-  console.log("🔍 Amadeus 항공편 검색 결과:", items.length, "개 항공편");
+  const { result } = await invokeTool(toolsByName.get("create_price_watch")!, request.body);
+  return reply.code(201).send(result);
+});
 
-  return { currency: params.currency ?? "USD", items };
-}
+app.get<{
+  Params: { id: string };
+  Querystring: { tenant?: string };
+}>("/api/watches/:id/history", async (request) => {
+  const { result } = await invokeTool(toolsByName.get("get_price_history")!, { watchId: request.params.id, tenant: request.query.tenant });
+  return result;
+});
 
-const app = Fastify();
+// 예약 시각을 기다리지 않고 바로 가격 확인 (테스트/운영용, MCP 도구가 없으므로 같은 스키마로 직접 검증)
+app.post<{
+  Params: { id: string };
+  Querystring: { tenant?: string };
+}>("/api/watches/:id/check", async (request) => {
+  const params = WatchIdParamsSchema.safeParse({ watchId: request.params.id, tenant: request.query.tenant });
+  if (!params.success) throw fromZodError(params.error);
+  return watches.check(params.data.watchId, params.data.tenant);
+});
 
-app.register(cors, { origin: true });
+app.delete<{
+  Params: { id: string };
+  Querystring: { tenant?: string };
+}>("/api/watches/:id", async (request, reply) => {
+  await invokeTool(toolsByName.get("delete_price_watch")!, { watchId: request.params.id, tenant: request.query.tenant });
+  return reply.code(204).send();
+});
 
-// MCP 서버 기본 경로 (이전 마이그레이션한 MCP 메시지 방식)
-app.post("/mcp", async (request, reply) => {
-  console.log("🔧 /mcp, MCP Flight Server 요청 수신:", request.body, new Date().toISOString());
-
-  const mcpReq = request.body as any;
-
-  console.log("🔧 MCP 요청 내용:", mcpReq); 
-
-  if (mcpReq?.service === "flight_search" && mcpReq?.action === "invoke") {
-    try {
-      console.log("🔧 MCP Flight Search 요청 처리 중:", mcpReq.payload), new Date().toISOString();
-      const flightResult = await searchFlightsAmadeus(mcpReq.payload);
-      return reply.send({
-        messageId: mcpReq.messageId,
-        sessionId: mcpReq.sessionId,
-        service: "flight_search",
-        action: "result",
-        result: flightResult,
-        metadata: { source: "amadeus", queriedAt: new Date().toISOString() },
-      });
-    } catch (err) {
-      return reply.status(500).send({
-        messageId: mcpReq.messageId,
-        sessionId: mcpReq.sessionId,
-        service: "flight_search",
-        action: "result",
-        result: {},
-        error: { code: "SEARCH_FAILED", message: err instanceof Error ? err.message : String(err) },
-      });
-    }
-  } else {
-    reply.status(400).send({ error: "Unsupported MCP service or action" });
-  }
+// 예약 (승객 정보에 여권 번호가 있으므로 요청 본문은 로그에 남기지 않음)
+app.post("/api/orders/validate", async (request) => {
+  const { result } = await invokeTool(toolsByName.get("validate_order")!, request.body);
+  return result;
 });
 
-// 기존 Express 스타일 `/api/search-flights` 경로 복원
-app.post("/api/search-flights", async (request, reply) => {
-  console.log("🔧 /api/search-flights, 항공편 검색 요청 수신:", request.body, new Date().toISOString());
-  
-  const params = request.body as SearchFlightParams;
+// Idempotency-Key 헤더가 있으면 같은 키로 재요청해도 한 번만 예약
+app.post<{
+  Body: Record<string, unknown> | undefined;
+}>("/api/orders", async (request, reply) => {
+  const idempotencyKey = request.headers["idempotency-key"];
+  request.log.info({ searchId: request.body?.searchId, offerId: request.body?.offerId, idempotencyKey }, "예약 요청");
 
-  if (!params.origin || !params.destination || !params.departDate) {
-    return reply.status(400).send({ error: "필수 파라미터 누락" });
-  }
+  const { result } = await invokeTool(toolsByName.get("create_order")!, {
+    ...request.body,
+    ...(typeof idempotencyKey === "string" ? { idempotencyKey } : {}),
+  });
+  return reply.code(201).send(result);
+});
 
-  try {
-    const result = await searchFlightsAmadeus(params);
-    reply.send(result);
-  } catch (err) {
-    reply.status(500).send({ error: "항공편 검색 실패", message: err instanceof Error ? err.message : String(err) });
-  }
+app.get<{
+  Params: { id: string };
+}>("/api/orders/:id", async (request) => {
+  const { result } = await invokeTool(toolsByName.get("get_order")!, { orderId: request.params.id });
+  return result;
 });
 
-app.get("/health", (_request, reply) => {
-  reply.send({
-    status: "ok",
-    service: "mcp-flight-server",
-    timestamp: new Date().toISOString(),
-    clientIdConfigured: !!AMADEUS_CLIENT_ID,
-  });
+// 취소된 예약을 반환 (이미 취소된 예약이면 그대로)
+app.delete<{
+  Params: { id: string };
+}>("/api/orders/:id", async (request) => {
+  const { result } = await invokeTool(toolsByName.get("cancel_order")!, { orderId: request.params.id });
+  return result;
+});
+
+// readiness 점검 대상: 항공편 공급자 (Amadeus 토큰 발급 가능 여부, mock 은 항상 ok)
+const health = createHealthMonitor("mcp-flight-server", [
+  { name: flightProvider.name, critical: true, check: (signal) => flightProvider.checkHealth(signal) },
+], config.health);
+
+// liveness: 프로세스가 요청을 받을 수 있는지만 (의존성 장애로 재시작되지 않도록 항상 200)
+app.get("/health/live", async () => health.liveness());
+
+// readiness: 공급자를 사용할 수 없으면 503 (degraded 는 200)
+app.get("/health/ready", async (_request, reply) => {
+  const report = await health.readiness();
+  return reply.code(report.status === "down" ? 503 : 200).send(report);
 });
 
-app.listen({ port: PORT }).then(() => {
-  console.log(`🚀 MCP Flight Server listening on http://localhost:${PORT}`);
+// 기존 형식 유지: readiness 결과 + 공급자/circuit 정보 (상태와 관계없이 200)
+app.get("/health", async () => ({
+  ...(await health.readiness()),
+  provider: flightProvider.name,
+  clientIdConfigured: isAmadeusConfigured(config.amadeus),
+  upstream: amadeus.circuit.snapshot(),
+}));
+
+// 주소는 Fastify 가 "Server listening at ..." 으로 로그에 남김
+app.listen({ port: config.port }).then(() => {
+  watches.start();
 });
@@ -0,0 +1,110 @@
+// mcp-flight-server/src/locations/airports.ts
+
+// 오프라인 위치 검색용 번들 데이터셋 (주요 도시/공항만 포함)
+export interface AirportRecord {
+  type: "AIRPORT" | "CITY";
+  iataCode: string;
+  name: string;
+  cityCode: string;
+  cityName: string;
+  countryCode: string;
+  timezone: string;
+  aliases?: string[];
+}
+
+export const AIRPORTS: AirportRecord[] = [
+  // 대한민국
+  { type: "CITY", iataCode: "SEL", name: "Seoul", cityCode: "SEL", cityName: "Seoul", countryCode: "KR", timezone: "Asia/Seoul", aliases: ["서울"] },
+  { type: "AIRPORT", iataCode: "ICN", name: "Incheon International Airport", cityCode: "SEL", cityName: "Seoul", countryCode: "KR", timezone: "Asia/Seoul", aliases: ["Incheon", "인천"] },
+  { type: "AIRPORT", iataCode: "GMP", name: "Gimpo International Airport", cityCode: "SEL", cityName: "Seoul", countryCode: "KR", timezone: "Asia/Seoul", aliases: ["Gimpo", "Kimpo", "김포"] },
+  { type: "AIRPORT", iataCode: "PUS", name: "Gimhae International Airport", cityCode: "PUS", cityName: "Busan", countryCode: "KR", timezone: "Asia/Seoul", aliases: ["Busan", "Pusan", "Gimhae", "부산", "김해"] },
+  { type: "AIRPORT", iataCode: "CJU", name: "Jeju International Airport", cityCode: "CJU", cityName: "Jeju", countryCode: "KR", timezone: "Asia/Seoul", aliases: ["Jeju", "Cheju", "제주"] },
+
+  // 일본
+  { type: "CITY", iataCode: "TYO", name: "Tokyo", cityCode: "TYO", cityName: "Tokyo", countryCode: "JP", timezone: "Asia/Tokyo", aliases: ["도쿄", "동경"] },
+  { type: "AIRPORT", iataCode: "NRT", name: "Narita International Airport", cityCode: "TYO", cityName: "Tokyo", countryCode: "JP", timezone: "Asia/Tokyo", aliases: ["Narita", "나리타"] },
+  { type: "AIRPORT", iataCode: "HND", name: "Haneda Airport", cityCode: "TYO", cityName: "Tokyo", countryCode: "JP", timezone: "Asia/Tokyo", aliases: ["Haneda", "하네다"] },
+  { type: "CITY", iataCode: "OSA", name: "Osaka", cityCode: "OSA", cityName: "Osaka", countryCode: "JP", timezone: "Asia/Tokyo", aliases: ["오사카"] },
+  { type: "AIRPORT", iataCode: "KIX", name: "Kansai International Airport", cityCode: "OSA", cityName: "Osaka", countryCode: "JP", timezone: "Asia/Tokyo", aliases: ["Kansai", "간사이"] },
+  { type: "AIRPORT", iataCode: "ITM", name: "Osaka Itami Airport", cityCode: "OSA", cityName: "Osaka", countryCode: "JP", timezone: "Asia/Tokyo", aliases: ["Itami"] },
+  { type: "AIRPORT", iataCode: "FUK", name: "Fukuoka Airport", cityCode: "FUK", cityName: "Fukuoka", countryCode: "JP", timezone: "Asia/Tokyo", aliases: ["Fukuoka", "후쿠오카"] },
+  { type: "AIRPORT", iataCode: "CTS", name: "New Chitose Airport", cityCode: "SPK", cityName: "Sapporo", countryCode: "JP", timezone: "Asia/Tokyo", aliases: ["Sapporo", "Chitose", "삿포로"] },
+  { type: "AIRPORT", iataCode: "OKA", name: "Naha Airport", cityCode: "OKA", cityName: "Okinawa", countryCode: "JP", timezone: "Asia/Tokyo", aliases: ["Naha", "Okinawa", "오키나와"] },
+
+  // 중화권
+  { type: "CITY", iataCode: "BJS", name: "Beijing", cityCode: "BJS", cityName: "Beijing", countryCode: "CN", timezone: "Asia/Shanghai", aliases: ["Peking", "베이징", "북경"] },
+  { type: "AIRPORT", iataCode: "PEK", name: "Beijing Capital International Airport", cityCode: "BJS", cityName: "Beijing", countryCode: "CN", timezone: "Asia/Shanghai" },
+  { type: "AIRPORT", iataCode: "PKX", name: "Beijing Daxing International Airport", cityCode: "BJS", cityName: "Beijing", countryCode: "CN", timezone: "Asia/Shanghai", aliases: ["Daxing"] },
+  { type: "CITY", iataCode: "SHA", name: "Shanghai", cityCode: "SHA", cityName: "Shanghai", countryCode: "CN", timezone: "Asia/Shanghai", aliases: ["상하이"] },
+  { type: "AIRPORT", iataCode: "PVG", name: "Shanghai Pudong International Airport", cityCode: "SHA", cityName: "Shanghai", countryCode: "CN", timezone: "Asia/Shanghai", aliases: ["Pudong"] },
+  { type: "AIRPORT", iataCode: "HKG", name: "Hong Kong International Airport", cityCode: "HKG", cityName: "Hong Kong", countryCode: "HK", timezone: "Asia/Hong_Kong", aliases: ["Hongkong", "Chek Lap Kok", "홍콩"] },
+  { type: "AIRPORT", iataCode: "TPE", name: "Taiwan Taoyuan International Airport", cityCode: "TPE", cityName: "Taipei", countryCode: "TW", timezone: "Asia/Taipei", aliases: ["Taoyuan", "타이베이", "대만"] },
+  { type: "AIRPORT", iataCode: "TSA", name: "Taipei Songshan Airport", cityCode: "TPE", cityName: "Taipei", countryCode: "TW", timezone: "Asia/Taipei", aliases: ["Songshan"] },
+
+  // 동남아시아
+  { type: "AIRPORT", iataCode: "BKK", name: "Suvarnabhumi Airport", cityCode: "BKK", cityName: "Bangkok", countryCode: "TH", timezone: "Asia/Bangkok", aliases: ["Suvarnabhumi", "방콕"] },
+  { type: "AIRPORT", iataCode: "DMK", name: "Don Mueang International Airport", cityCode: "BKK", cityName: "Bangkok", countryCode: "TH", timezone: "Asia/Bangkok", aliases: ["Don Mueang"] },
+  { type: "AIRPORT", iataCode: "SIN", name: "Singapore Changi Airport", cityCode: "SIN", cityName: "Singapore", countryCode: "SG", timezone: "Asia/Singapore", aliases: ["Changi", "싱가포르", "싱가폴"] },
+  { type: "AIRPORT", iataCode: "SGN", name: "Tan Son Nhat International Airport", cityCode: "SGN", cityName: "Ho Chi Minh City", countryCode: "VN", timezone: "Asia/Ho_Chi_Minh", aliases: ["Saigon", "호치민"] },
+  { type: "AIRPORT", iataCode: "HAN", name: "Noi Bai International Airport", cityCode: "HAN", cityName: "Hanoi", countryCode: "VN", timezone: "Asia/Ho_Chi_Minh", aliases: ["하노이"] },
+  { type: "AIRPORT", iataCode: "DAD", name: "Da Nang International Airport", cityCode: "DAD", cityName: "Da Nang", countryCode: "VN", timezone: "Asia/Ho_Chi_Minh", aliases: ["Danang", "다낭"] },
+  { type: "AIRPORT", iataCode: "MNL", name: "Ninoy Aquino International Airport", cityCode: "MNL", cityName: "Manila", countryCode: "PH", timezone: "Asia/Manila", aliases: ["마닐라"] },
+  { type: "AIRPORT", iataCode: "CEB", name: "Mactan-Cebu International Airport", cityCode: "CEB", cityName: "Cebu", countryCode: "PH", timezone: "Asia/Manila", aliases: ["세부"] },
+  { type: "AIRPORT", iataCode: "KUL", name: "Kuala Lumpur International Airport", cityCode: "KUL", cityName: "Kuala Lumpur", countryCode: "MY", timezone: "Asia/Kuala_Lumpur", aliases: ["KL", "쿠알라룸푸르"] },
+  { type: "AIRPORT", iataCode: "DPS", name: "Ngurah Rai International Airport", cityCode: "DPS", cityName: "Denpasar", countryCode: "ID", timezone: "Asia/Makassar", aliases: ["Bali", "발리"] },
+  { type: "AIRPORT", iataCode: "CGK", name: "Soekarno-Hatta International Airport", cityCode: "JKT", cityName: "Jakarta", countryCode: "ID", timezone: "Asia/Jakarta", aliases: ["Jakarta", "자카르타"] },
+
+  // 북미
+  { type: "CITY", iataCode: "NYC", name: "New York", cityCode: "NYC", cityName: "New York", countryCode: "US", timezone: "America/New_York", aliases: ["New York City", "뉴욕"] },
+  { type: "AIRPORT", iataCode: "JFK", name: "John F. Kennedy International Airport", cityCode: "NYC", cityName: "New York", countryCode: "US", timezone: "America/New_York", aliases: ["Kennedy"] },
+  { type: "AIRPORT", iataCode: "LGA", name: "LaGuardia Airport", cityCode: "NYC", cityName: "New York", countryCode: "US", timezone: "America/New_York", aliases: ["La Guardia"] },
+  { type: "AIRPORT", iataCode: "EWR", name: "Newark Liberty International Airport", cityCode: "NYC", cityName: "New York", countryCode: "US", timezone: "America/New_York", aliases: ["Newark"] },
+  { type: "AIRPORT", iataCode: "LAX", name: "Los Angeles International Airport", cityCode: "LAX", cityName: "Los Angeles", countryCode: "US", timezone: "America/Los_Angeles", aliases: ["LA", "로스앤젤레스", "엘에이"] },
+  { type: "AIRPORT", iataCode: "SFO", name: "San Francisco International Airport", cityCode: "SFO", cityName: "San Francisco", countryCode: "US", timezone: "America/Los_Angeles", aliases: ["샌프란시스코"] },
+  { type: "AIRPORT", iataCode: "SEA", name: "Seattle-Tacoma International Airport", cityCode: "SEA", cityName: "Seattle", countryCode: "US", timezone: "America/Los_Angeles", aliases: ["Sea-Tac", "시애틀"] },
+  { type: "CITY", iataCode: "CHI", name: "Chicago", cityCode: "CHI", cityName: "Chicago", countryCode: "US", timezone: "America/Chicago", aliases: ["시카고"] },
+  { type: "AIRPORT", iataCode: "ORD", name: "O'Hare International Airport", cityCode: "CHI", cityName: "Chicago", countryCode: "US", timezone: "America/Chicago", aliases: ["O'Hare", "Ohare"] },
+  { type: "CITY", iataCode: "WAS", name: "Washington", cityCode: "WAS", cityName: "Washington", countryCode: "US", timezone: "America/New_York", aliases: ["Washington DC", "워싱턴"] },
+  { type: "AIRPORT", iataCode: "IAD", name: "Washington Dulles International Airport", cityCode: "WAS", cityName: "Washington", countryCode: "US", timezone: "America/New_York", aliases: ["Dulles"] },
+  { type: "AIRPORT", iataCode: "HNL", name: "Daniel K. Inouye International Airport", cityCode: "HNL", cityName: "Honolulu", countryCode: "US", timezone: "Pacific/Honolulu", aliases: ["Hawaii", "하와이", "호놀룰루"] },
+  { type: "AIRPORT", iataCode: "GUM", name: "Antonio B. Won Pat International Airport", cityCode: "GUM", cityName: "Guam", countryCode: "GU", timezone: "Pacific/Guam", aliases: ["괌"] },
+  { type: "CITY", iataCode: "YTO", name: "Toronto", cityCode: "YTO", cityName: "Toronto", countryCode: "CA", timezone: "America/Toronto", aliases: ["토론토"] },
+  { type: "AIRPORT", iataCode: "YYZ", name: "Toronto Pearson International Airport", cityCode: "YTO", cityName: "Toronto", countryCode: "CA", timezone: "America/Toronto", aliases: ["Pearson"] },
+  { type: "AIRPORT", iataCode: "YVR", name: "Vancouver International Airport", cityCode: "YVR", cityName: "Vancouver", countryCode: "CA", timezone: "America/Vancouver", aliases: ["밴쿠버"] },
+
+  // 유럽
+  { type: "CITY", iataCode: "LON", name: "London", cityCode: "LON", cityName: "London", countryCode: "GB", timezone: "Europe/London", aliases: ["런던"] },
+  { type: "AIRPORT", iataCode: "LHR", name: "Heathrow Airport", cityCode: "LON", cityName: "London", countryCode: "GB", timezone: "Europe/London", aliases: ["Heathrow"] },
+  { type: "AIRPORT", iataCode: "LGW", name: "Gatwick Airport", cityCode: "LON", cityName: "London", countryCode: "GB", timezone: "Europe/London", aliases: ["Gatwick"] },
+  { type: "CITY", iataCode: "PAR", name: "Paris", cityCode: "PAR", cityName: "Paris", countryCode: "FR", timezone: "Europe/Paris", aliases: ["파리"] },
+  { type: "AIRPORT", iataCode: "CDG", name: "Charles de Gaulle Airport", cityCode: "PAR", cityName: "Paris", countryCode: "FR", timezone: "Europe/Paris", aliases: ["Roissy", "Charles de Gaulle"] },
+  { type: "AIRPORT", iataCode: "ORY", name: "Paris Orly Airport", cityCode: "PAR", cityName: "Paris", countryCode: "FR", timezone: "Europe/Paris", aliases: ["Orly"] },
+  { type: "AIRPORT", iataCode: "FRA", name: "Frankfurt Airport", cityCode: "FRA", cityName: "Frankfurt", countryCode: "DE", timezone: "Europe/Berlin", aliases: ["프랑크푸르트"] },
+  { type: "AIRPORT", iataCode: "MUC", name: "Munich Airport", cityCode: "MUC", cityName: "Munich", countryCode: "DE", timezone: "Europe/Berlin", aliases: ["München", "뮌헨"] },
+  { type: "AIRPORT", iataCode: "AMS", name: "Amsterdam Airport Schiphol", cityCode: "AMS", cityName: "Amsterdam", countryCode: "NL", timezone: "Europe/Amsterdam", aliases: ["Schiphol", "암스테르담"] },
+  { type: "CITY", iataCode: "ROM", name: "Rome", cityCode: "ROM", cityName: "Rome", countryCode: "IT", timezone: "Europe/Rome", aliases: ["Roma", "로마"] },
+  { type: "AIRPORT", iataCode: "FCO", name: "Leonardo da Vinci–Fiumicino Airport", cityCode: "ROM", cityName: "Rome", countryCode: "IT", timezone: "Europe/Rome", aliases: ["Fiumicino"] },
+  { type: "AIRPORT", iataCode: "BCN", name: "Barcelona–El Prat Airport", cityCode: "BCN", cityName: "Barcelona", countryCode: "ES", timezone: "Europe/Madrid", aliases: ["El Prat", "바르셀로나"] },
+  { type: "AIRPORT", iataCode: "MAD", name: "Adolfo Suárez Madrid–Barajas Airport", cityCode: "MAD", cityName: "Madrid", countryCode: "ES", timezone: "Europe/Madrid", aliases: ["Barajas", "마드리드"] },
+  { type: "AIRPORT", iataCode: "IST", name: "Istanbul Airport", cityCode: "IST", cityName: "Istanbul", countryCode: "TR", timezone: "Europe/Istanbul", aliases: ["이스탄불"] },
+
+  // 중동/오세아니아
+  { type: "AIRPORT", iataCode: "DXB", name: "Dubai International Airport", cityCode: "DXB", cityName: "Dubai", countryCode: "AE", timezone: "Asia/Dubai", aliases: ["두바이"] },
+  { type: "AIRPORT", iataCode: "DOH", name: "Hamad International Airport", cityCode: "DOH", cityName: "Doha", countryCode: "QA", timezone: "Asia/Qatar", aliases: ["Hamad", "도하"] },
+  { type: "AIRPORT", iataCode: "SYD", name: "Sydney Kingsford Smith Airport", cityCode: "SYD", cityName: "Sydney", countryCode: "AU", timezone: "Australia/Sydney", aliases: ["Kingsford Smith", "시드니"] },
+  { type: "AIRPORT", iataCode: "MEL", name: "Melbourne Airport", cityCode: "MEL", cityName: "Melbourne", countryCode: "AU", timezone: "Australia/Melbourne", aliases: ["Tullamarine", "멜버른"] },
+  { type: "AIRPORT", iataCode: "AKL", name: "Auckland Airport", cityCode: "AKL", cityName: "Auckland", countryCode: "NZ", timezone: "Pacific/Auckland", aliases: ["오클랜드"] },
+];
+
+const TIMEZONES = new Map(AIRPORTS.map((record) => [record.iataCode, record.timezone]));
+const COUNTRIES = new Map(AIRPORTS.map((record) => [record.iataCode, record.countryCode]));
+
+// 번들 데이터셋 기준 공항/도시 코드의 IANA 타임존
+export function timezoneForIata(iataCode: string): string | undefined {
+  return TIMEZONES.get(iataCode.toUpperCase());
+}
+
+// 번들 데이터셋 기준 공항/도시 코드의 국가 코드 (ISO 3166-1 alpha-2)
+export function countryForIata(iataCode: string): string | undefined {
+  return COUNTRIES.get(iataCode.toUpperCase());
+}
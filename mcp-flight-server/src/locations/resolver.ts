@@ -0,0 +1,156 @@
+// mcp-flight-server/src/locations/resolver.ts
+
+import { AIRPORTS, type AirportRecord } from "./airports.js";
+import { isAmadeusConfigured, type FlightServerConfig } from "../config.js";
+import { logger } from "../observability/logger.js";
+import type { AmadeusClient } from "../amadeus.js";
+import type { Location, LocationLookupParams, LocationLookupResult, LocationType } from "../types.js";
+
+const DEFAULT_LIMIT = 5;
+
+export interface LocationProvider {
+  name: LocationLookupResult["source"];
+  lookup(params: LocationLookupParams): Promise<Location[]>;
+}
+
+// 대소문자/악센트 차이를 무시하고 비교하기 위한 정규화
+function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+function toLocation(record: AirportRecord, score: number): Location {
+  return {
+    type: record.type,
+    iataCode: record.iataCode,
+    name: record.name,
+    cityCode: record.cityCode,
+    cityName: record.cityName,
+    countryCode: record.countryCode,
+    timezone: record.timezone,
+    score,
+  };
+}
+
+/**
+ * 검색어와 레코드의 일치 정도를 점수화
+ * - IATA 코드 일치 > 도시 코드 일치 > 이름/별칭 완전 일치 > 접두어 > 단어 접두어 > 부분 일치
+ * - 이름으로 찾은 경우 도시(CITY) 레코드를 공항보다 위에 노출
+ */
+function scoreRecord(record: AirportRecord, term: string): number {
+  const upper = term.toUpperCase();
+  if (upper.length === 3) {
+    if (record.iataCode === upper) return 100;
+    if (record.cityCode === upper) return 90;
+  }
+
+  const q = normalize(term);
+  const names = [record.cityName, record.name, ...(record.aliases ?? [])].map(normalize);
+  const cityBonus = record.type === "CITY" ? 5 : 0;
+
+  if (names.some((n) => n === q)) return 80 + cityBonus;
+  if (names.some((n) => n.startsWith(q))) return 65 + cityBonus;
+  if (names.some((n) => n.split(/[\s\-–']+/).some((word) => word.startsWith(q)))) return 55 + cityBonus;
+  if (q.length >= 3 && names.some((n) => n.includes(q))) return 40 + cityBonus;
+  return 0;
+}
+
+function matchesTypes(type: LocationType, types?: LocationType[]): boolean {
+  return !types || types.length === 0 || types.includes(type);
+}
+
+export function createOfflineLocationProvider(records: AirportRecord[] = AIRPORTS): LocationProvider {
+  return {
+    name: "offline",
+    async lookup(params) {
+      const limit = params.limit ?? DEFAULT_LIMIT;
+
+      return records
+        .filter((record) => matchesTypes(record.type, params.types))
+        .map((record) => toLocation(record, scoreRecord(record, params.term)))
+        .filter((location) => location.score > 0)
+        .sort((a, b) => b.score - a.score || (a.type === b.type ? 0 : a.type === "CITY" ? -1 : 1) || a.iataCode.localeCompare(b.iataCode))
+        .slice(0, limit);
+    },
+  };
+}
+
+interface AmadeusLocation {
+  subType: LocationType;
+  name: string;
+  detailedName?: string;
+  iataCode: string;
+  address?: { cityName?: string; cityCode?: string; countryCode?: string };
+}
+
+export function createAmadeusLocationProvider(amadeus: AmadeusClient): LocationProvider {
+  return {
+    name: "amadeus",
+    async lookup(params) {
+      const limit = params.limit ?? DEFAULT_LIMIT;
+
+      const url = new URL(`${amadeus.baseUrl}/v1/reference-data/locations`);
+      url.searchParams.set("keyword", params.term);
+      url.searchParams.set("subType", (params.types?.length ? params.types : ["AIRPORT", "CITY"]).join(","));
+      url.searchParams.set("page[limit]", String(limit));
+      url.searchParams.set("sort", "analytics.travelers.score");
+      url.searchParams.set("view", "LIGHT");
+
+      const res = await amadeus.get(url, "Locations");
+
+      const json = (await res.json()) as { data?: AmadeusLocation[] };
+
+      // Amadeus는 관련도 순으로 응답하므로 순서를 그대로 점수로 환산
+      return (json.data ?? []).slice(0, limit).map((item, index) => {
+        const cityCode = item.address?.cityCode ?? item.iataCode;
+        const known = AIRPORTS.find((record) => record.iataCode === item.iataCode || record.cityCode === cityCode);
+        return {
+          type: item.subType,
+          iataCode: item.iataCode,
+          name: item.detailedName ?? item.name,
+          cityCode,
+          cityName: item.address?.cityName ?? item.name,
+          countryCode: item.address?.countryCode ?? "",
+          timezone: known?.timezone,
+          score: 100 - index,
+        };
+      });
+    },
+  };
+}
+
+export interface LocationResolver {
+  lookup(params: LocationLookupParams): Promise<LocationLookupResult>;
+}
+
+/**
+ * 자유 텍스트("Seoul", "NYC", "인천")를 IATA 공항/도시 코드로 변환
+ * locations.provider 가 없으면 Amadeus 자격증명이 있을 때 Amadeus 조회
+ * Amadeus 조회가 실패하거나 결과가 없으면 번들 데이터셋으로 폴백
+ */
+export function createLocationResolver(config: FlightServerConfig, amadeus: AmadeusClient): LocationResolver {
+  const offlineProvider = createOfflineLocationProvider();
+  const useAmadeus = config.locations.provider === "amadeus" || (!config.locations.provider && isAmadeusConfigured(config.amadeus));
+  const primaryProvider = useAmadeus ? createAmadeusLocationProvider(amadeus) : offlineProvider;
+
+  return {
+    async lookup(params) {
+      if (primaryProvider !== offlineProvider) {
+        try {
+          const locations = await primaryProvider.lookup(params);
+          if (locations.length > 0) {
+            return { term: params.term, source: primaryProvider.name, locations };
+          }
+        } catch (err) {
+          logger.warn({ err, term: params.term }, "위치 검색 실패, 오프라인 데이터셋으로 폴백");
+        }
+      }
+
+      const locations = await offlineProvider.lookup(params);
+      return { term: params.term, source: offlineProvider.name, locations };
+    },
+  };
+}
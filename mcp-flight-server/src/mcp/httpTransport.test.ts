@@ -0,0 +1,65 @@
+// mcp-flight-server/src/mcp/httpTransport.test.ts
+
+import { after, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import Fastify from "fastify";
+import { registerMcpHttpRoutes } from "./httpTransport.js";
+import { createMcpServer } from "./server.js";
+import { configureLogger } from "../observability/logger.js";
+
+configureLogger({ level: "silent" });
+
+// 세션 상한 2개, idle 1분 (메트릭은 프로세스에 한 번만 등록되므로 앱도 하나)
+const app = Fastify();
+registerMcpHttpRoutes(app, createMcpServer([]), { sessionIdleMinutes: 1, maxSessions: 2 });
+
+after(() => app.close());
+
+async function initialize(): Promise<string> {
+  const response = await app.inject({
+    method: "POST",
+    url: "/mcp",
+    payload: { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-06-18", clientInfo: { name: "test" } } },
+  });
+  const sessionId = response.headers["mcp-session-id"];
+  assert.equal(typeof sessionId, "string");
+  return sessionId as string;
+}
+
+async function ping(sessionId: string): Promise<number> {
+  const response = await app.inject({ method: "POST", url: "/mcp", headers: { "mcp-session-id": sessionId }, payload: { jsonrpc: "2.0", id: 2, method: "ping" } });
+  return response.statusCode;
+}
+
+describe("MCP HTTP 세션", () => {
+  it("DELETE /mcp 로 종료한 세션은 404", async () => {
+    const sessionId = await initialize();
+    assert.equal(await ping(sessionId), 200);
+    assert.equal((await app.inject({ method: "DELETE", url: "/mcp", headers: { "mcp-session-id": sessionId } })).statusCode, 204);
+    assert.equal(await ping(sessionId), 404);
+    assert.equal((await app.inject({ method: "DELETE", url: "/mcp", headers: { "mcp-session-id": sessionId } })).statusCode, 404);
+  });
+
+  it("상한을 넘으면 가장 오래 쓰지 않은 세션부터 삭제", async () => {
+    const first = await initialize();
+    const second = await initialize();
+    assert.equal(await ping(first), 200);
+
+    const third = await initialize();
+    assert.deepEqual([await ping(first), await ping(second), await ping(third)], [200, 404, 200]);
+  });
+
+  it("idle 시간이 지난 세션은 만료, 그 사이에 쓴 세션은 유지", async () => {
+    mock.timers.enable({ apis: ["Date"], now: Date.now() });
+    try {
+      const idle = await initialize();
+      const active = await initialize();
+      mock.timers.tick(40 * 1000);
+      assert.equal(await ping(active), 200);
+      mock.timers.tick(40 * 1000);
+      assert.deepEqual([await ping(idle), await ping(active)], [404, 200]);
+    } finally {
+      mock.timers.reset();
+    }
+  });
+});
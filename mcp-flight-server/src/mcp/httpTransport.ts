@@ -0,0 +1,129 @@
+// mcp-flight-server/src/mcp/httpTransport.ts
+
+import { randomUUID } from "node:crypto";
+import type { FastifyInstance } from "fastify";
+import { handleLegacyRequest, isLegacyEnvelope } from "./legacy.js";
+import { JSON_RPC_ERRORS, type McpServer } from "./server.js";
+import type { McpConfig } from "../config.js";
+import { logger } from "../observability/logger.js";
+import { gauge } from "../observability/metrics.js";
+import type { JsonRpcResponse } from "../types.js";
+
+const SESSION_HEADER = "mcp-session-id";
+
+interface McpSession {
+  id: string;
+  createdAt: string;
+  // 마지막 요청 시각 (ms): sessionIdleMinutes 가 지나면 만료
+  lastSeenAt: number;
+  clientInfo?: Record<string, any>;
+}
+
+/**
+ * MCP Streamable HTTP 전송 (https://modelcontextprotocol.io/specification/2025-03-26/basic/transports)
+ * - POST /mcp: JSON-RPC 메시지(또는 배치)를 받아 application/json 으로 응답
+ * - GET /mcp: 서버 발신 SSE 스트림은 지원하지 않으므로 405
+ * - DELETE /mcp: 세션 종료
+ * 레거시 envelope 요청도 같은 경로에서 감지해서 호환 shim으로 전달
+ * DELETE 없이 떠난 클라이언트의 세션은 idle 시간이 지나거나 상한을 넘으면 오래 쓰지 않은 것부터 삭제
+ */
+export function registerMcpHttpRoutes(app: FastifyInstance, server: McpServer, { sessionIdleMinutes, maxSessions }: McpConfig): void {
+  // 마지막으로 쓴 순서 (Map 은 삽입 순서를 유지하므로 사용할 때마다 다시 넣음)
+  const sessions = new Map<string, McpSession>();
+  const idleMs = sessionIdleMinutes * 60 * 1000;
+
+  gauge("mcp_sessions", "보관 중인 MCP 세션 수", () => [[{}, sessions.size]]);
+
+  const evictIdle = (now: number) => {
+    for (const session of sessions.values()) {
+      if (session.lastSeenAt + idleMs > now) break;
+      sessions.delete(session.id);
+      logger.info({ mcpSessionId: session.id, client: session.clientInfo?.name ?? "unknown" }, "MCP 세션 만료");
+    }
+  };
+
+  const touch = (id: string): boolean => {
+    const now = Date.now();
+    evictIdle(now);
+    const session = sessions.get(id);
+    if (!session) return false;
+    sessions.delete(id);
+    sessions.set(id, { ...session, lastSeenAt: now });
+    return true;
+  };
+
+  app.post("/mcp", async (request, reply) => {
+    const body = request.body as any;
+
+    if (isLegacyEnvelope(body)) {
+      request.log.debug({ mcpService: body?.service, messageId: body?.messageId }, "레거시 MCP 요청");
+      const legacy = await handleLegacyRequest(server.tools, body);
+      return reply.status(legacy.statusCode).send(legacy.body);
+    }
+
+    const sessionId = request.headers[SESSION_HEADER] as string | undefined;
+    if (sessionId && !touch(sessionId)) {
+      return reply.status(404).send({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: "Unknown or expired MCP session" },
+      });
+    }
+
+    const messages: unknown[] = Array.isArray(body) ? body : [body];
+    if (messages.length === 0) {
+      return reply.status(400).send({
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: "Empty batch" },
+      });
+    }
+
+    const responses: JsonRpcResponse[] = [];
+    for (const message of messages) {
+      const response = await server.handleMessage(message);
+      if (response) responses.push(response);
+    }
+
+    // initialize 성공 시 새 세션 발급
+    const initialize = messages.find((m: any) => m?.method === "initialize");
+    if (initialize && responses.some((r) => r.id === (initialize as any).id && r.result)) {
+      const now = Date.now();
+      const session: McpSession = {
+        id: randomUUID(),
+        createdAt: new Date(now).toISOString(),
+        lastSeenAt: now,
+        clientInfo: (initialize as any).params?.clientInfo,
+      };
+      evictIdle(now);
+      while (sessions.size >= maxSessions) {
+        const oldest = sessions.keys().next().value!;
+        sessions.delete(oldest);
+        request.log.warn({ mcpSessionId: oldest, maxSessions }, "MCP 세션 상한 초과로 가장 오래 쓰지 않은 세션 삭제");
+      }
+      sessions.set(session.id, session);
+      reply.header(SESSION_HEADER, session.id);
+      request.log.info({ mcpSessionId: session.id, client: session.clientInfo?.name ?? "unknown" }, "MCP 세션 생성");
+    }
+
+    // 알림/응답만 있는 경우 본문 없이 202
+    if (responses.length === 0) {
+      return reply.status(202).send();
+    }
+
+    return reply.send(Array.isArray(body) ? responses : responses[0]);
+  });
+
+  app.get("/mcp", async (_request, reply) => {
+    return reply.status(405).header("Allow", "POST, DELETE").send({ error: "SSE stream not supported" });
+  });
+
+  app.delete("/mcp", async (request, reply) => {
+    const sessionId = request.headers[SESSION_HEADER] as string | undefined;
+    if (!sessionId || !sessions.delete(sessionId)) {
+      return reply.status(404).send({ error: "Unknown MCP session" });
+    }
+    request.log.info({ mcpSessionId: sessionId }, "MCP 세션 종료");
+    return reply.status(204).send();
+  });
+}
@@ -0,0 +1,53 @@
+// mcp-flight-server/src/mcp/legacy.ts
+
+import { FlightServerError, fromZodError, toFlightServerError } from "../errors.js";
+import { MCPRequestSchema } from "../schema.js";
+import type { MCPResponse } from "../types.js";
+import { invokeTool, type McpTool } from "./tools.js";
+import { logger } from "../observability/logger.js";
+
+export interface LegacyReply {
+  statusCode: number;
+  body: MCPResponse;
+}
+
+export function isLegacyEnvelope(body: unknown): boolean {
+  return !!body && typeof body === "object" && "service" in body && "action" in body && !("jsonrpc" in body);
+}
+
+/**
+ * 기존 { service, action: "invoke", payload } envelope 호환 shim
+ * service 이름을 MCP 도구로 매핑해서 JSON-RPC 서버와 같은 도구 구현을 재사용
+ * 실패 시 MCPResponse.error 에 에러 카탈로그 코드(errors.ts)를 담아 응답
+ */
+export async function handleLegacyRequest(tools: McpTool[], body: any): Promise<LegacyReply> {
+  const envelope = {
+    messageId: typeof body?.messageId === "string" ? body.messageId : "",
+    sessionId: typeof body?.sessionId === "string" ? body.sessionId : "",
+    service: typeof body?.service === "string" ? body.service : "",
+    action: "result" as const,
+  };
+
+  try {
+    const parsed = MCPRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      throw fromZodError(parsed.error, "INVALID_REQUEST");
+    }
+
+    const mcpReq = parsed.data;
+    const tool = tools.find((t) => t.legacyService === mcpReq.service);
+    if (!tool || mcpReq.action !== "invoke") {
+      throw new FlightServerError("UNSUPPORTED_SERVICE", `Unsupported MCP service or action: ${mcpReq.service}/${mcpReq.action}`);
+    }
+
+    const { result, metadata } = await invokeTool(tool, mcpReq.payload);
+    return { statusCode: 200, body: { ...envelope, result, metadata } };
+  } catch (err) {
+    const error = toFlightServerError(err);
+    logger.warn({ code: error.code, messageId: envelope.messageId, mcpService: envelope.service }, `레거시 MCP 요청 실패: ${error.message}`);
+    return {
+      statusCode: error.statusCode,
+      body: { ...envelope, result: {}, error: error.toPayload() },
+    };
+  }
+}
@@ -0,0 +1,120 @@
+// mcp-flight-server/src/mcp/server.ts
+
+import { JsonRpcRequestSchema } from "../schema.js";
+import type { JsonRpcError, JsonRpcId, JsonRpcResponse } from "../types.js";
+import { toFlightServerError } from "../errors.js";
+import { invokeTool, toToolDescriptor, type McpTool } from "./tools.js";
+
+export const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+export const SERVER_INFO = { name: "mcp-flight-server", version: "0.1.0" };
+
+// JSON-RPC 2.0 표준 에러 코드
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+} as const;
+
+export class JsonRpcException extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: unknown) {
+    super(message);
+  }
+}
+
+export interface McpServer {
+  tools: McpTool[];
+  // 응답이 필요 없는 알림(notification)이면 null 반환
+  handleMessage(message: unknown): Promise<JsonRpcResponse | null>;
+}
+
+function errorResponse(id: JsonRpcId | null, error: JsonRpcError): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error };
+}
+
+/**
+ * MCP 메서드(initialize, ping, tools/list, tools/call)를 처리하는 전송 계층 독립 디스패처
+ * Streamable HTTP, stdio 전송이 모두 이 디스패처를 공유
+ */
+export function createMcpServer(tools: McpTool[]): McpServer {
+  const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+  async function dispatch(method: string, params: Record<string, any>): Promise<Record<string, any>> {
+    switch (method) {
+      case "initialize": {
+        const requested = typeof params.protocolVersion === "string" ? params.protocolVersion : "";
+        return {
+          protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : LATEST_PROTOCOL_VERSION,
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: SERVER_INFO,
+          instructions: "Use lookup_locations to resolve place names to IATA codes, then search_flights to find offers.",
+        };
+      }
+      case "ping":
+        return {};
+      case "tools/list":
+        return { tools: tools.map(toToolDescriptor) };
+      case "tools/call": {
+        const tool = toolsByName.get(params.name);
+        if (!tool) {
+          throw new JsonRpcException(JSON_RPC_ERRORS.INVALID_PARAMS, `Unknown tool: ${params.name}`);
+        }
+
+        // 파라미터 오류는 JSON-RPC 에러로, 도구 실행 실패는 isError 결과로 전달 (모델이 읽고 대응할 수 있도록)
+        try {
+          const { result, metadata } = await invokeTool(tool, params.arguments);
+          return {
+            content: [{ type: "text", text: JSON.stringify(result) }],
+            structuredContent: result,
+            isError: false,
+            ...(metadata ? { _meta: metadata } : {}),
+          };
+        } catch (err) {
+          const error = toFlightServerError(err);
+          if (error.code === "INVALID_PARAMS") {
+            throw new JsonRpcException(JSON_RPC_ERRORS.INVALID_PARAMS, error.message, error.toPayload());
+          }
+          return {
+            content: [{ type: "text", text: JSON.stringify({ error: error.toPayload() }) }],
+            isError: true,
+          };
+        }
+      }
+      default:
+        throw new JsonRpcException(JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  return {
+    tools,
+    async handleMessage(message) {
+      const parsed = JsonRpcRequestSchema.safeParse(message);
+      if (!parsed.success) {
+        const id = (message as { id?: JsonRpcId })?.id ?? null;
+        return errorResponse(id, { code: JSON_RPC_ERRORS.INVALID_REQUEST, message: "Invalid JSON-RPC request" });
+      }
+
+      const { id, method, params = {} } = parsed.data;
+
+      // 알림(id 없음)은 응답하지 않음 (notifications/initialized 등)
+      if (id === undefined) {
+        return null;
+      }
+
+      try {
+        return { jsonrpc: "2.0", id, result: await dispatch(method, params) };
+      } catch (err) {
+        if (err instanceof JsonRpcException) {
+          return errorResponse(id, { code: err.code, message: err.message, data: err.data });
+        }
+        return errorResponse(id, {
+          code: JSON_RPC_ERRORS.INTERNAL_ERROR,
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    },
+  };
+}
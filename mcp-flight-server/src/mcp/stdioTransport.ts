@@ -0,0 +1,55 @@
+// mcp-flight-server/src/mcp/stdioTransport.ts
+
+import { createInterface } from "node:readline";
+import { JSON_RPC_ERRORS, type McpServer } from "./server.js";
+import { logToStderr } from "../observability/logger.js";
+
+/**
+ * MCP stdio 전송: stdin 에서 줄 단위 JSON-RPC 메시지를 읽고 stdout 으로 응답
+ * stdout 은 프로토콜 전용이므로 로그는 모두 stderr 로 보냄
+ */
+export function startStdioTransport(server: McpServer): void {
+  logToStderr();
+
+  const rl = createInterface({ input: process.stdin });
+
+  const write = (message: unknown) => {
+    process.stdout.write(`${JSON.stringify(message)}\n`);
+  };
+
+  // 응답 순서를 보장하고 종료 시 처리 중인 요청을 기다리기 위해 순차 처리
+  let queue = Promise.resolve();
+
+  const handleLine = async (line: string) => {
+    if (!line.trim()) return;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      write({ jsonrpc: "2.0", id: null, error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: "Parse error" } });
+      return;
+    }
+
+    if (Array.isArray(message)) {
+      const responses = [];
+      for (const m of message) {
+        const response = await server.handleMessage(m);
+        if (response) responses.push(response);
+      }
+      if (responses.length > 0) write(responses);
+      return;
+    }
+
+    const response = await server.handleMessage(message);
+    if (response) write(response);
+  };
+
+  rl.on("line", (line) => {
+    queue = queue.then(() => handleLine(line));
+  });
+
+  rl.on("close", () => {
+    queue.then(() => process.exit(0));
+  });
+}
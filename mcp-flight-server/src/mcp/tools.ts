@@ -0,0 +1,288 @@
+// mcp-flight-server/src/mcp/tools.ts
+
+import type { ZodType, ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { fromZodError, toFlightServerError } from "../errors.js";
+import {
+  CreateOrderParamsSchema,
+  CreatePriceWatchParamsSchema,
+  DeletePriceWatchResultSchema,
+  FlightOrderSchema,
+  FlightSearchResultSchema,
+  ListPriceWatchesParamsSchema,
+  LocationLookupParamsSchema,
+  LocationLookupResultSchema,
+  OfferPricingSchema,
+  OrderIdParamsSchema,
+  OrderRequestParamsSchema,
+  OrderValidationSchema,
+  PriceCalendarParamsSchema,
+  PriceCalendarSchema,
+  PriceHistorySchema,
+  PriceOfferParamsSchema,
+  PriceWatchListSchema,
+  PriceWatchSchema,
+  SearchFlightParamsSchema,
+  WatchIdParamsSchema,
+} from "../schema.js";
+import type { FlightServices } from "../services.js";
+import type { OrderService } from "../orders/orderService.js";
+import type { WatchService } from "../watches/watchService.js";
+import { logger } from "../observability/logger.js";
+import { counter, histogram } from "../observability/metrics.js";
+
+const toolCalls = counter("mcp_tool_calls_total", "MCP 도구 호출 수 (tool, outcome: ok 또는 에러 카탈로그 코드)");
+const toolDuration = histogram("mcp_tool_duration_seconds", "MCP 도구 실행 시간 (tool)");
+
+export interface McpToolResult {
+  result: Record<string, any>;
+  metadata?: Record<string, any>;
+}
+
+export interface McpTool<TInput = any> {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: ZodType<TInput>;
+  outputSchema: ZodTypeAny;
+  // 레거시 envelope의 service 이름 (호환 shim에서 매핑)
+  legacyService?: string;
+  handler(args: TInput): Promise<McpToolResult>;
+}
+
+export interface McpToolDescriptor {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Record<string, any>;
+  outputSchema: Record<string, any>;
+}
+
+function createWatchTools(watches: WatchService): McpTool[] {
+  return [
+    {
+      name: "create_price_watch",
+      title: "Create a price watch",
+      description:
+        "Track the price of a flight search. The server re-runs the search periodically, records the lowest price, and sends an alert (webhook) when it drops to targetPrice or below. Use when the user asks to be told when a fare gets cheaper.",
+      inputSchema: CreatePriceWatchParamsSchema,
+      outputSchema: PriceWatchSchema,
+      async handler(args) {
+        const result = await watches.create(args);
+        return { result, metadata: { queriedAt: new Date().toISOString() } };
+      },
+    },
+    {
+      name: "list_price_watches",
+      title: "List price watches",
+      description: "List all price watches with their target price, lowest price seen so far and next check time.",
+      inputSchema: ListPriceWatchesParamsSchema,
+      outputSchema: PriceWatchListSchema,
+      async handler({ tenant }) {
+        return { result: { watches: await watches.list(tenant) } };
+      },
+    },
+    {
+      name: "get_price_history",
+      title: "Get price history",
+      description: "Get the recorded lowest-price history of a price watch, oldest first.",
+      inputSchema: WatchIdParamsSchema,
+      outputSchema: PriceHistorySchema,
+      async handler({ watchId, tenant }) {
+        const watch = await watches.get(watchId, tenant);
+        return {
+          result: {
+            watchId,
+            status: watch.status,
+            currency: watch.currency,
+            targetPrice: watch.targetPrice,
+            ...(watch.lowestPrice !== undefined ? { lowestPrice: watch.lowestPrice } : {}),
+            points: watch.history,
+          },
+        };
+      },
+    },
+    {
+      name: "delete_price_watch",
+      title: "Delete a price watch",
+      description: "Stop tracking a price watch and delete its history.",
+      inputSchema: WatchIdParamsSchema,
+      outputSchema: DeletePriceWatchResultSchema,
+      async handler({ watchId, tenant }) {
+        await watches.delete(watchId, tenant);
+        return { result: { watchId, deleted: true } };
+      },
+    },
+  ];
+}
+
+function createOrderTools(orders: OrderService, source: string): McpTool[] {
+  return [
+    {
+      name: "validate_order",
+      title: "Validate a booking",
+      description:
+        "Check a booking before making it, without booking anything: re-prices the offer (like price_flight_offer) and validates the travelers against the search (passenger counts by date of birth, passports for international trips, passport expiry). Returns the confirmed pricing and the travelers with their ids and types.",
+      inputSchema: OrderRequestParamsSchema,
+      outputSchema: OrderValidationSchema,
+      async handler(args) {
+        const result = await orders.validate(args);
+        return { result, metadata: { source, queriedAt: result.pricing.pricedAt } };
+      },
+    },
+    {
+      name: "create_order",
+      title: "Book a flight",
+      description:
+        "Book an offer from a search_flights result for the given travelers and contact, and return the order with its PNR. The offer is re-priced first; booking fails with OFFER_UNAVAILABLE if seats ran out and PRICE_CHANGED if the total differs from expectedTotal. Only call after the user explicitly confirmed the flight, travelers and price. Retrying with the same idempotencyKey returns the same order.",
+      inputSchema: CreateOrderParamsSchema,
+      outputSchema: FlightOrderSchema,
+      async handler(args) {
+        const result = await orders.create(args);
+        return { result, metadata: { source: result.provider, queriedAt: new Date().toISOString() } };
+      },
+    },
+    {
+      name: "get_order",
+      title: "Get a booking",
+      description: "Get a booked order by id: status (confirmed/cancelled), PNR, flight, travelers and contact.",
+      inputSchema: OrderIdParamsSchema,
+      outputSchema: FlightOrderSchema,
+      async handler({ orderId, tenant }) {
+        return { result: await orders.get(orderId, tenant) };
+      },
+    },
+    {
+      name: "cancel_order",
+      title: "Cancel a booking",
+      description: "Cancel a booked order with the provider. Cancelling an already cancelled order returns it unchanged. Only call after the user explicitly confirmed the cancellation.",
+      inputSchema: OrderIdParamsSchema,
+      outputSchema: FlightOrderSchema,
+      async handler({ orderId, tenant }) {
+        return { result: await orders.cancel(orderId, tenant), metadata: { queriedAt: new Date().toISOString() } };
+      },
+    },
+  ];
+}
+
+export function createMcpTools({ flightProvider, flightSearch, priceCalendar, offerPricing, locations, watches, orders }: FlightServices): McpTool[] {
+  return [
+    {
+      name: "search_flights",
+      title: "Search flights",
+      description:
+        "Search flight offers between two IATA airport or city codes for a departure date (YYYY-MM-DD), with an optional return date, or for a multi-city/open-jaw trip given as originDestinations (2-6 legs in order, each with origin, destination and departDate). Supports passengers (adults/children/infants), currency, cabin class, stop limits, airline include/exclude lists and a maximum price. Results are ranked (sort: best, cheapest, fastest, earliest), tagged cheapest/fastest/best, and paginated; pass nextCursor as cursor to get the next page.",
+      inputSchema: SearchFlightParamsSchema,
+      outputSchema: FlightSearchResultSchema,
+      legacyService: "flight_search",
+      async handler(args) {
+        const { result, cache, cachedAt } = await flightSearch.search(args);
+        return {
+          result,
+          metadata: {
+            source: flightProvider.name,
+            queriedAt: new Date().toISOString(),
+            cache,
+            ...(cachedAt ? { cachedAt } : {}),
+          },
+        };
+      },
+    },
+    {
+      name: "search_price_calendar",
+      title: "Search a flexible-date price calendar",
+      description:
+        'Find the cheapest fare for every date combination when the user\'s dates are flexible ("cheapest week in March", "around May 10", "a 5-7 night trip in June"). Give departDate with departWindowDays (±days) or a departFrom/departTo range, and for round trips either returnDate with returnWindowDays or tripLengthMin/tripLengthMax in nights. Returns one cell per date combination (cheapest price, carrier, stops) plus the overall cheapest; then use search_flights on the chosen dates for full offers.',
+      inputSchema: PriceCalendarParamsSchema,
+      outputSchema: PriceCalendarSchema,
+      async handler(args) {
+        const result = await priceCalendar.search(args);
+        return { result, metadata: { source: flightProvider.name, queriedAt: new Date().toISOString() } };
+      },
+    },
+    {
+      name: "price_flight_offer",
+      title: "Confirm an offer's price and availability",
+      description:
+        "Re-check one offer from a search_flights result with the provider before booking. Returns the confirmed price (status price_changed with priceDifference if it moved since the search), whether enough seats are left (status unavailable if not), fare rules (refund/exchange penalties) and checked baggage per segment. Use when the user picks a flight or asks whether a price is still valid.",
+      inputSchema: PriceOfferParamsSchema,
+      outputSchema: OfferPricingSchema,
+      async handler(args) {
+        const result = await offerPricing.price(args);
+        return { result, metadata: { source: flightProvider.name, queriedAt: result.pricedAt } };
+      },
+    },
+    {
+      name: "lookup_locations",
+      title: "Look up airports and cities",
+      description:
+        'Resolve free text such as "Seoul", "NYC" or "Incheon" to ranked IATA airport and city codes. Use this before search_flights when the user names a place instead of a code.',
+      inputSchema: LocationLookupParamsSchema,
+      outputSchema: LocationLookupResultSchema,
+      legacyService: "location_lookup",
+      async handler(args) {
+        const result = await locations.lookup(args);
+        return { result, metadata: { source: result.source, queriedAt: new Date().toISOString() } };
+      },
+    },
+    ...createWatchTools(watches),
+    ...createOrderTools(orders, flightProvider.name),
+  ];
+}
+
+/**
+ * 입력/출력 스키마 검증을 포함한 도구 실행
+ * - 입력 검증 실패: INVALID_PARAMS
+ * - 공급자 응답이 출력 스키마와 불일치: INVALID_UPSTREAM_RESPONSE
+ * JSON-RPC, 레거시 envelope, REST 경로가 모두 이 함수를 거치므로 도구 호출 메트릭도 여기서 집계
+ */
+export async function invokeTool(tool: McpTool, args: unknown): Promise<McpToolResult> {
+  const stopTimer = toolDuration.startTimer({ tool: tool.name });
+  try {
+    const result = await runTool(tool, args);
+    toolCalls.inc({ tool: tool.name, outcome: "ok" });
+    return result;
+  } catch (err) {
+    toolCalls.inc({ tool: tool.name, outcome: toFlightServerError(err).code });
+    throw err;
+  } finally {
+    stopTimer();
+  }
+}
+
+async function runTool(tool: McpTool, args: unknown): Promise<McpToolResult> {
+  const input = tool.inputSchema.safeParse(args ?? {});
+  if (!input.success) {
+    throw fromZodError(input.error);
+  }
+
+  const { result, metadata } = await tool.handler(input.data);
+
+  const output = tool.outputSchema.safeParse(result);
+  if (!output.success) {
+    logger.error({ tool: tool.name, issues: output.error.issues }, "결과 스키마 검증 실패");
+    throw fromZodError(output.error, "INVALID_UPSTREAM_RESPONSE");
+  }
+
+  return { result: output.data, metadata };
+}
+
+// zodToJsonSchema 의 제네릭 추론이 tsc 에서 너무 깊어지므로 단순한 시그니처로 고정
+const toJsonSchema = zodToJsonSchema as unknown as (schema: ZodTypeAny, options: Record<string, unknown>) => Record<string, any>;
+
+// Zod 스키마 → MCP tools/list 용 JSON Schema
+export function toToolDescriptor(tool: McpTool): McpToolDescriptor {
+  const { $schema, ...inputSchema } = toJsonSchema(tool.inputSchema, { target: "jsonSchema7", $refStrategy: "none" });
+  const { $schema: _outputDialect, ...outputSchema } = toJsonSchema(tool.outputSchema, {
+    target: "jsonSchema7",
+    $refStrategy: "none",
+  });
+
+  return {
+    name: tool.name,
+    title: tool.title,
+    description: tool.description,
+    inputSchema,
+    outputSchema,
+  };
+}
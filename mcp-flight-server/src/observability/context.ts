@@ -0,0 +1,62 @@
+// mcp-flight-server/src/observability/context.ts
+// api-gateway 와 mcp-flight-server 가 같은 파일을 가짐: 헤더 경로와 SERVICE 외에는 그대로 유지 (mcp-flight-server/src/observability/shared.test.ts 가 확인)
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes, randomUUID } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+
+/**
+ * 요청 하나를 따라가는 추적 정보
+ * correlationId 는 들어온 요청의 X-Request-Id (없으면 새로 발급), 다음 서비스 호출에도 같은 값을 전달 (클라이언트 → 게이트웨이 → 플라이트 서버)
+ * traceId/spanId 는 W3C traceparent 형식 (https://www.w3.org/TR/trace-context/)
+ */
+export interface TraceContext {
+  correlationId: string;
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+}
+
+export const CORRELATION_HEADER = "x-request-id";
+
+const storage = new AsyncLocalStorage<TraceContext>();
+
+const TRACEPARENT = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+// 헤더로 받은 id 는 로그에 그대로 남으므로 길이/문자 제한
+const CORRELATION_ID = /^[\w.:-]{1,128}$/;
+
+export const newTraceId = () => randomBytes(16).toString("hex");
+export const newSpanId = () => randomBytes(8).toString("hex");
+
+export function currentTrace(): TraceContext | undefined {
+  return storage.getStore();
+}
+
+export function runWithTrace<T>(trace: TraceContext, fn: () => T): T {
+  return storage.run(trace, fn);
+}
+
+export function correlationIdFrom(header: string | string[] | undefined): string {
+  return typeof header === "string" && CORRELATION_ID.test(header) ? header : randomUUID();
+}
+
+/**
+ * 들어온 요청의 헤더 → 이 요청의 추적 정보 (traceparent 가 있으면 같은 trace 의 자식 span)
+ */
+export function traceFromHeaders(headers: IncomingHttpHeaders, correlationId: string): TraceContext {
+  const parent = typeof headers.traceparent === "string" ? TRACEPARENT.exec(headers.traceparent) : null;
+  return {
+    correlationId,
+    traceId: parent?.[1] ?? newTraceId(),
+    spanId: newSpanId(),
+    ...(parent ? { parentSpanId: parent[2] } : {}),
+  };
+}
+
+/**
+ * 다른 서비스 호출에 붙이는 헤더: X-Request-Id + traceparent (현재 span 이 부모)
+ */
+export function traceHeaders(): Record<string, string> {
+  const trace = currentTrace();
+  return trace ? { [CORRELATION_HEADER]: trace.correlationId, traceparent: `00-${trace.traceId}-${trace.spanId}-01` } : {};
+}
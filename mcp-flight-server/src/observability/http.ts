@@ -0,0 +1,61 @@
+// mcp-flight-server/src/observability/http.ts
+// api-gateway 와 mcp-flight-server 가 같은 파일을 가짐: 헤더 경로와 SERVICE 외에는 그대로 유지 (mcp-flight-server/src/observability/shared.test.ts 가 확인)
+
+import type { IncomingMessage } from "node:http";
+import type { FastifyInstance } from "fastify";
+import { CORRELATION_HEADER, correlationIdFrom, runWithTrace, traceFromHeaders, type TraceContext } from "./context.js";
+import { counter, histogram, renderMetrics } from "./metrics.js";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    trace: TraceContext;
+  }
+}
+
+const httpRequests = counter("http_requests_total", "처리한 HTTP 요청 수 (method, route, status)");
+const httpDuration = histogram("http_request_duration_seconds", "HTTP 요청 처리 시간 (method, route)");
+
+// 헬스 체크/스크레이프는 자주 호출되므로 완료 로그를 남기지 않음 (메트릭은 집계)
+const QUIET_ROUTES = new Set(["/health", "/health/live", "/health/ready", "/metrics"]);
+
+// Fastify genReqId: 들어온 X-Request-Id 가 있으면 그대로 요청 id 로 사용 (클라이언트 → 게이트웨이 → 플라이트 서버 로그를 같은 id 로 연결)
+export function requestIdFromHeaders(request: IncomingMessage): string {
+  return correlationIdFrom(request.headers[CORRELATION_HEADER]);
+}
+
+/**
+ * 요청 추적/메트릭/완료 로그 훅과 GET /metrics (Prometheus)
+ * 다른 훅보다 먼저 등록해야 인증 실패 같은 이른 응답도 같은 correlationId 로 기록됨
+ */
+export function registerObservability(app: FastifyInstance): void {
+  app.decorateRequest("trace", null as unknown as TraceContext);
+
+  app.addHook("onRequest", (request, reply, done) => {
+    request.trace = traceFromHeaders(request.headers, request.id);
+    reply.header(CORRELATION_HEADER, request.id);
+    runWithTrace(request.trace, done);
+  });
+
+  // 본문 파싱은 스트림 이벤트에서 이어지므로 AsyncLocalStorage 컨텍스트가 끊길 수 있어 핸들러 전에 다시 연결
+  app.addHook("preValidation", (request, _reply, done) => {
+    runWithTrace(request.trace, done);
+  });
+
+  app.addHook("onResponse", async (request, reply) => {
+    const route = request.routeOptions.url ?? "unmatched";
+    const status = reply.statusCode;
+    httpRequests.inc({ method: request.method, route, status: String(status) });
+    httpDuration.observe({ method: request.method, route }, reply.elapsedTime / 1000);
+
+    if (QUIET_ROUTES.has(route)) return;
+    const level = status >= 500 ? "error" : status >= 400 ? "warn" : "info";
+    request.log[level](
+      { method: request.method, url: request.url, statusCode: status, durationMs: Math.round(reply.elapsedTime), traceId: request.trace.traceId },
+      "요청 처리 완료"
+    );
+  });
+
+  app.get("/metrics", async (_request, reply) => {
+    return reply.type("text/plain; version=0.0.4; charset=utf-8").send(renderMetrics());
+  });
+}
@@ -0,0 +1,126 @@
+// mcp-flight-server/src/observability/metrics.ts
+// api-gateway 와 mcp-flight-server 가 같은 파일을 가짐: 헤더 경로와 SERVICE 외에는 그대로 유지 (mcp-flight-server/src/observability/shared.test.ts 가 확인)
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, seconds: number): void;
+  // 호출하면 시작 시점부터의 시간을 기록하는 함수
+  startTimer(labels: Labels): () => void;
+}
+
+// 초 단위 지연 시간 (LLM/Amadeus 호출은 수 초~수십 초까지 걸리므로 30초까지)
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// 프로세스 하나에 레지스트리 하나 (/metrics 에서 전부 출력)
+const registry = new Map<string, Metric>();
+
+const escapeLabel = (value: string) => value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  return entries.length > 0 ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(",")}}` : "";
+}
+
+// 라벨 순서가 달라도 같은 시계열이 되도록 정렬한 키
+const seriesKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+function register<T extends Metric>(metric: T): T {
+  if (registry.has(metric.name)) {
+    throw new Error(`이미 등록된 메트릭입니다: ${metric.name}`);
+  }
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+export function counter(name: string, help: string): Counter {
+  const series = new Map<string, { labels: Labels; value: number }>();
+  register({
+    name,
+    help,
+    type: "counter",
+    render: () => [...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  });
+
+  return {
+    inc(labels = {}, value = 1) {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+  };
+}
+
+/**
+ * 출력할 때 값을 읽어오는 gauge (circuit 상태, 메모리 사용량 등)
+ */
+export function gauge(name: string, help: string, collect: () => Array<[Labels, number]>): void {
+  register({
+    name,
+    help,
+    type: "gauge",
+    render: () => collect().map(([labels, value]) => `${name}${formatLabels(labels)} ${value}`),
+  });
+}
+
+export function histogram(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS): Histogram {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  register({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((le, index) => `${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[index]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+  });
+
+  const observe = (labels: Labels, seconds: number) => {
+    const key = seriesKey(labels);
+    const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+    // 누적(cumulative) 버킷: 값보다 크거나 같은 모든 버킷을 증가
+    buckets.forEach((le, index) => {
+      if (seconds <= le) entry.counts[index]++;
+    });
+    entry.sum += seconds;
+    entry.count++;
+    series.set(key, entry);
+  };
+
+  return {
+    observe,
+    startTimer(labels) {
+      const started = performance.now();
+      return () => observe(labels, (performance.now() - started) / 1000);
+    },
+  };
+}
+
+gauge("process_uptime_seconds", "프로세스 시작 후 경과 시간", () => [[{}, Math.round(process.uptime())]]);
+gauge("process_resident_memory_bytes", "프로세스 RSS 메모리", () => [[{}, process.memoryUsage().rss]]);
+gauge("nodejs_heap_used_bytes", "V8 힙 사용량", () => [[{}, process.memoryUsage().heapUsed]]);
+
+/**
+ * Prometheus 텍스트 형식 (text/plain; version=0.0.4)
+ */
+export function renderMetrics(): string {
+  return [...registry.values()]
+    .flatMap((metric) => [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render()])
+    .join("\n")
+    .concat("\n");
+}
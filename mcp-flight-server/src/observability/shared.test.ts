@@ -0,0 +1,29 @@
+// mcp-flight-server/src/observability/shared.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "node:fs/promises";
+
+// 두 패키지가 같은 내용으로 가지는 파일 (공유 패키지 없이 각자 배포할 수 있도록 복사본 유지)
+const SHARED_FILES = [
+  "health.ts",
+  "observability/context.ts",
+  "observability/http.ts",
+  "observability/logger.ts",
+  "observability/metrics.ts",
+  "observability/tracing.ts",
+];
+
+// 서비스마다 다른 부분 (헤더 경로, 로그의 service 이름) 을 지운 내용
+async function normalized(pkg: string, file: string): Promise<string> {
+  const source = await readFile(new URL(`../../../${pkg}/src/${file}`, import.meta.url), "utf8");
+  return source.replace(`// ${pkg}/src/${file}\n`, "").replace(`const SERVICE = "${pkg}";`, "");
+}
+
+describe("api-gateway 와 공유하는 관측/헬스 파일", () => {
+  for (const file of SHARED_FILES) {
+    it(`${file} 는 헤더 경로와 SERVICE 외에는 같음`, async () => {
+      assert.equal(await normalized("mcp-flight-server", file), await normalized("api-gateway", file));
+    });
+  }
+});
@@ -0,0 +1,91 @@
+// mcp-flight-server/src/offerPricing.ts
+
+import { logger } from "./observability/logger.js";
+import type { FlightSearchService } from "./flightSearch.js";
+import type { FlightProvider } from "./providers/index.js";
+import type { FlightOffer, OfferPricing, OfferPricingStatus, PriceOfferParams, SearchFlightParams, SegmentBaggage } from "./types.js";
+
+export interface RepricedOffer {
+  pricing: OfferPricing;
+  // 공급자 원본 응답을 포함한 확인된 offer (예약 생성에 사용)
+  offer: FlightOffer;
+  // 검색 당시 조건 (승객 수 등)
+  search: SearchFlightParams;
+}
+
+export interface OfferPricingService {
+  price(params: PriceOfferParams): Promise<OfferPricing>;
+  reprice(params: PriceOfferParams): Promise<RepricedOffer>;
+}
+
+// 구간별 위탁 수하물 허용량 (구간마다 다를 수 있으므로 대표값이 아닌 전체 목록)
+function segmentBaggage(offer: FlightOffer): SegmentBaggage[] {
+  return offer.itineraries.flatMap((itinerary) =>
+    itinerary.segments.map((segment) => ({
+      segmentId: segment.id,
+      route: `${segment.departure.iataCode} → ${segment.arrival.iataCode}`,
+      ...(segment.checkedBags ? { checkedBags: segment.checkedBags } : {}),
+    }))
+  );
+}
+
+/**
+ * 가격 확인: 검색 결과 스냅샷의 항공편을 공급자에게 다시 확인해서 현재 가격, 좌석, 운임 규정, 수하물을 반환
+ * 검색 당시 가격과 다르면 price_changed, 남은 좌석이 승객 수보다 적으면 unavailable
+ */
+export function createOfferPricingService(flightProvider: FlightProvider, flightSearch: FlightSearchService): OfferPricingService {
+  const reprice = async ({ searchId, offerId }: PriceOfferParams): Promise<RepricedOffer> => {
+    const { offer, params } = flightSearch.findOffer(searchId, offerId);
+    const priced = await flightProvider.priceOffer(offer, params);
+
+    // 가격 확인 응답에 좌석 수가 없으면 검색 당시 값을 유지
+    const confirmedWithRaw: FlightOffer = {
+      ...priced.offer,
+      ...(priced.offer.bookableSeats === undefined && offer.bookableSeats !== undefined ? { bookableSeats: offer.bookableSeats } : {}),
+    };
+    const { raw, ...confirmed } = confirmedWithRaw;
+    const seatsRequired = (params.adults ?? 1) + (params.children ?? 0);
+    const seatsAvailable = confirmed.bookableSeats === undefined || confirmed.bookableSeats >= seatsRequired;
+    const priceDifference = Math.round((Number(confirmed.price.total) - Number(offer.price.total)) * 100) / 100;
+    const status: OfferPricingStatus = !seatsAvailable ? "unavailable" : priceDifference !== 0 ? "price_changed" : "confirmed";
+
+    logger.info(
+      {
+        searchId,
+        offerId,
+        searchedTotal: offer.price.total,
+        total: confirmed.price.total,
+        currency: confirmed.price.currency,
+        bookableSeats: confirmed.bookableSeats,
+        seatsRequired,
+        status,
+      },
+      "가격 확인"
+    );
+
+    return {
+      pricing: {
+        searchId,
+        offerId,
+        status,
+        offer: params.includeRaw ? confirmedWithRaw : confirmed,
+        previousPrice: offer.price,
+        priceDifference,
+        seatsRequired,
+        seatsAvailable,
+        fareRules: priced.fareRules,
+        baggage: segmentBaggage(confirmed),
+        pricedAt: new Date().toISOString(),
+      },
+      offer: confirmedWithRaw,
+      search: params,
+    };
+  };
+
+  return {
+    async price(params) {
+      return (await reprice(params)).pricing;
+    },
+    reprice,
+  };
+}
@@ -0,0 +1,117 @@
+// mcp-flight-server/src/orders/orderService.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createOrderService } from "./orderService.js";
+import { createMemoryOrderStore } from "./store.js";
+import { createFlightSearchService } from "../flightSearch.js";
+import { createOfferPricingService } from "../offerPricing.js";
+import { createMockFlightProvider } from "../providers/mockProvider.js";
+import { FlightServerError } from "../errors.js";
+import { configureLogger } from "../observability/logger.js";
+import { toLocalTime } from "../time.js";
+import type { CreateOrderParams, SearchFlightParams } from "../types.js";
+
+configureLogger({ level: "silent" });
+
+const CONFIG = { cacheTtlSeconds: 300, cacheMaxEntries: 10, resultTtlSeconds: 900 };
+const ROUTE: SearchFlightParams = { origin: "ICN", destination: "NRT", departDate: "2030-03-15", adults: 1 };
+
+const TRAVELER = {
+  firstName: "GILDONG",
+  lastName: "HONG",
+  dateOfBirth: "1990-01-01",
+  gender: "MALE" as const,
+  passport: { number: "M12345678", expiryDate: "2035-01-01", issuanceCountry: "KR", nationality: "KR" },
+};
+const CONTACT = { email: "hong@example.com", phone: { countryCallingCode: "82", number: "1012345678" } };
+
+// 검색 후 좌석이 남은 첫 항공편을 확인된 가격으로 예약하는 요청
+async function setup(route: SearchFlightParams = ROUTE) {
+  const provider = createMockFlightProvider();
+  const flightSearch = createFlightSearchService(provider, CONFIG);
+  const offerPricing = createOfferPricingService(provider, flightSearch);
+  const store = createMemoryOrderStore();
+  const orders = createOrderService({ store, flightProvider: provider, offerPricing });
+
+  const { result } = await flightSearch.search(route);
+  for (const offer of result.items) {
+    const pricing = await offerPricing.price({ searchId: result.searchId!, offerId: offer.id });
+    if (pricing.status === "unavailable") continue;
+    const request: CreateOrderParams = {
+      searchId: result.searchId!,
+      offerId: offer.id,
+      travelers: [TRAVELER],
+      contact: CONTACT,
+      expectedTotal: Number(pricing.offer.price.total),
+    };
+    return { orders, store, request };
+  }
+  throw new Error("예약할 수 있는 항공편이 없습니다");
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof FlightServerError && error.code === "NOT_FOUND";
+}
+
+function isPassportRequired(error: unknown): boolean {
+  return error instanceof FlightServerError && error.code === "INVALID_PARAMS" && /travelers\.0\.passport: 국제선은 여권/.test(error.message);
+}
+
+const { passport, ...WITHOUT_PASSPORT } = TRAVELER;
+
+describe("예약 서비스", () => {
+  it("국내선은 여권 없이 예약 가능, 국제선은 여권 필요", async () => {
+    const domestic = await setup({ ...ROUTE, origin: "GMP", destination: "CJU", nonStop: true });
+    assert.equal((await domestic.orders.validate({ ...domestic.request, travelers: [WITHOUT_PASSPORT] })).travelers.length, 1);
+
+    const international = await setup();
+    await assert.rejects(international.orders.validate({ ...international.request, travelers: [WITHOUT_PASSPORT] }), isPassportRequired);
+  });
+
+  it("국가를 알 수 없는 공항이 있으면 국제선으로 보고 여권 필요", async () => {
+    const { orders, request } = await setup({ ...ROUTE, origin: "GMP", destination: "QQQ", nonStop: true });
+    await assert.rejects(orders.validate({ ...request, travelers: [WITHOUT_PASSPORT] }), isPassportRequired);
+    assert.equal((await orders.validate(request)).travelers.length, 1);
+  });
+
+  it("테넌트를 지정하면 다른 테넌트의 예약은 조회/취소할 수 없음", async () => {
+    const { orders, request } = await setup();
+    const order = await orders.create({ ...request, tenant: "acme" });
+    assert.equal(order.tenant, "acme");
+
+    assert.equal((await orders.get(order.id, "acme")).id, order.id);
+    await assert.rejects(orders.get(order.id, "other"), isNotFound);
+    await assert.rejects(orders.cancel(order.id, "other"), isNotFound);
+    assert.equal((await orders.get(order.id)).status, "confirmed");
+
+    assert.equal((await orders.cancel(order.id, "acme")).status, "cancelled");
+  });
+
+  it("출발 여부는 현지 시각이 아닌 UTC 로 판단 (서울 출발 1시간 전 출발 편은 취소 불가)", async () => {
+    const { orders, store, request } = await setup();
+    const departedAt = Date.now() - 60 * 60 * 1000;
+    const seoulDeparture = { iataCode: "ICN", at: toLocalTime(departedAt, "Asia/Seoul"), timezone: "Asia/Seoul", atUtc: new Date(departedAt).toISOString() };
+
+    for (const departure of [seoulDeparture, { iataCode: "ICN", at: seoulDeparture.at }]) {
+      const order = await orders.create(request);
+      const [segment] = order.offer.itineraries[0].segments;
+      order.offer.itineraries[0].segments[0] = { ...segment, departure };
+      await store.save(order);
+      await assert.rejects(orders.cancel(order.id), /이미 출발한 항공편/);
+    }
+  });
+
+  it("idempotency key 는 테넌트별: 같은 테넌트는 같은 예약, 다른 테넌트는 새 예약", async () => {
+    const { orders, request } = await setup();
+    const keyed = { ...request, idempotencyKey: "tap-12345678" };
+
+    const [first, retried] = await Promise.all([orders.create({ ...keyed, tenant: "acme" }), orders.create({ ...keyed, tenant: "acme" })]);
+    assert.equal(retried.id, first.id);
+    assert.equal((await orders.create({ ...keyed, tenant: "acme" })).id, first.id);
+
+    const other = await orders.create({ ...keyed, tenant: "other" });
+    assert.notEqual(other.id, first.id);
+    assert.equal(other.tenant, "other");
+  });
+});
@@ -0,0 +1,253 @@
+// mcp-flight-server/src/orders/orderService.ts
+
+import { randomUUID } from "node:crypto";
+import { FlightServerError } from "../errors.js";
+import { countryForIata, timezoneForIata } from "../locations/airports.js";
+import { logger } from "../observability/logger.js";
+import { localToUtcMillis } from "../time.js";
+import type { OfferPricingService } from "../offerPricing.js";
+import type { FlightProvider } from "../providers/index.js";
+import type { OrderStore } from "./store.js";
+import type {
+  CreateOrderParams,
+  FlightEndpoint,
+  FlightOffer,
+  FlightOrder,
+  OrderRequestParams,
+  OrderValidation,
+  SearchFlightParams,
+  Traveler,
+  TravelerInput,
+  TravelerType,
+} from "../types.js";
+
+// 첫 출발일 기준 나이: 2세 미만 유아(좌석 없음), 12세 미만 소아
+const INFANT_MAX_AGE = 2;
+const CHILD_MAX_AGE = 12;
+
+// offer 의 travelerPricings 와 같은 순서로 승객 id 부여
+const TRAVELER_TYPE_ORDER: TravelerType[] = ["ADULT", "CHILD", "HELD_INFANT"];
+const TRAVELER_TYPE_LABEL: Record<TravelerType, string> = { ADULT: "성인", CHILD: "소아", HELD_INFANT: "유아" };
+
+export interface OrderService {
+  // 가격/좌석 확인과 승객 정보 검증만 하고 예약하지 않음
+  validate(params: OrderRequestParams): Promise<OrderValidation>;
+  create(params: CreateOrderParams): Promise<FlightOrder>;
+  // tenant 를 지정하면 그 테넌트의 예약만 (다른 테넌트의 예약은 NOT_FOUND)
+  get(id: string, tenant?: string): Promise<FlightOrder>;
+  cancel(id: string, tenant?: string): Promise<FlightOrder>;
+}
+
+export interface OrderServiceDeps {
+  store: OrderStore;
+  flightProvider: FlightProvider;
+  offerPricing: OfferPricingService;
+}
+
+interface TravelerIssue {
+  path: string;
+  message: string;
+}
+
+// 만 나이 (YYYY-MM-DD 문자열 비교)
+function ageOn(dateOfBirth: string, date: string): number {
+  const years = Number(date.slice(0, 4)) - Number(dateOfBirth.slice(0, 4));
+  return date.slice(5) < dateOfBirth.slice(5) ? years - 1 : years;
+}
+
+function travelerTypeFor(dateOfBirth: string, departDate: string): TravelerType {
+  const age = ageOn(dateOfBirth, departDate);
+  return age < INFANT_MAX_AGE ? "HELD_INFANT" : age < CHILD_MAX_AGE ? "CHILD" : "ADULT";
+}
+
+// 번들 데이터셋에 국가 정보가 없는 공항이 하나라도 있으면 국제선으로 판단 (모른다고 여권 확인을 건너뛰지 않음)
+function isInternational(offer: FlightOffer): boolean {
+  const countries = offer.itineraries
+    .flatMap((itinerary) => itinerary.segments.flatMap((segment) => [segment.departure.iataCode, segment.arrival.iataCode]))
+    .map(countryForIata);
+  return countries.some((country) => !country) || new Set(countries).size > 1;
+}
+
+// at 은 현지 시각(오프셋 없음)이므로 공급자가 준 UTC 시각, 없으면 공항 타임존으로 변환
+function utcMillis(endpoint: FlightEndpoint): number {
+  return endpoint.atUtc ? Date.parse(endpoint.atUtc) : localToUtcMillis(endpoint.at, endpoint.timezone ?? timezoneForIata(endpoint.iataCode));
+}
+
+function countLabel(counts: Record<TravelerType, number>): string {
+  return TRAVELER_TYPE_ORDER.map((type) => `${TRAVELER_TYPE_LABEL[type]} ${counts[type]}`).join(", ");
+}
+
+/**
+ * 승객 정보를 검색 조건과 항공편에 맞춰 검증하고 id/유형 부여
+ * - 나이로 정한 유형별 인원이 검색한 승객 구성과 같아야 함
+ * - 국제선은 여권 필수, 여권 만료일은 마지막 도착일 이후
+ */
+function assignTravelers(inputs: TravelerInput[], search: SearchFlightParams, offer: FlightOffer): Traveler[] {
+  const segments = offer.itineraries.flatMap((itinerary) => itinerary.segments);
+  const departDate = segments[0].departure.at.slice(0, 10);
+  const lastArrivalDate = segments[segments.length - 1].arrival.at.slice(0, 10);
+  const passportRequired = isInternational(offer);
+  const issues: TravelerIssue[] = [];
+
+  const typed = inputs.map((input, index) => {
+    if (passportRequired && !input.passport) {
+      issues.push({ path: `travelers.${index}.passport`, message: "국제선은 여권 정보가 필요합니다" });
+    }
+    if (input.passport && input.passport.expiryDate < lastArrivalDate) {
+      issues.push({ path: `travelers.${index}.passport.expiryDate`, message: `여권 만료일이 마지막 비행일(${lastArrivalDate}) 이후여야 합니다` });
+    }
+    if (input.dateOfBirth > departDate) {
+      issues.push({ path: `travelers.${index}.dateOfBirth`, message: `출발일(${departDate}) 이후에 태어난 승객은 예약할 수 없습니다` });
+    }
+    return { ...input, travelerType: travelerTypeFor(input.dateOfBirth, departDate) };
+  });
+
+  const expected: Record<TravelerType, number> = { ADULT: search.adults ?? 1, CHILD: search.children ?? 0, HELD_INFANT: search.infants ?? 0 };
+  const actual: Record<TravelerType, number> = { ADULT: 0, CHILD: 0, HELD_INFANT: 0 };
+  typed.forEach((traveler) => actual[traveler.travelerType]++);
+  if (TRAVELER_TYPE_ORDER.some((type) => expected[type] !== actual[type])) {
+    issues.push({
+      path: "travelers",
+      message: `검색한 승객 구성(${countLabel(expected)})과 생년월일 기준 승객 구성(${countLabel(actual)})이 다릅니다`,
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new FlightServerError("INVALID_PARAMS", issues.map((issue) => `${issue.path}: ${issue.message}`).join("; "), issues);
+  }
+
+  return typed
+    .sort((a, b) => TRAVELER_TYPE_ORDER.indexOf(a.travelerType) - TRAVELER_TYPE_ORDER.indexOf(b.travelerType))
+    .map((traveler, index) => ({ id: String(index + 1), ...traveler }));
+}
+
+// 저장하는 예약에는 여권 번호 마지막 4자리만 남김
+function maskPassport(traveler: Traveler): Traveler {
+  if (!traveler.passport) return traveler;
+  const { number } = traveler.passport;
+  return { ...traveler, passport: { ...traveler.passport, number: `${"*".repeat(Math.max(number.length - 4, 0))}${number.slice(-4)}` } };
+}
+
+function assertSameOffer(key: string, order: { searchId: string; offerId: string }, params: CreateOrderParams): void {
+  if (order.searchId !== params.searchId || order.offerId !== params.offerId) {
+    throw new FlightServerError("IDEMPOTENCY_CONFLICT", `idempotency key ${key} 는 이미 다른 항공편 예약에 사용되었습니다`, {
+      searchId: order.searchId,
+      offerId: order.offerId,
+    });
+  }
+}
+
+/**
+ * 예약 서비스
+ * 예약 직전에 항공편 가격을 다시 확인하고, 좌석이 부족하거나 사용자가 확인한 금액과 다르면 예약하지 않음
+ * idempotency key 가 같은 요청은 동시에 들어와도 한 번만 예약
+ */
+export function createOrderService({ store, flightProvider, offerPricing }: OrderServiceDeps): OrderService {
+  const inFlight = new Map<string, { params: CreateOrderParams; task: Promise<FlightOrder> }>();
+
+  const load = async (id: string, tenant?: string): Promise<FlightOrder> => {
+    const order = await store.get(id);
+    if (!order || (tenant && order.tenant !== tenant)) {
+      throw new FlightServerError("NOT_FOUND", `예약을 찾을 수 없습니다: ${id}`);
+    }
+    return order;
+  };
+
+  const book = async (params: CreateOrderParams): Promise<FlightOrder> => {
+    const { pricing, offer, search } = await offerPricing.reprice(params);
+    const travelers = assignTravelers(params.travelers, search, offer);
+
+    if (pricing.status === "unavailable") {
+      throw new FlightServerError(
+        "OFFER_UNAVAILABLE",
+        `남은 좌석(${pricing.offer.bookableSeats ?? 0})이 승객 수(${pricing.seatsRequired})보다 적어 예약할 수 없습니다`
+      );
+    }
+
+    const expectedTotal = params.expectedTotal ?? Number(pricing.previousPrice.total);
+    const total = Number(offer.price.total);
+    if (Math.abs(total - expectedTotal) >= 0.005) {
+      throw new FlightServerError(
+        "PRICE_CHANGED",
+        `가격이 ${expectedTotal} → ${offer.price.total} ${offer.price.currency} 로 변경되어 예약하지 않았습니다. 새 가격으로 다시 요청해 주세요`,
+        { expectedTotal, total, currency: offer.price.currency }
+      );
+    }
+
+    const { providerOrderId, pnr } = await flightProvider.createOrder(offer, travelers, params.contact);
+    const now = new Date().toISOString();
+    const { raw, ...bookedOffer } = offer;
+    const order: FlightOrder = {
+      id: randomUUID(),
+      status: "confirmed",
+      provider: flightProvider.name,
+      providerOrderId,
+      pnr,
+      searchId: params.searchId,
+      offerId: params.offerId,
+      offer: bookedOffer,
+      travelers: travelers.map(maskPassport),
+      contact: params.contact,
+      ...(params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : {}),
+      ...(params.tenant ? { tenant: params.tenant } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await store.save(order);
+
+    logger.info({ orderId: order.id, pnr, total: offer.price.total, currency: offer.price.currency, travelers: travelers.length }, "예약 완료");
+    return order;
+  };
+
+  return {
+    async validate(params) {
+      const { pricing, offer, search } = await offerPricing.reprice(params);
+      return { pricing, travelers: assignTravelers(params.travelers, search, offer).map(maskPassport) };
+    },
+
+    create(params) {
+      const key = params.idempotencyKey;
+      if (!key) return book(params);
+
+      // 같은 키의 요청이 처리 중이면 그 결과를 함께 기다림 (연속 탭으로 인한 중복 예약 방지), 다른 테넌트의 같은 키와는 별개
+      const scopedKey = JSON.stringify([params.tenant ?? null, key]);
+      const running = inFlight.get(scopedKey);
+      if (running) {
+        assertSameOffer(key, running.params, params);
+        return running.task;
+      }
+
+      const task = (async () => {
+        const existing = await store.findByIdempotencyKey(key, params.tenant);
+        if (existing) {
+          assertSameOffer(key, existing, params);
+          logger.info({ orderId: existing.id }, "같은 idempotency key 의 예약 반환");
+          return existing;
+        }
+        return book(params);
+      })().finally(() => inFlight.delete(scopedKey));
+      inFlight.set(scopedKey, { params, task });
+      return task;
+    },
+
+    get: load,
+
+    async cancel(id, tenant) {
+      const order = await load(id, tenant);
+      if (order.status === "cancelled") return order;
+
+      const departure = order.offer.itineraries[0]?.segments[0]?.departure;
+      if (departure && utcMillis(departure) < Date.now()) {
+        throw new FlightServerError("INVALID_PARAMS", `이미 출발한 항공편은 취소할 수 없습니다 (출발 ${departure.at} 현지 시각)`);
+      }
+
+      await flightProvider.cancelOrder(order);
+      const now = new Date().toISOString();
+      const cancelled: FlightOrder = { ...order, status: "cancelled", cancelledAt: now, updatedAt: now };
+      await store.save(cancelled);
+
+      logger.info({ orderId: order.id, pnr: order.pnr }, "예약 취소");
+      return cancelled;
+    },
+  };
+}
@@ -0,0 +1,97 @@
+// mcp-flight-server/src/orders/store.ts
+
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { FlightOrder } from "../types.js";
+import type { OrderConfig } from "../config.js";
+import { logger } from "../observability/logger.js";
+
+/**
+ * 예약 저장소 인터페이스 (인메모리 / 파일)
+ * 공급자 예약과 별개로 로컬 예약 번호, 승객, idempotency key 를 보관
+ */
+export interface OrderStore {
+  kind: "memory" | "file";
+  get(id: string): Promise<FlightOrder | undefined>;
+  save(order: FlightOrder): Promise<void>;
+  // idempotency key 는 테넌트별 (tenant 가 없으면 테넌트 없이 만든 예약에서만 찾음)
+  findByIdempotencyKey(key: string, tenant?: string): Promise<FlightOrder | undefined>;
+}
+
+// 파일 이름으로 쓰이므로 경로 문자가 섞인 id 는 거부
+const ORDER_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+export function createMemoryOrderStore(): OrderStore {
+  const orders = new Map<string, FlightOrder>();
+
+  return {
+    kind: "memory",
+    async get(id) {
+      const order = orders.get(id);
+      return order ? structuredClone(order) : undefined;
+    },
+    async save(order) {
+      orders.set(order.id, structuredClone(order));
+    },
+    async findByIdempotencyKey(key, tenant) {
+      const order = [...orders.values()].find((candidate) => candidate.idempotencyKey === key && candidate.tenant === tenant);
+      return order ? structuredClone(order) : undefined;
+    },
+  };
+}
+
+/**
+ * 예약 하나를 JSON 파일 하나로 저장
+ * 임시 파일에 쓴 뒤 rename 해서 쓰는 도중 읽어도 깨진 파일이 보이지 않도록 함
+ */
+export function createFileOrderStore(directory: string): OrderStore {
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+  const ready = mkdir(directory, { recursive: true });
+
+  const read = async (id: string): Promise<FlightOrder | undefined> => {
+    try {
+      return JSON.parse(await readFile(fileFor(id), "utf8")) as FlightOrder;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    kind: "file",
+    async get(id) {
+      if (!ORDER_ID_PATTERN.test(id)) return undefined;
+      await ready;
+      return read(id);
+    },
+    async save(order) {
+      if (!ORDER_ID_PATTERN.test(order.id)) {
+        throw new Error(`잘못된 order id: ${order.id}`);
+      }
+      await ready;
+      const temp = `${fileFor(order.id)}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(order), "utf8");
+      await rename(temp, fileFor(order.id));
+    },
+    // 예약 수가 많지 않은 로컬 저장소이므로 전체를 훑어서 찾음
+    async findByIdempotencyKey(key, tenant) {
+      await ready;
+      const ids = (await readdir(directory)).filter((name) => name.endsWith(".json")).map((name) => name.slice(0, -".json".length));
+      for (const id of ids.filter((candidate) => ORDER_ID_PATTERN.test(candidate))) {
+        const order = await read(id);
+        if (order?.idempotencyKey === key && order.tenant === tenant) return order;
+      }
+      return undefined;
+    },
+  };
+}
+
+// orders.store=memory | file (기본값 file: 예약은 재시작 후에도 조회/취소할 수 있어야 함)
+export function createOrderStore({ store, dir }: OrderConfig): OrderStore {
+  if (store === "file") {
+    const directory = path.resolve(dir);
+    logger.info({ store: "file", directory }, "예약 저장소");
+    return createFileOrderStore(directory);
+  }
+  logger.info({ store: "memory" }, "예약 저장소");
+  return createMemoryOrderStore();
+}
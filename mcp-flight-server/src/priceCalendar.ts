@@ -0,0 +1,177 @@
+// mcp-flight-server/src/priceCalendar.ts
+
+import { FlightServerError, toFlightServerError } from "./errors.js";
+import { addDays, DEFAULT_DEPART_WINDOW_DAYS, earliestAllowedDate } from "./schema.js";
+import { logger } from "./observability/logger.js";
+import type { PriceCalendarConfig } from "./config.js";
+import type { FlightSearchService } from "./flightSearch.js";
+import type { PriceCalendar, PriceCalendarCell, PriceCalendarParams, SearchFlightParams } from "./types.js";
+
+interface DatePair {
+  departDate: string;
+  returnDate?: string;
+}
+
+export interface PriceCalendarService {
+  search(params: PriceCalendarParams): Promise<PriceCalendar>;
+}
+
+function dateRange(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// 날짜 범위를 제외한 검색 조건 (승객, 좌석 등급, 항공사 등)은 모든 조합에 그대로 적용
+function searchOptions({
+  departDate,
+  departWindowDays,
+  departFrom,
+  departTo,
+  returnDate,
+  returnWindowDays,
+  tripLengthMin,
+  tripLengthMax,
+  ...options
+}: PriceCalendarParams): Omit<SearchFlightParams, "departDate" | "returnDate"> {
+  return options;
+}
+
+const nightsBetween = (departDate: string, returnDate: string) =>
+  Math.round((Date.parse(`${returnDate}T00:00:00Z`) - Date.parse(`${departDate}T00:00:00Z`)) / 86_400_000);
+
+/**
+ * 요청한 범위를 (출발일, 귀국일) 조합으로 펼침
+ * - 출발일: departFrom~departTo 또는 departDate ± departWindowDays (이미 지난 날짜는 제외)
+ * - 귀국일: returnDate ± returnWindowDays, 또는 출발일 + tripLengthMin~Max 박 (없으면 편도)
+ */
+export function expandDatePairs(params: PriceCalendarParams): DatePair[] {
+  const window = params.departWindowDays ?? DEFAULT_DEPART_WINDOW_DAYS;
+  const [from, to] = params.departDate
+    ? [addDays(params.departDate, -window), addDays(params.departDate, window)]
+    : [params.departFrom!, params.departTo!];
+  const departDates = dateRange(from, to).filter((date) => date >= earliestAllowedDate());
+
+  if (params.tripLengthMin !== undefined || params.tripLengthMax !== undefined) {
+    const min = params.tripLengthMin ?? params.tripLengthMax!;
+    const max = params.tripLengthMax ?? min;
+    return departDates.flatMap((departDate) =>
+      Array.from({ length: max - min + 1 }, (_, index) => ({ departDate, returnDate: addDays(departDate, min + index) }))
+    );
+  }
+
+  if (params.returnDate) {
+    const returnWindow = params.returnWindowDays ?? 0;
+    const returnDates = dateRange(addDays(params.returnDate, -returnWindow), addDays(params.returnDate, returnWindow));
+    return departDates.flatMap((departDate) =>
+      returnDates.filter((returnDate) => returnDate >= departDate).map((returnDate) => ({ departDate, returnDate }))
+    );
+  }
+
+  return departDates.map((departDate) => ({ departDate }));
+}
+
+// 최대 limit 개씩 동시에 실행하고 입력 순서대로 결과 반환
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * 가격 캘린더: 날짜 조합마다 최저가를 검색해서 출발일 × 귀국일 행렬로 반환
+ * 각 검색은 일반 검색과 같은 캐시/요청 병합을 거치므로 같은 조합을 반복 조회해도 공급자는 한 번만 호출됨
+ * 일부 조합이 실패하면 해당 칸에 error 를 기록하고, 모든 조합이 실패하면 에러로 응답
+ */
+export function createPriceCalendarService(flightSearch: FlightSearchService, { concurrency, maxSearches }: PriceCalendarConfig): PriceCalendarService {
+  return {
+    async search(params) {
+      const base = searchOptions(params);
+      const pairs = expandDatePairs(params);
+
+      if (pairs.length === 0) {
+        throw new FlightServerError("INVALID_PARAMS", "검색할 수 있는 날짜 조합이 없습니다 (출발일이 모두 과거이거나 귀국일이 출발일보다 빠름)");
+      }
+      if (pairs.length > maxSearches) {
+        throw new FlightServerError(
+          "INVALID_PARAMS",
+          `날짜 조합이 너무 많습니다 (${pairs.length}개, 최대 ${maxSearches}개). 출발일 범위나 여행 기간 범위를 줄여 주세요`
+        );
+      }
+
+      const started = Date.now();
+      const errors: FlightServerError[] = [];
+      let currency = base.currency ?? "USD";
+      const cells = await mapWithConcurrency(pairs, concurrency, async ({ departDate, returnDate }): Promise<PriceCalendarCell> => {
+        const tripLength = returnDate ? nightsBetween(departDate, returnDate) : undefined;
+        const search: SearchFlightParams = { ...base, departDate, ...(returnDate ? { returnDate } : {}) };
+        try {
+          const { offer, currency: resultCurrency } = await flightSearch.cheapest(search);
+          currency = resultCurrency;
+          const outbound = offer.itineraries[0];
+          return {
+            departDate,
+            returnDate,
+            tripLength,
+            price: Number(offer.price.total),
+            offerId: offer.id,
+            carrier: outbound?.segments[0]?.carrierName ?? offer.validatingCarrier,
+            stops: outbound?.stops,
+            durationMinutes: offer.itineraries.reduce((sum, itinerary) => sum + itinerary.durationMinutes, 0),
+          };
+        } catch (err) {
+          const error = toFlightServerError(err);
+          errors.push(error);
+          return { departDate, returnDate, tripLength, error: error.code };
+        }
+      });
+
+      const priced = cells.filter((cell) => cell.price !== undefined);
+      if (priced.length === 0) {
+        // 결과 없음이 아닌 공급자 오류가 있으면 그 오류를 우선 전달
+        throw (
+          errors.find((error) => error.code !== "NO_RESULTS") ??
+          new FlightServerError("NO_RESULTS", `${base.origin} → ${base.destination} 의 모든 날짜 조합에 항공편이 없습니다`)
+        );
+      }
+
+      const cheapest = priced.reduce((best, cell) => (cell.price! < best.price! ? cell : best));
+      const returnDates = [...new Set(pairs.flatMap((pair) => (pair.returnDate ? [pair.returnDate] : [])))].sort();
+      const cheapestDates = `${cheapest.departDate}${cheapest.returnDate ? ` ~ ${cheapest.returnDate}` : ""}`;
+      logger.info(
+        {
+          origin: base.origin,
+          destination: base.destination,
+          combinations: pairs.length,
+          failed: errors.length,
+          cheapest: cheapest.price,
+          currency,
+          cheapestDates,
+          durationMs: Date.now() - started,
+        },
+        "가격 캘린더"
+      );
+
+      return {
+        origin: base.origin,
+        destination: base.destination,
+        currency,
+        departDates: [...new Set(pairs.map((pair) => pair.departDate))],
+        ...(returnDates.length > 0 ? { returnDates } : {}),
+        cells,
+        cheapest,
+        searched: pairs.length,
+        failed: errors.length,
+      };
+    },
+  };
+}
@@ -0,0 +1,151 @@
+// mcp-flight-server/src/providers/amadeusMapper.ts
+
+import { timezoneForIata } from "../locations/airports.js";
+import { parseIsoDuration, resolveLocalTime, toIsoDuration } from "../time.js";
+import type {
+  AmadeusDetailedFareRule,
+  AmadeusDictionaries,
+  AmadeusFareDetail,
+  AmadeusFlightOffer,
+  AmadeusSegment,
+  CabinClass,
+  FareRule,
+  FlightEndpoint,
+  FlightItinerary,
+  FlightOffer,
+} from "../types.js";
+
+const CABIN_CLASSES: CabinClass[] = ["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"];
+
+export interface NormalizeOptions {
+  provider: string;
+  dictionaries?: AmadeusDictionaries;
+  includeRaw?: boolean;
+}
+
+function toCabin(cabin: string | undefined): CabinClass | undefined {
+  return CABIN_CLASSES.find((c) => c === cabin);
+}
+
+function toEndpoint(point: AmadeusSegment["departure"]): FlightEndpoint {
+  const timezone = timezoneForIata(point.iataCode);
+  return {
+    iataCode: point.iataCode,
+    ...(point.terminal ? { terminal: point.terminal } : {}),
+    at: point.at.slice(0, 19),
+    ...(timezone ? { timezone } : {}),
+    ...resolveLocalTime(point.at.slice(0, 19), timezone),
+  };
+}
+
+// Amadeus 응답에 segment duration 이 없으면 UTC 시각 차이로 계산
+function segmentMinutes(segment: AmadeusSegment, departure: FlightEndpoint, arrival: FlightEndpoint): number {
+  if (segment.duration) return parseIsoDuration(segment.duration);
+  if (departure.atUtc && arrival.atUtc) {
+    return Math.round((Date.parse(arrival.atUtc) - Date.parse(departure.atUtc)) / 60000);
+  }
+  return 0;
+}
+
+/**
+ * Amadeus flight-offer (또는 같은 형태의 mock 응답) → 공급자 중립 FlightOffer
+ * 요금 상세(cabin, 수하물, 운임 브랜드)는 첫 번째 탑승객(성인) 기준
+ */
+export function normalizeAmadeusOffer(raw: AmadeusFlightOffer, options: NormalizeOptions): FlightOffer {
+  const fareDetails = new Map<string, AmadeusFareDetail>(
+    (raw.travelerPricings?.[0]?.fareDetailsBySegment ?? []).map((detail) => [detail.segmentId, detail])
+  );
+
+  const itineraries: FlightItinerary[] = raw.itineraries.map((itinerary) => {
+    const segments = itinerary.segments.map((segment) => {
+      const departure = toEndpoint(segment.departure);
+      const arrival = toEndpoint(segment.arrival);
+      const fare = fareDetails.get(segment.id);
+      const minutes = segmentMinutes(segment, departure, arrival);
+      const operatingCarrierCode = segment.operating?.carrierCode;
+
+      return {
+        id: segment.id,
+        carrierCode: segment.carrierCode,
+        ...(options.dictionaries?.carriers?.[segment.carrierCode]
+          ? { carrierName: options.dictionaries.carriers[segment.carrierCode] }
+          : {}),
+        flightNumber: `${segment.carrierCode}${segment.number}`,
+        ...(operatingCarrierCode && operatingCarrierCode !== segment.carrierCode ? { operatingCarrierCode } : {}),
+        ...(segment.aircraft?.code ? { aircraft: segment.aircraft.code } : {}),
+        departure,
+        arrival,
+        duration: segment.duration ?? toIsoDuration(minutes),
+        durationMinutes: minutes,
+        ...(toCabin(fare?.cabin) ? { cabin: toCabin(fare?.cabin) } : {}),
+        ...(fare?.class ? { bookingClass: fare.class } : {}),
+        ...(fare?.fareBasis ? { fareBasis: fare.fareBasis } : {}),
+        ...(fare?.brandedFareLabel || fare?.brandedFare ? { fareBrand: fare.brandedFareLabel ?? fare.brandedFare } : {}),
+        ...(fare?.includedCheckedBags ? { checkedBags: fare.includedCheckedBags } : {}),
+      };
+    });
+
+    const first = segments[0];
+    const last = segments[segments.length - 1];
+    const totalMinutes =
+      parseIsoDuration(itinerary.duration) ||
+      (first?.departure.atUtc && last?.arrival.atUtc
+        ? Math.round((Date.parse(last.arrival.atUtc) - Date.parse(first.departure.atUtc)) / 60000)
+        : segments.reduce((sum, segment) => sum + segment.durationMinutes, 0));
+    const technicalStops = itinerary.segments.reduce((sum, segment) => sum + (segment.numberOfStops ?? 0), 0);
+
+    return {
+      duration: itinerary.duration ?? toIsoDuration(totalMinutes),
+      durationMinutes: totalMinutes,
+      stops: segments.length - 1 + technicalStops,
+      segments,
+    };
+  });
+
+  // 대표 cabin/수하물/브랜드는 첫 구간 기준
+  const firstSegment = itineraries[0]?.segments[0];
+
+  return {
+    id: raw.id,
+    provider: options.provider,
+    price: {
+      total: raw.price.grandTotal ?? raw.price.total,
+      ...(raw.price.base ? { base: raw.price.base } : {}),
+      currency: raw.price.currency,
+    },
+    ...(raw.validatingAirlineCodes?.[0] ? { validatingCarrier: raw.validatingAirlineCodes[0] } : {}),
+    ...(raw.numberOfBookableSeats !== undefined ? { bookableSeats: raw.numberOfBookableSeats } : {}),
+    ...(raw.lastTicketingDate ? { lastTicketingDate: raw.lastTicketingDate } : {}),
+    ...(firstSegment?.cabin ? { cabin: firstSegment.cabin } : {}),
+    ...(firstSegment?.fareBrand ? { fareBrand: firstSegment.fareBrand } : {}),
+    ...(firstSegment?.checkedBags ? { checkedBags: firstSegment.checkedBags } : {}),
+    itineraries,
+    ...(options.includeRaw ? { raw } : {}),
+  };
+}
+
+// 상세 운임 규정 원문은 길어서 일부만 전달
+const MAX_RULE_TEXT = 1000;
+
+/**
+ * offer.fareRules(정형 규정) + 가격 확인 응답의 detailed-fare-rules(원문) → FareRule 목록
+ * 원문은 구간마다 같은 내용이 반복되므로 분류별로 한 번만 포함
+ */
+export function normalizeFareRules(raw: AmadeusFlightOffer, detailed: Record<string, AmadeusDetailedFareRule> = {}): FareRule[] {
+  const rules: FareRule[] = (raw.fareRules?.rules ?? []).map((rule) => ({
+    category: rule.category,
+    allowed: !rule.notApplicable,
+    ...(rule.maxPenaltyAmount !== undefined ? { maxPenalty: rule.maxPenaltyAmount } : {}),
+  }));
+
+  const seen = new Set<string>();
+  for (const rule of Object.values(detailed)) {
+    for (const note of rule.fareNotes?.descriptions ?? []) {
+      if (seen.has(note.descriptionType)) continue;
+      seen.add(note.descriptionType);
+      const text = note.text.length > MAX_RULE_TEXT ? `${note.text.slice(0, MAX_RULE_TEXT)}…` : note.text;
+      rules.push({ category: note.descriptionType, description: text });
+    }
+  }
+  return rules;
+}
@@ -0,0 +1,216 @@
+// mcp-flight-server/src/providers/amadeusProvider.ts
+
+import { FlightServerError } from "../errors.js";
+import { DEFAULT_MAX_RESULTS } from "../filters.js";
+import { normalizeAmadeusOffer, normalizeFareRules } from "./amadeusMapper.js";
+import { logger } from "../observability/logger.js";
+import type {
+  AmadeusFlightOffer,
+  AmadeusFlightOrderResponse,
+  AmadeusFlightPriceResponse,
+  AmadeusFlightSearchBody,
+  AmadeusFlightSearchResponse,
+  BookingContact,
+  FlightOffer,
+  OriginDestination,
+  SearchFlightParams,
+  Traveler,
+} from "../types.js";
+import type { AmadeusClient } from "../amadeus.js";
+import type { FlightProvider } from "./provider.js";
+
+const FLIGHT_OFFERS_PATH = "/v2/shopping/flight-offers";
+const FLIGHT_PRICING_PATH = "/v1/shopping/flight-offers/pricing";
+const FLIGHT_ORDERS_PATH = "/v1/booking/flight-orders";
+
+// Flight Create Orders 의 travelers (연락처는 모든 탑승객에 같은 값, 여권은 있을 때만)
+function orderTravelers(travelers: Traveler[], contact: BookingContact) {
+  return travelers.map((traveler) => ({
+    id: traveler.id,
+    dateOfBirth: traveler.dateOfBirth,
+    name: { firstName: traveler.firstName, lastName: traveler.lastName },
+    gender: traveler.gender,
+    contact: {
+      emailAddress: contact.email,
+      phones: [{ deviceType: "MOBILE", countryCallingCode: contact.phone.countryCallingCode, number: contact.phone.number }],
+    },
+    ...(traveler.passport
+      ? {
+          documents: [
+            {
+              documentType: "PASSPORT",
+              number: traveler.passport.number,
+              expiryDate: traveler.passport.expiryDate,
+              issuanceCountry: traveler.passport.issuanceCountry,
+              nationality: traveler.passport.nationality,
+              holder: true,
+            },
+          ],
+        }
+      : {}),
+  }));
+}
+
+// 가격 확인 응답에는 항공사 이름 사전이 없어서 검색 결과에 있던 이름을 재사용
+function carrierNames(offer: FlightOffer): Record<string, string> {
+  return Object.fromEntries(
+    offer.itineraries.flatMap((itinerary) => itinerary.segments.flatMap((segment) => (segment.carrierName ? [[segment.carrierCode, segment.carrierName]] : [])))
+  );
+}
+
+function searchQuery(offersUrl: string, params: SearchFlightParams): URL {
+  const url = new URL(offersUrl);
+  url.searchParams.set("originLocationCode", params.origin);
+  url.searchParams.set("destinationLocationCode", params.destination);
+  url.searchParams.set("departureDate", params.departDate);
+  if (params.returnDate) {
+    url.searchParams.set("returnDate", params.returnDate);
+  }
+  url.searchParams.set("adults", String(params.adults ?? 1));
+  if (params.children) url.searchParams.set("children", String(params.children));
+  if (params.infants) url.searchParams.set("infants", String(params.infants));
+  if (params.travelClass) url.searchParams.set("travelClass", params.travelClass);
+  if (params.nonStop) url.searchParams.set("nonStop", "true");
+  if (params.includedAirlineCodes) url.searchParams.set("includedAirlineCodes", params.includedAirlineCodes.join(","));
+  if (params.excludedAirlineCodes) url.searchParams.set("excludedAirlineCodes", params.excludedAirlineCodes.join(","));
+  if (params.maxPrice !== undefined) url.searchParams.set("maxPrice", String(Math.floor(params.maxPrice)));
+  url.searchParams.set("currencyCode", params.currency ?? "USD");
+  url.searchParams.set("max", String(params.maxResults ?? DEFAULT_MAX_RESULTS));
+  return url;
+}
+
+/**
+ * 다구간 검색용 POST 본문
+ * GET 쿼리와 같은 조건을 travelers/searchCriteria.flightFilters 형태로 표현 (유아는 성인 한 명씩에 연결)
+ */
+function searchBody(params: SearchFlightParams, legs: OriginDestination[]): AmadeusFlightSearchBody {
+  const adults = params.adults ?? 1;
+  const travelers: AmadeusFlightSearchBody["travelers"] = [
+    ...Array.from({ length: adults }, () => ({ travelerType: "ADULT" as const })),
+    ...Array.from({ length: params.children ?? 0 }, () => ({ travelerType: "CHILD" as const })),
+    ...Array.from({ length: params.infants ?? 0 }, (_, index) => ({
+      travelerType: "HELD_INFANT" as const,
+      associatedAdultId: String(index + 1),
+    })),
+  ].map((traveler, index) => ({ id: String(index + 1), ...traveler }));
+  const legIds = legs.map((_, index) => String(index + 1));
+
+  const flightFilters: NonNullable<AmadeusFlightSearchBody["searchCriteria"]["flightFilters"]> = {};
+  if (params.travelClass) {
+    flightFilters.cabinRestrictions = [{ cabin: params.travelClass, coverage: "MOST_SEGMENTS", originDestinationIds: legIds }];
+  }
+  if (params.includedAirlineCodes) flightFilters.carrierRestrictions = { includedCarrierCodes: params.includedAirlineCodes };
+  if (params.excludedAirlineCodes) flightFilters.carrierRestrictions = { excludedCarrierCodes: params.excludedAirlineCodes };
+  if (params.nonStop) flightFilters.connectionRestriction = { maxNumberOfConnections: 0 };
+
+  return {
+    currencyCode: params.currency ?? "USD",
+    originDestinations: legs.map((leg, index) => ({
+      id: legIds[index],
+      originLocationCode: leg.origin,
+      destinationLocationCode: leg.destination,
+      departureDateTimeRange: { date: leg.departDate },
+    })),
+    travelers,
+    sources: ["GDS"],
+    searchCriteria: {
+      maxFlightOffers: params.maxResults ?? DEFAULT_MAX_RESULTS,
+      ...(params.maxPrice !== undefined ? { maxPrice: Math.floor(params.maxPrice) } : {}),
+      ...(Object.keys(flightFilters).length > 0 ? { flightFilters } : {}),
+    },
+  };
+}
+
+export function createAmadeusFlightProvider(amadeus: AmadeusClient): FlightProvider {
+  const offersUrl = `${amadeus.baseUrl}${FLIGHT_OFFERS_PATH}`;
+  const ordersUrl = `${amadeus.baseUrl}${FLIGHT_ORDERS_PATH}`;
+
+  return {
+    name: "amadeus",
+    // maxStopovers 는 Amadeus GET 검색에 대응 파라미터가 없어서 후처리
+    nativeFilters: ["travelClass", "nonStop", "includedAirlineCodes", "excludedAirlineCodes", "maxPrice", "maxResults"],
+    async searchFlights(params) {
+      logger.debug({ params }, "Amadeus 항공편 검색 요청");
+
+      // 편도/왕복은 GET, 다구간(오픈조 포함)은 GET 으로 표현할 수 없어서 POST 본문으로 검색
+      let res: Response;
+      if (params.originDestinations) {
+        const body = searchBody(params, params.originDestinations);
+        logger.debug({ body }, "Amadeus 다구간 검색 본문");
+        res = await amadeus.post(new URL(offersUrl), body, "Flight Offers");
+      } else {
+        const url = searchQuery(offersUrl, params);
+        logger.debug({ query: url.searchParams }, "Amadeus 검색 파라미터");
+        res = await amadeus.get(url, "Flight Offers");
+      }
+
+      const json = (await res.json()) as AmadeusFlightSearchResponse;
+      // 가격 확인에 원본 offer 가 필요하므로 항상 보관 (응답에는 includeRaw 요청 시에만 포함)
+      const items = (json.data ?? []).map((offer) =>
+        normalizeAmadeusOffer(offer, { provider: "amadeus", dictionaries: json.dictionaries, includeRaw: true })
+      );
+
+      logger.info({ results: items.length }, "Amadeus 항공편 검색 결과");
+
+      return { currency: params.currency ?? "USD", items };
+    },
+    async priceOffer(offer) {
+      if (!offer.raw) {
+        throw new FlightServerError("OFFER_EXPIRED", "검색 결과에 Amadeus 원본 응답이 없습니다. 다시 검색해 주세요");
+      }
+
+      // Flight Offers Price: 검색 결과 offer 를 그대로 보내면 현재 가격/좌석과 운임 규정을 돌려줌
+      const url = new URL(`${amadeus.baseUrl}${FLIGHT_PRICING_PATH}`);
+      url.searchParams.set("include", "detailed-fare-rules");
+      const body = { data: { type: "flight-offers-pricing", flightOffers: [offer.raw as AmadeusFlightOffer] } };
+      const res = await amadeus.post(url, body, "Flight Offers Price");
+
+      const json = (await res.json()) as AmadeusFlightPriceResponse;
+      const priced = json.data?.flightOffers?.[0];
+      if (!priced) {
+        throw new FlightServerError("INVALID_UPSTREAM_RESPONSE", "Amadeus 가격 확인 응답에 항공편이 없습니다");
+      }
+      for (const warning of json.warnings ?? []) {
+        logger.warn({ offerId: offer.id, title: warning.title, detail: warning.detail }, "Amadeus 가격 확인 경고");
+      }
+
+      const dictionaries = { ...json.dictionaries, carriers: { ...carrierNames(offer), ...json.dictionaries?.carriers } };
+      return {
+        offer: normalizeAmadeusOffer(priced, { provider: "amadeus", dictionaries, includeRaw: true }),
+        fareRules: normalizeFareRules(priced, json.included?.["detailed-fare-rules"]),
+      };
+    },
+    async createOrder(offer, travelers, contact) {
+      if (!offer.raw) {
+        throw new FlightServerError("OFFER_EXPIRED", "가격 확인 결과에 Amadeus 원본 응답이 없습니다. 다시 검색해 주세요");
+      }
+
+      const body = {
+        data: { type: "flight-order", flightOffers: [offer.raw as AmadeusFlightOffer], travelers: orderTravelers(travelers, contact) },
+      };
+      const res = await amadeus.write(new URL(ordersUrl), "POST", body, "Flight Create Orders");
+
+      const json = (await res.json()) as AmadeusFlightOrderResponse;
+      const pnr = json.data?.associatedRecords?.[0]?.reference;
+      if (!json.data?.id || !pnr) {
+        throw new FlightServerError("INVALID_UPSTREAM_RESPONSE", "Amadeus 예약 응답에 주문 번호가 없습니다");
+      }
+      return { providerOrderId: json.data.id, pnr };
+    },
+    async cancelOrder(order) {
+      const url = new URL(`${ordersUrl}/${encodeURIComponent(order.providerOrderId)}`);
+      const res = await amadeus.write(url, "DELETE", undefined, "Flight Order Management");
+      await res.body?.cancel();
+    },
+    async checkHealth() {
+      // circuit 이 열려 있으면 호출하지 않고 degraded (재시도 시각까지 요청은 바로 실패)
+      const circuit = amadeus.circuit.snapshot();
+      if (circuit.state === "open") {
+        return { status: "degraded", details: { circuit }, error: circuit.lastError ?? "Amadeus circuit open" };
+      }
+      // 유효한 토큰이 캐시되어 있으면 그대로, 없으면 OAuth 호출 (실패하면 예외 → down)
+      await amadeus.getAccessToken();
+      return { status: circuit.state === "closed" ? "ok" : "degraded", details: { circuit, baseUrl: amadeus.baseUrl } };
+    },
+  };
+}
@@ -0,0 +1,37 @@
+// mcp-flight-server/src/providers/fixtures.ts
+
+// mock 공급자가 가짜 항공편을 만들 때 사용하는 고정 데이터
+export interface CarrierFixture {
+  code: string;
+  name: string;
+  // 기본 운임 대비 가격 배수 (LCC < 1, 프리미엄 > 1)
+  priceFactor: number;
+}
+
+export const CARRIERS: CarrierFixture[] = [
+  { code: "KE", name: "Korean Air", priceFactor: 1.15 },
+  { code: "OZ", name: "Asiana Airlines", priceFactor: 1.1 },
+  { code: "7C", name: "Jeju Air", priceFactor: 0.7 },
+  { code: "TW", name: "T'way Air", priceFactor: 0.68 },
+  { code: "JL", name: "Japan Airlines", priceFactor: 1.12 },
+  { code: "NH", name: "All Nippon Airways", priceFactor: 1.1 },
+  { code: "CX", name: "Cathay Pacific", priceFactor: 1.05 },
+  { code: "SQ", name: "Singapore Airlines", priceFactor: 1.2 },
+  { code: "UA", name: "United Airlines", priceFactor: 1.0 },
+  { code: "DL", name: "Delta Air Lines", priceFactor: 1.02 },
+  { code: "AF", name: "Air France", priceFactor: 1.04 },
+  { code: "LH", name: "Lufthansa", priceFactor: 1.06 },
+  { code: "EK", name: "Emirates", priceFactor: 1.08 },
+];
+
+// 경유편 생성 시 사용하는 허브 공항
+export const HUBS = ["ICN", "NRT", "HKG", "SIN", "DXB", "FRA", "ORD", "LAX"];
+
+// USD 기준 고정 환율 (mock 전용)
+export const USD_RATES: Record<string, number> = {
+  USD: 1,
+  KRW: 1350,
+  EUR: 0.92,
+  JPY: 150,
+  GBP: 0.79,
+};
@@ -0,0 +1,18 @@
+// mcp-flight-server/src/providers/index.ts
+
+import { isAmadeusConfigured, type FlightServerConfig } from "../config.js";
+import { createAmadeusFlightProvider } from "./amadeusProvider.js";
+import { createMockFlightProvider } from "./mockProvider.js";
+import type { AmadeusClient } from "../amadeus.js";
+import type { FlightProvider, FlightProviderName } from "./provider.js";
+
+export type { FlightProvider, FlightProviderName } from "./provider.js";
+
+/**
+ * provider.name 설정에 따라 공급자 선택
+ * 명시하지 않으면 Amadeus 자격증명이 있을 때 amadeus, 없으면 mock (자격증명 누락은 loadConfig 에서 검증)
+ */
+export function createFlightProvider(config: FlightServerConfig, amadeus: AmadeusClient): FlightProvider {
+  const selected: FlightProviderName = config.provider.name ?? (isAmadeusConfigured(config.amadeus) ? "amadeus" : "mock");
+  return selected === "amadeus" ? createAmadeusFlightProvider(amadeus) : createMockFlightProvider(config.provider.mockSeed);
+}
@@ -0,0 +1,61 @@
+// mcp-flight-server/src/providers/mockProvider.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createMockFlightProvider } from "./mockProvider.js";
+import { configureLogger } from "../observability/logger.js";
+import type { SearchFlightParams } from "../types.js";
+
+configureLogger({ level: "silent" });
+
+const ROUTE: SearchFlightParams = { origin: "ICN", destination: "NRT", departDate: "2030-03-15", adults: 1 };
+
+// 응답의 원본(raw)은 비교에서 제외하고 항공편/가격만 비교
+function fingerprint(items: { id: string; price: { total: string }; itineraries: { segments: { flightNumber: string; departure: { at: string } }[] }[] }[]) {
+  return items.map((item) => [item.id, item.price.total, item.itineraries.flatMap((it) => it.segments.map((s) => `${s.flightNumber}@${s.departure.at}`))]);
+}
+
+describe("mock 공급자", () => {
+  it("같은 시드/노선/날짜에는 항상 같은 결과", async () => {
+    const first = await createMockFlightProvider("seed-a").searchFlights(ROUTE);
+    const second = await createMockFlightProvider("seed-a").searchFlights(ROUTE);
+    assert.ok(first.items.length > 0);
+    assert.deepEqual(fingerprint(second.items), fingerprint(first.items));
+  });
+
+  it("시드나 날짜가 다르면 결과가 달라짐", async () => {
+    const base = fingerprint((await createMockFlightProvider("seed-a").searchFlights(ROUTE)).items);
+    const otherSeed = fingerprint((await createMockFlightProvider("seed-b").searchFlights(ROUTE)).items);
+    const otherDate = fingerprint((await createMockFlightProvider("seed-a").searchFlights({ ...ROUTE, departDate: "2030-03-16" })).items);
+    assert.notDeepEqual(otherSeed, base);
+    assert.notDeepEqual(otherDate, base);
+  });
+
+  it("직항/항공사 조건을 결과에 반영", async () => {
+    const provider = createMockFlightProvider();
+    const nonStop = await provider.searchFlights({ ...ROUTE, nonStop: true });
+    assert.ok(nonStop.items.every((offer) => offer.itineraries.every((itinerary) => itinerary.stops === 0)));
+
+    const included = await provider.searchFlights({ ...ROUTE, includedAirlineCodes: ["KE"] });
+    assert.ok(included.items.every((offer) => offer.validatingCarrier === "KE"));
+  });
+
+  it("왕복은 구간 두 개, 요청 통화로 가격 표시", async () => {
+    const result = await createMockFlightProvider().searchFlights({ ...ROUTE, returnDate: "2030-03-20", currency: "KRW" });
+    assert.equal(result.currency, "KRW");
+    for (const offer of result.items) {
+      assert.equal(offer.itineraries.length, 2);
+      assert.equal(offer.price.currency, "KRW");
+      assert.equal(offer.itineraries[1].segments[0].departure.iataCode, "NRT");
+    }
+  });
+
+  it("가격 확인도 같은 항공편에는 같은 결과", async () => {
+    const provider = createMockFlightProvider();
+    const [offer] = (await provider.searchFlights(ROUTE)).items;
+    const first = await provider.priceOffer(offer, ROUTE);
+    const second = await provider.priceOffer(offer, ROUTE);
+    assert.equal(first.offer.price.total, second.offer.price.total);
+    assert.equal(first.offer.bookableSeats, second.offer.bookableSeats);
+  });
+});
@@ -0,0 +1,280 @@
+// mcp-flight-server/src/providers/mockProvider.ts
+
+import { randomInt } from "node:crypto";
+import { CARRIERS, HUBS, USD_RATES } from "./fixtures.js";
+import { timezoneForIata } from "../locations/airports.js";
+import { localToUtcMillis, toIsoDuration, toLocalTime } from "../time.js";
+import { FlightServerError } from "../errors.js";
+import { normalizeAmadeusOffer, normalizeFareRules } from "./amadeusMapper.js";
+import { logger } from "../observability/logger.js";
+import type { AmadeusFareRules, AmadeusFlightOffer, CabinClass, FlightOffer, OriginDestination, SearchFlightParams } from "../types.js";
+import type { FlightProvider } from "./provider.js";
+
+const OFFER_COUNT = 12;
+
+// 항공사 예약 번호에 쓰는 문자 (혼동되는 0/O, 1/I 제외)
+const PNR_CHARACTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const CABIN_FACTORS: Record<CabinClass, number> = {
+  ECONOMY: 1,
+  PREMIUM_ECONOMY: 1.6,
+  BUSINESS: 3.5,
+  FIRST: 6,
+};
+
+const BOOKING_CLASSES: Record<CabinClass, string> = {
+  ECONOMY: "Y",
+  PREMIUM_ECONOMY: "W",
+  BUSINESS: "J",
+  FIRST: "F",
+};
+
+// 문자열 → 32bit 시드 (FNV-1a)
+function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// 시드 기반 의사난수 생성기 (mulberry32)
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface MockSegmentPlan {
+  from: string;
+  to: string;
+  minutes: number;
+}
+
+function buildItinerary(
+  random: () => number,
+  carrierCode: string,
+  origin: string,
+  destination: string,
+  date: string,
+  routeMinutes: number,
+  stops: number,
+  segmentOffset: number
+) {
+  const departHour = 6 + Math.floor(random() * 16);
+  const departMinute = Math.floor(random() * 12) * 5;
+  const departLocal = `${date}T${String(departHour).padStart(2, "0")}:${String(departMinute).padStart(2, "0")}:00`;
+  // 시각 계산은 UTC 로 하고, 각 공항의 현지 시각으로 변환해서 기록
+  let cursor = localToUtcMillis(departLocal, timezoneForIata(origin));
+
+  const plans: MockSegmentPlan[] = [];
+  if (stops === 0) {
+    plans.push({ from: origin, to: destination, minutes: routeMinutes });
+  } else {
+    const hubs = HUBS.filter((hub) => hub !== origin && hub !== destination);
+    const hub = hubs[Math.floor(random() * hubs.length)];
+    const firstLeg = Math.round((routeMinutes * (0.35 + random() * 0.3)) / 5) * 5;
+    plans.push({ from: origin, to: hub, minutes: firstLeg });
+    plans.push({ from: hub, to: destination, minutes: Math.round((routeMinutes * 1.1 - firstLeg) / 5) * 5 });
+  }
+
+  let totalMinutes = 0;
+  const segments = plans.map((plan, index) => {
+    if (index > 0) {
+      const layover = 60 + Math.floor(random() * 25) * 5;
+      cursor += layover * 60000;
+      totalMinutes += layover;
+    }
+    const departureAt = toLocalTime(cursor, timezoneForIata(plan.from));
+    cursor += plan.minutes * 60000;
+    totalMinutes += plan.minutes;
+
+    return {
+      id: String(segmentOffset + index + 1),
+      departure: { iataCode: plan.from, at: departureAt },
+      arrival: { iataCode: plan.to, at: toLocalTime(cursor, timezoneForIata(plan.to)) },
+      carrierCode,
+      number: String(100 + Math.floor(random() * 900)),
+      aircraft: { code: plan.minutes > 360 ? "77W" : "321" },
+      duration: toIsoDuration(plan.minutes),
+      numberOfStops: 0,
+    };
+  });
+
+  return { duration: toIsoDuration(totalMinutes), segments };
+}
+
+// 노선 자체의 특성(비행시간, 기본 운임)은 방향과 무관하게 고정
+function routeProfile(seed: string, origin: string, destination: string): { routeMinutes: number; baseFareUsd: number } {
+  const routeKey = [origin, destination].sort().join("-");
+  const routeRandom = createRandom(hashSeed(`${seed}:${routeKey}`));
+  const routeMinutes = 60 + Math.round((routeRandom() * 780) / 5) * 5;
+  return { routeMinutes, baseFareUsd: 80 + routeMinutes * (0.6 + routeRandom() * 0.5) };
+}
+
+// 편도/왕복도 구간 목록으로 바꿔서 같은 방식으로 생성
+function legsOf(params: SearchFlightParams): OriginDestination[] {
+  if (params.originDestinations) return params.originDestinations;
+  const outbound = { origin: params.origin, destination: params.destination, departDate: params.departDate };
+  return params.returnDate ? [outbound, { origin: params.destination, destination: params.origin, departDate: params.returnDate }] : [outbound];
+}
+
+const dictionaries = { carriers: Object.fromEntries(CARRIERS.map((carrier) => [carrier.code, carrier.name])) };
+
+// 운임 브랜드/좌석 등급별 환불·변경 규정 (수수료는 USD 기준을 환율로 변환)
+function mockFareRules(offer: FlightOffer): AmadeusFareRules {
+  const currency = offer.price.currency;
+  const rate = USD_RATES[currency] ?? 1;
+  const light = offer.fareBrand?.endsWith("LIGHT") ?? false;
+  const premium = offer.cabin === "BUSINESS" || offer.cabin === "FIRST";
+  const penalty = (usd: number) => (usd * rate).toFixed(2);
+
+  return {
+    currency,
+    rules: [
+      light ? { category: "REFUND", notApplicable: true } : { category: "REFUND", maxPenaltyAmount: penalty(premium ? 0 : 150) },
+      { category: "EXCHANGE", maxPenaltyAmount: penalty(light ? 100 : premium ? 0 : 50) },
+      { category: "REVALIDATION", notApplicable: true },
+    ],
+  };
+}
+
+/**
+ * 네트워크 없이 동작하는 결정적(deterministic) mock 공급자
+ * 같은 노선/날짜/시드에는 항상 같은 결과를 반환하므로 로컬 개발, 데모, 테스트에 사용
+ */
+export function createMockFlightProvider(seed: string = "mock"): FlightProvider {
+  return {
+    name: "mock",
+    nativeFilters: ["travelClass", "nonStop", "includedAirlineCodes", "excludedAirlineCodes"],
+    async searchFlights(params: SearchFlightParams) {
+      const currency = params.currency ?? "USD";
+      const rate = USD_RATES[currency] ?? 1;
+      const adults = params.adults ?? 1;
+      const children = params.children ?? 0;
+      const infants = params.infants ?? 0;
+      const cabin = params.travelClass ?? "ECONOMY";
+
+      const legs = legsOf(params);
+      const profiles = legs.map((leg) => routeProfile(seed, leg.origin, leg.destination));
+
+      const random = createRandom(
+        hashSeed(
+          params.originDestinations
+            ? `${seed}:${legs.map((leg) => `${leg.origin}-${leg.destination}@${leg.departDate}`).join(",")}`
+            : `${seed}:${params.origin}:${params.destination}:${params.departDate}:${params.returnDate ?? ""}`
+        )
+      );
+
+      // 항공사 조건은 후보 항공사 풀에서 바로 반영
+      const carriers = params.includedAirlineCodes
+        ? params.includedAirlineCodes.map(
+            (code) => CARRIERS.find((carrier) => carrier.code === code) ?? { code, name: code, priceFactor: 1 }
+          )
+        : CARRIERS.filter((carrier) => !params.excludedAirlineCodes?.includes(carrier.code));
+
+      // 왕복은 편도 운임의 1.8배, 다구간은 구간 운임 합계의 90%
+      const fareUsd = params.originDestinations
+        ? profiles.reduce((sum, profile) => sum + profile.baseFareUsd, 0) * 0.9
+        : profiles[0].baseFareUsd * (params.returnDate ? 1.8 : 1);
+
+      const items: FlightOffer[] = [];
+      for (let i = 0; i < OFFER_COUNT && carriers.length > 0; i++) {
+        const carrier = carriers[Math.floor(random() * carriers.length)];
+        const legStops: number[] = [];
+        const itineraries = legs.map((leg, index) => {
+          const stops = params.nonStop || random() < 0.4 ? 0 : 1;
+          legStops.push(stops);
+          return buildItinerary(random, carrier.code, leg.origin, leg.destination, leg.departDate, profiles[index].routeMinutes, stops, index * 2);
+        });
+
+        const stopDiscount = legStops[0] === 0 ? 1 : 0.85;
+        const perAdult = fareUsd * carrier.priceFactor * CABIN_FACTORS[cabin] * stopDiscount * (0.85 + random() * 0.4) * rate;
+
+        const travelers = [
+          ...Array.from({ length: adults }, () => ({ travelerType: "ADULT", amount: perAdult })),
+          ...Array.from({ length: children }, () => ({ travelerType: "CHILD", amount: perAdult * 0.75 })),
+          ...Array.from({ length: infants }, () => ({ travelerType: "HELD_INFANT", amount: perAdult * 0.1 })),
+        ];
+        const totalAmount = travelers.reduce((sum, traveler) => sum + traveler.amount, 0);
+        const total = totalAmount.toFixed(2);
+        const base = (totalAmount * 0.82).toFixed(2);
+
+        const offer: AmadeusFlightOffer = {
+          type: "flight-offer",
+          id: String(i + 1),
+          source: "MOCK",
+          numberOfBookableSeats: 1 + Math.floor(random() * 9),
+          validatingAirlineCodes: [carrier.code],
+          itineraries,
+          price: { currency, total, base, grandTotal: total },
+          travelerPricings: travelers.map((traveler, index) => ({
+            travelerId: String(index + 1),
+            travelerType: traveler.travelerType,
+            fareDetailsBySegment: itineraries.flatMap((itinerary) =>
+              itinerary.segments.map((segment) => ({
+                segmentId: segment.id,
+                cabin,
+                fareBasis: `${BOOKING_CLASSES[cabin]}${carrier.code}MOCK`,
+                brandedFare: carrier.priceFactor < 1 ? "LIGHT" : "STANDARD",
+                brandedFareLabel: `${cabin.replace("_", " ")} ${carrier.priceFactor < 1 ? "LIGHT" : "STANDARD"}`,
+                class: BOOKING_CLASSES[cabin],
+                includedCheckedBags: { quantity: carrier.priceFactor < 1 && cabin === "ECONOMY" ? 0 : cabin === "ECONOMY" ? 1 : 2 },
+              }))
+            ),
+          })),
+        };
+        items.push(normalizeAmadeusOffer(offer, { provider: "mock", dictionaries, includeRaw: true }));
+      }
+
+      logger.info({ results: items.length, legs: legs.map((leg) => `${leg.origin}-${leg.destination}`) }, "Mock 항공편 검색 결과");
+
+      return { currency, items };
+    },
+    async priceOffer(offer) {
+      const raw = offer.raw as AmadeusFlightOffer | undefined;
+      if (!raw) {
+        throw new FlightServerError("OFFER_EXPIRED", "검색 결과에 원본 응답이 없습니다. 다시 검색해 주세요");
+      }
+
+      // 같은 항공편은 항상 같은 확인 결과: 30% 는 가격이 -5%~+12% 변동, 잔여 좌석은 0~3석 감소
+      const flightKey = offer.itineraries.flatMap((itinerary) => itinerary.segments.map((segment) => `${segment.flightNumber}@${segment.departure.at}`));
+      const random = createRandom(hashSeed(`${seed}:price:${flightKey.join(",")}:${raw.price.total}`));
+      const drift = random() < 0.3 ? 0.95 + random() * 0.17 : 1;
+      const seats = Math.max(0, (raw.numberOfBookableSeats ?? 9) - Math.floor(random() * 4));
+      const total = (Number(raw.price.total) * drift).toFixed(2);
+
+      const priced: AmadeusFlightOffer = {
+        ...raw,
+        numberOfBookableSeats: seats,
+        price: { ...raw.price, total, grandTotal: total, ...(raw.price.base ? { base: (Number(raw.price.base) * drift).toFixed(2) } : {}) },
+        fareRules: mockFareRules(offer),
+      };
+
+      logger.info({ offerId: offer.id, searchedTotal: raw.price.total, total, currency: raw.price.currency, seats }, "Mock 가격 확인");
+
+      return {
+        offer: normalizeAmadeusOffer(priced, { provider: "mock", dictionaries, includeRaw: true }),
+        fareRules: normalizeFareRules(priced),
+      };
+    },
+    async createOrder(offer, travelers) {
+      // 예약 번호는 매번 새로 발급 (결정적일 필요 없음)
+      const pnr = Array.from({ length: 6 }, () => PNR_CHARACTERS[randomInt(PNR_CHARACTERS.length)]).join("");
+      logger.info({ pnr, offerId: offer.id, travelers: travelers.length, total: offer.price.total, currency: offer.price.currency }, "Mock 예약 생성");
+      return { providerOrderId: `MOCK-${pnr}`, pnr };
+    },
+    async cancelOrder(order) {
+      logger.info({ pnr: order.pnr }, "Mock 예약 취소");
+    },
+    async checkHealth() {
+      return { status: "ok", details: { seed } };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+// mcp-flight-server/src/providers/provider.ts
+
+import type { HealthCheckResult } from "../health.js";
+import type {
+  BookingContact,
+  FlightOffer,
+  FlightOrder,
+  FlightSearchResult,
+  PricedOffer,
+  ProviderOrder,
+  SearchFilterKey,
+  SearchFlightParams,
+  Traveler,
+} from "../types.js";
+
+export type FlightProviderName = "amadeus" | "mock";
+
+/**
+ * 항공편 데이터 공급자 인터페이스
+ * 핸들러는 구현체(Amadeus, 오프라인 mock 등)를 직접 알지 않고 이 인터페이스만 사용
+ */
+export interface FlightProvider {
+  name: FlightProviderName;
+  // 공급자 API 가 직접 처리하는 검색 조건 (나머지는 applyOfferFilters 로 후처리)
+  nativeFilters: readonly SearchFilterKey[];
+  searchFlights(params: SearchFlightParams): Promise<FlightSearchResult>;
+  // 검색 결과의 항공편을 다시 확인해서 현재 가격/좌석과 운임 규정 반환 (offer.raw 는 같은 공급자의 원본 응답)
+  priceOffer(offer: FlightOffer, params: SearchFlightParams): Promise<PricedOffer>;
+  // 가격 확인을 거친 offer 로 예약 생성 (재시도하면 중복 예약될 수 있으므로 한 번만 호출)
+  createOrder(offer: FlightOffer, travelers: Traveler[], contact: BookingContact): Promise<ProviderOrder>;
+  cancelOrder(order: FlightOrder): Promise<void>;
+  // readiness 점검: 공급자를 지금 호출할 수 있는지 (Amadeus 는 토큰 발급 가능 여부)
+  checkHealth(signal: AbortSignal): Promise<HealthCheckResult>;
+}
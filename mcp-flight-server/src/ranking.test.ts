@@ -0,0 +1,63 @@
+// mcp-flight-server/src/ranking.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { rankOffers } from "./ranking.js";
+import type { FlightOffer } from "./types.js";
+
+function offer(id: string, total: number, minutes: number, stops: number, departAt: string): FlightOffer {
+  return {
+    id,
+    provider: "mock",
+    price: { total: total.toFixed(2), currency: "USD" },
+    itineraries: [
+      {
+        duration: `PT${minutes}M`,
+        durationMinutes: minutes,
+        stops,
+        segments: [
+          {
+            id: "1",
+            carrierCode: "KE",
+            flightNumber: "KE1",
+            departure: { iataCode: "ICN", at: departAt, atUtc: `${departAt}Z` },
+            arrival: { iataCode: "NRT", at: departAt },
+            duration: `PT${minutes}M`,
+            durationMinutes: minutes,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+const OFFERS = [
+  offer("cheap-slow", 200, 600, 1, "2030-03-15T18:00:00"),
+  offer("fast-pricey", 500, 120, 0, "2030-03-15T12:00:00"),
+  offer("balanced", 260, 150, 0, "2030-03-15T07:00:00"),
+];
+
+describe("rankOffers", () => {
+  it("최저가/최단시간/best 태그를 하나씩 붙임", () => {
+    const ranked = rankOffers(OFFERS);
+    const tagged = Object.fromEntries(ranked.map((item) => [item.id, item.tags ?? []]));
+    assert.deepEqual(tagged["cheap-slow"], ["cheapest"]);
+    assert.deepEqual(tagged["fast-pricey"], ["fastest"]);
+    assert.deepEqual(tagged["balanced"], ["best"]);
+  });
+
+  it("정렬 기준별 순서", () => {
+    const order = (sort: Parameters<typeof rankOffers>[1]) => rankOffers(OFFERS, sort).map((item) => item.id);
+    assert.deepEqual(order("best"), ["balanced", "cheap-slow", "fast-pricey"]);
+    assert.deepEqual(order("cheapest"), ["cheap-slow", "balanced", "fast-pricey"]);
+    assert.deepEqual(order("fastest"), ["fast-pricey", "balanced", "cheap-slow"]);
+    assert.deepEqual(order("earliest"), ["balanced", "fast-pricey", "cheap-slow"]);
+  });
+
+  it("점수는 0(최고)~1(최악), 원본 배열은 바꾸지 않음", () => {
+    const ranked = rankOffers(OFFERS);
+    assert.ok(ranked.every((item) => item.score! >= 0 && item.score! <= 1));
+    assert.equal(OFFERS[0].score, undefined);
+    assert.deepEqual(rankOffers([]), []);
+  });
+});
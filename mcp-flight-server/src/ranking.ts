@@ -0,0 +1,77 @@
+// mcp-flight-server/src/ranking.ts
+
+import type { FlightOffer, OfferTag, SortMode } from "./types.js";
+
+// "best" 점수 가중치 (가격 > 소요시간 > 경유 횟수)
+const BEST_WEIGHTS = { price: 0.5, duration: 0.35, stops: 0.15 };
+
+interface OfferMetrics {
+  price: number;
+  minutes: number;
+  stops: number;
+  departure: number;
+}
+
+function metricsOf(offer: FlightOffer): OfferMetrics {
+  const first = offer.itineraries[0]?.segments[0]?.departure;
+  return {
+    price: Number(offer.price.total),
+    minutes: offer.itineraries.reduce((sum, itinerary) => sum + itinerary.durationMinutes, 0),
+    stops: offer.itineraries.reduce((sum, itinerary) => sum + itinerary.stops, 0),
+    departure: first ? Date.parse(first.atUtc ?? `${first.at}Z`) : 0,
+  };
+}
+
+// min-max 정규화 (모두 같은 값이면 0)
+function normalizer(values: number[]): (value: number) => number {
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return (value) => (max === min ? 0 : (value - min) / (max - min));
+}
+
+/**
+ * 결과 전체에 best 점수와 cheapest/fastest/best 태그를 붙이고 정렬
+ * 점수는 0(최고)~1(최악), 동점이면 가격 → 소요시간 순
+ */
+export function rankOffers(offers: FlightOffer[], sort: SortMode = "best"): FlightOffer[] {
+  if (offers.length === 0) return [];
+
+  const metrics = new Map(offers.map((offer) => [offer, metricsOf(offer)]));
+  const all = [...metrics.values()];
+  const priceNorm = normalizer(all.map((m) => m.price));
+  const minutesNorm = normalizer(all.map((m) => m.minutes));
+  const stopsNorm = normalizer(all.map((m) => m.stops));
+
+  const scored = offers.map((offer) => {
+    const m = metrics.get(offer)!;
+    const score =
+      BEST_WEIGHTS.price * priceNorm(m.price) +
+      BEST_WEIGHTS.duration * minutesNorm(m.minutes) +
+      BEST_WEIGHTS.stops * stopsNorm(m.stops);
+    return { offer: { ...offer, score: Math.round(score * 1000) / 1000 }, metrics: m };
+  });
+
+  const byPrice = (a: (typeof scored)[number], b: (typeof scored)[number]) => a.metrics.price - b.metrics.price;
+  const byDuration = (a: (typeof scored)[number], b: (typeof scored)[number]) => a.metrics.minutes - b.metrics.minutes;
+  const byScore = (a: (typeof scored)[number], b: (typeof scored)[number]) => a.offer.score! - b.offer.score!;
+
+  const winners: Record<OfferTag, FlightOffer> = {
+    cheapest: [...scored].sort((a, b) => byPrice(a, b) || byDuration(a, b))[0].offer,
+    fastest: [...scored].sort((a, b) => byDuration(a, b) || byPrice(a, b))[0].offer,
+    best: [...scored].sort((a, b) => byScore(a, b) || byPrice(a, b))[0].offer,
+  };
+
+  for (const entry of scored) {
+    const tags = (Object.keys(winners) as OfferTag[]).filter((tag) => winners[tag] === entry.offer);
+    if (tags.length > 0) entry.offer.tags = tags;
+  }
+
+  const comparators: Record<SortMode, (a: (typeof scored)[number], b: (typeof scored)[number]) => number> = {
+    best: (a, b) => byScore(a, b) || byPrice(a, b),
+    cheapest: (a, b) => byPrice(a, b) || byDuration(a, b),
+    fastest: (a, b) => byDuration(a, b) || byPrice(a, b),
+    earliest: (a, b) => a.metrics.departure - b.metrics.departure || byPrice(a, b),
+  };
+
+  return scored.sort(comparators[sort]).map((entry) => entry.offer);
+}
@@ -0,0 +1,169 @@
+// mcp-flight-server/src/resilience.test.ts
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createCircuitBreaker, parseRetryAfter, resilientFetch, type ResilientFetchOptions } from "./resilience.js";
+import { FlightServerError } from "./errors.js";
+import { configureLogger } from "./observability/logger.js";
+
+configureLogger({ level: "silent" });
+
+// 로컬 stub 서버: 요청마다 replies 를 앞에서부터 하나씩 응답 (비면 200)
+interface StubReply {
+  status: number;
+  headers?: Record<string, string>;
+  delayMs?: number;
+}
+
+let server: Server;
+let url: string;
+let replies: StubReply[] = [];
+let hits = 0;
+
+before(async () => {
+  server = createServer((_req, res) => {
+    hits++;
+    const reply = replies.shift() ?? { status: 200 };
+    setTimeout(() => {
+      if (res.destroyed) return;
+      res.writeHead(reply.status, { "content-type": "application/json", ...reply.headers });
+      res.end(JSON.stringify({ status: reply.status }));
+    }, reply.delayMs ?? 0);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+beforeEach(() => {
+  replies = [];
+  hits = 0;
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function options(overrides: Partial<ResilientFetchOptions> = {}): ResilientFetchOptions {
+  return { operation: "stub", timeoutMs: 1000, retry: { retries: 2, baseDelayMs: 1, maxDelayMs: 5 }, ...overrides };
+}
+
+function isUnavailable(error: unknown): boolean {
+  return error instanceof FlightServerError && error.code === "UPSTREAM_UNAVAILABLE";
+}
+
+describe("resilientFetch", () => {
+  it("5xx 는 재시도하고 성공 응답을 반환", async () => {
+    replies = [{ status: 503 }, { status: 502 }, { status: 200 }];
+    const res = await resilientFetch(url, {}, options());
+    assert.equal(res.status, 200);
+    assert.equal(hits, 3);
+  });
+
+  it("재시도를 모두 쓰면 마지막 5xx 응답을 반환", async () => {
+    replies = [{ status: 500 }, { status: 500 }, { status: 500 }];
+    const res = await resilientFetch(url, {}, options());
+    assert.equal(res.status, 500);
+    assert.equal(hits, 3);
+  });
+
+  it("4xx 는 재시도하지 않음", async () => {
+    replies = [{ status: 400 }];
+    const res = await resilientFetch(url, {}, options());
+    assert.equal(res.status, 400);
+    assert.equal(hits, 1);
+  });
+
+  it("Retry-After 가 있으면 백오프 대신 그 시간만큼 대기 (maxDelayMs 상한)", async () => {
+    // 백오프였다면 5초를 기다림
+    const slowBackoff = { retries: 1, baseDelayMs: 5000, maxDelayMs: 5000 };
+    replies = [{ status: 429, headers: { "retry-after": "0" } }];
+    let started = Date.now();
+    assert.equal((await resilientFetch(url, {}, options({ retry: slowBackoff }))).status, 200);
+    assert.ok(Date.now() - started < 1000);
+
+    replies = [{ status: 503, headers: { "retry-after": "120" } }];
+    started = Date.now();
+    assert.equal((await resilientFetch(url, {}, options({ retry: { retries: 1, baseDelayMs: 1, maxDelayMs: 20 } }))).status, 200);
+    assert.ok(Date.now() - started < 1000);
+  });
+
+  it("응답이 늦으면 타임아웃 후 재시도, 모두 실패하면 UPSTREAM_UNAVAILABLE", async () => {
+    replies = [{ status: 200, delayMs: 300 }, { status: 200, delayMs: 300 }];
+    await assert.rejects(resilientFetch(url, {}, options({ timeoutMs: 50, retry: { retries: 1, baseDelayMs: 1, maxDelayMs: 1 } })), (error: unknown) => {
+      return isUnavailable(error) && /timeout after 50ms/.test((error as Error).message);
+    });
+    assert.equal(hits, 2);
+  });
+});
+
+describe("circuit breaker", () => {
+  const noRetry = { retries: 0, baseDelayMs: 1, maxDelayMs: 1 };
+
+  it("연속 실패 → open (호출하지 않고 거절) → half_open 시험 성공 → closed", async () => {
+    const breaker = createCircuitBreaker("stub", 2, 50);
+    replies = [{ status: 500 }, { status: 500 }];
+    await resilientFetch(url, {}, options({ retry: noRetry, breaker }));
+    assert.equal(breaker.snapshot().state, "closed");
+    await resilientFetch(url, {}, options({ retry: noRetry, breaker }));
+    assert.equal(breaker.snapshot().state, "open");
+
+    await assert.rejects(resilientFetch(url, {}, options({ retry: noRetry, breaker })), isUnavailable);
+    assert.equal(hits, 2);
+
+    await sleep(60);
+    assert.equal(breaker.snapshot().state, "half_open");
+    assert.equal((await resilientFetch(url, {}, options({ retry: noRetry, breaker }))).status, 200);
+    assert.deepEqual([breaker.snapshot().state, breaker.snapshot().consecutiveFailures], ["closed", 0]);
+  });
+
+  it("half_open 시험 호출이 실패하면 다시 open, 시험 중에는 다른 호출 거절", async () => {
+    const breaker = createCircuitBreaker("stub", 1, 50);
+    replies = [{ status: 500 }];
+    await resilientFetch(url, {}, options({ retry: noRetry, breaker }));
+    await sleep(60);
+
+    replies = [{ status: 500, delayMs: 50 }];
+    const trial = resilientFetch(url, {}, options({ retry: noRetry, breaker }));
+    await assert.rejects(resilientFetch(url, {}, options({ retry: noRetry, breaker })), isUnavailable);
+    await trial;
+    assert.equal(breaker.snapshot().state, "open");
+    assert.ok(Date.parse(breaker.snapshot().retryAt!) > Date.now());
+  });
+
+  it("half_open 시험 호출이 429 로 끝나면 해제되어 다음 호출이 다시 시험", async () => {
+    const breaker = createCircuitBreaker("stub", 1, 50);
+    replies = [{ status: 500 }];
+    await resilientFetch(url, {}, options({ retry: noRetry, breaker }));
+    await sleep(60);
+
+    replies = [{ status: 429 }];
+    assert.equal((await resilientFetch(url, {}, options({ retry: noRetry, breaker }))).status, 429);
+    assert.equal(breaker.snapshot().state, "half_open");
+
+    assert.equal((await resilientFetch(url, {}, options({ retry: noRetry, breaker }))).status, 200);
+    assert.equal(breaker.snapshot().state, "closed");
+  });
+
+  it("닫힌 상태의 429 는 실패로 세지 않음", async () => {
+    const breaker = createCircuitBreaker("stub", 1, 50);
+    replies = [{ status: 429 }];
+    await resilientFetch(url, {}, options({ retry: noRetry, breaker }));
+    assert.deepEqual([breaker.snapshot().state, breaker.snapshot().consecutiveFailures], ["closed", 0]);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("초 또는 HTTP 날짜", () => {
+    const now = Date.parse("2030-01-01T00:00:00Z");
+    assert.equal(parseRetryAfter("3", now), 3000);
+    assert.equal(parseRetryAfter("Tue, 01 Jan 2030 00:00:10 GMT", now), 10000);
+    assert.equal(parseRetryAfter("Tue, 01 Jan 2029 00:00:10 GMT", now), 0);
+    assert.equal(parseRetryAfter("soon", now), undefined);
+    assert.equal(parseRetryAfter(null, now), undefined);
+  });
+});
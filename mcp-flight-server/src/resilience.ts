@@ -0,0 +1,173 @@
+// mcp-flight-server/src/resilience.ts
+
+import { FlightServerError } from "./errors.js";
+import { logger } from "./observability/logger.js";
+import { counter } from "./observability/metrics.js";
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ResilientFetchOptions {
+  operation: string;
+  timeoutMs: number;
+  retry: RetryOptions;
+  breaker?: CircuitBreaker;
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAt?: string;
+  lastError?: string;
+}
+
+export interface CircuitBreaker {
+  // 호출 가능 여부 확인 (open 이면 CircuitOpen 에러) → half_open 시험 호출이면 true
+  acquire(): boolean;
+  recordSuccess(): void;
+  recordFailure(error: string): void;
+  // 시험 호출이 성공/실패 판정 없이 끝났을 때 (429 등) 다음 호출이 다시 시험할 수 있도록 해제
+  release(): void;
+  snapshot(): CircuitBreakerSnapshot;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+const upstreamRetries = counter("upstream_retries_total", "공급자 호출 재시도 수 (operation)");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Retry-After 헤더(초 또는 HTTP 날짜) → 대기 시간(ms)
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// 지수 백오프 + full jitter
+export function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * 연속 실패가 threshold 에 도달하면 open → resetTimeoutMs 후 half_open 에서 한 번 시험 호출
+ * 시험 호출이 성공하면 closed, 실패하면 다시 open, 판정 없이 끝나면(release) half_open 유지
+ */
+export function createCircuitBreaker(name: string, failureThreshold: number, resetTimeoutMs: number): CircuitBreaker {
+  let state: CircuitState = "closed";
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let lastError: string | undefined;
+  let trialInFlight = false;
+
+  const open = () => {
+    state = "open";
+    openedAt = Date.now();
+    trialInFlight = false;
+    logger.error({ circuit: name, consecutiveFailures, lastError }, `Circuit "${name}" open`);
+  };
+
+  return {
+    acquire() {
+      if (state === "open" && Date.now() - openedAt >= resetTimeoutMs) {
+        state = "half_open";
+      }
+      if (state === "open") {
+        throw new FlightServerError("UPSTREAM_UNAVAILABLE", `${name} 호출이 일시적으로 차단되었습니다 (circuit open)`, {
+          retryAt: new Date(openedAt + resetTimeoutMs).toISOString(),
+        });
+      }
+      if (state === "half_open" && trialInFlight) {
+        throw new FlightServerError("UPSTREAM_UNAVAILABLE", `${name} 복구 확인 호출이 진행 중입니다 (circuit half_open)`);
+      }
+      if (state !== "half_open") return false;
+      trialInFlight = true;
+      return true;
+    },
+    recordSuccess() {
+      if (state !== "closed") logger.info({ circuit: name }, `Circuit "${name}" closed`);
+      state = "closed";
+      consecutiveFailures = 0;
+      trialInFlight = false;
+    },
+    recordFailure(error) {
+      consecutiveFailures++;
+      lastError = error;
+      if (state === "half_open" || consecutiveFailures >= failureThreshold) open();
+    },
+    release() {
+      trialInFlight = false;
+    },
+    snapshot() {
+      return {
+        name,
+        state: state === "open" && Date.now() - openedAt >= resetTimeoutMs ? "half_open" : state,
+        consecutiveFailures,
+        ...(state !== "closed" ? { openedAt: new Date(openedAt).toISOString() } : {}),
+        ...(state === "open" ? { retryAt: new Date(openedAt + resetTimeoutMs).toISOString() } : {}),
+        ...(lastError ? { lastError } : {}),
+      };
+    },
+  };
+}
+
+/**
+ * 타임아웃 + 재시도(429/5xx/네트워크 오류) + circuit breaker 가 적용된 fetch
+ * - 4xx 응답은 재시도하지 않고 그대로 반환 (호출자가 에러 코드로 변환)
+ * - 재시도 후에도 실패한 5xx 응답은 반환하되 circuit 에는 실패로 기록
+ * - 429 는 공급자 장애가 아니므로 circuit 실패로 세지 않음 (half_open 시험 호출이었으면 해제만)
+ */
+export async function resilientFetch(url: string, init: RequestInit, options: ResilientFetchOptions): Promise<Response> {
+  const { breaker } = options;
+  const trial = breaker?.acquire() ?? false;
+  try {
+    return await fetchWithRetry(url, init, options);
+  } finally {
+    // 성공/실패로 기록했으면 이미 해제된 상태 - 그 밖의 종료(429, 예기치 않은 예외)에서 시험 호출이 계속 잡혀 있지 않도록
+    if (trial) breaker?.release();
+  }
+}
+
+async function fetchWithRetry(url: string, init: RequestInit, { operation, timeoutMs, retry, breaker }: ResilientFetchOptions): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let res: Response | undefined;
+    let failure: string;
+
+    try {
+      res = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+      if (!RETRYABLE_STATUSES.has(res.status)) {
+        breaker?.recordSuccess();
+        return res;
+      }
+      failure = `HTTP ${res.status}`;
+    } catch (err) {
+      const timedOut = err instanceof Error && (err.name === "TimeoutError" || err.name === "AbortError");
+      failure = timedOut ? `timeout after ${timeoutMs}ms` : err instanceof Error ? err.message : String(err);
+    }
+
+    if (attempt >= retry.retries) {
+      if (res?.status !== 429) breaker?.recordFailure(`${operation}: ${failure}`);
+      if (res) return res;
+      throw new FlightServerError("UPSTREAM_UNAVAILABLE", `${operation} 호출 실패: ${failure}`);
+    }
+
+    const retryAfter = res ? parseRetryAfter(res.headers.get("retry-after")) : undefined;
+    const delay = Math.min(retry.maxDelayMs, retryAfter ?? backoffDelay(attempt, retry));
+    upstreamRetries.inc({ operation });
+    logger.warn({ operation, attempt: attempt + 1, retries: retry.retries, failure, delayMs: delay }, `${operation} 재시도`);
+    await res?.body?.cancel();
+    await sleep(delay);
+  }
+}
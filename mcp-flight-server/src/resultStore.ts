@@ -0,0 +1,120 @@
+// mcp-flight-server/src/resultStore.ts
+
+import { randomUUID } from "node:crypto";
+import { FlightServerError } from "./errors.js";
+import type { FlightOffer, FlightSearchResult, SearchFlightParams, SortMode } from "./types.js";
+
+const MAX_STORED_SEARCHES = 500;
+
+interface StoredSearch {
+  result: FlightSearchResult;
+  // 가격 확인 시 승객 수 등 검색 조건이 필요해서 함께 보관
+  params: SearchFlightParams;
+  expiresAt: number;
+}
+
+interface CursorPayload {
+  searchId: string;
+  offset: number;
+  sort: SortMode;
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorPayload {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as CursorPayload;
+    if (typeof payload.searchId === "string" && Number.isInteger(payload.offset) && typeof payload.sort === "string") {
+      return payload;
+    }
+  } catch {}
+  throw new FlightServerError("INVALID_PARAMS", "잘못된 cursor 입니다", [{ path: "cursor", message: "malformed" }]);
+}
+
+export interface ResultStore {
+  save(result: FlightSearchResult, params: SearchFlightParams): string;
+  // 저장된 정렬 결과에서 한 페이지 (다음 페이지가 있으면 nextCursor 포함, 정렬 기준은 첫 페이지를 따름)
+  readPage(searchId: string, offset: number, pageSize: number): FlightSearchResult;
+  readCursor(cursor: string, pageSize: number): FlightSearchResult;
+  // 저장된 검색 결과에서 항공편 하나와 당시 검색 조건 (가격 확인용)
+  findOffer(searchId: string, offerId: string): { offer: FlightOffer; params: SearchFlightParams };
+}
+
+/**
+ * 페이지네이션/가격 확인용 정렬 결과 스냅샷 (searchId → 전체 결과, 공급자 원본 응답 포함)
+ * ttlMs 가 지나거나 MAX_STORED_SEARCHES 를 넘으면 오래된 것부터 삭제
+ */
+export function createResultStore(ttlMs: number): ResultStore {
+  const searches = new Map<string, StoredSearch>();
+
+  function evictExpired(now: number): void {
+    for (const [id, stored] of searches) {
+      if (stored.expiresAt <= now) searches.delete(id);
+    }
+    // 오래된 순으로 상한 유지 (Map 은 삽입 순서 보장)
+    while (searches.size > MAX_STORED_SEARCHES) {
+      searches.delete(searches.keys().next().value!);
+    }
+  }
+
+  function readSearch(searchId: string): StoredSearch | undefined {
+    const stored = searches.get(searchId);
+    if (!stored || stored.expiresAt <= Date.now()) {
+      searches.delete(searchId);
+      return undefined;
+    }
+    return stored;
+  }
+
+  function readPage(searchId: string, offset: number, pageSize: number): FlightSearchResult {
+    const stored = readSearch(searchId);
+    if (!stored) {
+      throw new FlightServerError("CURSOR_EXPIRED", "검색 결과가 만료되었습니다. 다시 검색해 주세요");
+    }
+
+    const { result, params } = stored;
+    // 공급자 원본 응답은 includeRaw 요청에만 포함
+    const items = result.items.slice(offset, offset + pageSize).map(({ raw, ...offer }) => (params.includeRaw ? { ...offer, raw } : offer));
+    const nextOffset = offset + items.length;
+
+    return {
+      currency: result.currency,
+      items,
+      searchId,
+      sort: result.sort,
+      total: result.items.length,
+      ...(nextOffset < result.items.length
+        ? { nextCursor: encodeCursor({ searchId, offset: nextOffset, sort: result.sort ?? "best" }) }
+        : {}),
+    };
+  }
+
+  return {
+    save(result, params) {
+      const now = Date.now();
+      evictExpired(now);
+      const searchId = randomUUID();
+      searches.set(searchId, { result, params, expiresAt: now + ttlMs });
+      return searchId;
+    },
+    readPage,
+    readCursor(cursor, pageSize) {
+      const { searchId, offset } = decodeCursor(cursor);
+      return readPage(searchId, offset, pageSize);
+    },
+    findOffer(searchId, offerId) {
+      const stored = readSearch(searchId);
+      if (!stored) {
+        throw new FlightServerError("OFFER_EXPIRED", "검색 결과가 만료되었습니다. 다시 검색한 뒤 가격을 확인해 주세요");
+      }
+
+      const offer = stored.result.items.find((item) => item.id === offerId);
+      if (!offer) {
+        throw new FlightServerError("NOT_FOUND", `검색 결과에 항공편 ${offerId} 이(가) 없습니다`);
+      }
+      return { offer, params: stored.params };
+    },
+  };
+}
@@ -1,28 +1,600 @@
 // src/mcp/schema.ts
 
 import { z } from "zod";
+import type { SearchFlightParams } from "./types.js";
+
+export const CabinClassSchema = z.enum(["ECONOMY", "PREMIUM_ECONOMY", "BUSINESS", "FIRST"]);
+
+export const FlightEndpointSchema = z.object({
+  iataCode: z.string(),
+  terminal: z.string().optional(),
+  at: z.string(),
+  timezone: z.string().optional(),
+  utcOffset: z.string().optional(),
+  atUtc: z.string().optional(),
+});
+
+export const BaggageAllowanceSchema = z.object({
+  quantity: z.number().optional(),
+  weight: z.number().optional(),
+  weightUnit: z.string().optional(),
+});
+
+export const FlightSegmentSchema = z.object({
+  id: z.string(),
+  carrierCode: z.string(),
+  carrierName: z.string().optional(),
+  flightNumber: z.string(),
+  operatingCarrierCode: z.string().optional(),
+  aircraft: z.string().optional(),
+  departure: FlightEndpointSchema,
+  arrival: FlightEndpointSchema,
+  duration: z.string(),
+  durationMinutes: z.number(),
+  cabin: CabinClassSchema.optional(),
+  bookingClass: z.string().optional(),
+  fareBasis: z.string().optional(),
+  fareBrand: z.string().optional(),
+  checkedBags: BaggageAllowanceSchema.optional(),
+});
+
+export const FlightItinerarySchema = z.object({
+  duration: z.string(),
+  durationMinutes: z.number(),
+  stops: z.number().int(),
+  segments: z.array(FlightSegmentSchema).min(1),
+});
 
 export const FlightOfferSchema = z.object({
   id: z.string(),
+  provider: z.string(),
   price: z.object({
     total: z.string(),
+    base: z.string().optional(),
     currency: z.string(),
   }),
-  itineraries: z.array(z.any()),
+  validatingCarrier: z.string().optional(),
+  bookableSeats: z.number().optional(),
+  lastTicketingDate: z.string().optional(),
+  cabin: CabinClassSchema.optional(),
+  fareBrand: z.string().optional(),
+  checkedBags: BaggageAllowanceSchema.optional(),
+  itineraries: z.array(FlightItinerarySchema).min(1),
+  tags: z.array(z.enum(["cheapest", "fastest", "best"])).optional(),
+  score: z.number().optional(),
+  raw: z.unknown().optional(),
 });
 
+export const SortModeSchema = z.enum(["best", "cheapest", "fastest", "earliest"]);
+
 export const FlightSearchResultSchema = z.object({
   currency: z.string(),
   items: z.array(FlightOfferSchema),
+  searchId: z.string().optional(),
+  sort: SortModeSchema.optional(),
+  total: z.number().int().optional(),
+  nextCursor: z.string().optional(),
 });
 
-export const SearchFlightParamsSchema = z.object({
-  origin: z.string(),
-  destination: z.string(),
+export const IataCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "3자리 IATA 코드여야 합니다");
+
+export const IsoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "YYYY-MM-DD 형식이어야 합니다")
+  .refine((value) => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value), {
+    message: "존재하지 않는 날짜입니다",
+  });
+
+export const CurrencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "ISO 4217 통화 코드여야 합니다");
+
+export const AirlineCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9]{2}$/, "2자리 항공사 IATA 코드여야 합니다");
+
+// 출발지 기준 '오늘'은 UTC보다 최대 하루 늦을 수 있으므로 UTC 어제까지 허용
+export function earliestAllowedDate(): string {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+// 다구간 검색 구간 수 (Amadeus Flight Offers Search 최대 6구간)
+const MAX_ITINERARY_LEGS = 6;
+
+export const OriginDestinationSchema = z.object({
+  origin: IataCodeSchema.describe("Leg origin IATA airport or city code"),
+  destination: IataCodeSchema.describe("Leg destination IATA airport or city code"),
+  departDate: IsoDateSchema.describe("Leg departure date, YYYY-MM-DD"),
+});
+
+export const SearchFlightParamsObjectSchema = z.object({
+  origin: IataCodeSchema.describe("Origin IATA airport or city code, e.g. ICN"),
+  destination: IataCodeSchema.describe("Destination IATA airport or city code, e.g. JFK"),
+  departDate: IsoDateSchema.describe("Departure date, YYYY-MM-DD"),
+  returnDate: IsoDateSchema.optional().describe("Return date for round trips, YYYY-MM-DD"),
+  originDestinations: z
+    .array(OriginDestinationSchema)
+    .min(2)
+    .max(MAX_ITINERARY_LEGS)
+    .optional()
+    .describe(
+      "Multi-city or open-jaw trip: 2-6 legs in travel order, e.g. ICN→NRT, NRT→BKK, BKK→ICN (use instead of origin/destination/departDate/returnDate)"
+    ),
+  adults: z.number().int().min(1).max(9).optional().describe("Number of adult passengers, 1-9 (default 1)"),
+  currency: CurrencyCodeSchema.optional().describe("ISO 4217 currency code for prices (default USD)"),
+  children: z.number().int().min(0).max(8).optional().describe("Number of children aged 2-11"),
+  infants: z.number().int().min(0).max(9).optional().describe("Number of infants under 2 (on an adult's lap)"),
+  travelClass: CabinClassSchema.optional().describe("Cabin class"),
+  nonStop: z.boolean().optional().describe("Only direct flights"),
+  maxStopovers: z.number().int().min(0).max(3).optional().describe("Maximum number of stops per itinerary"),
+  includedAirlineCodes: z.array(AirlineCodeSchema).min(1).optional().describe("Only these airlines (IATA codes, e.g. KE)"),
+  excludedAirlineCodes: z.array(AirlineCodeSchema).min(1).optional().describe("Exclude these airlines (IATA codes)"),
+  maxPrice: z.number().positive().optional().describe("Maximum total price in the requested currency"),
+  maxResults: z.number().int().min(1).max(250).optional().describe("Maximum size of the ranked result set (default 50)"),
+  sort: SortModeSchema.optional().describe("best (weighted price/duration/stops, default), cheapest, fastest or earliest departure"),
+  pageSize: z.number().int().min(1).max(50).optional().describe("Offers per page (default 20)"),
+  cursor: z.string().optional().describe("nextCursor from a previous response to fetch the next page"),
+  includeRaw: z.boolean().optional().describe("Attach the raw provider payload to each offer (debugging)"),
+});
+
+// 출발/도착, 승객 수, 항공사/경유 조건 검증 (날짜를 제외한 검색 조건 공통)
+function refineSearchOptions(params: Partial<z.infer<typeof SearchFlightParamsObjectSchema>>, ctx: z.RefinementCtx): void {
+  if (params.origin && params.origin === params.destination) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["destination"], message: "출발지와 도착지가 같습니다" });
+  }
+  const adults = params.adults ?? 1;
+  if (adults + (params.children ?? 0) > 9) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["children"], message: "좌석을 차지하는 승객(성인+아동)은 최대 9명입니다" });
+  }
+  if ((params.infants ?? 0) > adults) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["infants"], message: "유아 수는 성인 수를 넘을 수 없습니다" });
+  }
+  if (params.includedAirlineCodes && params.excludedAirlineCodes) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["excludedAirlineCodes"],
+      message: "includedAirlineCodes 와 excludedAirlineCodes 는 함께 사용할 수 없습니다",
+    });
+  }
+  if (params.nonStop && params.maxStopovers !== undefined && params.maxStopovers > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maxStopovers"], message: "nonStop 과 maxStopovers > 0 은 함께 사용할 수 없습니다" });
+  }
+}
+
+// 구간 순서/날짜 검증: 각 구간은 출발지와 도착지가 달라야 하고, 출발일은 이전 구간보다 빠를 수 없음
+// 구간 사이가 이어지지 않는 오픈조(예: ICN→NRT, KIX→ICN)는 허용
+function refineLegs(legs: z.infer<typeof OriginDestinationSchema>[], ctx: z.RefinementCtx): void {
+  legs.forEach((leg, index) => {
+    if (leg.origin === leg.destination) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["originDestinations", index, "destination"], message: "출발지와 도착지가 같습니다" });
+    }
+    if (index === 0 && leg.departDate < earliestAllowedDate()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["originDestinations", index, "departDate"], message: "출발일이 과거입니다" });
+    }
+    if (index > 0 && leg.departDate < legs[index - 1].departDate) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["originDestinations", index, "departDate"],
+        message: `${index + 1}번째 구간 출발일이 이전 구간보다 빠릅니다`,
+      });
+    }
+  });
+}
+
+/**
+ * 검색 파라미터: origin/destination/departDate(+returnDate) 또는 originDestinations 중 하나
+ * 다구간이면 검증 후 첫 구간 출발지/출발일, 마지막 구간 도착지를 origin/destination/departDate 에 채움
+ * (캐시 키, 결과 없음 메시지, 가격 알림 만료 판단 등 기존 코드가 그대로 동작하도록)
+ */
+export const SearchFlightParamsSchema = SearchFlightParamsObjectSchema.partial({ origin: true, destination: true, departDate: true })
+  .superRefine((params, ctx) => {
+    refineSearchOptions(params, ctx);
+
+    const legs = params.originDestinations;
+    if (legs) {
+      refineLegs(legs, ctx);
+      const derived = { origin: legs[0].origin, destination: legs[legs.length - 1].destination, departDate: legs[0].departDate };
+      for (const key of ["origin", "destination", "departDate"] as const) {
+        if (params[key] !== undefined && params[key] !== derived[key]) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `originDestinations 와 ${key} 는 함께 사용할 수 없습니다` });
+        }
+      }
+      if (params.returnDate) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["returnDate"], message: "다구간 검색에는 returnDate 대신 구간을 추가하세요" });
+      }
+      return;
+    }
+
+    for (const key of ["origin", "destination", "departDate"] as const) {
+      if (!params[key]) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `${key} 또는 originDestinations 가 필요합니다` });
+      }
+    }
+    if (params.departDate && params.departDate < earliestAllowedDate()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["departDate"], message: "출발일이 과거입니다" });
+    }
+    if (params.departDate && params.returnDate && params.returnDate < params.departDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["returnDate"], message: "귀국일이 출발일보다 빠릅니다" });
+    }
+  })
+  .transform((params): SearchFlightParams => {
+    const legs = params.originDestinations;
+    if (!legs) return params as SearchFlightParams;
+    return { ...params, origin: legs[0].origin, destination: legs[legs.length - 1].destination, departDate: legs[0].departDate };
+  });
+
+// 가격 캘린더: 한 번에 볼 수 있는 출발일 범위와 여행 기간 범위 상한
+const MAX_CALENDAR_RANGE_DAYS = 31;
+const MAX_TRIP_LENGTH_SPAN = 14;
+export const DEFAULT_DEPART_WINDOW_DAYS = 3;
+
+const DAY_MS = 86_400_000;
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+export const PriceCalendarParamsSchema = SearchFlightParamsObjectSchema.omit({
+  departDate: true,
+  returnDate: true,
+  originDestinations: true,
+  sort: true,
+  pageSize: true,
+  cursor: true,
+  includeRaw: true,
+  maxResults: true,
+})
+  .extend({
+    departDate: IsoDateSchema.optional().describe("Preferred departure date, searched with ±departWindowDays around it"),
+    departWindowDays: z
+      .number()
+      .int()
+      .min(0)
+      .max(7)
+      .optional()
+      .describe(`Days before/after departDate to include (default ${DEFAULT_DEPART_WINDOW_DAYS})`),
+    departFrom: IsoDateSchema.optional().describe("First departure date of a range, YYYY-MM-DD (use with departTo instead of departDate)"),
+    departTo: IsoDateSchema.optional().describe(`Last departure date of the range, at most ${MAX_CALENDAR_RANGE_DAYS} days after departFrom`),
+    returnDate: IsoDateSchema.optional().describe("Preferred return date for round trips, searched with ±returnWindowDays"),
+    returnWindowDays: z.number().int().min(0).max(7).optional().describe("Days before/after returnDate to include (default 0)"),
+    tripLengthMin: z.number().int().min(0).max(60).optional().describe("Round trip: shortest stay in nights (instead of returnDate)"),
+    tripLengthMax: z.number().int().min(0).max(60).optional().describe("Round trip: longest stay in nights"),
+  })
+  .superRefine((params, ctx) => {
+    refineSearchOptions(params, ctx);
+
+    const hasRange = params.departFrom !== undefined || params.departTo !== undefined;
+    if (params.departDate && hasRange) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["departFrom"], message: "departDate 와 departFrom/departTo 는 함께 사용할 수 없습니다" });
+    } else if (!params.departDate && !(params.departFrom && params.departTo)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["departDate"], message: "departDate 또는 departFrom/departTo 가 필요합니다" });
+    }
+    if (params.departWindowDays !== undefined && !params.departDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["departWindowDays"], message: "departWindowDays 는 departDate 와 함께 사용합니다" });
+    }
+    if (params.departFrom && params.departTo) {
+      const span = daysBetween(params.departFrom, params.departTo);
+      if (span < 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["departTo"], message: "departTo 가 departFrom 보다 빠릅니다" });
+      } else if (span >= MAX_CALENDAR_RANGE_DAYS) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["departTo"], message: `출발일 범위는 최대 ${MAX_CALENDAR_RANGE_DAYS}일입니다` });
+      }
+    }
+
+    // 범위의 마지막 출발일까지 모두 과거면 검색할 날짜가 없음 (일부만 과거면 그 날짜만 제외)
+    const lastDepart = params.departDate ? addDays(params.departDate, params.departWindowDays ?? DEFAULT_DEPART_WINDOW_DAYS) : params.departTo;
+    if (lastDepart && lastDepart < earliestAllowedDate()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [params.departDate ? "departDate" : "departTo"], message: "출발일이 과거입니다" });
+    }
+
+    const hasTripLength = params.tripLengthMin !== undefined || params.tripLengthMax !== undefined;
+    if (params.returnDate && hasTripLength) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tripLengthMin"], message: "returnDate 와 tripLengthMin/Max 는 함께 사용할 수 없습니다" });
+    }
+    if (params.returnWindowDays !== undefined && !params.returnDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["returnWindowDays"], message: "returnWindowDays 는 returnDate 와 함께 사용합니다" });
+    }
+    if (params.tripLengthMin !== undefined && params.tripLengthMax !== undefined) {
+      if (params.tripLengthMax < params.tripLengthMin) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tripLengthMax"], message: "tripLengthMax 가 tripLengthMin 보다 작습니다" });
+      } else if (params.tripLengthMax - params.tripLengthMin > MAX_TRIP_LENGTH_SPAN) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["tripLengthMax"], message: `여행 기간 범위는 최대 ${MAX_TRIP_LENGTH_SPAN}일입니다` });
+      }
+    }
+    if (params.returnDate && params.departDate && params.returnDate < params.departDate) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["returnDate"], message: "귀국일이 출발일보다 빠릅니다" });
+    }
+  });
+
+export const PriceCalendarCellSchema = z.object({
   departDate: z.string(),
   returnDate: z.string().optional(),
-  adults: z.number().int().optional(),
+  tripLength: z.number().int().optional(),
+  price: z.number().optional(),
+  offerId: z.string().optional(),
+  carrier: z.string().optional(),
+  stops: z.number().int().optional(),
+  durationMinutes: z.number().optional(),
+  error: z.string().optional(),
+});
+
+export const PriceCalendarSchema = z.object({
+  origin: z.string(),
+  destination: z.string(),
+  currency: z.string(),
+  departDates: z.array(z.string()),
+  returnDates: z.array(z.string()).optional(),
+  cells: z.array(PriceCalendarCellSchema),
+  cheapest: PriceCalendarCellSchema.optional(),
+  searched: z.number().int(),
+  failed: z.number().int(),
+});
+
+export const PriceOfferParamsSchema = z.object({
+  searchId: z.string().trim().min(1).describe("searchId of the search_flights result the offer came from"),
+  offerId: z.string().trim().min(1).describe("id of the offer to price, as returned by search_flights"),
+});
+
+export const FareRuleSchema = z.object({
+  category: z.string(),
+  allowed: z.boolean().optional(),
+  maxPenalty: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const SegmentBaggageSchema = z.object({
+  segmentId: z.string(),
+  route: z.string(),
+  checkedBags: BaggageAllowanceSchema.optional(),
+});
+
+export const OfferPricingSchema = z.object({
+  searchId: z.string(),
+  offerId: z.string(),
+  status: z.enum(["confirmed", "price_changed", "unavailable"]),
+  offer: FlightOfferSchema,
+  previousPrice: FlightOfferSchema.shape.price,
+  priceDifference: z.number(),
+  seatsRequired: z.number().int(),
+  seatsAvailable: z.boolean(),
+  fareRules: z.array(FareRuleSchema),
+  baggage: z.array(SegmentBaggageSchema),
+  pricedAt: z.string(),
+});
+
+const CountryCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{2}$/, "2자리 국가 코드(ISO 3166-1)여야 합니다");
+
+// 항공권에는 여권과 같은 영문 표기만 쓸 수 있음 (대문자로 정규화)
+const TravelerNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(50)
+  .regex(/^[A-Za-z][A-Za-z' -]*$/, "여권과 같은 영문 이름이어야 합니다")
+  .transform((value) => value.toUpperCase());
+
+export const TravelerDocumentSchema = z.object({
+  number: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9]{5,20}$/, "여권 번호는 영문/숫자 5~20자여야 합니다"),
+  expiryDate: IsoDateSchema.describe("Passport expiry date (YYYY-MM-DD)"),
+  issuanceCountry: CountryCodeSchema.describe("Issuing country, ISO 3166-1 alpha-2 (e.g. KR)"),
+  nationality: CountryCodeSchema.describe("Nationality, ISO 3166-1 alpha-2"),
+});
+
+export const TravelerInputSchema = z.object({
+  firstName: TravelerNameSchema.describe("Given name as printed on the passport (Latin letters)"),
+  lastName: TravelerNameSchema.describe("Family name as printed on the passport (Latin letters)"),
+  dateOfBirth: IsoDateSchema.refine((value) => value < new Date().toISOString().slice(0, 10), "생년월일은 오늘 이전이어야 합니다").describe(
+    "Date of birth (YYYY-MM-DD); decides whether the traveler books as adult, child (2-11) or infant (under 2)"
+  ),
+  gender: z.enum(["MALE", "FEMALE"]),
+  passport: TravelerDocumentSchema.optional().describe("Required for international itineraries"),
+});
+
+export const BookingContactSchema = z.object({
+  email: z.string().trim().email("올바른 이메일 주소가 아닙니다"),
+  phone: z.object({
+    countryCallingCode: z
+      .string()
+      .trim()
+      .regex(/^[1-9]\d{0,2}$/, "국가 번호는 숫자 1~3자리여야 합니다 (예: 82)"),
+    number: z
+      .string()
+      .trim()
+      .regex(/^\d{4,15}$/, "전화번호는 숫자 4~15자리여야 합니다"),
+  }),
+});
+
+export const OrderRequestParamsSchema = PriceOfferParamsSchema.extend({
+  travelers: z.array(TravelerInputSchema).min(1).max(9).describe("One entry per passenger in the search (adults, children and infants)"),
+  contact: BookingContactSchema.describe("Contact for the booking confirmation"),
+  expectedTotal: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Total price the user agreed to; booking fails with PRICE_CHANGED if the confirmed total differs (defaults to the searched price)"),
+});
+
+// 게이트웨이가 요청한 테넌트를 채움: 지정하면 그 테넌트가 만든 예약/가격 알림만 보이고 idempotency key 도 테넌트별로 구분
+const TenantSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(128)
+  .describe("Owner tenant, filled in by the calling gateway; only that tenant's orders and price watches are visible");
+
+export const CreateOrderParamsSchema = OrderRequestParamsSchema.extend({
+  tenant: TenantSchema.optional(),
+  idempotencyKey: z
+    .string()
+    .trim()
+    .min(8)
+    .max(128)
+    .optional()
+    .describe("Retrying with the same key returns the existing order instead of booking again"),
+});
+
+export const OrderIdParamsSchema = z.object({
+  orderId: z.string().trim().min(1).describe("Order id returned by create_order"),
+  tenant: TenantSchema.optional(),
+});
+
+// 저장된 예약의 승객 정보 (여권 번호는 마스킹되어 있으므로 입력 스키마와 분리)
+export const TravelerSchema = z.object({
+  id: z.string(),
+  travelerType: z.enum(["ADULT", "CHILD", "HELD_INFANT"]),
+  firstName: z.string(),
+  lastName: z.string(),
+  dateOfBirth: z.string(),
+  gender: z.enum(["MALE", "FEMALE"]),
+  passport: z
+    .object({
+      number: z.string(),
+      expiryDate: z.string(),
+      issuanceCountry: z.string(),
+      nationality: z.string(),
+    })
+    .optional(),
+});
+
+export const OrderValidationSchema = z.object({
+  pricing: OfferPricingSchema,
+  travelers: z.array(TravelerSchema),
+});
+
+export const FlightOrderSchema = z.object({
+  id: z.string(),
+  status: z.enum(["confirmed", "cancelled"]),
+  provider: z.string(),
+  providerOrderId: z.string(),
+  pnr: z.string(),
+  searchId: z.string(),
+  offerId: z.string(),
+  offer: FlightOfferSchema,
+  travelers: z.array(TravelerSchema),
+  contact: BookingContactSchema,
+  idempotencyKey: z.string().optional(),
+  tenant: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  cancelledAt: z.string().optional(),
+});
+
+export const CreatePriceWatchParamsSchema = z.object({
+  search: SearchFlightParamsSchema.describe("Flight search to re-run (same fields as search_flights)"),
+  targetPrice: z.number().positive().describe("Alert when the lowest total price is at or below this amount, in search.currency"),
+  intervalMinutes: z.number().int().min(5).max(1440).optional().describe("How often to re-check the price, in minutes (default 60)"),
+  webhookUrl: z.string().url().optional().describe("HTTPS webhook on a public host that receives price alerts (defaults to the server's WATCH_WEBHOOK_URL)"),
+  tenant: TenantSchema.optional(),
+});
+
+export const ListPriceWatchesParamsSchema = z.object({
+  tenant: TenantSchema.optional(),
+});
+
+export const WatchIdParamsSchema = z.object({
+  watchId: z.string().trim().min(1).describe("Price watch id returned by create_price_watch"),
+  tenant: TenantSchema.optional(),
+});
+
+export const PricePointSchema = z.object({
+  checkedAt: z.string(),
+  price: z.number().optional(),
   currency: z.string().optional(),
+  offerId: z.string().optional(),
+  carrier: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export const PriceWatchSummarySchema = z.object({
+  id: z.string(),
+  search: SearchFlightParamsObjectSchema.partial(),
+  targetPrice: z.number(),
+  currency: z.string(),
+  intervalMinutes: z.number().int(),
+  status: z.enum(["active", "expired"]),
+  notify: z.object({ webhookUrl: z.string().optional() }).optional(),
+  tenant: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  lastCheckedAt: z.string().optional(),
+  nextCheckAt: z.string(),
+  lowestPrice: z.number().optional(),
+  lastAlertedPrice: z.number().optional(),
+  lastError: z.string().optional(),
+});
+
+export const PriceWatchSchema = PriceWatchSummarySchema.extend({
+  history: z.array(PricePointSchema),
+});
+
+export const PriceWatchListSchema = z.object({
+  watches: z.array(PriceWatchSummarySchema),
+});
+
+export const PriceHistorySchema = z.object({
+  watchId: z.string(),
+  status: z.enum(["active", "expired"]),
+  currency: z.string(),
+  targetPrice: z.number(),
+  lowestPrice: z.number().optional(),
+  points: z.array(PricePointSchema),
+});
+
+export const DeletePriceWatchResultSchema = z.object({
+  watchId: z.string(),
+  deleted: z.boolean(),
+});
+
+export const LocationTypeSchema = z.enum(["AIRPORT", "CITY"]);
+
+export const LocationSchema = z.object({
+  type: LocationTypeSchema,
+  iataCode: z.string(),
+  name: z.string(),
+  cityCode: z.string(),
+  cityName: z.string(),
+  countryCode: z.string(),
+  timezone: z.string().optional(),
+  score: z.number(),
+});
+
+export const LocationLookupParamsSchema = z.object({
+  term: z.string().trim().min(1).describe('City, airport or code to resolve, e.g. "Seoul", "NYC", "Incheon"'),
+  limit: z.coerce.number().int().min(1).max(50).optional().describe("Maximum number of results (default 5)"),
+  types: z.array(LocationTypeSchema).optional().describe("Restrict to AIRPORT and/or CITY results"),
+});
+
+export const LocationLookupResultSchema = z.object({
+  term: z.string(),
+  source: z.enum(["offline", "amadeus"]),
+  locations: z.array(LocationSchema),
+});
+
+export const JsonRpcRequestSchema = z.object({
+  jsonrpc: z.literal("2.0"),
+  id: z.union([z.string(), z.number()]).optional(),
+  method: z.string(),
+  params: z.record(z.any()).optional(),
 });
 
 export const MCPRequestSchema = z.object({
@@ -33,6 +605,12 @@ export const MCPRequestSchema = z.object({
   payload: z.record(z.any()),
 });
 
+export const ErrorPayloadSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.unknown().optional(),
+});
+
 export const MCPResponseSchema = z.object({
   messageId: z.string(),
   sessionId: z.string(),
@@ -40,12 +618,7 @@ export const MCPResponseSchema = z.object({
   action: z.enum(["result", "update"]),
   result: z.record(z.any()),
   metadata: z.record(z.any()).optional(),
-  error: z
-    .object({
-      code: z.string(),
-      message: z.string(),
-    })
-    .optional(),
+  error: ErrorPayloadSchema.optional(),
 });
 
 export type MCPRequest = z.infer<typeof MCPRequestSchema>;
@@ -0,0 +1,75 @@
+// mcp-flight-server/src/searchCache.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createMemoryCacheStore, createSearchCache, searchCacheKey } from "./searchCache.js";
+
+// 직접 resolve 할 수 있는 로더
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => (resolve = done));
+  return { promise, resolve };
+}
+
+describe("검색 캐시", () => {
+  it("동시에 들어온 같은 키는 로더를 한 번만 호출 (coalescing)", async () => {
+    const cache = createSearchCache<string>(createMemoryCacheStore(), 60000);
+    const pending = deferred<string>();
+    let calls = 0;
+    const loader = () => {
+      calls++;
+      return pending.promise;
+    };
+
+    const first = cache.getOrLoad("k", loader);
+    const second = cache.getOrLoad("k", loader);
+    pending.resolve("value");
+
+    const results = await Promise.all([first, second]);
+    assert.equal(calls, 1);
+    assert.deepEqual(results.map((result) => [result.status, result.value]), [["miss", "value"], ["coalesced", "value"]]);
+    assert.equal((await cache.getOrLoad("k", loader)).status, "hit");
+  });
+
+  it("로더가 실패하면 캐시하지 않고 기다리던 요청도 같은 에러", async () => {
+    const cache = createSearchCache<string>(createMemoryCacheStore(), 60000);
+    const pending = deferred<string>();
+    const failing = () => pending.promise.then(() => Promise.reject(new Error("upstream")));
+
+    const first = cache.getOrLoad("k", failing);
+    const second = cache.getOrLoad("k", failing);
+    pending.resolve("ignored");
+    await assert.rejects(first, /upstream/);
+    await assert.rejects(second, /upstream/);
+    assert.equal((await cache.getOrLoad("k", async () => "fresh")).status, "miss");
+  });
+
+  it("ttl 0 이면 저장하지 않고 병합만 (bypass)", async () => {
+    const cache = createSearchCache<string>(createMemoryCacheStore(), 0);
+    let calls = 0;
+    const loader = async () => `v${++calls}`;
+    assert.equal((await cache.getOrLoad("k", loader)).status, "bypass");
+    assert.equal((await cache.getOrLoad("k", loader)).value, "v2");
+  });
+
+  it("메모리 저장소는 최대 개수를 넘으면 가장 오래 안 쓴 항목부터 삭제 (LRU)", async () => {
+    const store = createMemoryCacheStore<string>(2);
+    await store.set("a", "A", 60000);
+    await store.set("b", "B", 60000);
+    await store.get("a");
+    await store.set("c", "C", 60000);
+    assert.equal(await store.get("b"), undefined);
+    assert.equal((await store.get("a"))?.value, "A");
+    assert.equal((await store.get("c"))?.value, "C");
+  });
+
+  it("같은 의미의 검색은 같은 키 (기본값, 항공사 순서, 페이지 옵션 무시)", () => {
+    const base = { origin: "ICN", destination: "NRT", departDate: "2030-03-15" };
+    assert.equal(
+      searchCacheKey("mock", { ...base, includedAirlineCodes: ["KE", "OZ"], sort: "best", pageSize: 5 }),
+      searchCacheKey("mock", { ...base, adults: 1, currency: "USD", includedAirlineCodes: ["OZ", "KE"] })
+    );
+    assert.notEqual(searchCacheKey("mock", base), searchCacheKey("amadeus", base));
+    assert.notEqual(searchCacheKey("mock", base), searchCacheKey("mock", { ...base, adults: 2 }));
+  });
+});
@@ -0,0 +1,121 @@
+// mcp-flight-server/src/searchCache.ts
+
+import type { SearchFlightParams } from "./types.js";
+
+/**
+ * 캐시 저장소 인터페이스 (기본은 인메모리, Redis 등으로 교체 가능)
+ */
+export interface CacheStore<T> {
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export type CacheStatus = "hit" | "miss" | "coalesced" | "bypass";
+
+export interface CacheLookup<T> {
+  value: T;
+  status: CacheStatus;
+  storedAt: number;
+}
+
+export function createMemoryCacheStore<T>(maxEntries: number = 500): CacheStore<T> {
+  const entries = new Map<string, CacheEntry<T>>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      // LRU: 조회된 항목을 맨 뒤로
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, value, ttlMs) {
+      const now = Date.now();
+      entries.delete(key);
+      entries.set(key, { value, storedAt: now, expiresAt: now + ttlMs });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+// 공급자 호출 결과에 영향을 주지 않는 파라미터 (페이지네이션/정렬은 캐시된 결과에서 처리, 원본 응답은 항상 보관)
+const NON_CACHE_KEYS: (keyof SearchFlightParams)[] = ["sort", "pageSize", "cursor", "includeRaw"];
+
+/**
+ * 검색 파라미터 → 정규화된 캐시 키
+ * 기본값을 채우고 배열은 정렬해서 "같은 의미의 검색"이 같은 키가 되도록 함
+ */
+export function searchCacheKey(provider: string, params: SearchFlightParams): string {
+  const normalized: Record<string, unknown> = {
+    ...params,
+    adults: params.adults ?? 1,
+    currency: params.currency ?? "USD",
+    includedAirlineCodes: params.includedAirlineCodes ? [...params.includedAirlineCodes].sort() : undefined,
+    excludedAirlineCodes: params.excludedAirlineCodes ? [...params.excludedAirlineCodes].sort() : undefined,
+  };
+  for (const key of NON_CACHE_KEYS) delete normalized[key];
+
+  const entries = Object.entries(normalized)
+    .filter(([, value]) => value !== undefined && value !== false && value !== 0)
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return `${provider}:${JSON.stringify(entries)}`;
+}
+
+export interface SearchCache<T> {
+  getOrLoad(key: string, loader: () => Promise<T>): Promise<CacheLookup<T>>;
+}
+
+/**
+ * TTL 캐시 + 동일 요청 병합(coalescing)
+ * 같은 키의 요청이 동시에 들어오면 공급자 호출은 한 번만 하고 결과를 공유
+ * ttlMs 가 0 이면 저장은 하지 않고 병합만 수행
+ */
+export function createSearchCache<T>(store: CacheStore<T>, ttlMs: number): SearchCache<T> {
+  const inFlight = new Map<string, Promise<CacheLookup<T>>>();
+
+  return {
+    async getOrLoad(key, loader) {
+      if (ttlMs > 0) {
+        const cached = await store.get(key);
+        if (cached) return { value: cached.value, status: "hit", storedAt: cached.storedAt };
+      }
+
+      const pending = inFlight.get(key);
+      if (pending) {
+        const shared = await pending;
+        return { ...shared, status: "coalesced" };
+      }
+
+      const load = (async (): Promise<CacheLookup<T>> => {
+        const value = await loader();
+        if (ttlMs > 0) await store.set(key, value, ttlMs);
+        return { value, status: ttlMs > 0 ? "miss" : "bypass", storedAt: Date.now() };
+      })();
+
+      inFlight.set(key, load);
+      try {
+        return await load;
+      } finally {
+        inFlight.delete(key);
+      }
+    },
+  };
+}
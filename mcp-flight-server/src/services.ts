@@ -0,0 +1,55 @@
+// mcp-flight-server/src/services.ts
+
+import { createAmadeusClient, type AmadeusClient } from "./amadeus.js";
+import { createFlightProvider, type FlightProvider } from "./providers/index.js";
+import { createFlightSearchService, type FlightSearchService } from "./flightSearch.js";
+import { createOfferPricingService, type OfferPricingService } from "./offerPricing.js";
+import { createPriceCalendarService, type PriceCalendarService } from "./priceCalendar.js";
+import { createLocationResolver, type LocationResolver } from "./locations/resolver.js";
+import { createWatchStore } from "./watches/store.js";
+import { createNotifiers } from "./watches/notifier.js";
+import { createWatchService, type WatchService } from "./watches/watchService.js";
+import { createOrderStore } from "./orders/store.js";
+import { createOrderService, type OrderService } from "./orders/orderService.js";
+import type { FlightServerConfig } from "./config.js";
+
+export interface FlightServices {
+  amadeus: AmadeusClient;
+  flightProvider: FlightProvider;
+  // 가격 알림 스케줄러, 가격 캘린더, 가격 확인이 같은 검색 캐시/결과 스냅샷을 공유
+  flightSearch: FlightSearchService;
+  priceCalendar: PriceCalendarService;
+  offerPricing: OfferPricingService;
+  locations: LocationResolver;
+  // 스케줄러는 진입점이 start() 로 시작
+  watches: WatchService;
+  orders: OrderService;
+}
+
+/**
+ * HTTP/stdio 진입점이 공통으로 쓰는 서비스 조립 (설정은 여기서 각 서비스로 전달, 두 진입점이 같은 도구를 제공)
+ * Amadeus 클라이언트는 토큰/circuit 상태를 가지므로 공급자와 위치 검색이 하나를 공유
+ */
+export function createFlightServices(config: FlightServerConfig): FlightServices {
+  const amadeus = createAmadeusClient(config.amadeus);
+  const flightProvider = createFlightProvider(config, amadeus);
+  const flightSearch = createFlightSearchService(flightProvider, config.search);
+  const offerPricing = createOfferPricingService(flightProvider, flightSearch);
+
+  return {
+    amadeus,
+    flightProvider,
+    flightSearch,
+    priceCalendar: createPriceCalendarService(flightSearch, config.priceCalendar),
+    offerPricing,
+    locations: createLocationResolver(config, amadeus),
+    // 가격 알림 스케줄러도 같은 검색 서비스(캐시)를 사용
+    watches: createWatchService({
+      store: createWatchStore(config.watches),
+      flightSearch,
+      notifiers: createNotifiers(config.watches),
+      config: config.watches,
+    }),
+    orders: createOrderService({ store: createOrderStore(config.orders), flightProvider, offerPricing }),
+  };
+}
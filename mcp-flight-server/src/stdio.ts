@@ -0,0 +1,23 @@
+// mcp-flight-server/src/stdio.ts
+
+import { ConfigError, loadConfig } from "./config.js";
+import { createFlightServices } from "./services.js";
+import { createMcpServer } from "./mcp/server.js";
+import { createMcpTools } from "./mcp/tools.js";
+import { startStdioTransport } from "./mcp/stdioTransport.js";
+import { configureLogger, logger, logToStderr } from "./observability/logger.js";
+
+// Claude Desktop 등 로컬 MCP 클라이언트용 stdio 진입점
+logToStderr();
+
+try {
+  const config = loadConfig();
+  configureLogger(config.log);
+  const services = createFlightServices(config);
+  startStdioTransport(createMcpServer(createMcpTools(services)));
+  services.watches.start();
+  logger.info({ provider: services.flightProvider.name }, "MCP Flight Server (stdio) ready");
+} catch (err) {
+  logger.fatal(err instanceof ConfigError ? { issues: err.issues } : { err }, "MCP Flight Server (stdio) 시작 실패");
+  process.exit(1);
+}
@@ -0,0 +1,74 @@
+// mcp-flight-server/src/time.ts
+
+// ISO 8601 기간 문자열(PT13H30M, P1DT2H) → 분
+export function parseIsoDuration(duration: string | undefined): number {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/.exec(duration ?? "");
+  if (!match) return 0;
+  const [, days = "0", hours = "0", minutes = "0"] = match;
+  return Number(days) * 1440 + Number(hours) * 60 + Number(minutes);
+}
+
+// 분 → ISO 8601 기간 문자열
+export function toIsoDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return `PT${hours}H${rest > 0 ? `${rest}M` : ""}`;
+}
+
+// 특정 시점에서 IANA 타임존의 UTC 오프셋(분)
+function offsetMinutes(utcMillis: number, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(utcMillis));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return Math.round((asUtc - utcMillis) / 60000);
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}:${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * 현지 시각(오프셋 없는 YYYY-MM-DDTHH:mm:ss) + 타임존 → UTC 오프셋과 UTC 시각
+ * 타임존을 모르거나 잘못된 경우 undefined
+ */
+export function resolveLocalTime(localDateTime: string, timezone: string | undefined): { utcOffset: string; atUtc: string } | undefined {
+  if (!timezone) return undefined;
+
+  const wallClock = Date.parse(`${localDateTime}Z`);
+  if (Number.isNaN(wallClock)) return undefined;
+
+  try {
+    // 오프셋은 UTC 시점에 따라 달라지므로(DST) 한 번 더 보정
+    let offset = offsetMinutes(wallClock, timezone);
+    offset = offsetMinutes(wallClock - offset * 60000, timezone);
+    return {
+      utcOffset: formatOffset(offset),
+      atUtc: new Date(wallClock - offset * 60000).toISOString(),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+// UTC 시각 → 해당 타임존의 현지 시각 (YYYY-MM-DDTHH:mm:ss), 타임존을 모르면 UTC 그대로
+export function toLocalTime(utcMillis: number, timezone: string | undefined): string {
+  const offset = timezone ? offsetMinutes(utcMillis, timezone) : 0;
+  return new Date(utcMillis + offset * 60000).toISOString().slice(0, 19);
+}
+
+// 현지 시각 → UTC epoch millis, 타임존을 모르면 UTC 로 간주
+export function localToUtcMillis(localDateTime: string, timezone: string | undefined): number {
+  const resolved = resolveLocalTime(localDateTime, timezone);
+  return Date.parse(resolved ? resolved.atUtc : `${localDateTime}Z`);
+}
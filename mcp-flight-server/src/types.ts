@@ -1,39 +1,283 @@
 // mcp-flight-server/src/types.ts
 
-// Amadeus API 관련 타입
+// 공급자 중립 항공편 모델 (api-gateway/src/types.ts 에 같은 정의가 있음)
+export type CabinClass = "ECONOMY" | "PREMIUM_ECONOMY" | "BUSINESS" | "FIRST";
+
+export interface FlightEndpoint {
+  iataCode: string;
+  terminal?: string;
+  // 현지 시각 (YYYY-MM-DDTHH:mm:ss, 오프셋 없음)
+  at: string;
+  timezone?: string;
+  utcOffset?: string;
+  atUtc?: string;
+}
+
+export interface BaggageAllowance {
+  quantity?: number;
+  weight?: number;
+  weightUnit?: string;
+}
+
+export interface FlightSegment {
+  id: string;
+  carrierCode: string;
+  carrierName?: string;
+  flightNumber: string;
+  operatingCarrierCode?: string;
+  aircraft?: string;
+  departure: FlightEndpoint;
+  arrival: FlightEndpoint;
+  duration: string;
+  durationMinutes: number;
+  cabin?: CabinClass;
+  bookingClass?: string;
+  fareBasis?: string;
+  fareBrand?: string;
+  checkedBags?: BaggageAllowance;
+}
+
+export interface FlightItinerary {
+  duration: string;
+  durationMinutes: number;
+  stops: number;
+  segments: FlightSegment[];
+}
+
+export interface FlightPrice {
+  total: string;
+  base?: string;
+  currency: string;
+}
+
 export interface FlightOffer {
   id: string;
-  price: {
-    total: string;
-    currency: string;
-  };
-  itineraries: any[]; // 필요시 상세 타입 정의 가능
+  provider: string;
+  price: FlightPrice;
+  validatingCarrier?: string;
+  bookableSeats?: number;
+  lastTicketingDate?: string;
+  cabin?: CabinClass;
+  fareBrand?: string;
+  checkedBags?: BaggageAllowance;
+  itineraries: FlightItinerary[];
+  // 정렬/랭킹 결과 (ranking.ts)
+  tags?: OfferTag[];
+  score?: number;
+  // 디버깅용 공급자 원본 응답 (includeRaw 요청 시에만)
+  raw?: unknown;
 }
 
+export type OfferTag = "cheapest" | "fastest" | "best";
+
+export type SortMode = "best" | "cheapest" | "fastest" | "earliest";
+
 export interface FlightSearchResult {
   currency: string;
   items: FlightOffer[];
+  // 페이지네이션 정보 (전체 결과는 서버에 캐시되고 cursor 로 이어서 조회)
+  searchId?: string;
+  sort?: SortMode;
+  total?: number;
+  nextCursor?: string;
+}
+
+// 다구간(multi-city)/오픈조 여정의 한 구간
+export interface OriginDestination {
+  origin: string;
+  destination: string;
+  departDate: string;
 }
 
 export interface SearchFlightParams {
+  // 다구간 검색이면 첫 구간의 출발지/출발일과 마지막 구간의 도착지가 채워짐
   origin: string;
   destination: string;
   departDate: string;
   returnDate?: string;
+  // 2~6개 구간을 순서대로 (있으면 origin/destination/departDate/returnDate 대신 사용)
+  originDestinations?: OriginDestination[];
   adults?: number;
   currency?: string;
+  children?: number;
+  infants?: number;
+  travelClass?: CabinClass;
+  nonStop?: boolean;
+  maxStopovers?: number;
+  includedAirlineCodes?: string[];
+  excludedAirlineCodes?: string[];
+  maxPrice?: number;
+  maxResults?: number;
+  sort?: SortMode;
+  pageSize?: number;
+  cursor?: string;
+  includeRaw?: boolean;
+}
+
+// 공급자가 직접 처리하지 못한 조건은 서버에서 후처리 필터링
+export type SearchFilterKey =
+  | "travelClass"
+  | "nonStop"
+  | "maxStopovers"
+  | "includedAirlineCodes"
+  | "excludedAirlineCodes"
+  | "maxPrice"
+  | "maxResults";
+
+// Amadeus API 관련 타입 (Flight Offers Search v2 응답 중 사용하는 필드만)
+export interface AmadeusSegment {
+  id: string;
+  departure: { iataCode: string; terminal?: string; at: string };
+  arrival: { iataCode: string; terminal?: string; at: string };
+  carrierCode: string;
+  number: string;
+  operating?: { carrierCode?: string };
+  aircraft?: { code?: string };
+  duration?: string;
+  numberOfStops?: number;
+}
+
+export interface AmadeusFareDetail {
+  segmentId: string;
+  cabin?: string;
+  fareBasis?: string;
+  brandedFare?: string;
+  brandedFareLabel?: string;
+  class?: string;
+  includedCheckedBags?: BaggageAllowance;
+}
+
+export interface AmadeusFareRules {
+  currency?: string;
+  rules?: { category: string; maxPenaltyAmount?: string; notApplicable?: boolean }[];
+}
+
+export interface AmadeusFlightOffer {
+  type?: string;
+  id: string;
+  source?: string;
+  lastTicketingDate?: string;
+  numberOfBookableSeats?: number;
+  validatingAirlineCodes?: string[];
+  itineraries: { duration?: string; segments: AmadeusSegment[] }[];
+  price: { currency: string; total: string; base?: string; grandTotal?: string };
+  fareRules?: AmadeusFareRules;
+  travelerPricings?: {
+    travelerId: string;
+    travelerType?: string;
+    fareDetailsBySegment?: AmadeusFareDetail[];
+  }[];
+}
+
+export interface AmadeusDictionaries {
+  carriers?: Record<string, string>;
+  aircraft?: Record<string, string>;
+}
+
+// Flight Offers Search v2 POST 요청 본문 (다구간 검색에 사용하는 필드만)
+export interface AmadeusFlightSearchBody {
+  currencyCode: string;
+  originDestinations: {
+    id: string;
+    originLocationCode: string;
+    destinationLocationCode: string;
+    departureDateTimeRange: { date: string };
+  }[];
+  travelers: { id: string; travelerType: "ADULT" | "CHILD" | "HELD_INFANT"; associatedAdultId?: string }[];
+  sources: string[];
+  searchCriteria: {
+    maxFlightOffers: number;
+    maxPrice?: number;
+    flightFilters?: {
+      cabinRestrictions?: { cabin: CabinClass; coverage: "MOST_SEGMENTS"; originDestinationIds: string[] }[];
+      carrierRestrictions?: { includedCarrierCodes?: string[]; excludedCarrierCodes?: string[] };
+      connectionRestriction?: { maxNumberOfConnections: number };
+    };
+  };
 }
 
 export interface AmadeusFlightSearchResponse {
-  data?: FlightOffer[];
-  // 필요하면 다른 필드들도 추가 가능
+  data?: AmadeusFlightOffer[];
+  dictionaries?: AmadeusDictionaries;
+}
+
+// Flight Offers Price v1 응답 (include=detailed-fare-rules)
+export interface AmadeusDetailedFareRule {
+  fareBasis?: string;
+  name?: string;
+  fareNotes?: { descriptions?: { descriptionType: string; text: string }[] };
+}
+
+export interface AmadeusFlightPriceResponse {
+  data?: { type?: string; flightOffers?: AmadeusFlightOffer[] };
+  included?: { "detailed-fare-rules"?: Record<string, AmadeusDetailedFareRule> };
+  dictionaries?: AmadeusDictionaries;
+  warnings?: { code?: number; title?: string; detail?: string }[];
+}
+
+// 위치 검색 관련 타입
+export type LocationType = "AIRPORT" | "CITY";
+
+export interface Location {
+  type: LocationType;
+  iataCode: string;
+  name: string;
+  cityCode: string;
+  cityName: string;
+  countryCode: string;
+  timezone?: string;
+  score: number;
+}
+
+export interface LocationLookupParams {
+  term: string;
+  limit?: number;
+  types?: LocationType[];
 }
 
-// MCP 프로토콜 관련 타입
+export interface LocationLookupResult {
+  term: string;
+  source: "offline" | "amadeus";
+  locations: Location[];
+}
+
+// Flight Create Orders v1 응답 (사용하는 필드만)
+export interface AmadeusFlightOrderResponse {
+  data?: {
+    id: string;
+    associatedRecords?: { reference: string; originSystemCode?: string }[];
+    flightOffers?: AmadeusFlightOffer[];
+  };
+}
+
+// MCP 프로토콜 관련 타입 (JSON-RPC 2.0, https://modelcontextprotocol.io)
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId | null;
+  result?: Record<string, any>;
+  error?: JsonRpcError;
+}
+
+// 레거시 MCP envelope 타입 ({ service, action: "invoke" }) - 호환 shim에서만 사용
 export interface MCPRequest {
   messageId: string;
   sessionId: string;
-  service: "flight_search" | "llm" | string;
+  service: "flight_search" | "location_lookup" | "llm" | string;
   action: "invoke" | "update";
   payload: Record<string, any>;
 }
@@ -45,7 +289,253 @@ export interface MCPResponse {
   action: "result" | "update";
   result: Record<string, any>;
   metadata?: Record<string, any>;
-  error?: { code: string; message: string };
+  error?: { code: string; message: string; details?: unknown };
 }
 
 
+
+// 가격 알림(watch) 관련 타입
+export type WatchStatus = "active" | "expired";
+
+export interface PricePoint {
+  checkedAt: string;
+  // 조회 실패 시 price 없이 error 만 기록
+  price?: number;
+  currency?: string;
+  offerId?: string;
+  carrier?: string;
+  error?: string;
+}
+
+export interface WatchNotifySettings {
+  // 지정하지 않으면 WATCH_WEBHOOK_URL
+  webhookUrl?: string;
+}
+
+export interface PriceWatch {
+  id: string;
+  search: SearchFlightParams;
+  targetPrice: number;
+  currency: string;
+  intervalMinutes: number;
+  status: WatchStatus;
+  notify?: WatchNotifySettings;
+  // 만든 테넌트 (게이트웨이가 지정한 경우, 같은 테넌트만 조회/삭제)
+  tenant?: string;
+  createdAt: string;
+  updatedAt: string;
+  lastCheckedAt?: string;
+  nextCheckAt: string;
+  lowestPrice?: number;
+  // 같은 가격대로 알림이 반복되지 않도록 마지막 알림 가격 기록
+  lastAlertedPrice?: number;
+  lastError?: string;
+  history: PricePoint[];
+}
+
+export interface PriceAlert {
+  watchId: string;
+  search: SearchFlightParams;
+  targetPrice: number;
+  price: number;
+  currency: string;
+  previousLowest?: number;
+  offerId?: string;
+  carrier?: string;
+  checkedAt: string;
+}
+
+// 가격 캘린더 검색: 날짜 대신 출발일 범위/±N일, 귀국일 ±N일 또는 여행 기간(박) 범위를 받음
+export interface PriceCalendarParams
+    extends Omit<
+    SearchFlightParams,
+    "departDate" | "returnDate" | "originDestinations" | "sort" | "pageSize" | "cursor" | "includeRaw" | "maxResults"
+  > {
+  departDate?: string;
+  departWindowDays?: number;
+  departFrom?: string;
+  departTo?: string;
+  returnDate?: string;
+  returnWindowDays?: number;
+  tripLengthMin?: number;
+  tripLengthMax?: number;
+}
+
+export interface PriceCalendarCell {
+  departDate: string;
+  returnDate?: string;
+  // 왕복일 때 여행 기간 (박)
+  tripLength?: number;
+  price?: number;
+  offerId?: string;
+  carrier?: string;
+  stops?: number;
+  durationMinutes?: number;
+  // 결과 없음/공급자 오류 코드 (이 날짜 조합만 실패)
+  error?: string;
+}
+
+export interface PriceCalendar {
+  origin: string;
+  destination: string;
+  currency: string;
+  // 행렬의 축 (왕복이면 returnDates 도 포함)
+  departDates: string[];
+  returnDates?: string[];
+  cells: PriceCalendarCell[];
+  cheapest?: PriceCalendarCell;
+  searched: number;
+  failed: number;
+}
+
+// 항공편 가격 확인(pricing) 관련 타입
+export interface PriceOfferParams {
+  searchId: string;
+  offerId: string;
+}
+
+export interface FareRule {
+  // REFUND, EXCHANGE, REVALIDATION 또는 공급자의 상세 규정 분류 (PENALTIES 등)
+  category: string;
+  // 정형 규정에만 있음 (상세 규정 원문은 description 만)
+  allowed?: boolean;
+  // 허용될 때 최대 수수료 (offer 통화)
+  maxPenalty?: string;
+  description?: string;
+}
+
+// 공급자가 다시 확인한 항공편과 운임 규정
+export interface PricedOffer {
+  offer: FlightOffer;
+  fareRules: FareRule[];
+}
+
+export interface SegmentBaggage {
+  segmentId: string;
+  route: string;
+  checkedBags?: BaggageAllowance;
+}
+
+export type OfferPricingStatus = "confirmed" | "price_changed" | "unavailable";
+
+export interface OfferPricing {
+  searchId: string;
+  offerId: string;
+  status: OfferPricingStatus;
+  // 확인된 항공편 (가격/좌석 수/발권 기한이 갱신됨)
+  offer: FlightOffer;
+  previousPrice: FlightPrice;
+  // 확인 가격 - 검색 당시 가격 (같으면 0)
+  priceDifference: number;
+  // 좌석이 필요한 승객 수 (성인 + 소아, 유아는 보호자 좌석 사용)
+  seatsRequired: number;
+  seatsAvailable: boolean;
+  fareRules: FareRule[];
+  baggage: SegmentBaggage[];
+  pricedAt: string;
+}
+
+// 예약(order) 관련 타입
+export type TravelerType = "ADULT" | "CHILD" | "HELD_INFANT";
+
+export interface TravelerDocument {
+  // 여권 번호 (저장된 예약에서는 마지막 4자리만 남김)
+  number: string;
+  expiryDate: string;
+  issuanceCountry: string;
+  nationality: string;
+}
+
+export interface TravelerInput {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  gender: "MALE" | "FEMALE";
+  passport?: TravelerDocument;
+}
+
+export interface Traveler extends TravelerInput {
+  // offer 의 travelerPricings 순서 (성인 → 소아 → 유아)
+  id: string;
+  // 첫 출발일 기준 나이로 결정
+  travelerType: TravelerType;
+}
+
+export interface BookingContact {
+  email: string;
+  phone: { countryCallingCode: string; number: string };
+}
+
+export interface OrderRequestParams {
+  searchId: string;
+  offerId: string;
+  travelers: TravelerInput[];
+  contact: BookingContact;
+  // 사용자가 확인한 총액 (없으면 검색 당시 가격) - 가격 확인 결과가 다르면 PRICE_CHANGED
+  expectedTotal?: number;
+}
+
+export interface CreateOrderParams extends OrderRequestParams {
+  // 같은 키로 다시 요청하면 새로 예약하지 않고 기존 예약을 반환 (테넌트별로 구분)
+  idempotencyKey?: string;
+  // 예약한 테넌트 (게이트웨이가 지정한 경우, 같은 테넌트만 조회/취소)
+  tenant?: string;
+}
+
+// 예약 전 확인 결과 (아무것도 예약하지 않음)
+export interface OrderValidation {
+  pricing: OfferPricing;
+  travelers: Traveler[];
+}
+
+// 공급자 예약 결과
+export interface ProviderOrder {
+  providerOrderId: string;
+  // 항공사 예약 번호 (PNR / record locator)
+  pnr: string;
+}
+
+export type OrderStatus = "confirmed" | "cancelled";
+
+export interface FlightOrder {
+  id: string;
+  status: OrderStatus;
+  provider: string;
+  providerOrderId: string;
+  pnr: string;
+  searchId: string;
+  offerId: string;
+  offer: FlightOffer;
+  travelers: Traveler[];
+  contact: BookingContact;
+  idempotencyKey?: string;
+  tenant?: string;
+  createdAt: string;
+  updatedAt: string;
+  cancelledAt?: string;
+}
+
+// ok: 정상, degraded: 제한적으로 동작 (폴백/circuit open 등), down: 사용 불가
+export type HealthStatus = "ok" | "degraded" | "down";
+
+// 의존성(공급자, 플라이트 서버, LLM 등) 하나의 마지막 점검 결과
+export interface DependencyHealth {
+  name: string;
+  status: HealthStatus;
+  // true 면 down 일 때 서비스 전체가 down (readiness 503)
+  critical: boolean;
+  latencyMs: number;
+  checkedAt: string;
+  details?: Record<string, unknown>;
+  // 마지막 실패 (지금은 정상이어도 유지)
+  lastError?: string;
+  lastErrorAt?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  service: string;
+  timestamp: string;
+  uptimeSeconds: number;
+  dependencies: DependencyHealth[];
+}
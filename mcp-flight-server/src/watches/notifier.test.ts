@@ -0,0 +1,46 @@
+// mcp-flight-server/src/watches/notifier.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { assertPublicWebhookUrl, createWebhookNotifier } from "./notifier.js";
+import { FlightServerError } from "../errors.js";
+import type { PriceAlert, PriceWatch } from "../types.js";
+
+function isInvalidParams(error: unknown): boolean {
+  return error instanceof FlightServerError && error.code === "INVALID_PARAMS";
+}
+
+describe("webhookUrl 검증", () => {
+  it("https 가 아니면 거부", async () => {
+    await assert.rejects(assertPublicWebhookUrl("http://example.com/hook"), /https URL/);
+    await assert.rejects(assertPublicWebhookUrl("ftp://example.com/hook"), /https URL/);
+  });
+
+  it("루프백/사설망/링크 로컬(메타데이터)/IPv4-mapped 주소는 거부", async () => {
+    for (const url of [
+      "https://127.0.0.1:8700/api/watches",
+      "https://localhost/hook",
+      "https://10.0.0.5/hook",
+      "https://172.20.1.1/hook",
+      "https://192.168.0.10/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://0.0.0.0/hook",
+      "https://[::1]/hook",
+      "https://[fd00:ec2::254]/hook",
+      "https://[::ffff:127.0.0.1]/hook",
+    ]) {
+      await assert.rejects(assertPublicWebhookUrl(url), isInvalidParams, url);
+    }
+  });
+
+  it("공개 주소의 https URL 은 허용", async () => {
+    await assertPublicWebhookUrl("https://93.184.216.34/hooks/fares");
+    await assertPublicWebhookUrl("https://[2606:2800:220:1::]/hooks/fares");
+  });
+
+  it("watch 별 URL 이 내부 주소면 보내지 않고 실패", async () => {
+    const notifier = createWebhookNotifier(undefined, 1000);
+    const watch = { id: "w1", notify: { webhookUrl: "https://127.0.0.1:1/hook" } } as PriceWatch;
+    await assert.rejects(notifier.notify({ watchId: "w1" } as PriceAlert, watch), isInvalidParams);
+  });
+});
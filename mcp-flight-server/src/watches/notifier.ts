@@ -0,0 +1,128 @@
+// mcp-flight-server/src/watches/notifier.ts
+
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { resilientFetch } from "../resilience.js";
+import { FlightServerError } from "../errors.js";
+import { logger } from "../observability/logger.js";
+import type { PriceAlert, PriceWatch } from "../types.js";
+import type { WatchConfig } from "../config.js";
+
+/**
+ * 가격 알림 전송 채널 (webhook, 로그 등)
+ * 새 채널(이메일, 푸시 등)은 이 인터페이스를 구현해서 createNotifiers 에 추가
+ */
+export interface Notifier {
+  name: string;
+  notify(alert: PriceAlert, watch: PriceWatch): Promise<void>;
+}
+
+const WEBHOOK_RETRY = { retries: 2, baseDelayMs: 1000, maxDelayMs: 10000 };
+
+// 사용자가 지정한 webhook 이 가리키면 안 되는 주소 (루프백, 사설망, 링크 로컬/클라우드 메타데이터, 멀티캐스트 등)
+const INTERNAL_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * watch 별 webhookUrl 검증: https 이고 호스트가 내부 주소로 resolve 되지 않아야 함 (서버가 내부망으로 요청을 보내지 않도록)
+ * 서버 설정의 기본 URL(WATCH_WEBHOOK_URL) 은 운영자가 정하므로 검사하지 않음
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new FlightServerError("INVALID_PARAMS", `webhookUrl 형식이 올바르지 않습니다: ${url}`);
+  }
+  if (parsed.protocol !== "https:") {
+    throw new FlightServerError("INVALID_PARAMS", "webhookUrl 은 https URL 이어야 합니다");
+  }
+
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: { address: string; family: number }[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true, verbatim: true });
+  } catch {
+    throw new FlightServerError("INVALID_PARAMS", `webhookUrl 호스트를 찾을 수 없습니다: ${parsed.hostname}`);
+  }
+  if (addresses.length === 0 || addresses.some(({ address, family }) => INTERNAL_ADDRESSES.check(address, family === 6 ? "ipv6" : "ipv4"))) {
+    throw new FlightServerError("INVALID_PARAMS", `webhookUrl 은 내부 주소를 가리킬 수 없습니다: ${parsed.hostname}`);
+  }
+}
+
+/**
+ * watch 별 webhookUrl (없으면 기본 URL) 로 JSON POST
+ * 둘 다 없으면 건너뜀, watch 별 URL 은 보내기 직전에 다시 검증 (생성 후 DNS 가 바뀐 경우)
+ */
+export function createWebhookNotifier(defaultUrl: string | undefined, timeoutMs: number): Notifier {
+  return {
+    name: "webhook",
+    async notify(alert, watch) {
+      const url = watch.notify?.webhookUrl ?? defaultUrl;
+      if (!url) return;
+      if (watch.notify?.webhookUrl) {
+        await assertPublicWebhookUrl(url);
+      }
+
+      const res = await resilientFetch(
+        url,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ type: "price_alert", ...alert }),
+        },
+        { operation: "Webhook", timeoutMs, retry: WEBHOOK_RETRY }
+      );
+      await res.body?.cancel();
+      if (!res.ok) {
+        throw new Error(`webhook 응답 오류: HTTP ${res.status}`);
+      }
+    },
+  };
+}
+
+export function createLogNotifier(): Notifier {
+  return {
+    name: "log",
+    async notify(alert) {
+      logger.info(
+        {
+          watchId: alert.watchId,
+          route: `${alert.search.origin}-${alert.search.destination}`,
+          departDate: alert.search.departDate,
+          price: alert.price,
+          currency: alert.currency,
+          targetPrice: alert.targetPrice,
+        },
+        "가격 알림"
+      );
+    },
+  };
+}
+
+// watches.notifiers=webhook,log (기본값 둘 다)
+export function createNotifiers({ notifiers, webhookUrl, webhookTimeoutMs }: WatchConfig): Notifier[] {
+  return notifiers.map((name) => (name === "webhook" ? createWebhookNotifier(webhookUrl, webhookTimeoutMs) : createLogNotifier()));
+}
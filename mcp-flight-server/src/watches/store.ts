@@ -0,0 +1,105 @@
+// mcp-flight-server/src/watches/store.ts
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { PriceWatch } from "../types.js";
+import type { WatchConfig } from "../config.js";
+import { logger } from "../observability/logger.js";
+
+/**
+ * 가격 알림 저장소 인터페이스 (인메모리 / 파일)
+ * 가격 기록(history)은 watch 레코드 안에 함께 저장
+ */
+export interface WatchStore {
+  kind: "memory" | "file";
+  list(): Promise<PriceWatch[]>;
+  get(id: string): Promise<PriceWatch | undefined>;
+  save(watch: PriceWatch): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+// 파일 이름으로 쓰이므로 경로 문자가 섞인 id 는 거부
+const WATCH_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+export function createMemoryWatchStore(): WatchStore {
+  const watches = new Map<string, PriceWatch>();
+
+  return {
+    kind: "memory",
+    async list() {
+      return [...watches.values()].map((watch) => structuredClone(watch));
+    },
+    async get(id) {
+      const watch = watches.get(id);
+      return watch ? structuredClone(watch) : undefined;
+    },
+    async save(watch) {
+      watches.set(watch.id, structuredClone(watch));
+    },
+    async delete(id) {
+      return watches.delete(id);
+    },
+  };
+}
+
+/**
+ * watch 하나를 JSON 파일 하나로 저장 (재시작 후에도 스케줄 유지)
+ * 임시 파일에 쓴 뒤 rename 해서 쓰는 도중 읽어도 깨진 파일이 보이지 않도록 함
+ */
+export function createFileWatchStore(directory: string): WatchStore {
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+  const ready = mkdir(directory, { recursive: true });
+
+  const read = async (id: string): Promise<PriceWatch | undefined> => {
+    try {
+      return JSON.parse(await readFile(fileFor(id), "utf8")) as PriceWatch;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return {
+    kind: "file",
+    async list() {
+      await ready;
+      const ids = (await readdir(directory)).filter((name) => name.endsWith(".json")).map((name) => name.slice(0, -".json".length));
+      const watches = await Promise.all(ids.filter((id) => WATCH_ID_PATTERN.test(id)).map(read));
+      return watches.filter((watch): watch is PriceWatch => !!watch);
+    },
+    async get(id) {
+      if (!WATCH_ID_PATTERN.test(id)) return undefined;
+      await ready;
+      return read(id);
+    },
+    async save(watch) {
+      if (!WATCH_ID_PATTERN.test(watch.id)) {
+        throw new Error(`잘못된 watch id: ${watch.id}`);
+      }
+      await ready;
+      const temp = `${fileFor(watch.id)}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(watch), "utf8");
+      await rename(temp, fileFor(watch.id));
+    },
+    async delete(id) {
+      if (!WATCH_ID_PATTERN.test(id)) return false;
+      await ready;
+      try {
+        await rm(fileFor(id));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+// watches.store=memory | file (기본값 file: 알림은 재시작 후에도 유지되어야 함)
+export function createWatchStore({ store, dir }: Pick<WatchConfig, "store" | "dir">): WatchStore {
+  if (store === "file") {
+    const directory = path.resolve(dir);
+    logger.info({ store: "file", directory }, "가격 알림 저장소");
+    return createFileWatchStore(directory);
+  }
+  logger.info({ store: "memory" }, "가격 알림 저장소");
+  return createMemoryWatchStore();
+}
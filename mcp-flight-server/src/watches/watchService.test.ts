@@ -0,0 +1,40 @@
+// mcp-flight-server/src/watches/watchService.test.ts
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createWatchService } from "./watchService.js";
+import { createMemoryWatchStore } from "./store.js";
+import { createFlightSearchService } from "../flightSearch.js";
+import { createMockFlightProvider } from "../providers/mockProvider.js";
+import { FlightServerError } from "../errors.js";
+import { configureLogger } from "../observability/logger.js";
+import type { SearchFlightParams } from "../types.js";
+
+configureLogger({ level: "silent" });
+
+const ROUTE: SearchFlightParams = { origin: "ICN", destination: "NRT", departDate: "2030-03-15", adults: 1 };
+
+function setup() {
+  const flightSearch = createFlightSearchService(createMockFlightProvider(), { cacheTtlSeconds: 300, cacheMaxEntries: 10, resultTtlSeconds: 900 });
+  return createWatchService({ store: createMemoryWatchStore(), flightSearch, notifiers: [], config: { intervalMinutes: 60, tickSeconds: 60 } });
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof FlightServerError && error.code === "NOT_FOUND";
+}
+
+describe("가격 알림 서비스", () => {
+  it("테넌트를 지정하면 다른 테넌트의 watch 는 조회/검사/삭제할 수 없음", async () => {
+    const watches = setup();
+    const watch = await watches.create({ search: ROUTE, targetPrice: 100, tenant: "acme" });
+
+    assert.deepEqual((await watches.list("other")).map((summary) => summary.id), []);
+    await assert.rejects(watches.get(watch.id, "other"), isNotFound);
+    await assert.rejects(watches.check(watch.id, "other"), isNotFound);
+    await assert.rejects(watches.delete(watch.id, "other"), isNotFound);
+    assert.equal((await watches.get(watch.id, "acme")).history.length, 1);
+
+    assert.equal((await watches.check(watch.id, "acme")).history.length, 2);
+    await watches.delete(watch.id, "acme");
+  });
+});
@@ -0,0 +1,236 @@
+// mcp-flight-server/src/watches/watchService.ts
+
+import { randomUUID } from "node:crypto";
+import { FlightServerError } from "../errors.js";
+import { logger } from "../observability/logger.js";
+import type { WatchConfig } from "../config.js";
+import type { FlightSearchService } from "../flightSearch.js";
+import { assertPublicWebhookUrl, type Notifier } from "./notifier.js";
+import type { WatchStore } from "./store.js";
+import type { PriceAlert, PricePoint, PriceWatch, SearchFlightParams } from "../types.js";
+
+// watch 하나에 보관하는 가격 기록 수 (오래된 것부터 삭제)
+const MAX_HISTORY_POINTS = 500;
+
+export interface CreateWatchInput {
+  search: SearchFlightParams;
+  targetPrice: number;
+  intervalMinutes?: number;
+  webhookUrl?: string;
+  tenant?: string;
+}
+
+export type WatchSummary = Omit<PriceWatch, "history">;
+
+export interface WatchService {
+  create(input: CreateWatchInput): Promise<PriceWatch>;
+  // tenant 를 지정하면 그 테넌트가 만든 watch 만 (다른 테넌트의 watch 는 NOT_FOUND)
+  list(tenant?: string): Promise<WatchSummary[]>;
+  get(id: string, tenant?: string): Promise<PriceWatch>;
+  delete(id: string, tenant?: string): Promise<void>;
+  // 예약 시각과 관계없이 바로 검색해서 가격 기록/알림
+  check(id: string, tenant?: string): Promise<PriceWatch>;
+  start(): void;
+  stop(): void;
+}
+
+export interface WatchServiceDeps {
+  store: WatchStore;
+  flightSearch: FlightSearchService;
+  notifiers: Notifier[];
+  // intervalMinutes: watch 를 만들 때 주기를 지정하지 않으면 사용, tickSeconds: 예약된 검사가 있는지 확인하는 주기
+  config: Pick<WatchConfig, "intervalMinutes" | "tickSeconds">;
+}
+
+// 검색 결과와 관계없는 페이지네이션/디버깅 파라미터는 저장하지 않음
+function watchedSearch({ sort, pageSize, cursor, includeRaw, maxResults, ...search }: SearchFlightParams): SearchFlightParams {
+  return search;
+}
+
+function visibleTo(watch: PriceWatch, tenant?: string): boolean {
+  return !tenant || watch.tenant === tenant;
+}
+
+function summarize({ history, ...watch }: PriceWatch): WatchSummary {
+  return watch;
+}
+
+/**
+ * 가격 알림 서비스
+ * 스케줄러가 주기적으로 검색을 다시 실행해서 최저가를 기록하고,
+ * 최저가가 목표가 이하로 내려오면 notifier 로 알림 (같은 가격대에서는 한 번만, 더 내려가면 다시)
+ */
+export function createWatchService({ store, flightSearch, notifiers, config }: WatchServiceDeps): WatchService {
+  const inFlight = new Map<string, Promise<PriceWatch>>();
+  let timer: NodeJS.Timeout | undefined;
+  let ticking = false;
+
+  const load = async (id: string, tenant?: string): Promise<PriceWatch> => {
+    const watch = await store.get(id);
+    if (!watch || !visibleTo(watch, tenant)) {
+      throw new FlightServerError("NOT_FOUND", `가격 알림을 찾을 수 없습니다: ${id}`);
+    }
+    return watch;
+  };
+
+  const sendAlert = async (alert: PriceAlert, watch: PriceWatch) => {
+    const results = await Promise.allSettled(notifiers.map((notifier) => notifier.notify(alert, watch)));
+    results.forEach((result, index) => {
+      if (result.status === "rejected") {
+        logger.error({ err: result.reason, notifier: notifiers[index].name, watchId: watch.id }, "가격 알림 전송 실패");
+      }
+    });
+  };
+
+  const runCheck = async (watch: PriceWatch): Promise<PriceWatch> => {
+    const now = new Date();
+    const checkedAt = now.toISOString();
+
+    // 출발일이 지난 노선은 더 검사하지 않음
+    if (watch.search.departDate < checkedAt.slice(0, 10)) {
+      watch.status = "expired";
+      watch.updatedAt = checkedAt;
+      await store.save(watch);
+      logger.info({ watchId: watch.id }, "가격 알림 만료");
+      return watch;
+    }
+
+    let point: PricePoint;
+    try {
+      const { result } = await flightSearch.search({ ...watch.search, sort: "cheapest", pageSize: 1 });
+      const cheapest = result.items[0];
+      point = {
+        checkedAt,
+        price: Number(cheapest.price.total),
+        currency: cheapest.price.currency,
+        offerId: cheapest.id,
+        carrier: cheapest.itineraries[0]?.segments[0]?.carrierName ?? cheapest.validatingCarrier,
+      };
+    } catch (err) {
+      // 결과 없음/공급자 장애도 기록해서 history 에서 확인할 수 있게 함
+      point = { checkedAt, error: err instanceof FlightServerError ? `${err.code}: ${err.message}` : String(err) };
+    }
+
+    const previousLowest = watch.lowestPrice;
+    watch.history = [...watch.history, point].slice(-MAX_HISTORY_POINTS);
+    watch.lastCheckedAt = checkedAt;
+    watch.nextCheckAt = new Date(now.getTime() + watch.intervalMinutes * 60 * 1000).toISOString();
+    watch.updatedAt = checkedAt;
+    watch.lastError = point.error;
+
+    if (point.price !== undefined) {
+      watch.lowestPrice = previousLowest === undefined ? point.price : Math.min(previousLowest, point.price);
+
+      if (point.price <= watch.targetPrice && (watch.lastAlertedPrice === undefined || point.price < watch.lastAlertedPrice)) {
+        watch.lastAlertedPrice = point.price;
+        await sendAlert(
+          {
+            watchId: watch.id,
+            search: watch.search,
+            targetPrice: watch.targetPrice,
+            price: point.price,
+            currency: point.currency ?? watch.currency,
+            previousLowest,
+            offerId: point.offerId,
+            carrier: point.carrier,
+            checkedAt,
+          },
+          watch
+        );
+      } else if (point.price > watch.targetPrice) {
+        // 목표가 위로 다시 오르면 다음에 내려올 때 다시 알림
+        watch.lastAlertedPrice = undefined;
+      }
+    }
+
+    // 검사 도중 삭제된 watch 는 되살리지 않음
+    if (await store.get(watch.id)) {
+      await store.save(watch);
+    }
+    logger.info({ watchId: watch.id, price: point.price, currency: point.currency, error: point.error }, "가격 알림 확인");
+    return watch;
+  };
+
+  // 같은 watch 를 스케줄러와 수동 검사가 동시에 검사하지 않도록 진행 중인 검사를 공유
+  const checkOnce = (watch: PriceWatch): Promise<PriceWatch> => {
+    const running = inFlight.get(watch.id);
+    if (running) return running;
+    const task = runCheck(watch).finally(() => inFlight.delete(watch.id));
+    inFlight.set(watch.id, task);
+    return task;
+  };
+
+  // 예약 시각이 지난 watch 를 하나씩 검사 (공급자 호출이 몰리지 않도록 순차 실행)
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const now = new Date().toISOString();
+      const due = (await store.list()).filter((watch) => watch.status === "active" && watch.nextCheckAt <= now);
+      for (const watch of due) {
+        await checkOnce(watch).catch((err) => logger.error({ err, watchId: watch.id }, "가격 알림 확인 실패"));
+      }
+    } catch (err) {
+      logger.error({ err }, "가격 알림 목록 조회 실패");
+    } finally {
+      ticking = false;
+    }
+  };
+
+  return {
+    async create({ search, targetPrice, intervalMinutes = config.intervalMinutes, webhookUrl, tenant }) {
+      if (webhookUrl) {
+        await assertPublicWebhookUrl(webhookUrl);
+      }
+      const now = new Date().toISOString();
+      const watch: PriceWatch = {
+        id: randomUUID(),
+        search: watchedSearch(search),
+        targetPrice,
+        currency: search.currency ?? "USD",
+        intervalMinutes,
+        status: "active",
+        ...(webhookUrl ? { notify: { webhookUrl } } : {}),
+        ...(tenant ? { tenant } : {}),
+        createdAt: now,
+        updatedAt: now,
+        nextCheckAt: now,
+        history: [],
+      };
+      await store.save(watch);
+      logger.info(
+        { watchId: watch.id, route: `${search.origin}-${search.destination}`, departDate: search.departDate, targetPrice, currency: watch.currency },
+        "가격 알림 생성"
+      );
+
+      // 첫 가격은 바로 기록 (실패해도 생성은 유지되고 다음 주기에 재시도)
+      return checkOnce(watch).catch(() => watch);
+    },
+    async list(tenant) {
+      const watches = (await store.list()).filter((watch) => visibleTo(watch, tenant));
+      return watches.sort((a, b) => a.createdAt.localeCompare(b.createdAt)).map(summarize);
+    },
+    get: load,
+    async delete(id, tenant) {
+      await load(id, tenant);
+      if (!(await store.delete(id))) {
+        throw new FlightServerError("NOT_FOUND", `가격 알림을 찾을 수 없습니다: ${id}`);
+      }
+      logger.info({ watchId: id }, "가격 알림 삭제");
+    },
+    async check(id, tenant) {
+      return checkOnce(await load(id, tenant));
+    },
+    start() {
+      if (timer) return;
+      timer = setInterval(() => void tick(), config.tickSeconds * 1000);
+      timer.unref();
+      void tick();
+      logger.info({ tickSeconds: config.tickSeconds }, "가격 알림 스케줄러 시작");
+    },
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = undefined;
+    },
+  };
+}